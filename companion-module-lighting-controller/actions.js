@@ -1,6 +1,47 @@
+const { SUBMASTER_COUNT } = require('./variables.js')
+
 module.exports = {
 	getActions(self) {
 		const presetChoices = self.presets.map((p) => ({ id: p.id, label: p.name }))
+		const effectOption = {
+			type: 'dropdown',
+			label: 'Effect',
+			id: 'effectId',
+			choices: self.effects.map((e) => ({ id: e.id, label: e.name })),
+			default: self.effects.length > 0 ? self.effects[0].id : '',
+		}
+		const chaseOption = {
+			type: 'dropdown',
+			label: 'Chase',
+			id: 'chaseId',
+			choices: self.chases.map((c) => ({ id: c.id, label: c.name })),
+			default: self.chases.length > 0 ? self.chases[0].id : '',
+		}
+		const submasterOption = {
+			type: 'dropdown',
+			label: 'Submaster',
+			id: 'submaster',
+			choices: Array.from({ length: SUBMASTER_COUNT }, (_, i) => ({ id: i + 1, label: `Submaster ${i + 1}` })),
+			default: 1,
+		}
+		const channelOptions = [
+			{
+				type: 'number',
+				label: 'Universe',
+				id: 'universe',
+				default: 1,
+				min: 1,
+				max: 16,
+			},
+			{
+				type: 'number',
+				label: 'Channel',
+				id: 'channel',
+				default: 1,
+				min: 1,
+				max: 512,
+			},
+		]
 
 		return {
 			select_preset: {
@@ -28,6 +69,483 @@ module.exports = {
 					})
 				},
 			},
+			blackout: {
+				name: 'Blackout',
+				description: 'Black out the output without losing the look. Toggle restores it on the second press.',
+				options: [
+					{
+						type: 'dropdown',
+						label: 'Mode',
+						id: 'mode',
+						choices: [
+							{ id: 'toggle', label: 'Toggle' },
+							{ id: 'on', label: 'On' },
+							{ id: 'off', label: 'Off (restore)' },
+						],
+						default: 'toggle',
+					},
+					{
+						type: 'number',
+						label: 'Fade Time (ms)',
+						id: 'fadeTime',
+						default: 1000,
+						min: 0,
+						max: 60000,
+					},
+				],
+				callback: async (action) => {
+					const mode = action.options.mode
+
+					self.sendCommand({
+						action: 'blackout',
+						fadeTime: Number(action.options.fadeTime),
+						...(mode === 'on' || mode === 'off' ? { state: mode } : {}),
+					})
+				},
+			},
+			cancel_fade: {
+				name: 'Cancel Fade',
+				description: 'Stop a running fade where it is. Leave the fade ID empty to stop all fades.',
+				options: [
+					{
+						type: 'textinput',
+						label: 'Fade ID',
+						id: 'fadeId',
+						default: '',
+					},
+				],
+				callback: async (action) => {
+					const fadeId = (action.options.fadeId || '').trim()
+
+					self.sendCommand({
+						action: 'cancel_fade',
+						...(fadeId ? { fadeId } : {}),
+					})
+				},
+			},
+			complete_fade: {
+				name: 'Complete Fade',
+				description: 'Jump a running fade to its end. Leave the fade ID empty to complete all fades.',
+				options: [
+					{
+						type: 'textinput',
+						label: 'Fade ID',
+						id: 'fadeId',
+						default: '',
+					},
+				],
+				callback: async (action) => {
+					const fadeId = (action.options.fadeId || '').trim()
+
+					self.sendCommand({
+						action: 'complete_fade',
+						...(fadeId ? { fadeId } : {}),
+					})
+				},
+			},
+			playback_go: {
+				name: 'Playback: GO',
+				description: 'Fade to the next preset in the playback sequence.',
+				options: [],
+				callback: async () => {
+					self.sendCommand({ action: 'playback_go' })
+				},
+			},
+			playback_back: {
+				name: 'Playback: Back',
+				description: 'Fade back to the previous preset in the playback sequence.',
+				options: [],
+				callback: async () => {
+					self.sendCommand({ action: 'playback_back' })
+				},
+			},
+			playback_pause: {
+				name: 'Playback: Pause',
+				options: [],
+				callback: async () => {
+					self.sendCommand({ action: 'playback_pause' })
+				},
+			},
+			playback_resume: {
+				name: 'Playback: Resume',
+				options: [],
+				callback: async () => {
+					self.sendCommand({ action: 'playback_resume' })
+				},
+			},
+			playback_reverse: {
+				name: 'Playback: Reverse',
+				description: 'Turn the running GO/Back fade around.',
+				options: [],
+				callback: async () => {
+					self.sendCommand({ action: 'playback_reverse' })
+				},
+			},
+			set_crossfader: {
+				name: 'Set Crossfader',
+				options: [
+					{
+						type: 'number',
+						label: 'Position (%)',
+						id: 'value',
+						default: 0,
+						min: 0,
+						max: 100,
+					},
+				],
+				callback: async (action) => {
+					self.sendCommand({
+						action: 'crossfader',
+						value: Number(action.options.value),
+					})
+				},
+			},
+			nudge_crossfader: {
+				name: 'Nudge Crossfader',
+				description: 'Move the crossfader by a step. Use a positive step for rotate right and a negative one for rotate left.',
+				options: [
+					{
+						type: 'number',
+						label: 'Step (%)',
+						id: 'delta',
+						default: 5,
+						min: -100,
+						max: 100,
+					},
+				],
+				callback: async (action) => {
+					self.sendCommand({
+						action: 'crossfader',
+						delta: Number(action.options.delta),
+					})
+				},
+			},
+			set_submaster: {
+				name: 'Set Submaster Level',
+				options: [
+					submasterOption,
+					{
+						type: 'number',
+						label: 'Level (%)',
+						id: 'value',
+						default: 100,
+						min: 0,
+						max: 100,
+					},
+				],
+				callback: async (action) => {
+					self.sendCommand({
+						action: 'submaster',
+						submaster: Number(action.options.submaster),
+						value: Number(action.options.value),
+					})
+				},
+			},
+			nudge_submaster: {
+				name: 'Nudge Submaster',
+				description: 'Move a submaster by a step. Use a positive step for rotate right and a negative one for rotate left.',
+				options: [
+					submasterOption,
+					{
+						type: 'number',
+						label: 'Step (%)',
+						id: 'delta',
+						default: 5,
+						min: -100,
+						max: 100,
+					},
+				],
+				callback: async (action) => {
+					self.sendCommand({
+						action: 'submaster',
+						submaster: Number(action.options.submaster),
+						delta: Number(action.options.delta),
+					})
+				},
+			},
+			assign_submaster: {
+				name: 'Assign Preset to Submaster',
+				options: [
+					submasterOption,
+					{
+						type: 'dropdown',
+						label: 'Preset',
+						id: 'presetId',
+						choices: presetChoices,
+						default: presetChoices.length > 0 ? presetChoices[0].id : '',
+					},
+				],
+				callback: async (action) => {
+					const presetId = action.options.presetId
+
+					if (!presetId) {
+						self.log('warn', 'No preset selected')
+						return
+					}
+
+					self.sendCommand({
+						action: 'submaster',
+						submaster: Number(action.options.submaster),
+						id: presetId,
+					})
+				},
+			},
+			park_channel: {
+				name: 'Park Channel',
+				description: 'Hold a channel at a fixed output, ignoring recalls, fades and faders. Leave the value empty to park at the current output.',
+				options: [
+					...channelOptions,
+					{
+						type: 'textinput',
+						label: 'Value (0–255)',
+						id: 'value',
+						default: '',
+					},
+				],
+				callback: async (action) => {
+					const value = String(action.options.value).trim()
+
+					self.sendCommand({
+						action: 'park',
+						universe: Number(action.options.universe),
+						channel: Number(action.options.channel),
+						...(value !== '' ? { value: Number(value) } : {}),
+					})
+				},
+			},
+			lock_channel: {
+				name: 'Lock Channel',
+				description: 'Freeze a channel at its current programmer value.',
+				options: channelOptions,
+				callback: async (action) => {
+					self.sendCommand({
+						action: 'lock',
+						universe: Number(action.options.universe),
+						channel: Number(action.options.channel),
+					})
+				},
+			},
+			unpark_channel: {
+				name: 'Unpark Channel',
+				description: 'Release a parked or locked channel.',
+				options: channelOptions,
+				callback: async (action) => {
+					self.sendCommand({
+						action: 'unpark',
+						universe: Number(action.options.universe),
+						channel: Number(action.options.channel),
+					})
+				},
+			},
+			unpark_all: {
+				name: 'Unpark All',
+				options: [],
+				callback: async () => {
+					self.sendCommand({ action: 'unpark' })
+				},
+			},
+			effect_start: {
+				name: 'Start Effect',
+				options: [effectOption],
+				callback: async (action) => {
+					self.sendCommand({ action: 'effect_start', id: action.options.effectId })
+				},
+			},
+			effect_stop: {
+				name: 'Stop Effect',
+				options: [effectOption],
+				callback: async (action) => {
+					self.sendCommand({ action: 'effect_stop', id: action.options.effectId })
+				},
+			},
+			effect_toggle: {
+				name: 'Toggle Effect',
+				description: 'Start the effect, or stop it when it is running.',
+				options: [effectOption],
+				callback: async (action) => {
+					self.sendCommand({ action: 'effect_toggle', id: action.options.effectId })
+				},
+			},
+			effect_stop_all: {
+				name: 'Stop All Effects',
+				options: [],
+				callback: async () => {
+					self.sendCommand({ action: 'effect_stop' })
+				},
+			},
+			chase_start: {
+				name: 'Start Chase',
+				options: [chaseOption],
+				callback: async (action) => {
+					self.sendCommand({ action: 'chase_start', id: action.options.chaseId })
+				},
+			},
+			chase_stop: {
+				name: 'Stop Chase',
+				options: [chaseOption],
+				callback: async (action) => {
+					self.sendCommand({ action: 'chase_stop', id: action.options.chaseId })
+				},
+			},
+			chase_toggle: {
+				name: 'Toggle Chase',
+				description: 'Start the chase, or stop it when it is running.',
+				options: [chaseOption],
+				callback: async (action) => {
+					self.sendCommand({ action: 'chase_toggle', id: action.options.chaseId })
+				},
+			},
+			chase_stop_all: {
+				name: 'Stop All Chases',
+				options: [],
+				callback: async () => {
+					self.sendCommand({ action: 'chase_stop' })
+				},
+			},
+			chase_tap: {
+				name: 'Chase Tap Tempo',
+				description: 'Tap in time — the chase BPM follows the last few taps.',
+				options: [chaseOption],
+				callback: async (action) => {
+					self.sendCommand({ action: 'chase_tap', id: action.options.chaseId })
+				},
+			},
+			chase_bpm: {
+				name: 'Set Chase BPM',
+				description: 'Set the chase tempo. 0 clears it, so the steps use their own times.',
+				options: [
+					chaseOption,
+					{
+						type: 'number',
+						label: 'BPM',
+						id: 'bpm',
+						default: 120,
+						min: 0,
+						max: 600,
+					},
+				],
+				callback: async (action) => {
+					self.sendCommand({ action: 'chase_bpm', id: action.options.chaseId, value: Number(action.options.bpm) })
+				},
+			},
+			cue_go: {
+				name: 'Cue List GO',
+				description: 'Run the standby cue.',
+				options: [],
+				callback: async () => {
+					self.sendCommand({ action: 'go' })
+				},
+			},
+			cue_back: {
+				name: 'Cue List Back',
+				description: 'Fade back to the cue before the live one.',
+				options: [],
+				callback: async () => {
+					self.sendCommand({ action: 'back' })
+				},
+			},
+			goto_cue: {
+				name: 'Go To Cue',
+				description: 'Jump to a cue by number (e.g. 3.5), fading to its tracked look.',
+				options: [
+					{
+						type: 'textinput',
+						label: 'Cue Number',
+						id: 'cue',
+						default: '1',
+					},
+				],
+				callback: async (action) => {
+					self.sendCommand({ action: 'goto_cue', cue: Number(action.options.cue) })
+				},
+			},
+			timeline_play: {
+				name: 'Timeline Play',
+				options: [],
+				callback: async () => {
+					self.sendCommand({ action: 'timeline_play' })
+				},
+			},
+			timeline_pause: {
+				name: 'Timeline Pause',
+				options: [],
+				callback: async () => {
+					self.sendCommand({ action: 'timeline_pause' })
+				},
+			},
+			timeline_toggle: {
+				name: 'Timeline Play/Pause',
+				description: 'Play the timeline, or pause it when it is playing.',
+				options: [],
+				callback: async () => {
+					self.sendCommand({ action: 'timeline_toggle' })
+				},
+			},
+			timeline_stop: {
+				name: 'Timeline Stop',
+				description: 'Stop the timeline and return to the start. The stage keeps its look.',
+				options: [],
+				callback: async () => {
+					self.sendCommand({ action: 'timeline_stop' })
+				},
+			},
+			timeline_seek: {
+				name: 'Timeline Go To Time',
+				description: 'Move the playhead and output the look there.',
+				options: [
+					{
+						type: 'number',
+						label: 'Time (s)',
+						id: 'value',
+						default: 0,
+						min: 0,
+						max: 3600,
+					},
+				],
+				callback: async (action) => {
+					self.sendCommand({ action: 'timeline_seek', value: Number(action.options.value) })
+				},
+			},
+			timeline_nudge: {
+				name: 'Timeline Nudge',
+				description: 'Move the playhead by a number of seconds (negative to go back).',
+				options: [
+					{
+						type: 'number',
+						label: 'Step (s)',
+						id: 'delta',
+						default: 5,
+						min: -600,
+						max: 600,
+					},
+				],
+				callback: async (action) => {
+					self.sendCommand({ action: 'timeline_seek', delta: Number(action.options.delta) })
+				},
+			},
+			timeline_loop: {
+				name: 'Timeline Loop',
+				options: [
+					{
+						type: 'dropdown',
+						label: 'Mode',
+						id: 'mode',
+						choices: [
+							{ id: 'toggle', label: 'Toggle' },
+							{ id: 'on', label: 'On' },
+							{ id: 'off', label: 'Off' },
+						],
+						default: 'toggle',
+					},
+				],
+				callback: async (action) => {
+					const mode = action.options.mode
+					self.sendCommand({
+						action: 'timeline_loop',
+						...(mode === 'on' || mode === 'off' ? { state: mode } : {}),
+					})
+				},
+			},
 		}
 	},
 }
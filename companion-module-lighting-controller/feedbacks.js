@@ -26,6 +26,74 @@ module.exports = {
 					return self.activePresetId === feedback.options.presetId
 				},
 			},
+			blackout_active: {
+				type: 'boolean',
+				name: 'Blackout Active',
+				description: 'True while the output is blacked out (or fading to black)',
+				options: [],
+				defaultStyle: {
+					bgcolor: combineRgb(200, 0, 0),
+					color: combineRgb(255, 255, 255),
+				},
+				callback: () => {
+					return self.blackoutActive
+				},
+			},
+			timeline_playing: {
+				type: 'boolean',
+				name: 'Timeline Playing',
+				description: 'True while the timeline clock runs',
+				options: [],
+				defaultStyle: {
+					bgcolor: combineRgb(0, 160, 60),
+					color: combineRgb(255, 255, 255),
+				},
+				callback: () => {
+					return self.timelinePlaying
+				},
+			},
+			effect_running: {
+				type: 'boolean',
+				name: 'Effect Running',
+				description: 'True while the selected effect is running',
+				options: [
+					{
+						type: 'dropdown',
+						label: 'Effect',
+						id: 'effectId',
+						choices: self.effects.map((e) => ({ id: e.id, label: e.name })),
+						default: self.effects.length > 0 ? self.effects[0].id : '',
+					},
+				],
+				defaultStyle: {
+					bgcolor: combineRgb(0, 120, 200),
+					color: combineRgb(255, 255, 255),
+				},
+				callback: (feedback) => {
+					return self.effects.some((e) => e.id === feedback.options.effectId && e.running)
+				},
+			},
+			chase_running: {
+				type: 'boolean',
+				name: 'Chase Running',
+				description: 'True while the selected chase is running',
+				options: [
+					{
+						type: 'dropdown',
+						label: 'Chase',
+						id: 'chaseId',
+						choices: self.chases.map((c) => ({ id: c.id, label: c.name })),
+						default: self.chases.length > 0 ? self.chases[0].id : '',
+					},
+				],
+				defaultStyle: {
+					bgcolor: combineRgb(200, 120, 0),
+					color: combineRgb(255, 255, 255),
+				},
+				callback: (feedback) => {
+					return self.chases.some((c) => c.id === feedback.options.chaseId && c.running)
+				},
+			},
 		}
 	},
 }
@@ -17,6 +17,16 @@ class LightingControllerInstance extends InstanceBase {
 		/** @type {string|null} */
 		this.activePresetId = null
 
+		this.blackoutActive = false
+
+		this.timelinePlaying = false
+
+		/** @type {{ id: string, name: string, running: boolean }[]} */
+		this.effects = []
+
+		/** @type {{ id: string, name: string, running: boolean }[]} */
+		this.chases = []
+
 		/** @type {WebSocket|null} */
 		this.ws = null
 
@@ -24,7 +34,7 @@ class LightingControllerInstance extends InstanceBase {
 		this.reconnectTimer = null
 
 		this.setVariableDefinitions(getVariableDefinitions())
-		this.setVariableValues({ current_preset_name: '', current_preset_id: '' })
+		this.setVariableValues({ current_preset_name: '', current_preset_id: '', active_fades: 0, last_fade_id: '', fade_percent: 0, fade_remaining: '0.0', playback_current: '', playback_next: '', crossfader: 0 })
 
 		this.refreshDefinitions()
 		this.connectToApp()
@@ -69,6 +79,13 @@ class LightingControllerInstance extends InstanceBase {
 			this.log('info', 'Connected to Lighting Controller')
 			this.updateStatus(InstanceStatus.Ok, 'Connected')
 			this.requestPresets()
+			this.sendCommand({ action: 'list_submasters' })
+			this.sendCommand({ action: 'list_parked' })
+			this.sendCommand({ action: 'list_effects' })
+			this.sendCommand({ action: 'list_chases' })
+			this.sendCommand({ action: 'list_cues' })
+			this.sendCommand({ action: 'get_timeline' })
+			this.sendCommand({ action: 'get_state' })
 		})
 
 		this.ws.on('message', (data) => {
@@ -135,6 +152,21 @@ class LightingControllerInstance extends InstanceBase {
 				return
 			}
 
+			if ((msg.status === 'ok' && msg.action === 'list_submasters') || msg.event === 'submasters') {
+				this.handleSubmasters(msg.data)
+				return
+			}
+
+			if (msg.status === 'ok' && msg.action === 'get_state') {
+				this.handleBlackout({ active: !!msg.data.blackout })
+				return
+			}
+
+			if ((msg.status === 'ok' && msg.action === 'blackout') || msg.event === 'blackout') {
+				this.handleBlackout(msg.data)
+				return
+			}
+
 			if (msg.event === 'preset_activated') {
 				this.handlePresetActivated(msg.data)
 				return
@@ -145,6 +177,71 @@ class LightingControllerInstance extends InstanceBase {
 				return
 			}
 
+			if (msg.event === 'fades') {
+				this.handleFades(msg.data)
+				return
+			}
+
+			if (msg.event === 'fade_progress') {
+				this.handleFadeProgress(msg.data)
+				return
+			}
+
+			if (
+				(msg.status === 'ok' && ['list_parked', 'park', 'lock', 'unpark'].includes(msg.action)) ||
+				msg.event === 'parked'
+			) {
+				this.handleParked(msg.data)
+				return
+			}
+
+			if (
+				(msg.status === 'ok' &&
+					['list_effects', 'effect_start', 'effect_stop', 'effect_toggle'].includes(msg.action)) ||
+				msg.event === 'effects'
+			) {
+				this.handleEffects(msg.data)
+				return
+			}
+
+			if (
+				(msg.status === 'ok' &&
+					['list_chases', 'chase_start', 'chase_stop', 'chase_toggle', 'chase_tap', 'chase_bpm'].includes(
+						msg.action
+					)) ||
+				msg.event === 'chases'
+			) {
+				this.handleChases(msg.data)
+				return
+			}
+
+			if ((msg.status === 'ok' && ['list_cues', 'go', 'back', 'goto_cue'].includes(msg.action)) || msg.event === 'cues') {
+				this.handleCues(msg.data)
+				return
+			}
+
+			if (
+				(msg.status === 'ok' &&
+					[
+						'get_timeline',
+						'timeline_play',
+						'timeline_pause',
+						'timeline_toggle',
+						'timeline_stop',
+						'timeline_seek',
+						'timeline_loop',
+					].includes(msg.action)) ||
+				msg.event === 'timeline'
+			) {
+				this.handleTimeline(msg.data)
+				return
+			}
+
+			if (msg.event === 'playback') {
+				this.handlePlayback(msg.data)
+				return
+			}
+
 			this.log('debug', `Received: ${raw.toString()}`)
 		} catch (err) {
 			this.log('debug', `Failed to parse message: ${err.message}`)
@@ -178,6 +275,143 @@ class LightingControllerInstance extends InstanceBase {
 		this.log('info', `Preset activated: ${data.name}`)
 	}
 
+	// ── Blackout State ───────────────────────────────────────────────
+
+	handleBlackout(state) {
+		if (!state) return
+
+		this.blackoutActive = !!state.active
+		this.checkFeedbacks('blackout_active')
+	}
+
+	// ── Fade State ───────────────────────────────────────────────────
+
+	handleFades(fades) {
+		if (!Array.isArray(fades)) return
+
+		const values = { active_fades: fades.length }
+		if (fades.length > 0) {
+			values.last_fade_id = fades[fades.length - 1].id
+		}
+		this.setVariableValues(values)
+	}
+
+	handleFadeProgress(progress) {
+		if (!Array.isArray(progress)) return
+
+		const latest = progress[progress.length - 1]
+		this.setVariableValues({
+			fade_percent: latest ? latest.percent : 0,
+			fade_remaining: latest ? (latest.remainingMs / 1000).toFixed(1) : '0.0',
+		})
+	}
+
+	// ── Playback State ───────────────────────────────────────────────
+
+	handlePlayback(state) {
+		if (!state || !Array.isArray(state.sequence)) return
+
+		const presetName = (index) => {
+			const preset = this.presets.find((p) => p.id === state.sequence[index])
+			return preset ? preset.name : ''
+		}
+
+		this.setVariableValues({
+			playback_current: presetName(state.currentIndex),
+			playback_next: presetName(state.nextIndex),
+			crossfader: Math.round(state.crossfader * 100),
+		})
+	}
+
+	// ── Submaster State ──────────────────────────────────────────────
+
+	handleSubmasters(submasters) {
+		if (!Array.isArray(submasters)) return
+
+		const values = {}
+		for (const sub of submasters) {
+			values[`submaster_${sub.number}_name`] = sub.presetName || ''
+			values[`submaster_${sub.number}_level`] = sub.level
+		}
+		this.setVariableValues(values)
+	}
+
+	// ── Park State ───────────────────────────────────────────────────
+
+	handleParked(entries) {
+		if (!Array.isArray(entries)) return
+
+		this.setVariableValues({ parked_count: entries.length })
+	}
+
+	// ── Effect State ─────────────────────────────────────────────────
+
+	handleEffects(effects) {
+		if (!Array.isArray(effects)) return
+
+		// Only the list shown in dropdowns needs a definition refresh
+		const listChanged =
+			effects.length !== this.effects.length ||
+			effects.some((e, i) => e.id !== this.effects[i].id || e.name !== this.effects[i].name)
+
+		this.effects = effects
+		this.setVariableValues({ running_effects: effects.filter((e) => e.running).length })
+		if (listChanged) this.refreshDefinitions()
+		this.checkFeedbacks('effect_running')
+	}
+
+	// ── Chase State ──────────────────────────────────────────────────
+
+	handleChases(chases) {
+		if (!Array.isArray(chases)) return
+
+		const listChanged =
+			chases.length !== this.chases.length ||
+			chases.some((c, i) => c.id !== this.chases[i].id || c.name !== this.chases[i].name)
+
+		this.chases = chases
+		this.setVariableValues({ running_chases: chases.filter((c) => c.running).length })
+		if (listChanged) this.refreshDefinitions()
+		this.checkFeedbacks('chase_running')
+	}
+
+	// ── Cue List State ───────────────────────────────────────────────
+
+	handleCues(state) {
+		if (!state || !Array.isArray(state.cues)) return
+
+		const cue = (id) => state.cues.find((c) => c.id === id)
+		const current = cue(state.currentId)
+		const standby = cue(state.standbyId)
+
+		this.setVariableValues({
+			cue_current: current ? String(current.number) : '',
+			cue_current_label: current ? current.label : '',
+			cue_standby: standby ? String(standby.number) : '',
+			cue_standby_label: standby ? standby.label : '',
+		})
+	}
+
+	// ── Timeline State ───────────────────────────────────────────────
+
+	handleTimeline(transport) {
+		if (!transport || typeof transport.position !== 'number') return
+
+		const clock = (ms) => {
+			const seconds = Math.max(0, Math.floor(ms / 1000))
+			return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+		}
+
+		this.setVariableValues({
+			timeline_position: clock(transport.position),
+			timeline_remaining: clock(transport.duration - transport.position),
+		})
+		if (this.timelinePlaying !== !!transport.playing) {
+			this.timelinePlaying = !!transport.playing
+			this.checkFeedbacks('timeline_playing')
+		}
+	}
+
 	// ── Definition Refresh ───────────────────────────────────────────
 
 	refreshDefinitions() {
@@ -1,8 +1,37 @@
+const SUBMASTER_COUNT = 10
+
 module.exports = {
+	SUBMASTER_COUNT,
+
 	getVariableDefinitions() {
+		const submasters = []
+		for (let i = 1; i <= SUBMASTER_COUNT; i++) {
+			submasters.push(
+				{ variableId: `submaster_${i}_name`, name: `Submaster ${i} Preset` },
+				{ variableId: `submaster_${i}_level`, name: `Submaster ${i} Level (%)` }
+			)
+		}
+
 		return [
 			{ variableId: 'current_preset_name', name: 'Current Preset Name' },
 			{ variableId: 'current_preset_id', name: 'Current Preset ID' },
+			{ variableId: 'active_fades', name: 'Number of Running Fades' },
+			{ variableId: 'last_fade_id', name: 'ID of the Most Recent Fade' },
+			{ variableId: 'fade_percent', name: 'Most Recent Fade Progress (%)' },
+			{ variableId: 'fade_remaining', name: 'Most Recent Fade Time Remaining (s)' },
+			{ variableId: 'playback_current', name: 'Playback Live Preset' },
+			{ variableId: 'playback_next', name: 'Playback Next Preset' },
+			{ variableId: 'crossfader', name: 'Crossfader Position (%)' },
+			{ variableId: 'parked_count', name: 'Number of Parked or Locked Channels' },
+			{ variableId: 'running_effects', name: 'Number of Running Effects' },
+			{ variableId: 'running_chases', name: 'Number of Running Chases' },
+			{ variableId: 'cue_current', name: 'Cue List Live Cue Number' },
+			{ variableId: 'cue_current_label', name: 'Cue List Live Cue Label' },
+			{ variableId: 'cue_standby', name: 'Cue List Standby Cue Number' },
+			{ variableId: 'cue_standby_label', name: 'Cue List Standby Cue Label' },
+			{ variableId: 'timeline_position', name: 'Timeline Position (m:ss)' },
+			{ variableId: 'timeline_remaining', name: 'Timeline Time Remaining (m:ss)' },
+			...submasters,
 		]
 	},
 }
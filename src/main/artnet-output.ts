@@ -0,0 +1,493 @@
+import dgram from 'dgram';
+import * as os from 'os';
+import type Store from 'electron-store';
+import { OutputTransport, OutputStatus } from './output-transport';
+import { log } from './logger';
+
+type AppStore = Store<Record<string, unknown>>;
+
+// Art-Net 4 constants
+const ARTNET_PORT = 6454;
+const ARTNET_ID = 'Art-Net\0';
+const ARTNET_PROTOCOL_VERSION = 14;
+const OP_POLL = 0x2000;
+const OP_POLL_REPLY = 0x2100;
+const OP_DMX = 0x5000;
+const POLL_INTERVAL = 3000;
+const NODE_TIMEOUT = 10000;
+
+interface ArtNetConfig {
+  enabled: boolean;
+  host: string;      // Node IP (unicast) or a broadcast address
+  net: number;       // 0–127
+  subnet: number;    // 0–15
+  universe: number;  // 0–15
+}
+
+interface ArtNetNode {
+  ip: string;
+  shortName: string;
+  longName: string;
+  mac: string;
+  net: number;
+  subnet: number;
+  universes: number[];
+  lastSeen: number;
+}
+
+const DEFAULT_CONFIG: ArtNetConfig = {
+  enabled: false,
+  host: '2.255.255.255',
+  net: 0,
+  subnet: 0,
+  universe: 0,
+};
+
+/**
+ * ArtNetOutput — Streams the DMX buffer as ArtDmx packets over UDP and
+ * discovers Art-Net nodes on the local network via ArtPoll/ArtPollReply.
+ * Configuration is persisted in electron-store under `artnet`. The configured
+ * Port-Address is used for local universe 1; further universes follow on.
+ */
+export class ArtNetOutput implements OutputTransport {
+  readonly id = 'artnet';
+  readonly type = 'artnet' as const;
+  readonly label = 'Art-Net';
+
+  private store: AppStore;
+  private config: ArtNetConfig;
+  private socket: dgram.Socket | null = null;
+  private sequences: Map<number, number> = new Map();
+  private nodes: Map<string, ArtNetNode> = new Map();
+  private localAddresses: Set<string> = new Set();
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private nodeListeners: Set<(nodes: ArtNetNode[]) => void> = new Set();
+  private configListeners: Set<(config: ArtNetConfig) => void> = new Set();
+  private dmxListeners: Set<(portAddress: number, data: Uint8Array, sender: string) => void> = new Set();
+  private statusListeners: Set<(status: OutputStatus) => void> = new Set();
+
+  constructor(store: AppStore) {
+    this.store = store;
+
+    // Ensure config exists
+    if (!(this.store as any).has('artnet')) {
+      (this.store as any).set('artnet', DEFAULT_CONFIG);
+    }
+    // Cached — send() runs every frame and store reads hit the disk
+    this.config = { ...DEFAULT_CONFIG, ...((this.store as any).get('artnet') as Partial<ArtNetConfig>) };
+  }
+
+  /**
+   * Open the UDP socket and start periodic node discovery.
+   */
+  async start(): Promise<void> {
+    await this.openSocket();
+
+    this.poll();
+    this.pollTimer = setInterval(() => {
+      this.pruneNodes();
+      this.poll();
+    }, POLL_INTERVAL);
+
+    const config = this.getConfig();
+    log.info(
+      `ArtNetOutput: Started (${config.enabled ? 'enabled' : 'disabled'}, ${config.host} ${config.net}:${config.subnet}:${config.universe})`
+    );
+  }
+
+  /**
+   * Bind to the Art-Net port so ArtPollReply packets can be received.
+   */
+  private openSocket(): Promise<void> {
+    return new Promise<void>((resolve) => {
+      const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+
+      const handleBindError = (err: Error) => {
+        // Port 6454 unavailable — fall back to an ephemeral port (output only, no discovery)
+        log.warn(`ArtNetOutput: Could not bind port ${ARTNET_PORT} (${err.message}); node discovery disabled`);
+        socket.close();
+        const fallback = dgram.createSocket('udp4');
+        fallback.bind(() => {
+          fallback.setBroadcast(true);
+          this.attachSocket(fallback);
+          resolve();
+        });
+      };
+
+      socket.once('error', handleBindError);
+      socket.bind(ARTNET_PORT, () => {
+        socket.off('error', handleBindError);
+        socket.setBroadcast(true);
+        this.attachSocket(socket);
+        resolve();
+      });
+    });
+  }
+
+  private attachSocket(socket: dgram.Socket): void {
+    socket.on('message', (msg, rinfo) => {
+      this.handleMessage(msg, rinfo.address);
+    });
+
+    socket.on('error', (err) => {
+      log.error(`ArtNetOutput: Socket error: ${err.message}`);
+    });
+
+    this.socket = socket;
+  }
+
+  /**
+   * Get the current Art-Net configuration.
+   */
+  getConfig(): ArtNetConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Update and persist the Art-Net configuration.
+   */
+  updateConfig(patch: Partial<ArtNetConfig>): ArtNetConfig {
+    const current = this.getConfig();
+    const updated: ArtNetConfig = {
+      enabled: patch.enabled ?? current.enabled,
+      host: (patch.host ?? current.host).trim(),
+      net: clampInt(patch.net ?? current.net, 0, 127),
+      subnet: clampInt(patch.subnet ?? current.subnet, 0, 15),
+      universe: clampInt(patch.universe ?? current.universe, 0, 15),
+    };
+
+    if (!updated.host) {
+      throw new Error('Art-Net host must not be empty');
+    }
+
+    this.config = updated;
+    (this.store as any).set('artnet', updated);
+    log.info(
+      `ArtNetOutput: Config updated (${updated.enabled ? 'enabled' : 'disabled'}, ${updated.host} ${updated.net}:${updated.subnet}:${updated.universe})`
+    );
+
+    for (const listener of this.configListeners) {
+      try {
+        listener(updated);
+      } catch (err) {
+        log.error('ArtNetOutput: Config listener error:', err);
+      }
+    }
+    this.emitStatus();
+
+    return updated;
+  }
+
+  /**
+   * Send one ArtDmx frame for a local universe if output is enabled.
+   */
+  send(universe: number, channels: Uint8Array): void {
+    if (!this.socket) return;
+
+    const config = this.getConfig();
+    if (!config.enabled) return;
+
+    const portAddress = getPortAddress(config) + (universe - 1);
+    if (portAddress > 0x7fff) return;
+
+    const packet = this.buildDmxPacket(channels, portAddress);
+    this.socket.send(packet, ARTNET_PORT, config.host, (err) => {
+      if (err) {
+        log.error(`ArtNetOutput: Send error: ${err.message}`);
+      }
+    });
+  }
+
+  /**
+   * Build an ArtDmx packet for a 15-bit Port-Address.
+   */
+  private buildDmxPacket(channels: Uint8Array, portAddress: number): Buffer {
+    // DMX length must be even, 2–512
+    const length = Math.min(512, channels.length + (channels.length % 2));
+    const packet = Buffer.alloc(18 + length);
+    const sequence = this.sequences.get(portAddress) ?? 1;
+
+    packet.write(ARTNET_ID, 0, 'ascii');
+    packet.writeUInt16LE(OP_DMX, 8);
+    packet.writeUInt16BE(ARTNET_PROTOCOL_VERSION, 10);
+    packet[12] = sequence;
+    packet[13] = 0;                            // Physical input port
+    packet[14] = portAddress & 0xff;           // SubUni
+    packet[15] = (portAddress >> 8) & 0x7f;    // Net
+    packet.writeUInt16BE(length, 16);
+
+    for (let i = 0; i < channels.length && i < length; i++) {
+      packet[18 + i] = channels[i];
+    }
+
+    // Sequence 0 disables re-ordering on the receiver, so wrap 255 → 1
+    this.sequences.set(portAddress, sequence >= 255 ? 1 : sequence + 1);
+
+    return packet;
+  }
+
+  /**
+   * Get current output status.
+   */
+  getStatus(): OutputStatus {
+    const config = this.getConfig();
+    return {
+      id: this.id,
+      type: this.type,
+      label: this.label,
+      connected: config.enabled && this.socket !== null,
+      detail: config.enabled
+        ? `${config.host} (${config.net}:${config.subnet}:${config.universe})`
+        : null,
+    };
+  }
+
+  /**
+   * Register a status change listener.
+   */
+  onStatusChange(callback: (status: OutputStatus) => void): void {
+    this.statusListeners.add(callback);
+  }
+
+  private emitStatus(): void {
+    const status = this.getStatus();
+    for (const listener of this.statusListeners) {
+      try {
+        listener(status);
+      } catch (err) {
+        log.error('ArtNetOutput: Status listener error:', err);
+      }
+    }
+  }
+
+  /**
+   * Broadcast an ArtPoll on every local IPv4 network.
+   */
+  poll(): void {
+    if (!this.socket) return;
+
+    // Interfaces can change at runtime; refresh along with each poll
+    this.localAddresses = getLocalAddresses();
+
+    const packet = Buffer.alloc(14);
+    packet.write(ARTNET_ID, 0, 'ascii');
+    packet.writeUInt16LE(OP_POLL, 8);
+    packet.writeUInt16BE(ARTNET_PROTOCOL_VERSION, 10);
+    packet[12] = 0x02; // Flags: send ArtPollReply on change
+    packet[13] = 0x10; // Diagnostics priority: low
+
+    for (const address of getBroadcastAddresses()) {
+      this.socket.send(packet, ARTNET_PORT, address, (err) => {
+        if (err) {
+          log.debug(`ArtNetOutput: Poll to ${address} failed: ${err.message}`);
+        }
+      });
+    }
+  }
+
+  /**
+   * Parse inbound Art-Net packets (ArtPollReply for discovery, ArtDmx for input).
+   */
+  private handleMessage(msg: Buffer, sender: string): void {
+    if (msg.length < 10 || msg.toString('ascii', 0, 8) !== ARTNET_ID) return;
+
+    const opCode = msg.readUInt16LE(8);
+    if (opCode === OP_DMX) {
+      this.handleDmx(msg, sender);
+      return;
+    }
+    if (opCode !== OP_POLL_REPLY || msg.length < 207) return;
+
+    const ip = `${msg[10]}.${msg[11]}.${msg[12]}.${msg[13]}`;
+    const numPorts = Math.min(4, msg.readUInt16BE(172));
+    const net = msg[18];
+    const subnet = msg[19];
+    const universes: number[] = [];
+    for (let i = 0; i < numPorts; i++) {
+      universes.push(msg[190 + i] & 0x0f);
+    }
+
+    const mac = Array.from(msg.subarray(201, 207))
+      .map((b) => b.toString(16).padStart(2, '0'))
+      .join(':');
+
+    const node: ArtNetNode = {
+      ip: ip === '0.0.0.0' ? sender : ip,
+      shortName: readString(msg, 26, 18),
+      longName: readString(msg, 44, 64),
+      mac,
+      net,
+      subnet,
+      universes,
+      lastSeen: Date.now(),
+    };
+
+    const isNew = !this.nodes.has(node.ip);
+    this.nodes.set(node.ip, node);
+
+    if (isNew) {
+      log.info(`ArtNetOutput: Discovered node "${node.shortName}" at ${node.ip}`);
+      this.emitNodes();
+    }
+  }
+
+  /**
+   * Hand inbound ArtDmx frames to input listeners. Our own broadcasts are
+   * looped back by the OS, so packets from local addresses are ignored.
+   */
+  private handleDmx(msg: Buffer, sender: string): void {
+    if (this.dmxListeners.size === 0 || msg.length < 20) return;
+    if (this.localAddresses.has(sender)) return;
+
+    const portAddress = ((msg[15] & 0x7f) << 8) | msg[14];
+    const length = Math.min(512, msg.readUInt16BE(16), msg.length - 18);
+    const data = new Uint8Array(msg.subarray(18, 18 + length));
+
+    for (const listener of this.dmxListeners) {
+      try {
+        listener(portAddress, data, sender);
+      } catch (err) {
+        log.error('ArtNetOutput: DMX listener error:', err);
+      }
+    }
+  }
+
+  /**
+   * Register a listener for inbound ArtDmx frames.
+   */
+  onDmx(callback: (portAddress: number, data: Uint8Array, sender: string) => void): void {
+    this.dmxListeners.add(callback);
+  }
+
+  /**
+   * Drop nodes that have stopped replying to polls.
+   */
+  private pruneNodes(): void {
+    const now = Date.now();
+    let changed = false;
+    for (const [ip, node] of this.nodes) {
+      if (now - node.lastSeen > NODE_TIMEOUT) {
+        this.nodes.delete(ip);
+        log.info(`ArtNetOutput: Node "${node.shortName}" at ${ip} timed out`);
+        changed = true;
+      }
+    }
+    if (changed) {
+      this.emitNodes();
+    }
+  }
+
+  /**
+   * Get all currently known Art-Net nodes.
+   */
+  getNodes(): ArtNetNode[] {
+    return Array.from(this.nodes.values()).sort((a, b) => a.ip.localeCompare(b.ip));
+  }
+
+  /**
+   * Register a listener for node list changes.
+   */
+  onNodesChange(callback: (nodes: ArtNetNode[]) => void): void {
+    this.nodeListeners.add(callback);
+  }
+
+  /**
+   * Register a listener for configuration changes.
+   */
+  onConfigChange(callback: (config: ArtNetConfig) => void): void {
+    this.configListeners.add(callback);
+  }
+
+  private emitNodes(): void {
+    const nodes = this.getNodes();
+    for (const listener of this.nodeListeners) {
+      try {
+        listener(nodes);
+      } catch (err) {
+        log.error('ArtNetOutput: Node listener error:', err);
+      }
+    }
+  }
+
+  /**
+   * Graceful shutdown — stop polling and close the socket.
+   */
+  async shutdown(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    return new Promise<void>((resolve) => {
+      if (!this.socket) {
+        resolve();
+        return;
+      }
+      this.socket.close(() => {
+        this.socket = null;
+        log.info('ArtNetOutput: Shutdown complete');
+        resolve();
+      });
+    });
+  }
+}
+
+/**
+ * 15-bit Port-Address: Net (7 bits) | Sub-Net (4 bits) | Universe (4 bits).
+ */
+function getPortAddress(config: ArtNetConfig): number {
+  return ((config.net & 0x7f) << 8) | ((config.subnet & 0x0f) << 4) | (config.universe & 0x0f);
+}
+
+function clampInt(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, Math.round(Number(value) || 0)));
+}
+
+function readString(buffer: Buffer, offset: number, length: number): string {
+  const raw = buffer.toString('ascii', offset, offset + length);
+  const nul = raw.indexOf('\0');
+  return (nul === -1 ? raw : raw.slice(0, nul)).trim();
+}
+
+/**
+ * IPv4 addresses of this machine.
+ */
+function getLocalAddresses(): Set<string> {
+  const addresses = new Set<string>(['127.0.0.1']);
+  const interfaces = os.networkInterfaces();
+
+  for (const name of Object.keys(interfaces)) {
+    for (const iface of interfaces[name] || []) {
+      if (iface.family === 'IPv4') {
+        addresses.add(iface.address);
+      }
+    }
+  }
+
+  return addresses;
+}
+
+/**
+ * Directed broadcast address for each non-internal IPv4 interface.
+ */
+function getBroadcastAddresses(): string[] {
+  const addresses = new Set<string>();
+  const interfaces = os.networkInterfaces();
+
+  for (const name of Object.keys(interfaces)) {
+    const ifaceList = interfaces[name];
+    if (!ifaceList) continue;
+    for (const iface of ifaceList) {
+      if (iface.family !== 'IPv4' || iface.internal) continue;
+      const ip = iface.address.split('.').map(Number);
+      const mask = iface.netmask.split('.').map(Number);
+      addresses.add(ip.map((octet, i) => (octet | (~mask[i] & 0xff))).join('.'));
+    }
+  }
+
+  if (addresses.size === 0) {
+    addresses.add('255.255.255.255');
+  }
+
+  return Array.from(addresses);
+}
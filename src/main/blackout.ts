@@ -0,0 +1,109 @@
+import { DMXUniverse } from './dmx-universe';
+import { FrameScheduler } from './frame-scheduler';
+import { log } from './logger';
+
+export interface BlackoutState {
+  active: boolean; // Blacked out, or fading to it
+  level: number;   // Output intensity scale, 0–1
+  fading: boolean;
+}
+
+interface BlackoutFade {
+  from: number;
+  to: number;
+  startTime: number;
+  durationMs: number;
+}
+
+/**
+ * Blackout — Non-destructive blackout at the output stage. Fades the
+ * universe's blackout level (which scales intensity like the grand master)
+ * instead of the programmer, so the second press fades back to exactly the
+ * look that was up. Fades run on the frame clock.
+ */
+export class Blackout {
+  private universe: DMXUniverse;
+  private active = false;
+  private fade: BlackoutFade | null = null;
+  private changeListeners: Set<(state: BlackoutState) => void> = new Set();
+
+  constructor(universe: DMXUniverse, scheduler: FrameScheduler) {
+    this.universe = universe;
+    scheduler.addTask((now) => this.tick(now));
+  }
+
+  /**
+   * Get whether blackout is on and the current output level.
+   */
+  getState(): BlackoutState {
+    return {
+      active: this.active,
+      level: this.universe.getBlackoutLevel(),
+      fading: this.fade !== null,
+    };
+  }
+
+  /**
+   * Black out, or restore when already blacked out.
+   */
+  toggle(fadeTime = 0): BlackoutState {
+    return this.set(!this.active, fadeTime);
+  }
+
+  /**
+   * Fade the output to black (true) or back to the programmed look (false).
+   * Reversing mid-fade continues from the current level.
+   */
+  set(active: boolean, fadeTime = 0): BlackoutState {
+    if (active !== this.active) {
+      this.active = active;
+      const from = this.universe.getBlackoutLevel();
+      const to = active ? 0 : 1;
+      const durationMs = Math.max(0, Number(fadeTime) || 0) * Math.abs(to - from);
+
+      if (durationMs === 0) {
+        this.fade = null;
+        this.universe.setBlackoutLevel(to);
+      } else {
+        this.fade = { from, to, startTime: Date.now(), durationMs };
+      }
+      log.info(`Blackout: ${active ? 'On' : 'Restoring'} (${Math.round(durationMs)} ms)`);
+      this.notifyChange();
+    }
+    return this.getState();
+  }
+
+  /**
+   * Advance the level fade. Runs at the start of every frame.
+   */
+  private tick(now: number): void {
+    if (!this.fade) return;
+
+    const { from, to, startTime, durationMs } = this.fade;
+    const progress = Math.min(1, (now - startTime) / durationMs);
+    this.universe.setBlackoutLevel(from + (to - from) * progress);
+
+    if (progress >= 1) {
+      this.fade = null;
+      this.notifyChange();
+    }
+  }
+
+  /**
+   * Register a listener for blackout state changes (toggled, fade finished).
+   */
+  onChange(callback: (state: BlackoutState) => void): void {
+    this.changeListeners.add(callback);
+  }
+
+  private notifyChange(): void {
+    const state = this.getState();
+    for (const listener of this.changeListeners) {
+      try {
+        listener(state);
+      } catch (err) {
+        log.error('Blackout: Change listener error:', err);
+      }
+    }
+  }
+}
@@ -0,0 +1,348 @@
+import type Store from 'electron-store';
+import { v4 as uuidv4 } from 'uuid';
+import { FadeEngine } from './fade-engine';
+import { FrameScheduler } from './frame-scheduler';
+import { PresetManager } from './preset-manager';
+import { log } from './logger';
+
+type AppStore = Store<Record<string, unknown>>;
+
+export type ChaseOrder = 'forward' | 'bounce' | 'random';
+
+export const CHASE_ORDERS: ChaseOrder[] = ['forward', 'bounce', 'random'];
+
+const MIN_BPM = 10;
+const MAX_BPM = 600;
+const TAP_RESET_MS = 2000; // A longer gap starts a new tap sequence
+const TAP_HISTORY = 5;     // Taps averaged for the tempo
+
+export interface ChaseStep {
+  presetId: string;
+  fade: number; // Fade into the step, ms
+  hold: number; // Hold after the fade, ms
+}
+
+interface ChaseConfig {
+  id: string;
+  name: string;
+  steps: ChaseStep[];
+  order: ChaseOrder;
+  loop: boolean;         // Otherwise stop after one pass (bounce: there and back)
+  bpm: number | null;    // When set, every step lasts one beat instead of fade + hold
+  crossfade: number;     // With a BPM: share of the beat spent fading, 0–100
+}
+
+export interface ChaseInfo extends ChaseConfig {
+  running: boolean;
+  currentStep: number; // Index into steps; -1 when stopped
+}
+
+interface RunningChase {
+  order: number[];   // Step indices of the current pass
+  position: number;  // Index into order
+  nextAt: number;    // When the next step starts
+}
+
+/**
+ * ChaseManager — Step chases over presets. Each chase steps through its
+ * presets forwards, back and forth, or in random order, fading into each
+ * step with FadeEngine. Steps use their own fade and hold times, or one
+ * beat each when the chase has a BPM (set directly or by tap tempo).
+ * Chases run on the frame clock, several at once; the newest step fade
+ * wins a shared channel. Definitions are persisted in electron-store under
+ * `chases`; they start stopped on launch.
+ */
+export class ChaseManager {
+  private store: AppStore;
+  private presetManager: PresetManager;
+  private fadeEngine: FadeEngine;
+  private chases: ChaseConfig[];
+  private running: Map<string, RunningChase> = new Map();
+  private taps: Map<string, number[]> = new Map();
+  private changeListeners: Set<(chases: ChaseInfo[]) => void> = new Set();
+
+  constructor(store: AppStore, presetManager: PresetManager, fadeEngine: FadeEngine, scheduler: FrameScheduler) {
+    this.store = store;
+    this.presetManager = presetManager;
+    this.fadeEngine = fadeEngine;
+
+    const saved = (this.store as any).get('chases') as Partial<ChaseConfig>[] | undefined;
+    this.chases = (Array.isArray(saved) ? saved : []).filter((c) => typeof c?.id === 'string').map((c) => normalizeChase(c, c.id!));
+
+    scheduler.addTask((now) => this.tick(now));
+  }
+
+  /**
+   * Get every chase with its run state.
+   */
+  getAll(): ChaseInfo[] {
+    return this.chases.map((c) => {
+      const run = this.running.get(c.id);
+      return { ...c, running: !!run, currentStep: run ? run.order[run.position] : -1 };
+    });
+  }
+
+  /**
+   * Create a chase from a (partial) definition. Missing fields get defaults.
+   */
+  create(definition: Partial<ChaseConfig>): ChaseInfo {
+    const chase = normalizeChase(definition, uuidv4());
+    this.chases.push(chase);
+    this.save();
+    log.info(`ChaseManager: Created chase "${chase.name}" (${chase.id})`);
+    this.notifyChange();
+    return this.getAll().find((c) => c.id === chase.id)!;
+  }
+
+  /**
+   * Update a chase. A running chase carries on from its current step.
+   */
+  update(id: string, patch: Partial<ChaseConfig>): ChaseInfo {
+    const index = this.findIndex(id);
+    const previous = this.chases[index];
+    this.chases[index] = normalizeChase({ ...previous, ...patch }, id);
+    this.save();
+
+    const run = this.running.get(id);
+    if (run && (patch.steps !== undefined || patch.order !== undefined)) {
+      const step = run.order[run.position];
+      run.order = this.buildOrder(this.chases[index], step);
+      run.position = Math.max(0, run.order.indexOf(step));
+      if (run.order.length === 0) this.running.delete(id);
+    }
+
+    this.notifyChange();
+    return this.getAll()[index];
+  }
+
+  /**
+   * Delete a chase, stopping it first.
+   */
+  delete(id: string): void {
+    const index = this.findIndex(id);
+    this.running.delete(id);
+    this.taps.delete(id);
+    const [removed] = this.chases.splice(index, 1);
+    this.save();
+    log.info(`ChaseManager: Deleted chase "${removed.name}" (${id})`);
+    this.notifyChange();
+  }
+
+  /**
+   * Start a chase from its first step.
+   */
+  start(id: string): void {
+    const chase = this.chases[this.findIndex(id)];
+    if (this.running.has(id)) return;
+    if (chase.steps.length === 0) {
+      throw new Error(`Chase "${chase.name}" has no steps`);
+    }
+
+    const order = this.buildOrder(chase, -1);
+    this.running.set(id, { order, position: 0, nextAt: 0 });
+    log.info(`ChaseManager: Started "${chase.name}"`);
+    this.runStep(chase, Date.now());
+  }
+
+  /**
+   * Stop a chase. The look of its last step stays up.
+   */
+  stop(id: string): void {
+    const chase = this.chases[this.findIndex(id)];
+    if (!this.running.delete(id)) return;
+    log.info(`ChaseManager: Stopped "${chase.name}"`);
+    this.notifyChange();
+  }
+
+  /**
+   * Start a stopped chase, stop a running one. Returns whether it now runs.
+   */
+  toggle(id: string): boolean {
+    if (this.running.has(id)) {
+      this.stop(id);
+      return false;
+    }
+    this.start(id);
+    return true;
+  }
+
+  /**
+   * Stop every running chase.
+   */
+  stopAll(): void {
+    if (this.running.size === 0) return;
+    this.running.clear();
+    log.info('ChaseManager: Stopped all chases');
+    this.notifyChange();
+  }
+
+  /**
+   * Set a chase's tempo, or clear it (null) to use the step times.
+   */
+  setBpm(id: string, bpm: number | null): ChaseInfo {
+    return this.update(id, { bpm });
+  }
+
+  /**
+   * Tap tempo: the BPM follows the average interval of the recent taps.
+   * Returns the chase's BPM (unchanged until the second tap).
+   */
+  tap(id: string): number | null {
+    const chase = this.chases[this.findIndex(id)];
+    const now = Date.now();
+    const previous = this.taps.get(id) ?? [];
+    const taps = previous.length > 0 && now - previous[previous.length - 1] <= TAP_RESET_MS ? previous : [];
+    taps.push(now);
+    this.taps.set(id, taps.slice(-TAP_HISTORY));
+
+    if (taps.length < 2) return chase.bpm;
+
+    const recent = taps.slice(-TAP_HISTORY);
+    const interval = (recent[recent.length - 1] - recent[0]) / (recent.length - 1);
+    const bpm = Math.round((60000 / interval) * 10) / 10;
+    return this.update(id, { bpm }).bpm;
+  }
+
+  /**
+   * Advance running chases whose step is up. Runs at the start of every frame.
+   */
+  private tick(now: number): void {
+    for (const [id, run] of this.running) {
+      if (now < run.nextAt) continue;
+
+      const chase = this.chases.find((c) => c.id === id);
+      if (!chase) continue;
+
+      run.position++;
+      if (run.position >= run.order.length) {
+        if (!chase.loop) {
+          this.running.delete(id);
+          log.info(`ChaseManager: "${chase.name}" finished`);
+          this.notifyChange();
+          continue;
+        }
+        run.order = this.buildOrder(chase, run.order[run.order.length - 1]);
+        run.position = 0;
+      }
+      this.runStep(chase, now);
+    }
+  }
+
+  /**
+   * Fade into the chase's current step and schedule the next one. A step
+   * whose preset no longer exists leaves the previous look up for its time.
+   */
+  private runStep(chase: ChaseConfig, now: number): void {
+    const run = this.running.get(chase.id)!;
+    const step = chase.steps[run.order[run.position]];
+    const preset = this.presetManager.getById(step.presetId);
+
+    let fadeMs = step.fade;
+    let stepMs = step.fade + step.hold;
+    if (chase.bpm) {
+      stepMs = 60000 / chase.bpm;
+      fadeMs = (stepMs * chase.crossfade) / 100;
+    }
+
+    if (preset) {
+      this.fadeEngine.fadeTo(preset.channels, fadeMs, {
+        ...this.presetManager.getFadeOptions(preset, fadeMs),
+        label: `${chase.name}: ${preset.name}`,
+      });
+    } else {
+      log.warn(`ChaseManager: Preset ${step.presetId} in "${chase.name}" no longer exists`);
+    }
+
+    // Zero-length steps would advance every frame — keep at least one frame apart
+    run.nextAt = now + Math.max(1, stepMs);
+    this.notifyChange();
+  }
+
+  /**
+   * Step indices for one pass through a chase. For random order, avoid
+   * starting the pass with the step that ended the last one.
+   */
+  private buildOrder(chase: ChaseConfig, lastStep: number): number[] {
+    const forward = chase.steps.map((_, i) => i);
+
+    switch (chase.order) {
+      case 'bounce': {
+        // Looped, the ends aren't repeated; a single pass returns to the start
+        const back = forward.slice(0, -1).reverse();
+        return chase.loop ? [...forward, ...back.slice(0, -1)] : [...forward, ...back];
+      }
+      case 'random': {
+        const order = [...forward];
+        for (let i = order.length - 1; i > 0; i--) {
+          const j = Math.floor(Math.random() * (i + 1));
+          [order[i], order[j]] = [order[j], order[i]];
+        }
+        if (order.length > 1 && order[0] === lastStep) {
+          [order[0], order[order.length - 1]] = [order[order.length - 1], order[0]];
+        }
+        return order;
+      }
+      default:
+        return forward;
+    }
+  }
+
+  private findIndex(id: string): number {
+    const index = this.chases.findIndex((c) => c.id === id);
+    if (index === -1) {
+      throw new Error(`Chase not found: ${id}`);
+    }
+    return index;
+  }
+
+  private save(): void {
+    (this.store as any).set('chases', this.chases);
+  }
+
+  /**
+   * Register a listener for chase list and run state changes (including
+   * every step).
+   */
+  onChange(callback: (chases: ChaseInfo[]) => void): void {
+    this.changeListeners.add(callback);
+  }
+
+  private notifyChange(): void {
+    const chases = this.getAll();
+    for (const listener of this.changeListeners) {
+      try {
+        listener(chases);
+      } catch (err) {
+        log.error('ChaseManager: Change listener error:', err);
+      }
+    }
+  }
+}
+
+/**
+ * Fill in defaults and clamp a chase definition from the store or a client.
+ */
+function normalizeChase(raw: Partial<ChaseConfig>, id: string): ChaseConfig {
+  const bpm = Number(raw.bpm);
+  return {
+    id,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Chase',
+    steps: (Array.isArray(raw.steps) ? raw.steps : [])
+      .filter((s) => typeof s?.presetId === 'string')
+      .map((s) => ({ presetId: s.presetId, fade: readTime(s.fade, 0), hold: readTime(s.hold, 1000) })),
+    order: CHASE_ORDERS.includes(raw.order as ChaseOrder) ? (raw.order as ChaseOrder) : 'forward',
+    loop: raw.loop !== false,
+    bpm: raw.bpm === null || raw.bpm === undefined || !Number.isFinite(bpm) || bpm <= 0
+      ? null
+      : Math.max(MIN_BPM, Math.min(MAX_BPM, bpm)),
+    crossfade: Math.max(0, Math.min(100, Number.isFinite(Number(raw.crossfade)) ? Number(raw.crossfade) : 0)),
+  };
+}
+
+/**
+ * A non-negative whole number of milliseconds, or the fallback.
+ */
+function readTime(value: unknown, fallback: number): number {
+  const ms = Number(value);
+  return value !== null && value !== undefined && Number.isFinite(ms) ? Math.max(0, Math.round(ms)) : fallback;
+}
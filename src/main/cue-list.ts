@@ -0,0 +1,400 @@
+import type Store from 'electron-store';
+import { v4 as uuidv4 } from 'uuid';
+import { DMXUniverse } from './dmx-universe';
+import { FadeEngine, FadeEndReason, FadeState } from './fade-engine';
+import { FrameScheduler } from './frame-scheduler';
+import { PresetManager } from './preset-manager';
+import { log } from './logger';
+
+type AppStore = Store<Record<string, unknown>>;
+
+const DEFAULT_FADE_MS = 3000;
+
+interface Cue {
+  id: string;
+  number: number;               // Running order, e.g. 3 or point cue 3.5
+  label: string;
+  channels: Record<number, number>; // Tracking: only channels that change from the cue before
+  fadeTime: number;             // Fade up (in), ms
+  fadeOutTime: number | null;   // Fade down (out), ms; null = fadeTime
+  delay: number;                // Wait after GO before the fade starts, ms
+  follow: number | null;        // GO the next cue this long after the fade completes; null = manual
+}
+
+export interface CueInfo extends Omit<Cue, 'channels'> {
+  channelCount: number;         // Channels the cue changes
+}
+
+export interface CueListState {
+  cues: CueInfo[];              // In cue number order
+  currentId: string | null;     // Live cue; null before the first GO
+  standbyId: string | null;     // Cue the next GO runs; null at the end
+  fadeId: string | null;
+  fadeState: FadeState | null;
+  followAt: number | null;      // When a pending auto-follow GOes (epoch ms)
+}
+
+/**
+ * A cue being recorded: timing, plus where the look comes from — the
+ * programmer (default) or a preset.
+ */
+export interface CueRecordOptions {
+  number?: number;
+  label?: string;
+  fadeTime?: number;
+  fadeOutTime?: number | null;
+  delay?: number;
+  follow?: number | null;
+  presetId?: string;
+}
+
+interface CueListOptions {
+  store: AppStore;
+  universe: DMXUniverse;
+  presetManager: PresetManager;
+  fadeEngine: FadeEngine;
+  scheduler: FrameScheduler;
+}
+
+/**
+ * CueList — A theatre-style running order of numbered cues (point cues
+ * like 3.5 slot in between). Cues track: each stores only the channels it
+ * changes from the cue before, and a cue's full look is everything the
+ * list has set up to it — so GO, BACK and jumping to any cue all fade to
+ * the same tracked state. Every channel the list controls is faded: one a
+ * later cue sets is at 0 in the cues before it. Channels the list has never
+ * set are left alone.
+ * A cue can wait before fading and auto-follow into the next one. Cues are
+ * persisted in electron-store under `cueList`.
+ */
+export class CueList {
+  private store: AppStore;
+  private universe: DMXUniverse;
+  private presetManager: PresetManager;
+  private fadeEngine: FadeEngine;
+  private cues: Cue[];
+  private currentId: string | null = null;
+  private standbyId: string | null = null;
+  private fade: { id: string } | null = null;
+  private followAt: number | null = null;
+  private changeListeners: Set<(state: CueListState) => void> = new Set();
+
+  constructor(options: CueListOptions) {
+    this.store = options.store;
+    this.universe = options.universe;
+    this.presetManager = options.presetManager;
+    this.fadeEngine = options.fadeEngine;
+
+    const saved = (this.store as any).get('cueList') as { cues?: Partial<Cue>[] } | undefined;
+    this.cues = (Array.isArray(saved?.cues) ? saved!.cues : [])
+      .filter((c) => typeof c?.id === 'string' && Number(c.number) > 0)
+      .map((c) => normalizeCue(c, c.id!));
+    this.sortCues();
+    this.standbyId = this.cues[0]?.id ?? null;
+
+    // Fade state (running, paused, ...) is part of the cue list state
+    this.fadeEngine.onChange(() => {
+      if (this.fade) this.notifyChange();
+    });
+
+    options.scheduler.addTask((now) => this.tick(now));
+  }
+
+  /**
+   * Get the cues, the live and standby cue, and the state of the cue fade.
+   */
+  getState(): CueListState {
+    const fade = this.fade ? this.fadeEngine.getFades().find((f) => f.id === this.fade!.id) : undefined;
+    return {
+      cues: this.cues.map(({ channels, ...cue }) => ({ ...cue, channelCount: Object.keys(channels).length })),
+      currentId: this.currentId,
+      standbyId: this.standbyId,
+      fadeId: fade?.id ?? null,
+      fadeState: fade?.state ?? null,
+      followAt: this.followAt,
+    };
+  }
+
+  /**
+   * Record a new cue from the programmer or a preset. Only the channels
+   * that differ from the tracked state before it are stored. Without a
+   * number the cue goes at the end, as the next whole number.
+   */
+  record(options: CueRecordOptions = {}): CueInfo {
+    const last = this.cues[this.cues.length - 1];
+    const number = options.number !== undefined ? readCueNumber(options.number) : Math.floor(last?.number ?? 0) + 1;
+    if (this.cues.some((c) => c.number === number)) {
+      throw new Error(`Cue ${number} already exists`);
+    }
+
+    const cue = normalizeCue({ ...options, number }, uuidv4());
+    cue.channels = this.diffLook(this.getLook(options.presetId), this.getTrackedState(number));
+    this.cues.push(cue);
+    this.sortCues();
+    this.standbyId = this.nextAfter(this.currentId)?.id ?? null;
+    this.save();
+    log.info(`CueList: Recorded cue ${cue.number} (${Object.keys(cue.channels).length} channels)`);
+    this.notifyChange();
+    return this.getState().cues.find((c) => c.id === cue.id)!;
+  }
+
+  /**
+   * Re-record a cue's look from the programmer or a preset, keeping its
+   * timing. Later cues keep tracking through it.
+   */
+  rerecord(id: string, presetId?: string): void {
+    const cue = this.cues[this.findIndex(id)];
+    cue.channels = this.diffLook(this.getLook(presetId), this.getTrackedState(cue.number));
+    this.save();
+    log.info(`CueList: Updated cue ${cue.number} (${Object.keys(cue.channels).length} channels)`);
+    this.notifyChange();
+  }
+
+  /**
+   * Change a cue's number, label or timing.
+   */
+  update(id: string, patch: Partial<Omit<Cue, 'id' | 'channels'>>): void {
+    const index = this.findIndex(id);
+    if (patch.number !== undefined) {
+      const number = readCueNumber(patch.number);
+      if (this.cues.some((c) => c.number === number && c.id !== id)) {
+        throw new Error(`Cue ${number} already exists`);
+      }
+    }
+
+    this.cues[index] = normalizeCue({ ...this.cues[index], ...patch }, id);
+    this.sortCues();
+    this.standbyId = this.nextAfter(this.currentId)?.id ?? null;
+    this.save();
+    this.notifyChange();
+  }
+
+  /**
+   * Delete a cue. Its changes are lost; later cues track from the cue before.
+   */
+  delete(id: string): void {
+    const index = this.findIndex(id);
+    const [removed] = this.cues.splice(index, 1);
+    if (this.currentId === id) {
+      this.currentId = this.cues[index - 1]?.id ?? null;
+    }
+    this.standbyId = this.nextAfter(this.currentId)?.id ?? null;
+    this.save();
+    log.info(`CueList: Deleted cue ${removed.number}`);
+    this.notifyChange();
+  }
+
+  /**
+   * Run the standby cue and move standby on.
+   */
+  go(): boolean {
+    const cue = this.cues.find((c) => c.id === this.standbyId);
+    if (!cue) return false;
+    this.runCue(cue);
+    return true;
+  }
+
+  /**
+   * Fade back to the cue before the live one, with that cue's timing.
+   */
+  back(): boolean {
+    const index = this.cues.findIndex((c) => c.id === this.currentId);
+    if (index <= 0) return false;
+    this.runCue(this.cues[index - 1]);
+    return true;
+  }
+
+  /**
+   * Jump straight to a cue by number, fading to its tracked look.
+   */
+  goToCue(number: number): void {
+    const cue = this.cues.find((c) => c.number === readCueNumber(number));
+    if (!cue) {
+      throw new Error(`Cue ${number} not found`);
+    }
+    this.runCue(cue);
+  }
+
+  /**
+   * Fade to a cue's tracked look and make it live. Channels the list
+   * controls but hasn't set by this cue fade to 0. Any pending follow is
+   * dropped; the cue's own follow is armed when its fade completes.
+   */
+  private runCue(cue: Cue): void {
+    this.followAt = null;
+
+    const index = this.cues.indexOf(cue);
+    const look = this.getTrackedState(cue.number, true);
+    const values: Record<number, number> = {};
+    for (const c of this.cues) {
+      for (const channel of Object.keys(c.channels)) {
+        values[Number(channel)] = look.get(Number(channel)) ?? 0;
+      }
+    }
+
+    const handle = this.fadeEngine.fadeChannels(values, cue.fadeTime, {
+      label: `Cue ${cue.number}${cue.label ? ` ${cue.label}` : ''}`,
+      timing: {
+        up: { time: cue.fadeTime, delay: cue.delay },
+        down: { time: cue.fadeOutTime ?? cue.fadeTime, delay: cue.delay },
+      },
+    });
+    const fade = { id: handle.id };
+    this.fade = fade;
+    this.currentId = cue.id;
+    this.standbyId = this.cues[index + 1]?.id ?? null;
+    log.info(`CueList: GO cue ${cue.number}${cue.label ? ` "${cue.label}"` : ''}`);
+
+    handle.done.then((reason: FadeEndReason) => {
+      if (this.fade !== fade) return;
+      this.fade = null;
+      if (reason === 'complete' && cue.follow !== null && this.standbyId) {
+        this.followAt = Date.now() + cue.follow;
+      }
+      this.notifyChange();
+    });
+
+    this.notifyChange();
+  }
+
+  /**
+   * GO when an auto-follow is due. Runs at the start of every frame.
+   */
+  private tick(now: number): void {
+    if (this.followAt !== null && now >= this.followAt) {
+      this.followAt = null;
+      this.go();
+    }
+  }
+
+  /**
+   * The tracked look before (or, with `inclusive`, at) a cue number:
+   * every channel the list has set, at its latest value. Keyed by
+   * absolute channel.
+   */
+  private getTrackedState(number: number, inclusive = false): Map<number, number> {
+    const state = new Map<number, number>();
+    for (const cue of this.cues) {
+      if (cue.number > number || (!inclusive && cue.number === number)) break;
+      for (const [channel, value] of Object.entries(cue.channels)) {
+        state.set(Number(channel), value);
+      }
+    }
+    return state;
+  }
+
+  /**
+   * Channel values of a look to record: a preset, or the programmer.
+   */
+  private getLook(presetId?: string): number[] {
+    if (presetId) {
+      const preset = this.presetManager.getById(presetId);
+      if (!preset) {
+        throw new Error(`Preset not found: ${presetId}`);
+      }
+      return preset.channels;
+    }
+    return this.universe.getRawChannelsArray();
+  }
+
+  /**
+   * Channels of a look that differ from the tracked state (untracked
+   * channels count as 0).
+   */
+  private diffLook(look: number[], tracked: Map<number, number>): Record<number, number> {
+    const changes: Record<number, number> = {};
+    const count = Math.min(look.length, this.universe.getChannelCount());
+    for (let i = 0; i < count; i++) {
+      const value = Math.max(0, Math.min(255, Math.round(Number(look[i]) || 0)));
+      if (value !== (tracked.get(i + 1) ?? 0)) {
+        changes[i + 1] = value;
+      }
+    }
+    return changes;
+  }
+
+  private nextAfter(id: string | null): Cue | undefined {
+    if (id === null) return this.cues[0];
+    return this.cues[this.cues.findIndex((c) => c.id === id) + 1];
+  }
+
+  private sortCues(): void {
+    this.cues.sort((a, b) => a.number - b.number);
+  }
+
+  private findIndex(id: string): number {
+    const index = this.cues.findIndex((c) => c.id === id);
+    if (index === -1) {
+      throw new Error(`Cue not found: ${id}`);
+    }
+    return index;
+  }
+
+  private save(): void {
+    (this.store as any).set('cueList', { cues: this.cues });
+  }
+
+  /**
+   * Register a listener for cue list changes (edits, GO, fade state).
+   */
+  onChange(callback: (state: CueListState) => void): void {
+    this.changeListeners.add(callback);
+  }
+
+  private notifyChange(): void {
+    const state = this.getState();
+    for (const listener of this.changeListeners) {
+      try {
+        listener(state);
+      } catch (err) {
+        log.error('CueList: Change listener error:', err);
+      }
+    }
+  }
+}
+
+/**
+ * A positive cue number, to three decimal places.
+ */
+function readCueNumber(value: unknown): number {
+  const number = Math.round(Number(value) * 1000) / 1000;
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new Error(`Invalid cue number: ${value}`);
+  }
+  return number;
+}
+
+/**
+ * Fill in defaults and clamp a cue from the store or a client.
+ */
+function normalizeCue(raw: Partial<Cue>, id: string): Cue {
+  const channels: Record<number, number> = {};
+  if (raw.channels && typeof raw.channels === 'object') {
+    for (const [channel, value] of Object.entries(raw.channels)) {
+      const ch = Number(channel);
+      if (Number.isInteger(ch) && ch >= 1) {
+        channels[ch] = Math.max(0, Math.min(255, Math.round(Number(value) || 0)));
+      }
+    }
+  }
+
+  const follow = raw.follow === null || raw.follow === undefined ? null : readTime(raw.follow, 0);
+  return {
+    id,
+    number: readCueNumber(raw.number),
+    label: typeof raw.label === 'string' ? raw.label.trim() : '',
+    channels,
+    fadeTime: readTime(raw.fadeTime, DEFAULT_FADE_MS),
+    fadeOutTime: raw.fadeOutTime === undefined || raw.fadeOutTime === null ? null : readTime(raw.fadeOutTime, 0),
+    delay: readTime(raw.delay, 0),
+    follow,
+  };
+}
+
+/**
+ * A non-negative whole number of milliseconds, or the fallback.
+ */
+function readTime(value: unknown, fallback: number): number {
+  const ms = Number(value);
+  return value !== null && value !== undefined && value !== '' && Number.isFinite(ms) ? Math.max(0, Math.round(ms)) : fallback;
+}
@@ -1,237 +1,185 @@
-import { SerialPort } from 'serialport';
-import { DMXUniverse } from './dmx-universe';
+import type Store from 'electron-store';
+import { UNIVERSE_SIZE, MAX_UNIVERSES } from './dmx-universe';
+import { FrameScheduler } from './frame-scheduler';
+import { OutputTransport, OutputStatus } from './output-transport';
 import { log } from './logger';
 
-// Enttec DMX USB Pro constants
-const ENTTEC_VENDOR_ID = '0403';
-const ENTTEC_PRODUCT_ID = '6001';
-const DMX_PRO_START_MSG = 0x7e;
-const DMX_PRO_END_MSG = 0xe7;
-const DMX_PRO_SEND_LABEL = 6;
-const DMX_REFRESH_INTERVAL = 25; // 40 Hz
+type AppStore = Store<Record<string, unknown>>;
+
+/**
+ * Universe → output IDs. Keys are 1-indexed local universe numbers.
+ */
+export type OutputRoutes = Record<number, string[]>;
+
+export interface DMXDriverStatus {
+  connected: boolean; // true if any output is connected
+  outputs: OutputStatus[];
+}
 
 interface DMXDriverOptions {
-  universe: DMXUniverse;
+  store: AppStore;
+  outputs: OutputTransport[];
+  scheduler: FrameScheduler;
 }
 
 /**
- * DMXDriver — Manages serial communication with the Enttec DMX USB Pro adapter.
- * Handles auto-detection, 40 Hz refresh loop, and reconnection with exponential backoff.
+ * DMXDriver — Routes each rendered frame from FrameScheduler to one or more
+ * output transports per universe (Enttec, Art-Net, sACN, virtual). The
+ * routing table is persisted in electron-store under `routing`, so the same
+ * look can be mirrored to several destinations.
  */
 export class DMXDriver {
-  private universe: DMXUniverse;
-  private serialPort: SerialPort | null = null;
-  private refreshInterval: ReturnType<typeof setInterval> | null = null;
-  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
-  private reconnectDelay: number = 1000;
-  private readonly maxReconnectDelay: number = 30000;
-  private isConnected: boolean = false;
-  private portPath: string | null = null;
-  private statusListeners: Set<(connected: boolean, port: string | null) => void> = new Set();
-  private isShuttingDown: boolean = false;
+  private store: AppStore;
+  private outputs: Map<string, OutputTransport> = new Map();
+  private routes: OutputRoutes;
+  private statusListeners: Set<(status: DMXDriverStatus) => void> = new Set();
+  private routeListeners: Set<(routes: OutputRoutes) => void> = new Set();
 
   constructor(options: DMXDriverOptions) {
-    this.universe = options.universe;
+    this.store = options.store;
+
+    for (const output of options.outputs) {
+      this.outputs.set(output.id, output);
+      output.onStatusChange(() => this.emitStatus());
+    }
+
+    // Ensure a routing table exists — by default universe 1 goes everywhere
+    if (!(this.store as any).has('routing')) {
+      (this.store as any).set('routing', { 1: [...this.outputs.keys()] });
+    }
+    // Cached — read on every frame
+    this.routes = this.limitRoutes(((this.store as any).get('routing') as OutputRoutes) || {});
+
+    options.scheduler.onFrame((frame) => this.sendFrame(frame));
   }
 
   /**
-   * Auto-detect and connect to the Enttec DMX USB Pro adapter.
+   * Start every output. Frames flow once the scheduler is started.
    */
   async initialize(): Promise<void> {
-    log.info('DMXDriver: Scanning for Enttec DMX USB Pro...');
-    const detected = await this.detectDevice();
-
-    if (detected) {
-      await this.connect(detected);
-    } else {
-      log.warn('DMXDriver: No Enttec DMX USB Pro found. Running in disconnected mode.');
-      this.emitStatus();
+    for (const output of this.outputs.values()) {
+      try {
+        await output.start();
+      } catch (err) {
+        log.error(`DMXDriver: Failed to start ${output.label}:`, err);
+      }
     }
-
-    // Start the 40 Hz refresh loop regardless of connection status
-    this.startRefreshLoop();
   }
 
   /**
-   * Scan serial ports for the Enttec DMX USB Pro.
+   * Send one rendered frame to every routed output.
    */
-  private async detectDevice(): Promise<string | null> {
-    try {
-      const ports = await SerialPort.list();
-      log.debug(`DMXDriver: Found ${ports.length} serial ports`);
+  private sendFrame(frame: Uint8Array): void {
+    const universeCount = frame.length / UNIVERSE_SIZE;
 
-      const matches = ports.filter(
-        (p) =>
-          p.vendorId?.toLowerCase() === ENTTEC_VENDOR_ID &&
-          p.productId?.toLowerCase() === ENTTEC_PRODUCT_ID
-      );
+    for (const [key, outputIds] of Object.entries(this.routes)) {
+      const universeNumber = Number(key);
+      if (outputIds.length === 0 || universeNumber > universeCount) continue;
 
-      if (matches.length === 0) {
-        // Also try path-based detection for macOS
-        const pathMatches = ports.filter((p) =>
-          p.path.includes('usbserial')
-        );
-        if (pathMatches.length > 0) {
-          log.info(`DMXDriver: Found USB serial device at ${pathMatches[0].path} (path-based detection)`);
-          if (pathMatches.length > 1) {
-            log.warn(`DMXDriver: Multiple USB serial devices found. Using first: ${pathMatches[0].path}`);
-          }
-          return pathMatches[0].path;
+      const channels = frame.subarray((universeNumber - 1) * UNIVERSE_SIZE, universeNumber * UNIVERSE_SIZE);
+      for (const id of outputIds) {
+        try {
+          this.outputs.get(id)?.send(universeNumber, channels);
+        } catch (err) {
+          log.error(`DMXDriver: Error sending to ${id}:`, err);
         }
-        return null;
-      }
-
-      if (matches.length > 1) {
-        log.warn(`DMXDriver: Multiple Enttec devices found. Using first: ${matches[0].path}`);
       }
-
-      log.info(`DMXDriver: Detected Enttec DMX USB Pro at ${matches[0].path}`);
-      return matches[0].path;
-    } catch (err) {
-      log.error('DMXDriver: Error scanning serial ports:', err);
-      return null;
     }
   }
 
   /**
-   * Connect to the specified serial port.
+   * Get the routing table.
    */
-  private async connect(portPath: string): Promise<void> {
-    return new Promise<void>((resolve) => {
-      try {
-        this.serialPort = new SerialPort({
-          path: portPath,
-          baudRate: 250000,
-          dataBits: 8,
-          stopBits: 2,
-          parity: 'none',
-          autoOpen: false,
-        });
-
-        this.serialPort.on('open', () => {
-          log.info(`DMXDriver: Connected to ${portPath}`);
-          this.isConnected = true;
-          this.portPath = portPath;
-          this.reconnectDelay = 1000; // Reset backoff
-          this.emitStatus();
-          resolve();
-        });
-
-        this.serialPort.on('error', (err) => {
-          log.error(`DMXDriver: Serial port error: ${err.message}`);
-        });
-
-        this.serialPort.on('close', () => {
-          if (!this.isShuttingDown) {
-            log.warn('DMXDriver: Serial port closed. Starting reconnection...');
-            this.isConnected = false;
-            this.portPath = null;
-            this.serialPort = null;
-            this.emitStatus();
-            this.startReconnection();
-          }
-        });
-
-        this.serialPort.open((err) => {
-          if (err) {
-            log.error(`DMXDriver: Failed to open ${portPath}: ${err.message}`);
-            this.serialPort = null;
-            this.startReconnection();
-            resolve();
-          }
-        });
-      } catch (err) {
-        log.error('DMXDriver: Connection error:', err);
-        this.startReconnection();
-        resolve();
-      }
-    });
+  getRoutes(): OutputRoutes {
+    return { ...this.routes };
   }
 
   /**
-   * Build the DMX packet for the Enttec DMX USB Pro.
+   * Route a universe to a set of outputs. Unknown output IDs are rejected.
    */
-  private buildDMXPacket(channels: Uint8Array): Buffer {
-    const dataLength = channels.length + 1; // +1 for DMX start code (0x00)
-    const packet = Buffer.alloc(dataLength + 5);
+  setRoute(universe: number, outputIds: string[]): OutputRoutes {
+    if (!Number.isInteger(universe) || universe < 1 || universe > MAX_UNIVERSES) {
+      throw new Error(`Invalid universe: ${universe}`);
+    }
+    const unknown = outputIds.filter((id) => !this.outputs.has(id));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown output: ${unknown.join(', ')}`);
+    }
+    for (const id of new Set(outputIds)) {
+      const output = this.outputs.get(id)!;
+      if (output.maxUniverses === undefined) continue;
+      const routed = Object.entries(this.routes).filter(([u, ids]) => Number(u) !== universe && ids.includes(id));
+      if (routed.length >= output.maxUniverses) {
+        throw new Error(
+          `${output.label} can only carry ${output.maxUniverses} universe(s) — unroute universe ${routed[0][0]} first`
+        );
+      }
+    }
 
-    packet[0] = DMX_PRO_START_MSG;
-    packet[1] = DMX_PRO_SEND_LABEL;
-    packet[2] = dataLength & 0xff;        // Length LSB
-    packet[3] = (dataLength >> 8) & 0xff;  // Length MSB
-    packet[4] = 0x00;                      // DMX start code
+    const routes = { ...this.routes, [universe]: [...new Set(outputIds)] };
+    this.routes = routes;
+    (this.store as any).set('routing', routes);
+    log.info(`DMXDriver: Universe ${universe} → ${outputIds.join(', ') || 'none'}`);
 
-    // Copy channel data
-    for (let i = 0; i < channels.length; i++) {
-      packet[5 + i] = channels[i];
+    for (const listener of this.routeListeners) {
+      try {
+        listener(routes);
+      } catch (err) {
+        log.error('DMXDriver: Route listener error:', err);
+      }
     }
 
-    packet[packet.length - 1] = DMX_PRO_END_MSG;
-
-    return packet;
+    return routes;
   }
 
   /**
-   * Start the 40 Hz DMX refresh loop.
+   * Drop routes beyond an output's universe capacity from a stored table,
+   * keeping the lowest universes.
    */
-  private startRefreshLoop(): void {
-    if (this.refreshInterval) {
-      clearInterval(this.refreshInterval);
-    }
-
-    this.refreshInterval = setInterval(() => {
-      if (this.isConnected && this.serialPort && this.serialPort.isOpen) {
-        try {
-          const state = this.universe.getState();
-          const packet = this.buildDMXPacket(state);
-          this.serialPort.write(packet, (err) => {
-            if (err) {
-              log.error(`DMXDriver: Write error: ${err.message}`);
-            }
-          });
-        } catch (err) {
-          log.error('DMXDriver: Error in refresh loop:', err);
+  private limitRoutes(routes: OutputRoutes): OutputRoutes {
+    const limited: OutputRoutes = {};
+    const counts = new Map<string, number>();
+    let changed = false;
+
+    for (const key of Object.keys(routes).map(Number).sort((a, b) => a - b)) {
+      limited[key] = routes[key].filter((id) => {
+        const max = this.outputs.get(id)?.maxUniverses;
+        if (max === undefined) return true;
+        const count = counts.get(id) ?? 0;
+        if (count >= max) {
+          log.warn(`DMXDriver: ${id} can only carry ${max} universe(s) — dropped route from universe ${key}`);
+          changed = true;
+          return false;
         }
-      }
-    }, DMX_REFRESH_INTERVAL);
+        counts.set(id, count + 1);
+        return true;
+      });
+    }
 
-    log.info(`DMXDriver: Refresh loop started at ${1000 / DMX_REFRESH_INTERVAL} Hz`);
+    if (changed) {
+      (this.store as any).set('routing', limited);
+    }
+    return limited;
   }
 
   /**
-   * Start exponential backoff reconnection.
+   * Register a routing table change listener.
    */
-  private startReconnection(): void {
-    if (this.isShuttingDown) return;
-    if (this.reconnectTimer) {
-      clearTimeout(this.reconnectTimer);
-    }
-
-    log.info(`DMXDriver: Reconnection attempt in ${this.reconnectDelay}ms...`);
-
-    this.reconnectTimer = setTimeout(async () => {
-      const detected = await this.detectDevice();
-      if (detected) {
-        await this.connect(detected);
-      } else {
-        // Exponential backoff
-        this.reconnectDelay = Math.min(this.reconnectDelay * 2, this.maxReconnectDelay);
-        this.startReconnection();
-      }
-    }, this.reconnectDelay);
+  onRoutesChange(callback: (routes: OutputRoutes) => void): void {
+    this.routeListeners.add(callback);
   }
 
   /**
    * Register a status change listener.
    */
-  onStatusChange(callback: (connected: boolean, port: string | null) => void): void {
+  onStatusChange(callback: (status: DMXDriverStatus) => void): void {
     this.statusListeners.add(callback);
   }
 
   /**
    * Remove a status change listener.
    */
-  offStatusChange(callback: (connected: boolean, port: string | null) => void): void {
+  offStatusChange(callback: (status: DMXDriverStatus) => void): void {
     this.statusListeners.delete(callback);
   }
 
@@ -239,9 +187,10 @@ export class DMXDriver {
    * Emit current status to all listeners.
    */
   private emitStatus(): void {
+    const status = this.getStatus();
     for (const listener of this.statusListeners) {
       try {
-        listener(this.isConnected, this.portPath);
+        listener(status);
       } catch (err) {
         log.error('DMXDriver: Status listener error:', err);
       }
@@ -249,73 +198,42 @@ export class DMXDriver {
   }
 
   /**
-   * Get current connection status.
+   * Get the status of every output.
    */
-  getStatus(): { connected: boolean; port: string | null } {
+  getStatus(): DMXDriverStatus {
+    const outputs = [...this.outputs.values()].map((o) => ({ ...o.getStatus(), maxUniverses: o.maxUniverses }));
     return {
-      connected: this.isConnected,
-      port: this.portPath,
+      connected: outputs.some((o) => o.type !== 'virtual' && o.connected),
+      outputs,
     };
   }
 
   /**
-   * Restart the DMX driver — tear down and re-initialize.
+   * Restart — re-detect hardware on outputs that support it.
    */
   async restart(): Promise<void> {
-    log.info('DMXDriver: Restarting...');
-    await this.closePort();
-    this.reconnectDelay = 1000;
-    const detected = await this.detectDevice();
-    if (detected) {
-      await this.connect(detected);
-    } else {
-      log.warn('DMXDriver: No device found after restart.');
-      this.emitStatus();
-    }
-  }
-
-  /**
-   * Close the serial port.
-   */
-  private async closePort(): Promise<void> {
-    return new Promise<void>((resolve) => {
-      if (this.serialPort && this.serialPort.isOpen) {
-        this.serialPort.close((err) => {
-          if (err) {
-            log.error(`DMXDriver: Error closing port: ${err.message}`);
-          }
-          this.serialPort = null;
-          this.isConnected = false;
-          this.portPath = null;
-          resolve();
-        });
-      } else {
-        this.serialPort = null;
-        this.isConnected = false;
-        this.portPath = null;
-        resolve();
+    log.info('DMXDriver: Restarting outputs...');
+    for (const output of this.outputs.values()) {
+      if (output.restart) {
+        await output.restart();
       }
-    });
+    }
+    this.emitStatus();
   }
 
   /**
-   * Graceful shutdown — stop everything.
+   * Graceful shutdown — stop every output.
    */
   async shutdown(): Promise<void> {
     log.info('DMXDriver: Shutting down...');
-    this.isShuttingDown = true;
-
-    if (this.reconnectTimer) {
-      clearTimeout(this.reconnectTimer);
-      this.reconnectTimer = null;
-    }
 
-    if (this.refreshInterval) {
-      clearInterval(this.refreshInterval);
-      this.refreshInterval = null;
+    for (const output of this.outputs.values()) {
+      try {
+        await output.shutdown();
+      } catch (err) {
+        log.error(`DMXDriver: Error shutting down ${output.label}:`, err);
+      }
     }
-
-    await this.closePort();
     log.info('DMXDriver: Shutdown complete');
   }
 }
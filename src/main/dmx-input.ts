@@ -0,0 +1,491 @@
+import dgram from 'dgram';
+import type Store from 'electron-store';
+import { v4 as uuidv4 } from 'uuid';
+import { DMXUniverse, MergePolicy, MAX_UNIVERSES, LOCAL_PRIORITY } from './dmx-universe';
+import { ArtNetOutput } from './artnet-output';
+import { log } from './logger';
+
+type AppStore = Store<Record<string, unknown>>;
+
+// E1.31 receive constants
+const SACN_PORT = 5568;
+const ACN_PACKET_IDENTIFIER = Buffer.from([
+  0x41, 0x53, 0x43, 0x2d, 0x45, 0x31, 0x2e, 0x31, 0x37, 0x00, 0x00, 0x00,
+]);
+const VECTOR_ROOT_E131_DATA = 0x00000004;
+const VECTOR_E131_DATA_PACKET = 0x00000002;
+const OPTION_PREVIEW_DATA = 0x80;
+const OPTION_STREAM_TERMINATED = 0x40;
+const SOURCE_TIMEOUT = 2500; // E1.31 network data loss timeout
+const TIMEOUT_CHECK_INTERVAL = 500;
+
+type InputProtocol = 'sacn' | 'artnet';
+
+interface InputSourceConfig {
+  id: string;
+  name: string;
+  protocol: InputProtocol;
+  sourceUniverse: number;   // sACN universe (1–63999) or Art-Net Port-Address (0–32767)
+  universe: number;         // Local universe to merge into (1-indexed)
+  policy: MergePolicy;
+  priority: number;         // Art-Net only; sACN uses the priority in each packet
+  enabled: boolean;
+}
+
+interface InputSource extends InputSourceConfig {
+  active: boolean;
+  sender: string | null;    // Sender IP, or sACN source name
+  lastSeen: number | null;
+  effectivePriority: number;
+}
+
+/**
+ * One console sending to a source: keyed by CID for sACN, by IP for Art-Net.
+ */
+interface SenderState {
+  name: string;
+  lastSeen: number;
+  priority: number;
+  data: Uint8Array;
+  changedAt: Float64Array;  // Per slot, for LTP between senders
+}
+
+interface DMXInputOptions {
+  store: AppStore;
+  universe: DMXUniverse;
+  artnet: ArtNetOutput;
+}
+
+/**
+ * DMXInput — Receives sACN and Art-Net universes from other consoles and
+ * merges them into DMXUniverse as input layers, each with its own merge
+ * policy (HTP, LTP or priority takeover). Several consoles may send the
+ * same universe (e.g. a main and a backup): each is tracked on its own, only
+ * the highest priority counts, and equal priorities merge by the source's
+ * policy (HTP, or LTP). Source configuration is persisted
+ * in electron-store under `inputs`. Art-Net frames arrive on ArtNetOutput's
+ * socket, since only one socket can reliably own port 6454.
+ */
+export class DMXInput {
+  private store: AppStore;
+  private universe: DMXUniverse;
+  private artnet: ArtNetOutput;
+  private socket: dgram.Socket | null = null;
+  private configs: InputSourceConfig[];  // Cached — consulted on every received packet
+  private ownCid: string | null;
+  private joinedGroups: Set<string> = new Set();
+  private live: Map<string, Map<string, SenderState>> = new Map(); // Source ID → sender key → state
+  private timeoutTimer: ReturnType<typeof setInterval> | null = null;
+  private changeListeners: Set<(sources: InputSource[]) => void> = new Set();
+
+  constructor(options: DMXInputOptions) {
+    this.store = options.store;
+    this.universe = options.universe;
+    this.artnet = options.artnet;
+
+    // Ensure inputs array exists
+    if (!(this.store as any).has('inputs')) {
+      (this.store as any).set('inputs', []);
+    }
+    this.configs = ((this.store as any).get('inputs') as InputSourceConfig[]) || [];
+
+    const sacnConfig = (this.store as any).get('sacn') as { cid?: string } | undefined;
+    this.ownCid = sacnConfig?.cid ? sacnConfig.cid.replace(/-/g, '') : null;
+  }
+
+  /**
+   * Bind the sACN receive socket and start listening for Art-Net frames.
+   */
+  async start(): Promise<void> {
+    this.artnet.onDmx((portAddress, data, sender) => {
+      this.handleArtNet(portAddress, data, sender);
+    });
+
+    await new Promise<void>((resolve) => {
+      const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+
+      const handleBindError = (err: Error) => {
+        log.error(`DMXInput: Could not bind sACN port ${SACN_PORT}: ${err.message}`);
+        socket.close();
+        resolve();
+      };
+      socket.once('error', handleBindError);
+
+      socket.bind(SACN_PORT, () => {
+        socket.off('error', handleBindError);
+        socket.on('error', (err) => {
+          log.error(`DMXInput: Socket error: ${err.message}`);
+        });
+        socket.on('message', (msg, rinfo) => this.handleSACN(msg, rinfo.address));
+        this.socket = socket;
+        this.updateMemberships();
+        resolve();
+      });
+    });
+
+    this.timeoutTimer = setInterval(() => this.expireSources(), TIMEOUT_CHECK_INTERVAL);
+    log.info(`DMXInput: Started (${this.getConfigs().length} source(s))`);
+  }
+
+  private getConfigs(): InputSourceConfig[] {
+    return [...this.configs];
+  }
+
+  private saveConfigs(configs: InputSourceConfig[]): void {
+    this.configs = configs;
+    (this.store as any).set('inputs', configs);
+  }
+
+  /**
+   * Get all input sources with their live status.
+   */
+  getSources(): InputSource[] {
+    return this.getConfigs().map((config) => {
+      const winners = this.getWinners(config.id);
+      return {
+        ...config,
+        active: winners.length > 0,
+        sender: winners.length > 0 ? winners.map((s) => s.name).join(', ') : null,
+        lastSeen: winners.length > 0 ? Math.max(...winners.map((s) => s.lastSeen)) : null,
+        effectivePriority: winners[0]?.priority ?? config.priority,
+      };
+    });
+  }
+
+  /**
+   * Add a new input source.
+   */
+  create(patch: Partial<Omit<InputSourceConfig, 'id'>>): InputSourceConfig {
+    const source = normalizeSource({ id: uuidv4() }, patch);
+    const configs = this.getConfigs();
+    configs.push(source);
+    this.saveConfigs(configs);
+
+    log.info(`DMXInput: Created source "${source.name}" (${source.protocol} ${source.sourceUniverse} → U${source.universe}, ${source.policy})`);
+    this.updateMemberships();
+    this.emitChange();
+    return source;
+  }
+
+  /**
+   * Update an input source. Its layer is dropped until the next frame arrives.
+   */
+  update(id: string, patch: Partial<Omit<InputSourceConfig, 'id'>>): InputSourceConfig {
+    const configs = this.getConfigs();
+    const index = configs.findIndex((c) => c.id === id);
+    if (index === -1) {
+      throw new Error(`Input source not found: ${id}`);
+    }
+
+    const updated = normalizeSource(configs[index], patch);
+    configs[index] = updated;
+    this.saveConfigs(configs);
+
+    this.dropLayer(id);
+    log.info(`DMXInput: Updated source "${updated.name}" (${id})`);
+    this.updateMemberships();
+    this.emitChange();
+    return updated;
+  }
+
+  /**
+   * Delete an input source and release its channels.
+   */
+  delete(id: string): boolean {
+    const configs = this.getConfigs();
+    const index = configs.findIndex((c) => c.id === id);
+    if (index === -1) {
+      log.warn(`DMXInput: Source not found for deletion: ${id}`);
+      return false;
+    }
+
+    const removed = configs.splice(index, 1)[0];
+    this.saveConfigs(configs);
+
+    this.dropLayer(id);
+    log.info(`DMXInput: Deleted source "${removed.name}" (${id})`);
+    this.updateMemberships();
+    this.emitChange();
+    return true;
+  }
+
+  /**
+   * Register a listener for source list or activity changes.
+   */
+  onChange(callback: (sources: InputSource[]) => void): void {
+    this.changeListeners.add(callback);
+  }
+
+  private emitChange(): void {
+    const sources = this.getSources();
+    for (const listener of this.changeListeners) {
+      try {
+        listener(sources);
+      } catch (err) {
+        log.error('DMXInput: Change listener error:', err);
+      }
+    }
+  }
+
+  /**
+   * Join the multicast group of every enabled sACN source universe.
+   */
+  private updateMemberships(): void {
+    if (!this.socket) return;
+
+    const wanted = new Set(
+      this.getConfigs()
+        .filter((c) => c.enabled && c.protocol === 'sacn')
+        .map((c) => getMulticastAddress(c.sourceUniverse))
+    );
+
+    for (const group of this.joinedGroups) {
+      if (!wanted.has(group)) {
+        try {
+          this.socket.dropMembership(group);
+        } catch (err) {
+          log.debug(`DMXInput: Failed to leave ${group}:`, err);
+        }
+        this.joinedGroups.delete(group);
+      }
+    }
+
+    for (const group of wanted) {
+      if (this.joinedGroups.has(group)) continue;
+      try {
+        this.socket.addMembership(group);
+        this.joinedGroups.add(group);
+      } catch (err) {
+        log.warn(`DMXInput: Failed to join ${group}:`, err);
+      }
+    }
+  }
+
+  /**
+   * Parse an inbound E1.31 data packet.
+   */
+  private handleSACN(msg: Buffer, address: string): void {
+    if (msg.length < 126) return;
+    if (!msg.subarray(4, 16).equals(ACN_PACKET_IDENTIFIER)) return;
+    if (msg.readUInt32BE(18) !== VECTOR_ROOT_E131_DATA) return;
+    if (msg.readUInt32BE(40) !== VECTOR_E131_DATA_PACKET) return;
+
+    // Our own sACN output is looped back on multicast — ignore it
+    if (msg.subarray(22, 38).toString('hex') === this.ownCid) return;
+
+    const options = msg[112];
+    if (options & OPTION_PREVIEW_DATA) return;
+
+    // Only null start code frames carry dimmer data
+    if (msg[125] !== 0x00) return;
+
+    const sourceUniverse = msg.readUInt16BE(113);
+    const priority = msg[108];
+    const cid = msg.subarray(22, 38).toString('hex');
+    const sourceName = readString(msg, 44, 64) || address;
+    const slotCount = Math.max(0, Math.min(512, msg.readUInt16BE(123) - 1, msg.length - 126));
+
+    for (const config of this.configs) {
+      if (!config.enabled || config.protocol !== 'sacn' || config.sourceUniverse !== sourceUniverse) continue;
+
+      if (options & OPTION_STREAM_TERMINATED) {
+        if (this.live.get(config.id)?.has(cid)) {
+          log.info(`DMXInput: "${config.name}" stream terminated by ${sourceName}`);
+          this.dropSender(config, cid);
+          this.emitChange();
+        }
+        continue;
+      }
+
+      this.deliver(config, cid, new Uint8Array(msg.subarray(126, 126 + slotCount)), sourceName, priority);
+    }
+  }
+
+  private handleArtNet(portAddress: number, data: Uint8Array, sender: string): void {
+    for (const config of this.configs) {
+      if (!config.enabled || config.protocol !== 'artnet' || config.sourceUniverse !== portAddress) continue;
+      this.deliver(config, sender, data, sender, config.priority);
+    }
+  }
+
+  /**
+   * Store a received frame from one sender and refresh the source's input
+   * layer from all of its senders.
+   */
+  private deliver(config: InputSourceConfig, key: string, data: Uint8Array, name: string, priority: number): void {
+    let senders = this.live.get(config.id);
+    if (!senders) {
+      senders = new Map();
+      this.live.set(config.id, senders);
+    }
+
+    const now = Date.now();
+    const previous = senders.get(key);
+    const changedAt = previous ? previous.changedAt : new Float64Array(data.length);
+    for (let i = 0; i < data.length && i < changedAt.length; i++) {
+      if (!previous || i >= previous.data.length || previous.data[i] !== data[i]) {
+        changedAt[i] = now;
+      }
+    }
+    senders.set(key, { name, lastSeen: now, priority, data, changedAt });
+    this.updateLayer(config);
+
+    if (!previous) {
+      log.info(`DMXInput: "${config.name}" receiving from ${name} (priority ${priority})`);
+      this.emitChange();
+    }
+  }
+
+  /**
+   * The senders that count for a source: those at the highest priority.
+   */
+  private getWinners(id: string): SenderState[] {
+    const senders = [...(this.live.get(id)?.values() ?? [])];
+    const top = Math.max(-1, ...senders.map((s) => s.priority));
+    return senders.filter((s) => s.priority === top);
+  }
+
+  /**
+   * Merge the winning senders of a source (HTP, or LTP for an LTP source)
+   * into its input layer, or release the layer when none are left.
+   */
+  private updateLayer(config: InputSourceConfig): void {
+    const winners = this.getWinners(config.id);
+    if (winners.length === 0) {
+      this.dropLayer(config.id);
+      return;
+    }
+
+    let data = winners[0].data;
+    if (winners.length > 1) {
+      data = new Uint8Array(Math.max(...winners.map((s) => s.data.length)));
+      const latest = new Float64Array(data.length);
+      for (const sender of winners) {
+        for (let i = 0; i < sender.data.length; i++) {
+          const wins = config.policy === 'ltp'
+            ? sender.changedAt[i] >= latest[i]
+            : sender.data[i] > data[i];
+          if (wins) {
+            data[i] = sender.data[i];
+            latest[i] = sender.changedAt[i];
+          }
+        }
+      }
+    }
+
+    this.universe.setInputLayer(config.id, config.universe, data, config.policy, winners[0].priority);
+  }
+
+  /**
+   * Forget one sender of a source (terminated or timed out).
+   */
+  private dropSender(config: InputSourceConfig, key: string): void {
+    const senders = this.live.get(config.id);
+    if (!senders?.delete(key)) return;
+    if (senders.size === 0) {
+      this.dropLayer(config.id);
+    } else {
+      this.updateLayer(config);
+    }
+  }
+
+  /**
+   * Release senders that have stopped sending.
+   */
+  private expireSources(): void {
+    const now = Date.now();
+    let changed = false;
+    for (const config of this.configs) {
+      for (const [key, sender] of this.live.get(config.id) ?? []) {
+        if (now - sender.lastSeen > SOURCE_TIMEOUT) {
+          log.info(`DMXInput: "${config.name}" timed out (${sender.name})`);
+          this.dropSender(config, key);
+          changed = true;
+        }
+      }
+    }
+    if (changed) {
+      this.emitChange();
+    }
+  }
+
+  private dropLayer(id: string): void {
+    this.live.delete(id);
+    this.universe.clearInputLayer(id);
+  }
+
+  /**
+   * Graceful shutdown — release all layers and close the socket.
+   */
+  async shutdown(): Promise<void> {
+    if (this.timeoutTimer) {
+      clearInterval(this.timeoutTimer);
+      this.timeoutTimer = null;
+    }
+    for (const id of [...this.live.keys()]) {
+      this.dropLayer(id);
+    }
+
+    return new Promise<void>((resolve) => {
+      if (!this.socket) {
+        resolve();
+        return;
+      }
+      this.socket.close(() => {
+        this.socket = null;
+        log.info('DMXInput: Shutdown complete');
+        resolve();
+      });
+    });
+  }
+}
+
+/**
+ * Apply a patch over a source, validating and clamping every field.
+ */
+function normalizeSource(
+  current: Partial<InputSourceConfig> & { id: string },
+  patch: Partial<Omit<InputSourceConfig, 'id'>>
+): InputSourceConfig {
+  const protocol = patch.protocol ?? current.protocol ?? 'sacn';
+  if (protocol !== 'sacn' && protocol !== 'artnet') {
+    throw new Error(`Unknown input protocol: ${protocol}`);
+  }
+
+  const policy = patch.policy ?? current.policy ?? 'htp';
+  if (policy !== 'htp' && policy !== 'ltp' && policy !== 'priority') {
+    throw new Error(`Unknown merge policy: ${policy}`);
+  }
+
+  const sourceUniverse = patch.sourceUniverse ?? current.sourceUniverse ?? (protocol === 'sacn' ? 1 : 0);
+
+  return {
+    id: current.id,
+    name: (patch.name ?? current.name ?? '').trim() || `${protocol === 'sacn' ? 'sACN' : 'Art-Net'} ${sourceUniverse}`,
+    protocol,
+    sourceUniverse: protocol === 'sacn'
+      ? clampInt(sourceUniverse, 1, 63999)
+      : clampInt(sourceUniverse, 0, 0x7fff),
+    universe: clampInt(patch.universe ?? current.universe ?? 1, 1, MAX_UNIVERSES),
+    policy,
+    priority: clampInt(patch.priority ?? current.priority ?? LOCAL_PRIORITY, 0, 200),
+    enabled: patch.enabled ?? current.enabled ?? true,
+  };
+}
+
+function clampInt(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, Math.round(Number(value) || 0)));
+}
+
+function readString(buffer: Buffer, offset: number, length: number): string {
+  const raw = buffer.toString('utf8', offset, offset + length);
+  const nul = raw.indexOf('\0');
+  return (nul === -1 ? raw : raw.slice(0, nul)).trim();
+}
+
+/**
+ * E1.31 multicast group for a universe: 239.255.<hi>.<lo>
+ */
+function getMulticastAddress(universe: number): string {
+  return `239.255.${(universe >> 8) & 0xff}.${universe & 0xff}`;
+}
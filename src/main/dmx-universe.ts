@@ -1,32 +1,163 @@
 import { log } from './logger';
+import { ChannelPatch, buildOutputTable, isIdentityPatch, patchLevel } from './output-patch';
+
+export const UNIVERSE_SIZE = 512;
+export const MAX_UNIVERSES = 16;
+export const LOCAL_PRIORITY = 100; // Priority of this app's own programmer (sACN default)
 
 /**
- * DMXUniverse — Single source of truth for the 512-channel DMX buffer.
- * All channel mutations flow through this class.
+ * How an input layer merges with the local programmer:
+ * 'htp' — highest value wins; 'ltp' — most recent change wins;
+ * 'priority' — takes over outright when its priority beats LOCAL_PRIORITY,
+ * merges HTP when equal and is ignored when lower.
+ */
+export type MergePolicy = 'htp' | 'ltp' | 'priority';
+
+interface InputLayer {
+  universe: number;           // Local universe the layer feeds (1-indexed)
+  policy: MergePolicy;
+  priority: number;
+  values: Uint8Array;         // Up to 512 slots
+  changedAt: Float64Array;    // Per-slot time of last change, for LTP
+}
+
+export interface ParkedChannel {
+  channel: number;            // Absolute channel, 1-indexed
+  value: number | null;       // Parked output value; null = locked
+}
+
+interface SubmasterLayer {
+  values: Uint8Array;         // Preset look, every universe back to back
+  level: number;              // 0–1
+  raisedAt: number;           // When the fader came up from zero, for LTP
+}
+
+/**
+ * Convert a universe.address pair (both 1-indexed) to an absolute channel.
+ * Universe 1 addresses map to channels 1–512, universe 2 to 513–1024, etc.
+ */
+export function toAbsoluteChannel(universe: number, address: number): number {
+  return (universe - 1) * UNIVERSE_SIZE + address;
+}
+
+/**
+ * Format an absolute channel as universe.address, e.g. 513 → "2.1".
+ */
+export function formatAddress(channel: number): string {
+  const universe = Math.floor((channel - 1) / UNIVERSE_SIZE) + 1;
+  const address = ((channel - 1) % UNIVERSE_SIZE) + 1;
+  return `${universe}.${address}`;
+}
+
+/**
+ * DMXUniverse — Single source of truth for the DMX buffer.
+ * Holds N universes of 512 channels back to back; channels are addressed
+ * absolutely (see toAbsoluteChannel). All channel mutations flow through this class.
+ *
+ * The local programmer (`channels`) can be merged with input layers fed by
+ * external sources (e.g. a visiting console over sACN/Art-Net), then with
+ * submaster layers (presets on playback faders), then the effect layer
+ * (running LFOs); getState() returns the merged result. Parked channels hold a fixed output value and locked ones
+ * refuse programmer writes. Patch-level limits, inversion and curves are
+ * applied last, to the rendered frame only — everything before (and what
+ * the UI sees) stays in logical 0–255. 16-bit (coarse/fine) pairs are
+ * scaled and patched as one value so dimming stays smooth.
+ *
+ * Writes only mark the buffer dirty. The output frame is computed once per
+ * frame by renderFrame() (driven by FrameScheduler), which is also when
+ * change listeners are notified.
  */
 export class DMXUniverse {
   private channels: Uint8Array;
+  private localChangedAt: Float64Array;
+  private layers: Map<string, InputLayer> = new Map();
+  private submasters: Map<string, SubmasterLayer> = new Map();
   private masterDimmer: number;
+  private masterExempt: Uint8Array; // 1 = channel ignores the master dimmer
+  private blackoutLevel = 1; // Output-stage intensity scale, 0 = blacked out
+  private effectValues: Map<number, number> = new Map(); // 0-indexed slot → effect engine value
+  private scaleLayers: Map<string, Map<number, number>> = new Map(); // Layer ID → 0-indexed slot → factor 0–1
+  private parked: Map<number, number | null> = new Map(); // 0-indexed slot → parked value, null = locked
+  private outputTables: Map<number, Uint8Array> = new Map(); // 0-indexed slot → logical-to-output lookup
+  private outputPatches16: Map<number, ChannelPatch> = new Map(); // Coarse slot → patch of a 16-bit pair
+  private finePairs: Map<number, number> = new Map(); // 0-indexed coarse slot → fine slot
   private listeners: Set<(channels: Uint8Array) => void>;
+  private resizeListeners: Set<(universeCount: number) => void>;
+  private dirty: boolean = true;
+  private mergeCache: { values: Uint8Array; owners: Map<number, string> } | null = null;
+  private lastFrame: Uint8Array;
 
-  constructor() {
-    this.channels = new Uint8Array(512);
+  constructor(universeCount: number = 1) {
+    const count = clampUniverseCount(universeCount);
+    this.channels = new Uint8Array(count * UNIVERSE_SIZE);
+    this.localChangedAt = new Float64Array(count * UNIVERSE_SIZE);
+    this.masterExempt = new Uint8Array(count * UNIVERSE_SIZE);
     this.masterDimmer = 255;
     this.listeners = new Set();
-    log.info('DMXUniverse initialized (512 channels, master=255)');
+    this.resizeListeners = new Set();
+    this.lastFrame = new Uint8Array(this.channels.length);
+    log.info(`DMXUniverse initialized (${count} universe(s), ${this.channels.length} channels, master=255)`);
+  }
+
+  /**
+   * Number of 512-channel universes in the buffer.
+   */
+  getUniverseCount(): number {
+    return this.channels.length / UNIVERSE_SIZE;
+  }
+
+  /**
+   * Total number of channels across all universes.
+   */
+  getChannelCount(): number {
+    return this.channels.length;
   }
 
   /**
-   * Set a single channel (1-indexed, DMX convention).
+   * Grow or shrink the buffer, keeping existing values.
+   */
+  setUniverseCount(universeCount: number): void {
+    const count = clampUniverseCount(universeCount);
+    if (count === this.getUniverseCount()) return;
+
+    const resized = new Uint8Array(count * UNIVERSE_SIZE);
+    resized.set(this.channels.subarray(0, resized.length));
+    this.channels = resized;
+    const changedAt = new Float64Array(resized.length);
+    changedAt.set(this.localChangedAt.subarray(0, resized.length));
+    this.localChangedAt = changedAt;
+    const exempt = new Uint8Array(resized.length);
+    exempt.set(this.masterExempt.subarray(0, resized.length));
+    this.masterExempt = exempt;
+    log.info(`DMXUniverse: Universe count set to ${count}`);
+
+    for (const listener of this.resizeListeners) {
+      try {
+        listener(count);
+      } catch (err) {
+        log.error('DMXUniverse resize listener error:', err);
+      }
+    }
+    this.markDirty();
+  }
+
+  /**
+   * Register a universe count change listener.
+   */
+  onResize(callback: (universeCount: number) => void): void {
+    this.resizeListeners.add(callback);
+  }
+
+  /**
+   * Set a single channel (1-indexed absolute channel, DMX convention).
    */
   setChannel(channel: number, value: number): void {
-    if (channel < 1 || channel > 512) {
+    if (channel < 1 || channel > this.channels.length) {
       log.warn(`DMXUniverse: Invalid channel number ${channel}`);
       return;
     }
-    const clamped = Math.max(0, Math.min(255, Math.round(value)));
-    this.channels[channel - 1] = clamped;
-    this.notifyListeners();
+    this.writeLocal(channel - 1, value);
+    this.markDirty();
   }
 
   /**
@@ -35,25 +166,416 @@ export class DMXUniverse {
   setChannels(values: Record<number, number>): void {
     for (const [channel, value] of Object.entries(values)) {
       const ch = Number(channel);
-      if (ch >= 1 && ch <= 512) {
-        this.channels[ch - 1] = Math.max(0, Math.min(255, Math.round(value)));
+      if (ch >= 1 && ch <= this.channels.length) {
+        this.writeLocal(ch - 1, value);
       }
     }
-    this.notifyListeners();
+    this.markDirty();
+  }
+
+  /**
+   * Write one programmer slot (0-indexed), stamping the change time for LTP.
+   */
+  private writeLocal(index: number, value: number): void {
+    if (this.parked.has(index)) return;
+    const clamped = Math.max(0, Math.min(255, Math.round(value)));
+    if (this.channels[index] !== clamped) {
+      this.channels[index] = clamped;
+      this.localChangedAt[index] = Date.now();
+    }
   }
 
   /**
-   * Get a snapshot of all 512 channels (with master dimmer applied).
+   * Get a snapshot of all channels in every universe (inputs merged, master
+   * dimmer and blackout applied to every channel that isn't exempt).
    */
   getState(): Uint8Array {
-    const output = new Uint8Array(512);
-    const masterScale = this.masterDimmer / 255;
-    for (let i = 0; i < 512; i++) {
-      output[i] = Math.round(this.channels[i] * masterScale);
+    const merged = this.getMerge().values;
+    const output = new Uint8Array(merged);
+    const masterScale = (this.masterDimmer / 255) * this.blackoutLevel;
+    for (let i = 0; i < output.length; i++) {
+      if (!this.masterExempt[i]) {
+        output[i] = Math.round(output[i] * masterScale);
+      }
+    }
+    // 16-bit pairs follow their coarse channel, scaled as one value
+    if (masterScale < 1) {
+      for (const [coarse, fine] of this.finePairs) {
+        if (this.masterExempt[coarse] || fine >= output.length) continue;
+        const value = Math.round(((merged[coarse] << 8) | merged[fine]) * masterScale);
+        output[coarse] = value >> 8;
+        output[fine] = value & 0xff;
+      }
+    }
+    // Parked values are absolute — not scaled by the master or blackout
+    for (const [i, value] of this.parked) {
+      if (value !== null && i < output.length) output[i] = value;
     }
     return output;
   }
 
+  /**
+   * Replace the set of parked and locked channels. Programmer writes to
+   * either are ignored; parked channels also output their fixed value, and
+   * locked channels their programmer value, over everything else.
+   */
+  setParkedChannels(entries: ParkedChannel[]): void {
+    this.parked.clear();
+    for (const { channel, value } of entries) {
+      if (channel >= 1 && channel <= this.channels.length) {
+        this.parked.set(channel - 1, value === null ? null : Math.max(0, Math.min(255, Math.round(value))));
+      }
+    }
+    this.markDirty();
+  }
+
+  /**
+   * Replace the effect layer, keyed by absolute channel. Effect values
+   * override the programmer, inputs and submasters; an empty map clears it.
+   */
+  setEffectValues(values: Map<number, number>): void {
+    this.effectValues.clear();
+    for (const [channel, value] of values) {
+      if (channel >= 1 && channel <= this.channels.length) {
+        this.effectValues.set(channel - 1, value);
+      }
+    }
+    this.markDirty();
+  }
+
+  /**
+   * Replace a scale layer, keyed by absolute channel: factors (0–1) that
+   * dim the merged value beneath instead of replacing it — how effects and
+   * timeline tracks drive the virtual dimmer of an RGB-only fixture. Layers
+   * multiply; an empty map removes the layer.
+   */
+  setScaleLayer(id: string, scales: Map<number, number>): void {
+    if (scales.size === 0) {
+      if (this.scaleLayers.delete(id)) this.markDirty();
+      return;
+    }
+    const layer = new Map<number, number>();
+    for (const [channel, scale] of scales) {
+      if (channel >= 1 && channel <= this.channels.length) {
+        layer.set(channel - 1, Math.max(0, Math.min(1, scale)));
+      }
+    }
+    this.scaleLayers.set(id, layer);
+    this.markDirty();
+  }
+
+  /**
+   * Whether a channel (1-indexed absolute) is parked or locked.
+   */
+  isParked(channel: number): boolean {
+    return this.parked.has(channel - 1);
+  }
+
+  /**
+   * Replace the patch-level output processing (limits, inversion, curves),
+   * keyed by absolute channel. Channels without a patch pass through.
+   */
+  setOutputPatch(patch: Map<number, ChannelPatch>): void {
+    this.outputTables.clear();
+    this.outputPatches16.clear();
+    for (const [channel, channelPatch] of patch) {
+      if (channel < 1 || isIdentityPatch(channelPatch)) continue;
+      if (this.finePairs.has(channel - 1)) {
+        this.outputPatches16.set(channel - 1, channelPatch);
+      } else {
+        this.outputTables.set(channel - 1, buildOutputTable(channelPatch));
+      }
+    }
+    this.markDirty();
+  }
+
+  /**
+   * Replace the 16-bit channel pairs (absolute coarse channel → fine
+   * channel). Call setOutputPatch afterwards so patches follow the pairs.
+   */
+  setFinePairs(pairs: Map<number, number>): void {
+    this.finePairs.clear();
+    for (const [coarse, fine] of pairs) {
+      if (coarse >= 1 && fine >= 1 && coarse !== fine) {
+        this.finePairs.set(coarse - 1, fine - 1);
+      }
+    }
+    this.markDirty();
+  }
+
+  /**
+   * Set the channels the master dimmer must not scale (e.g. mode-select,
+   * hue or effect parameters). Replaces the previous set.
+   */
+  setMasterExempt(channels: number[]): void {
+    this.masterExempt.fill(0);
+    for (const ch of channels) {
+      if (ch >= 1 && ch <= this.masterExempt.length) {
+        this.masterExempt[ch - 1] = 1;
+      }
+    }
+    this.markDirty();
+  }
+
+  /**
+   * Feed (or refresh) an input layer for a local universe. Slots whose value
+   * changed since the previous frame are stamped for LTP merging.
+   */
+  setInputLayer(id: string, universe: number, data: Uint8Array, policy: MergePolicy, priority: number): void {
+    const now = Date.now();
+    const existing = this.layers.get(id);
+    const previous = existing && existing.universe === universe ? existing : null;
+    const changedAt = previous ? previous.changedAt : new Float64Array(UNIVERSE_SIZE);
+    const length = Math.min(UNIVERSE_SIZE, data.length);
+
+    for (let i = 0; i < length; i++) {
+      if (!previous || i >= previous.values.length || previous.values[i] !== data[i]) {
+        changedAt[i] = now;
+      }
+    }
+
+    this.layers.set(id, {
+      universe,
+      policy,
+      priority,
+      values: data.subarray(0, length),
+      changedAt,
+    });
+    this.markDirty();
+  }
+
+  /**
+   * Remove an input layer (source stopped, timed out or was deleted).
+   */
+  clearInputLayer(id: string): void {
+    if (this.layers.delete(id)) {
+      this.markDirty();
+    }
+  }
+
+  /**
+   * Put a preset on a submaster at a level (0–1), or refresh it. Intensity
+   * channels (those the master dimmer scales) merge HTP at the fader level;
+   * every other channel the preset sets (non-zero) merges LTP, taken when the
+   * fader comes up from zero. A level of 0 removes the layer.
+   */
+  setSubmasterLayer(id: string, values: ArrayLike<number>, level: number): void {
+    if (level <= 0) {
+      this.clearSubmasterLayer(id);
+      return;
+    }
+
+    const existing = this.submasters.get(id);
+    const layer = new Uint8Array(this.channels.length);
+    for (let i = 0; i < layer.length && i < values.length; i++) {
+      layer[i] = values[i] || 0;
+    }
+
+    this.submasters.set(id, {
+      values: layer,
+      level: Math.min(1, level),
+      raisedAt: existing ? existing.raisedAt : Date.now(),
+    });
+    this.markDirty();
+  }
+
+  /**
+   * Remove a submaster layer (fader at zero or unassigned).
+   */
+  clearSubmasterLayer(id: string): void {
+    if (this.submasters.delete(id)) {
+      this.markDirty();
+    }
+  }
+
+  /**
+   * Merge input layers over the local programmer, then submasters, then
+   * effects and scale layers, then parked and locked values (before master dimmer). Also reports which input layer
+   * owns each channel that isn't the programmer's.
+   */
+  private merge(): { values: Uint8Array; owners: Map<number, string> } {
+    const values = new Uint8Array(this.channels);
+    const owners = new Map<number, string>();
+    this.mergeInputs(values, owners);
+    this.mergeSubmasters(values, owners);
+    for (const [i, value] of this.effectValues) {
+      if (i < values.length) {
+        values[i] = value;
+        owners.delete(i + 1);
+      }
+    }
+    for (const layer of this.scaleLayers.values()) {
+      for (const [i, scale] of layer) {
+        if (i < values.length) values[i] = Math.round(values[i] * scale);
+      }
+    }
+    // Locked channels hold their (frozen) programmer value against every layer
+    for (const [i, value] of this.parked) {
+      if (i < values.length) {
+        values[i] = value ?? this.channels[i];
+        owners.delete(i + 1);
+      }
+    }
+    return { values, owners };
+  }
+
+  /**
+   * Merge input layers into `values` per their policy.
+   */
+  private mergeInputs(values: Uint8Array, owners: Map<number, string>): void {
+    if (this.layers.size === 0) return;
+
+    const universeCount = this.getUniverseCount();
+    for (let u = 1; u <= universeCount; u++) {
+      const layers = [...this.layers.entries()].filter(([, l]) => l.universe === u);
+      if (layers.length === 0) continue;
+
+      // Priority sources above the programmer take over; only the highest counts
+      const takeover = layers.filter(([, l]) => l.policy === 'priority' && l.priority > LOCAL_PRIORITY);
+      const topPriority = Math.max(-1, ...takeover.map(([, l]) => l.priority));
+      const merging = layers.filter(([, l]) => l.policy !== 'priority' || l.priority === LOCAL_PRIORITY);
+
+      const offset = (u - 1) * UNIVERSE_SIZE;
+      for (let i = 0; i < UNIVERSE_SIZE; i++) {
+        const ch = offset + i;
+        let value = values[ch];
+        let owner: string | null = null;
+        let ownerTime = this.localChangedAt[ch];
+        let tookOver = false;
+
+        for (const [id, layer] of takeover) {
+          if (layer.priority !== topPriority || i >= layer.values.length) continue;
+          // Equal top priorities merge HTP among themselves
+          if (!tookOver || layer.values[i] > value) {
+            value = layer.values[i];
+            owner = id;
+            tookOver = true;
+          }
+        }
+
+        if (!tookOver) {
+          for (const [id, layer] of merging) {
+            if (i >= layer.values.length) continue;
+            const wins = layer.policy === 'ltp'
+              ? layer.changedAt[i] > ownerTime
+              : layer.values[i] > value;
+            if (wins) {
+              value = layer.values[i];
+              owner = id;
+              ownerTime = layer.changedAt[i];
+            }
+          }
+        }
+
+        values[ch] = value;
+        if (owner) owners.set(ch + 1, owner);
+      }
+    }
+  }
+
+  /**
+   * Merge submaster layers into `values`: HTP for intensity, LTP against the
+   * programmer (or owning input) and each other for everything else. A
+   * 16-bit intensity pair merges HTP as one value, so coarse and fine always
+   * come from the same source.
+   */
+  private mergeSubmasters(values: Uint8Array, owners: Map<number, string>): void {
+    if (this.submasters.size === 0) return;
+
+    const submasters = [...this.submasters.values()];
+    const pairSlots = new Set<number>();
+    for (const [coarse, fine] of this.finePairs) {
+      if (this.masterExempt[coarse] || fine >= values.length) continue;
+      pairSlots.add(coarse).add(fine);
+      let value = (values[coarse] << 8) | values[fine];
+      for (const sub of submasters) {
+        const level = Math.round(((sub.values[coarse] << 8) | sub.values[fine]) * sub.level);
+        if (level > value) value = level;
+      }
+      values[coarse] = value >> 8;
+      values[fine] = value & 0xff;
+    }
+
+    for (let ch = 0; ch < values.length; ch++) {
+      if (pairSlots.has(ch)) continue;
+      if (!this.masterExempt[ch]) {
+        for (const sub of submasters) {
+          const level = Math.round(sub.values[ch] * sub.level);
+          if (level > values[ch]) values[ch] = level;
+        }
+        continue;
+      }
+
+      const owner = owners.get(ch + 1);
+      let ownerTime = owner
+        ? this.layers.get(owner)!.changedAt[ch % UNIVERSE_SIZE]
+        : this.localChangedAt[ch];
+      for (const sub of submasters) {
+        if (sub.values[ch] > 0 && sub.raisedAt > ownerTime) {
+          values[ch] = sub.values[ch];
+          ownerTime = sub.raisedAt;
+          owners.delete(ch + 1);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get merged channel values (before master dimmer) as a plain number array.
+   */
+  getMergedChannelsArray(): number[] {
+    return Array.from(this.getMerge().values);
+  }
+
+  /**
+   * Channels currently owned by an input layer, keyed by absolute channel.
+   * Channels held by the local programmer are omitted.
+   */
+  getChannelOwners(): Record<number, string> {
+    return Object.fromEntries(this.getMerge().owners);
+  }
+
+  /**
+   * Merge result, recomputed only after a write.
+   */
+  private getMerge(): { values: Uint8Array; owners: Map<number, string> } {
+    if (!this.mergeCache) {
+      this.mergeCache = this.merge();
+    }
+    return this.mergeCache;
+  }
+
+  /**
+   * Compute the output frame if anything changed since the last one and
+   * notify change listeners. Returns the current frame either way, so
+   * outputs keep refreshing. Called once per frame by FrameScheduler.
+   */
+  renderFrame(): Uint8Array {
+    if (!this.dirty) return this.lastFrame;
+
+    this.lastFrame = this.getState();
+    for (const [i, table] of this.outputTables) {
+      if (i < this.lastFrame.length) this.lastFrame[i] = table[this.lastFrame[i]];
+    }
+    for (const [coarse, patch] of this.outputPatches16) {
+      const fine = this.finePairs.get(coarse)!;
+      if (fine >= this.lastFrame.length) continue;
+      const level = ((this.lastFrame[coarse] << 8) | this.lastFrame[fine]) / 0xffff;
+      const value = Math.round(0xffff * patchLevel(patch, level));
+      this.lastFrame[coarse] = value >> 8;
+      this.lastFrame[fine] = value & 0xff;
+    }
+    this.dirty = false;
+    for (const listener of this.listeners) {
+      try {
+        listener(this.lastFrame);
+      } catch (err) {
+        log.error('DMXUniverse listener error:', err);
+      }
+    }
+    return this.lastFrame;
+  }
+
   /**
    * Get raw state without master dimmer applied.
    */
@@ -74,11 +596,28 @@ export class DMXUniverse {
   setMasterDimmer(value: number): void {
     this.masterDimmer = Math.max(0, Math.min(255, Math.round(value)));
     log.debug(`Master dimmer set to ${this.masterDimmer}`);
-    this.notifyListeners();
+    this.markDirty();
+  }
+
+  /**
+   * Get the output-stage blackout level (1 = normal, 0 = blacked out).
+   */
+  getBlackoutLevel(): number {
+    return this.blackoutLevel;
+  }
+
+  /**
+   * Scale intensity at the output stage (0–1) without touching the
+   * programmer, so the look comes back exactly when raised again.
+   */
+  setBlackoutLevel(level: number): void {
+    this.blackoutLevel = Math.max(0, Math.min(1, level));
+    this.markDirty();
   }
 
   /**
    * Register a change listener (used by Socket.io to push updates).
+   * Called at most once per frame, with the rendered output frame.
    */
   onChange(callback: (channels: Uint8Array) => void): void {
     this.listeners.add(callback);
@@ -92,22 +631,14 @@ export class DMXUniverse {
   }
 
   /**
-   * Apply a full 512-channel snapshot (used by preset recall).
+   * Apply a full snapshot across all universes (used by preset recall).
+   * Missing entries — e.g. a preset saved with fewer universes — become 0.
    */
   applySnapshot(snapshot: number[]): void {
-    for (let i = 0; i < 512; i++) {
-      this.channels[i] = Math.max(0, Math.min(255, Math.round(snapshot[i] || 0)));
+    for (let i = 0; i < this.channels.length; i++) {
+      this.writeLocal(i, snapshot[i] || 0);
     }
-    this.notifyListeners();
-  }
-
-  /**
-   * Zero all channels.
-   */
-  blackout(): void {
-    this.channels.fill(0);
-    this.notifyListeners();
-    log.info('DMXUniverse: Blackout applied');
+    this.markDirty();
   }
 
   /**
@@ -124,14 +655,12 @@ export class DMXUniverse {
     return Array.from(this.getState());
   }
 
-  private notifyListeners(): void {
-    const state = this.getState();
-    for (const listener of this.listeners) {
-      try {
-        listener(state);
-      } catch (err) {
-        log.error('DMXUniverse listener error:', err);
-      }
-    }
+  private markDirty(): void {
+    this.dirty = true;
+    this.mergeCache = null;
   }
 }
+
+function clampUniverseCount(value: number): number {
+  return Math.max(1, Math.min(MAX_UNIVERSES, Math.round(Number(value) || 1)));
+}
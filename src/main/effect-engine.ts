@@ -0,0 +1,369 @@
+import type Store from 'electron-store';
+import { v4 as uuidv4 } from 'uuid';
+import { DMXUniverse } from './dmx-universe';
+import { FixtureManager } from './fixture-manager';
+import { FrameScheduler } from './frame-scheduler';
+import { log } from './logger';
+
+type AppStore = Store<Record<string, unknown>>;
+
+export type Waveform = 'sine' | 'square' | 'saw' | 'random' | 'flicker';
+
+export const WAVEFORMS: Waveform[] = ['sine', 'square', 'saw', 'random', 'flicker'];
+
+const MIN_RATE = 0.01; // Hz
+const MAX_RATE = 25;
+
+interface EffectConfig {
+  id: string;
+  name: string;
+  waveform: Waveform;
+  fixtureIds: string[];     // Fixtures to run on, in phase order
+  attribute: string;        // Fixture attribute ("intensity" or a channel role)
+  channels: number[];       // Raw absolute channels, each its own phase step
+  rate: number;             // Cycles per second
+  size: number;             // Range of the swing, 0–255
+  offset: number;           // Lowest value, 0–255
+  phaseSpread: number;      // Degrees spread across the targets, 0–360
+}
+
+export interface EffectInfo extends EffectConfig {
+  running: boolean;
+}
+
+interface RunningEffect {
+  startedAt: number;
+  groups: number[][];       // Channels per phase step (one fixture, or one raw channel)
+  scaled: boolean[];        // Per group: a virtual dimmer, so the level scales the colour beneath
+  random: number[];         // Per group: held random level, or flicker level
+  randomCycle: number[];    // Per group: cycle the held random level belongs to
+}
+
+/**
+ * EffectEngine — Software LFOs (sine, square, saw, random, flicker) on raw
+ * channels or on one attribute of several fixtures, with the phase spread
+ * across them so plain RGB or dimmer fixtures can chase and breathe. Each
+ * frame the running effects are written to the universe's effect layer,
+ * which overrides the programmer, inputs and submasters on those channels.
+ * Intensity on an RGB-only fixture goes to a scale layer instead, dimming
+ * the programmed colour rather than replacing it.
+ * Effect definitions are persisted in electron-store under `effects`; they
+ * start stopped on launch.
+ */
+export class EffectEngine {
+  private store: AppStore;
+  private universe: DMXUniverse;
+  private fixtureManager: FixtureManager;
+  private effects: EffectConfig[];
+  private running: Map<string, RunningEffect> = new Map();
+  private layerActive = false;
+  private changeListeners: Set<(effects: EffectInfo[]) => void> = new Set();
+
+  constructor(store: AppStore, universe: DMXUniverse, fixtureManager: FixtureManager, scheduler: FrameScheduler) {
+    this.store = store;
+    this.universe = universe;
+    this.fixtureManager = fixtureManager;
+
+    const saved = (this.store as any).get('effects') as Partial<EffectConfig>[] | undefined;
+    this.effects = (Array.isArray(saved) ? saved : []).filter((e) => typeof e?.id === 'string').map((e) => normalizeEffect(e, e.id!));
+
+    // Fixture targets are resolved on start — re-resolve after a repatch
+    this.fixtureManager.onChange(() => {
+      for (const id of this.running.keys()) {
+        this.resolveTargets(id);
+      }
+    });
+
+    scheduler.addTask((now) => this.tick(now));
+  }
+
+  /**
+   * Get every effect with its run state.
+   */
+  getAll(): EffectInfo[] {
+    return this.effects.map((e) => ({ ...e, running: this.running.has(e.id) }));
+  }
+
+  /**
+   * Create an effect from a (partial) definition. Missing fields get defaults.
+   */
+  create(definition: Partial<EffectConfig>): EffectInfo {
+    const effect = normalizeEffect(definition, uuidv4());
+    this.effects.push(effect);
+    this.save();
+    log.info(`EffectEngine: Created effect "${effect.name}" (${effect.id})`);
+    this.notifyChange();
+    return { ...effect, running: false };
+  }
+
+  /**
+   * Update an effect. A running effect picks up the change on the next frame.
+   */
+  update(id: string, patch: Partial<EffectConfig>): EffectInfo {
+    const index = this.findIndex(id);
+    this.effects[index] = normalizeEffect({ ...this.effects[index], ...patch }, id);
+    this.save();
+    if (this.running.has(id)) {
+      this.resolveTargets(id);
+    }
+    this.notifyChange();
+    return { ...this.effects[index], running: this.running.has(id) };
+  }
+
+  /**
+   * Delete an effect, stopping it first.
+   */
+  delete(id: string): void {
+    const index = this.findIndex(id);
+    this.running.delete(id);
+    const [removed] = this.effects.splice(index, 1);
+    this.save();
+    log.info(`EffectEngine: Deleted effect "${removed.name}" (${id})`);
+    this.notifyChange();
+  }
+
+  /**
+   * Start an effect from the beginning of its cycle.
+   */
+  start(id: string): void {
+    const effect = this.effects[this.findIndex(id)];
+    if (this.running.has(id)) return;
+
+    this.running.set(id, { startedAt: Date.now(), groups: [], scaled: [], random: [], randomCycle: [] });
+    this.resolveTargets(id);
+    log.info(`EffectEngine: Started "${effect.name}"`);
+    this.notifyChange();
+  }
+
+  /**
+   * Stop an effect; its channels fall back to the programmer.
+   */
+  stop(id: string): void {
+    const effect = this.effects[this.findIndex(id)];
+    if (!this.running.delete(id)) return;
+    log.info(`EffectEngine: Stopped "${effect.name}"`);
+    this.notifyChange();
+  }
+
+  /**
+   * Start a stopped effect, stop a running one. Returns whether it now runs.
+   */
+  toggle(id: string): boolean {
+    if (this.running.has(id)) {
+      this.stop(id);
+      return false;
+    }
+    this.start(id);
+    return true;
+  }
+
+  /**
+   * Stop every running effect.
+   */
+  stopAll(): void {
+    if (this.running.size === 0) return;
+    this.running.clear();
+    log.info('EffectEngine: Stopped all effects');
+    this.notifyChange();
+  }
+
+  /**
+   * IDs of the running effects, e.g. to store with a preset.
+   */
+  getRunningIds(): string[] {
+    return [...this.running.keys()];
+  }
+
+  /**
+   * Run exactly the given effects (as stored with a preset), stopping the
+   * rest. Unknown IDs — effects deleted since — are skipped.
+   */
+  runOnly(ids: string[]): void {
+    const wanted = new Set(ids.filter((id) => this.effects.some((e) => e.id === id)));
+    let changed = false;
+
+    for (const id of [...this.running.keys()]) {
+      if (!wanted.has(id)) {
+        this.running.delete(id);
+        changed = true;
+      }
+    }
+    for (const id of wanted) {
+      if (!this.running.has(id)) {
+        this.running.set(id, { startedAt: Date.now(), groups: [], scaled: [], random: [], randomCycle: [] });
+        this.resolveTargets(id);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      log.info(`EffectEngine: Running ${wanted.size} effect(s) from preset`);
+      this.notifyChange();
+    }
+  }
+
+  /**
+   * Work out the channel groups a running effect drives: one group per
+   * fixture (its attribute channels), then one per raw channel.
+   */
+  private resolveTargets(id: string): void {
+    const run = this.running.get(id);
+    const effect = this.effects.find((e) => e.id === id);
+    if (!run || !effect) return;
+
+    const groups: number[][] = [];
+    const scaled: boolean[] = [];
+    for (const fixtureId of effect.fixtureIds) {
+      try {
+        const channels = this.fixtureManager.getAttributeChannels(fixtureId, effect.attribute);
+        if (channels.length > 0) {
+          groups.push(channels);
+          scaled.push(effect.attribute === 'intensity' && this.fixtureManager.usesVirtualDimmer(fixtureId));
+        }
+      } catch {
+        // Fixture deleted since — skip it
+      }
+    }
+    for (const channel of effect.channels) {
+      groups.push([channel]);
+      scaled.push(false);
+    }
+
+    run.groups = groups;
+    run.scaled = scaled;
+    run.random = groups.map(() => Math.random());
+    run.randomCycle = groups.map(() => -1);
+  }
+
+  /**
+   * Evaluate every running effect and write the effect layer. Runs at the
+   * start of every frame; later effects win shared channels.
+   */
+  private tick(now: number): void {
+    if (this.running.size === 0) {
+      if (this.layerActive) {
+        this.universe.setEffectValues(new Map());
+        this.universe.setScaleLayer('effects', new Map());
+        this.layerActive = false;
+      }
+      return;
+    }
+
+    const values = new Map<number, number>();
+    const scales = new Map<number, number>();
+    for (const effect of this.effects) {
+      const run = this.running.get(effect.id);
+      if (!run) continue;
+
+      const cycles = ((now - run.startedAt) / 1000) * effect.rate;
+      const count = run.groups.length;
+
+      run.groups.forEach((channels, g) => {
+        const phase = count > 1 ? (effect.phaseSpread / 360) * (g / count) : 0;
+        const level = this.evaluate(effect, run, g, cycles - phase);
+        const value = Math.max(0, Math.min(255, Math.round(effect.offset + effect.size * level)));
+        for (const channel of channels) {
+          if (run.scaled[g]) {
+            scales.set(channel, value / 255);
+            values.delete(channel);
+          } else {
+            values.set(channel, value);
+            scales.delete(channel);
+          }
+        }
+      });
+    }
+
+    this.universe.setEffectValues(values);
+    this.universe.setScaleLayer('effects', scales);
+    this.layerActive = true;
+  }
+
+  /**
+   * Waveform level (0..1) of one group at a position in cycles.
+   */
+  private evaluate(effect: EffectConfig, run: RunningEffect, group: number, cycles: number): number {
+    const t = cycles - Math.floor(cycles);
+
+    switch (effect.waveform) {
+      case 'square':
+        return t < 0.5 ? 1 : 0;
+      case 'saw':
+        return t;
+      case 'random': {
+        // A new random level each cycle, held until the next
+        const cycle = Math.floor(cycles);
+        if (run.randomCycle[group] !== cycle) {
+          run.randomCycle[group] = cycle;
+          run.random[group] = Math.random();
+        }
+        return run.random[group];
+      }
+      case 'flicker': {
+        // Candle-like: drift towards random bright targets, with the rate as speed
+        const target = 0.6 + Math.random() * 0.4;
+        const step = Math.min(1, effect.rate / 10);
+        run.random[group] += (target - run.random[group]) * step;
+        return Math.random() < 0.02 * effect.rate ? run.random[group] * 0.6 : run.random[group];
+      }
+      default:
+        return 0.5 - 0.5 * Math.cos(2 * Math.PI * t);
+    }
+  }
+
+  private findIndex(id: string): number {
+    const index = this.effects.findIndex((e) => e.id === id);
+    if (index === -1) {
+      throw new Error(`Effect not found: ${id}`);
+    }
+    return index;
+  }
+
+  private save(): void {
+    (this.store as any).set('effects', this.effects);
+  }
+
+  /**
+   * Register a listener for effect list and run state changes.
+   */
+  onChange(callback: (effects: EffectInfo[]) => void): void {
+    this.changeListeners.add(callback);
+  }
+
+  private notifyChange(): void {
+    const effects = this.getAll();
+    for (const listener of this.changeListeners) {
+      try {
+        listener(effects);
+      } catch (err) {
+        log.error('EffectEngine: Change listener error:', err);
+      }
+    }
+  }
+}
+
+/**
+ * Fill in defaults and clamp an effect definition from the store or a client.
+ */
+function normalizeEffect(raw: Partial<EffectConfig>, id: string): EffectConfig {
+  return {
+    id,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Effect',
+    waveform: WAVEFORMS.includes(raw.waveform as Waveform) ? (raw.waveform as Waveform) : 'sine',
+    fixtureIds: Array.isArray(raw.fixtureIds) ? raw.fixtureIds.filter((f) => typeof f === 'string') : [],
+    attribute: typeof raw.attribute === 'string' && raw.attribute ? raw.attribute : 'intensity',
+    channels: Array.isArray(raw.channels)
+      ? raw.channels.filter((ch) => Number.isInteger(ch) && ch >= 1)
+      : [],
+    rate: clamp(raw.rate, MIN_RATE, MAX_RATE, 1),
+    size: Math.round(clamp(raw.size, 0, 255, 255)),
+    offset: Math.round(clamp(raw.offset, 0, 255, 0)),
+    phaseSpread: clamp(raw.phaseSpread, 0, 360, 0),
+  };
+}
+
+function clamp(value: unknown, min: number, max: number, fallback: number): number {
+  const n = Number(value);
+  if (value === undefined || value === null || !Number.isFinite(n)) return fallback;
+  return Math.max(min, Math.min(max, n));
+}
@@ -0,0 +1,765 @@
+import { SerialPort } from 'serialport';
+import type Store from 'electron-store';
+import { OutputTransport, OutputStatus } from './output-transport';
+import { UNIVERSE_SIZE } from './dmx-universe';
+import { log } from './logger';
+
+type AppStore = Store<Record<string, unknown>>;
+
+// Enttec DMX USB Pro constants
+const ENTTEC_VENDOR_ID = '0403';
+const ENTTEC_PRODUCT_ID = '6001';
+const DMX_PRO_START_MSG = 0x7e;
+const DMX_PRO_END_MSG = 0xe7;
+const DMX_PRO_SEND_LABEL = 6;
+const DMX_PRO_GET_PARAMS_LABEL = 3;      // Get widget parameters (request & reply)
+const DMX_PRO_SET_PARAMS_LABEL = 4;      // Set widget parameters
+const DMX_PRO_RECEIVED_LABEL = 5;        // Received DMX packet
+const DMX_PRO_RECEIVE_ON_CHANGE_LABEL = 8; // Set receive mode (0 = always, 1 = on change)
+const DMX_PRO_CHANGE_OF_STATE_LABEL = 9; // Received DMX change of state packet
+const DMX_PRO_SERIAL_NUMBER_LABEL = 10;  // Get widget serial number (request & reply)
+const TIME_UNIT_US = 10.67;              // Break / MAB times are in units of 10.67 µs
+const MAX_RX_BUFFER = 4096;
+
+/**
+ * 'off' — output only; 'always' — the widget reports every received frame;
+ * 'change' — the widget reports only changed slots.
+ */
+export type EnttecReceiveMode = 'off' | 'always' | 'change';
+
+/**
+ * An adapter chosen by the user. Pinned by USB serial number when the port
+ * reports one, so the choice survives re-enumeration; otherwise by path.
+ */
+interface PinnedPort {
+  serialNumber: string | null;
+  path: string;
+}
+
+interface EnttecConfig {
+  receiveMode: EnttecReceiveMode;
+  pinnedPort: PinnedPort | null; // null = auto-detect by VID/PID
+}
+
+const DEFAULT_CONFIG: EnttecConfig = {
+  receiveMode: 'off',
+  pinnedPort: null,
+};
+
+/**
+ * A serial port that could be the DMX adapter.
+ */
+export interface SerialPortCandidate {
+  path: string;
+  manufacturer: string | null;
+  vendorId: string | null;
+  productId: string | null;
+  serialNumber: string | null;
+  isEnttec: boolean; // VID/PID match the USB Pro
+  inUse: boolean;
+  pinned: boolean;
+}
+
+/**
+ * Parameters reported by the widget. Times are in microseconds; outputRate is
+ * DMX packets per second (0 = as fast as possible).
+ */
+export interface EnttecWidgetInfo {
+  firmware: string | null;
+  serialNumber: string | null;
+  breakTime: number | null;
+  mabTime: number | null;
+  outputRate: number | null;
+}
+
+const EMPTY_WIDGET_INFO: EnttecWidgetInfo = {
+  firmware: null,
+  serialNumber: null,
+  breakTime: null,
+  mabTime: null,
+  outputRate: null,
+};
+
+/**
+ * EnttecOutput — Manages serial communication with the Enttec DMX USB Pro adapter.
+ * Handles auto-detection and reconnection with exponential backoff.
+ * Frames are pushed in by DMXDriver's refresh loop.
+ *
+ * In receive mode the widget's DMX port is used as an input instead: inbound
+ * widget messages are parsed and the last received frame is kept so it can be
+ * shown in the UI or captured as a preset. Configuration is persisted in
+ * electron-store under `enttec`.
+ *
+ * Widget parameters (break, MAB, output rate) and the serial number are
+ * queried on connect; parameter changes are stored by the widget itself.
+ *
+ * Without a pinned adapter only ports matching the USB Pro's VID/PID are
+ * considered; a pinned adapter is used exclusively.
+ */
+export class EnttecOutput implements OutputTransport {
+  readonly id = 'enttec';
+  readonly type = 'enttec' as const;
+  readonly label = 'Enttec DMX USB Pro';
+  readonly maxUniverses = 1; // A single DMX port; send() ignores the universe
+
+  private serialPort: SerialPort | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectDelay: number = 1000;
+  private readonly maxReconnectDelay: number = 30000;
+  private isConnected: boolean = false;
+  private portPath: string | null = null;
+  private statusListeners: Set<(status: OutputStatus) => void> = new Set();
+  private isShuttingDown: boolean = false;
+  private intentionalClose: boolean = false; // Set while closePort() closes the port on purpose
+  private store: AppStore;
+  private config: EnttecConfig;
+  private rxBuffer: Buffer = Buffer.alloc(0);
+  private received: Uint8Array = new Uint8Array(UNIVERSE_SIZE);
+  private receivedAt: number | null = null;
+  private configListeners: Set<(config: EnttecConfig) => void> = new Set();
+  private receiveListeners: Set<(channels: Uint8Array) => void> = new Set();
+  private widgetInfo: EnttecWidgetInfo = { ...EMPTY_WIDGET_INFO };
+  private widgetListeners: Set<(info: EnttecWidgetInfo) => void> = new Set();
+  private ports: Omit<SerialPortCandidate, 'inUse' | 'pinned'>[] = [];
+  private portListeners: Set<(ports: SerialPortCandidate[]) => void> = new Set();
+
+  constructor(store: AppStore) {
+    this.store = store;
+
+    // Ensure config exists
+    if (!(this.store as any).has('enttec')) {
+      (this.store as any).set('enttec', DEFAULT_CONFIG);
+    }
+    this.config = { ...DEFAULT_CONFIG, ...((this.store as any).get('enttec') as Partial<EnttecConfig>) };
+  }
+
+  /**
+   * Auto-detect and connect to the Enttec DMX USB Pro adapter.
+   */
+  async start(): Promise<void> {
+    log.info('EnttecOutput: Scanning for Enttec DMX USB Pro...');
+    const detected = await this.detectDevice();
+
+    if (detected) {
+      await this.connect(detected);
+    } else {
+      log.warn('EnttecOutput: No Enttec DMX USB Pro found. Running in disconnected mode.');
+      this.emitStatus();
+    }
+  }
+
+  /**
+   * Pick the port to use: the pinned adapter if one is set, otherwise the
+   * first port matching the USB Pro's VID/PID.
+   */
+  private async detectDevice(): Promise<string | null> {
+    try {
+      const ports = await this.listPorts();
+      log.debug(`EnttecOutput: Found ${ports.length} serial ports`);
+
+      const pinned = this.config.pinnedPort;
+      if (pinned) {
+        const match = ports.find((p) => isPinned(p, pinned));
+        if (!match) {
+          log.warn(`EnttecOutput: Pinned adapter ${describePin(pinned)} not present`);
+          return null;
+        }
+        log.info(`EnttecOutput: Using pinned adapter ${describePin(pinned)} at ${match.path}`);
+        return match.path;
+      }
+
+      const matches = ports.filter((p) => p.isEnttec);
+
+      if (matches.length === 0) {
+        const others = ports.filter((p) => p.vendorId).length;
+        if (others > 0) {
+          log.info(`EnttecOutput: ${others} other USB serial device(s) present — select one explicitly to use it`);
+        }
+        return null;
+      }
+
+      if (matches.length > 1) {
+        log.warn(`EnttecOutput: Multiple Enttec devices found. Using first: ${matches[0].path} (pin one to choose)`);
+      }
+
+      log.info(`EnttecOutput: Detected Enttec DMX USB Pro at ${matches[0].path}`);
+      return matches[0].path;
+    } catch (err) {
+      log.error('EnttecOutput: Error scanning serial ports:', err);
+      return null;
+    }
+  }
+
+  /**
+   * Enumerate serial ports as adapter candidates and notify listeners.
+   */
+  async listPorts(): Promise<SerialPortCandidate[]> {
+    const ports = await SerialPort.list();
+    this.ports = ports.map((p) => ({
+      path: p.path,
+      manufacturer: p.manufacturer || null,
+      vendorId: p.vendorId?.toLowerCase() || null,
+      productId: p.productId?.toLowerCase() || null,
+      serialNumber: p.serialNumber || null,
+      isEnttec: p.vendorId?.toLowerCase() === ENTTEC_VENDOR_ID && p.productId?.toLowerCase() === ENTTEC_PRODUCT_ID,
+    }));
+    this.notifyPorts();
+    return this.getPorts();
+  }
+
+  /**
+   * Get the candidates from the last scan.
+   */
+  getPorts(): SerialPortCandidate[] {
+    const pinned = this.config.pinnedPort;
+    return this.ports.map((p) => ({
+      ...p,
+      inUse: this.isConnected && p.path === this.portPath,
+      pinned: pinned !== null && isPinned(p, pinned),
+    }));
+  }
+
+  /**
+   * Pin the adapter at `path` (or go back to auto-detect with null) and
+   * reconnect — this is how adapters are hot-swapped.
+   */
+  async selectPort(path: string | null): Promise<void> {
+    let pinnedPort: PinnedPort | null = null;
+    if (path !== null) {
+      const candidate = (await this.listPorts()).find((p) => p.path === path);
+      if (!candidate) {
+        throw new Error(`Serial port not found: ${path}`);
+      }
+      pinnedPort = { serialNumber: candidate.serialNumber, path: candidate.path };
+    }
+
+    this.saveConfig({ ...this.config, pinnedPort });
+    log.info(`EnttecOutput: ${pinnedPort ? `Pinned adapter ${describePin(pinnedPort)}` : 'Auto-detecting adapter'}`);
+    await this.restart();
+  }
+
+  /**
+   * Register a port list listener.
+   */
+  onPortsChange(callback: (ports: SerialPortCandidate[]) => void): void {
+    this.portListeners.add(callback);
+  }
+
+  /**
+   * Notify listeners of the port list (e.g. after a scan or connection change).
+   */
+  private notifyPorts(): void {
+    const ports = this.getPorts();
+    for (const listener of this.portListeners) {
+      try {
+        listener(ports);
+      } catch (err) {
+        log.error('EnttecOutput: Port listener error:', err);
+      }
+    }
+  }
+
+  /**
+   * Connect to the specified serial port.
+   */
+  private async connect(portPath: string): Promise<void> {
+    return new Promise<void>((resolve) => {
+      try {
+        this.serialPort = new SerialPort({
+          path: portPath,
+          baudRate: 250000,
+          dataBits: 8,
+          stopBits: 2,
+          parity: 'none',
+          autoOpen: false,
+        });
+
+        this.serialPort.on('open', () => {
+          log.info(`EnttecOutput: Connected to ${portPath}`);
+          this.isConnected = true;
+          this.portPath = portPath;
+          this.reconnectDelay = 1000; // Reset backoff
+          this.rxBuffer = Buffer.alloc(0);
+          this.applyReceiveMode();
+          this.queryWidget();
+          this.notifyPorts();
+          this.emitStatus();
+          resolve();
+        });
+
+        this.serialPort.on('data', (chunk: Buffer) => {
+          this.handleData(chunk);
+        });
+
+        this.serialPort.on('error', (err) => {
+          log.error(`EnttecOutput: Serial port error: ${err.message}`);
+        });
+
+        this.serialPort.on('close', () => {
+          // serialport emits 'close' before the close() callback runs, so a
+          // restart or port switch would otherwise schedule a reconnect too
+          if (!this.isShuttingDown && !this.intentionalClose) {
+            log.warn('EnttecOutput: Serial port closed. Starting reconnection...');
+            this.isConnected = false;
+            this.portPath = null;
+            this.serialPort = null;
+            this.widgetInfo = { ...EMPTY_WIDGET_INFO };
+            this.notifyWidget();
+            this.notifyPorts();
+            this.startReconnection();
+          }
+        });
+
+        this.serialPort.open((err) => {
+          if (err) {
+            log.error(`EnttecOutput: Failed to open ${portPath}: ${err.message}`);
+            this.serialPort = null;
+            this.startReconnection();
+            resolve();
+          }
+        });
+      } catch (err) {
+        log.error('EnttecOutput: Connection error:', err);
+        this.startReconnection();
+        resolve();
+      }
+    });
+  }
+
+  /**
+   * Build a widget message: start byte, label, 16-bit length, payload, end byte.
+   */
+  private buildMessage(label: number, payload: Uint8Array): Buffer {
+    const packet = Buffer.alloc(payload.length + 5);
+
+    packet[0] = DMX_PRO_START_MSG;
+    packet[1] = label;
+    packet[2] = payload.length & 0xff;        // Length LSB
+    packet[3] = (payload.length >> 8) & 0xff;  // Length MSB
+    packet.set(payload, 4);
+    packet[packet.length - 1] = DMX_PRO_END_MSG;
+
+    return packet;
+  }
+
+  /**
+   * Write a widget message to the serial port.
+   */
+  private writeMessage(label: number, payload: Uint8Array): void {
+    if (!this.isConnected || !this.serialPort || !this.serialPort.isOpen) return;
+
+    this.serialPort.write(this.buildMessage(label, payload), (err) => {
+      if (err) {
+        log.error(`EnttecOutput: Write error: ${err.message}`);
+      }
+    });
+  }
+
+  /**
+   * Write one frame to the widget. The USB Pro has a single DMX port, so
+   * whichever universe is routed here is sent as-is. Nothing is sent while
+   * the port is in receive mode.
+   */
+  send(_universe: number, channels: Uint8Array): void {
+    if (this.config.receiveMode !== 'off') return;
+
+    const payload = new Uint8Array(channels.length + 1); // +1 for DMX start code (0x00)
+    payload.set(channels, 1);
+    this.writeMessage(DMX_PRO_SEND_LABEL, payload);
+  }
+
+  /**
+   * Tell the widget whether to report every frame or only changes.
+   */
+  private applyReceiveMode(): void {
+    if (this.config.receiveMode === 'off') return;
+    this.writeMessage(DMX_PRO_RECEIVE_ON_CHANGE_LABEL, Uint8Array.of(this.config.receiveMode === 'change' ? 1 : 0));
+  }
+
+  /**
+   * Accumulate serial data and dispatch each complete widget message.
+   */
+  private handleData(chunk: Buffer): void {
+    this.rxBuffer = Buffer.concat([this.rxBuffer, chunk]);
+
+    while (this.rxBuffer.length >= 5) {
+      // Resync to the next start byte
+      const start = this.rxBuffer.indexOf(DMX_PRO_START_MSG);
+      if (start === -1) {
+        this.rxBuffer = Buffer.alloc(0);
+        return;
+      }
+      if (start > 0) {
+        this.rxBuffer = this.rxBuffer.subarray(start);
+        continue;
+      }
+
+      const label = this.rxBuffer[1];
+      const length = this.rxBuffer[2] | (this.rxBuffer[3] << 8);
+      if (this.rxBuffer.length < length + 5) break;
+
+      if (this.rxBuffer[length + 4] !== DMX_PRO_END_MSG) {
+        // Not a real message boundary — skip this start byte
+        this.rxBuffer = this.rxBuffer.subarray(1);
+        continue;
+      }
+
+      this.handleMessage(label, this.rxBuffer.subarray(4, length + 4));
+      this.rxBuffer = this.rxBuffer.subarray(length + 5);
+    }
+
+    if (this.rxBuffer.length > MAX_RX_BUFFER) {
+      log.warn('EnttecOutput: Receive buffer overflow, discarding');
+      this.rxBuffer = Buffer.alloc(0);
+    }
+  }
+
+  /**
+   * Handle one inbound widget message.
+   */
+  private handleMessage(label: number, payload: Buffer): void {
+    if (label === DMX_PRO_GET_PARAMS_LABEL) {
+      // [firmware LSB, firmware MSB, break, MAB, rate, user config...]
+      if (payload.length < 5) return;
+      this.widgetInfo = {
+        ...this.widgetInfo,
+        firmware: `${payload[1]}.${payload[0]}`,
+        breakTime: Math.round(payload[2] * TIME_UNIT_US * 10) / 10,
+        mabTime: Math.round(payload[3] * TIME_UNIT_US * 10) / 10,
+        outputRate: payload[4],
+      };
+      this.notifyWidget();
+      return;
+    }
+
+    if (label === DMX_PRO_SERIAL_NUMBER_LABEL) {
+      // 4 bytes of BCD, least significant first
+      if (payload.length < 4) return;
+      let serialNumber = '';
+      for (let i = 3; i >= 0; i--) {
+        serialNumber += payload[i].toString(16).padStart(2, '0');
+      }
+      this.widgetInfo = { ...this.widgetInfo, serialNumber };
+      this.notifyWidget();
+      return;
+    }
+
+    if (this.config.receiveMode === 'off') return;
+
+    if (label === DMX_PRO_RECEIVED_LABEL) {
+      // [status, start code, slots...]; status bits flag queue overflow / overrun
+      if (payload.length < 2) return;
+      if (payload[0] & 0x03) {
+        log.debug(`EnttecOutput: Receive status 0x${payload[0].toString(16)} (overrun)`);
+      }
+      if (payload[1] !== 0x00) return; // Only standard DMX start code
+
+      const slots = payload.subarray(2, 2 + UNIVERSE_SIZE);
+      this.received.fill(0);
+      this.received.set(slots);
+      this.notifyReceived();
+    } else if (label === DMX_PRO_CHANGE_OF_STATE_LABEL) {
+      // [block, 5-byte changed bit array, changed bytes...]; byte 0 is the start code
+      if (payload.length < 6) return;
+      const firstByte = payload[0] * 8;
+      let dataIndex = 6;
+
+      for (let bit = 0; bit < 40 && dataIndex < payload.length; bit++) {
+        if (!(payload[1 + (bit >> 3)] & (1 << (bit & 7)))) continue;
+        const slot = firstByte + bit - 1;
+        if (slot >= 0 && slot < UNIVERSE_SIZE) {
+          this.received[slot] = payload[dataIndex];
+        }
+        dataIndex++;
+      }
+      this.notifyReceived();
+    }
+  }
+
+  /**
+   * Notify listeners of the latest received frame.
+   */
+  private notifyReceived(): void {
+    this.receivedAt = Date.now();
+    for (const listener of this.receiveListeners) {
+      try {
+        listener(this.received);
+      } catch (err) {
+        log.error('EnttecOutput: Receive listener error:', err);
+      }
+    }
+  }
+
+  /**
+   * Get the last received frame (512 slots) and when it arrived.
+   */
+  getReceivedFrame(): { channels: number[]; receivedAt: number | null } {
+    return { channels: Array.from(this.received), receivedAt: this.receivedAt };
+  }
+
+  /**
+   * Register a listener for received frames.
+   */
+  onReceive(callback: (channels: Uint8Array) => void): void {
+    this.receiveListeners.add(callback);
+  }
+
+  /**
+   * Ask the widget for its parameters and serial number.
+   */
+  private queryWidget(): void {
+    this.writeMessage(DMX_PRO_GET_PARAMS_LABEL, Uint8Array.of(0, 0)); // No user config bytes
+    this.writeMessage(DMX_PRO_SERIAL_NUMBER_LABEL, new Uint8Array(0));
+  }
+
+  /**
+   * Notify listeners of new widget information.
+   */
+  private notifyWidget(): void {
+    const info = this.getWidgetInfo();
+    for (const listener of this.widgetListeners) {
+      try {
+        listener(info);
+      } catch (err) {
+        log.error('EnttecOutput: Widget listener error:', err);
+      }
+    }
+    this.emitStatus();
+  }
+
+  /**
+   * Get the last reported widget parameters and serial number.
+   */
+  getWidgetInfo(): EnttecWidgetInfo {
+    return { ...this.widgetInfo };
+  }
+
+  /**
+   * Write new break / MAB times (µs) and output rate to the widget, then
+   * read them back. Values are rounded to what the widget can represent.
+   */
+  setWidgetParams(patch: Partial<Pick<EnttecWidgetInfo, 'breakTime' | 'mabTime' | 'outputRate'>>): void {
+    if (!this.isConnected) {
+      throw new Error('Enttec DMX USB Pro is not connected');
+    }
+    const current = this.widgetInfo;
+    if (current.breakTime === null || current.mabTime === null || current.outputRate === null) {
+      throw new Error('Widget parameters have not been read yet');
+    }
+
+    const breakUnits = clampInt((patch.breakTime ?? current.breakTime) / TIME_UNIT_US, 9, 127);
+    const mabUnits = clampInt((patch.mabTime ?? current.mabTime) / TIME_UNIT_US, 1, 127);
+    const outputRate = clampInt(patch.outputRate ?? current.outputRate, 0, 40);
+
+    // [user config size LSB, MSB, break, MAB, rate]
+    this.writeMessage(DMX_PRO_SET_PARAMS_LABEL, Uint8Array.of(0, 0, breakUnits, mabUnits, outputRate));
+    log.info(
+      `EnttecOutput: Widget params set (break ${breakUnits} × ${TIME_UNIT_US} µs, MAB ${mabUnits} × ${TIME_UNIT_US} µs, rate ${outputRate})`
+    );
+    this.writeMessage(DMX_PRO_GET_PARAMS_LABEL, Uint8Array.of(0, 0));
+  }
+
+  /**
+   * Register a widget parameter / serial number listener.
+   */
+  onWidgetChange(callback: (info: EnttecWidgetInfo) => void): void {
+    this.widgetListeners.add(callback);
+  }
+
+  /**
+   * Get the current Enttec configuration.
+   */
+  getConfig(): EnttecConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Update and persist the receive mode. Adapters are pinned via selectPort().
+   */
+  updateConfig(patch: Partial<Pick<EnttecConfig, 'receiveMode'>>): EnttecConfig {
+    const receiveMode = patch.receiveMode ?? this.config.receiveMode;
+    if (!['off', 'always', 'change'].includes(receiveMode)) {
+      throw new Error(`Invalid receive mode: ${receiveMode}`);
+    }
+
+    const modeChanged = receiveMode !== this.config.receiveMode;
+    this.saveConfig({ ...this.config, receiveMode });
+    log.info(`EnttecOutput: Config updated (receive ${receiveMode})`);
+
+    if (modeChanged) {
+      this.received.fill(0);
+      this.receivedAt = null;
+      this.applyReceiveMode();
+    }
+    this.emitStatus();
+
+    return this.getConfig();
+  }
+
+  /**
+   * Persist the config and notify listeners.
+   */
+  private saveConfig(updated: EnttecConfig): void {
+    this.config = updated;
+    (this.store as any).set('enttec', updated);
+
+    for (const listener of this.configListeners) {
+      try {
+        listener(this.getConfig());
+      } catch (err) {
+        log.error('EnttecOutput: Config listener error:', err);
+      }
+    }
+  }
+
+  /**
+   * Register a config change listener.
+   */
+  onConfigChange(callback: (config: EnttecConfig) => void): void {
+    this.configListeners.add(callback);
+  }
+
+  /**
+   * Start exponential backoff reconnection.
+   */
+  private startReconnection(): void {
+    if (this.isShuttingDown) return;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+    }
+
+    log.info(`EnttecOutput: Reconnection attempt in ${this.reconnectDelay}ms...`);
+
+    this.reconnectTimer = setTimeout(async () => {
+      const detected = await this.detectDevice();
+      if (detected) {
+        await this.connect(detected);
+      } else {
+        // Exponential backoff
+        this.reconnectDelay = Math.min(this.reconnectDelay * 2, this.maxReconnectDelay);
+        this.startReconnection();
+      }
+    }, this.reconnectDelay);
+  }
+
+  /**
+   * Register a status change listener.
+   */
+  onStatusChange(callback: (status: OutputStatus) => void): void {
+    this.statusListeners.add(callback);
+  }
+
+  /**
+   * Emit current status to all listeners.
+   */
+  private emitStatus(): void {
+    const status = this.getStatus();
+    for (const listener of this.statusListeners) {
+      try {
+        listener(status);
+      } catch (err) {
+        log.error('EnttecOutput: Status listener error:', err);
+      }
+    }
+  }
+
+  /**
+   * Get current connection status.
+   */
+  getStatus(): OutputStatus {
+    return {
+      id: this.id,
+      type: this.type,
+      label: this.label,
+      connected: this.isConnected,
+      detail: this.getStatusDetail(),
+    };
+  }
+
+  /**
+   * Port path, plus serial number and receive mode when known.
+   */
+  private getStatusDetail(): string | null {
+    if (!this.portPath) return null;
+    const extras: string[] = [];
+    if (this.widgetInfo.serialNumber) extras.push(`S/N ${this.widgetInfo.serialNumber}`);
+    if (this.config.receiveMode !== 'off') extras.push('receiving');
+    return extras.length > 0 ? `${this.portPath} (${extras.join(', ')})` : this.portPath;
+  }
+
+  /**
+   * Restart — close the port and re-run detection.
+   */
+  async restart(): Promise<void> {
+    log.info('EnttecOutput: Restarting...');
+    await this.closePort();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectDelay = 1000;
+    const detected = await this.detectDevice();
+    if (detected) {
+      await this.connect(detected);
+    } else {
+      log.warn('EnttecOutput: No device found after restart.');
+      this.emitStatus();
+    }
+  }
+
+  /**
+   * Close the serial port.
+   */
+  private async closePort(): Promise<void> {
+    return new Promise<void>((resolve) => {
+      if (this.serialPort && this.serialPort.isOpen) {
+        this.intentionalClose = true;
+        this.serialPort.close((err) => {
+          if (err) {
+            log.error(`EnttecOutput: Error closing port: ${err.message}`);
+          }
+          this.intentionalClose = false;
+          this.serialPort = null;
+          this.isConnected = false;
+          this.portPath = null;
+          this.widgetInfo = { ...EMPTY_WIDGET_INFO };
+          resolve();
+        });
+      } else {
+        this.serialPort = null;
+        this.isConnected = false;
+        this.portPath = null;
+        this.widgetInfo = { ...EMPTY_WIDGET_INFO };
+        resolve();
+      }
+    });
+  }
+
+  /**
+   * Graceful shutdown — stop reconnecting and close the port.
+   */
+  async shutdown(): Promise<void> {
+    log.info('EnttecOutput: Shutting down...');
+    this.isShuttingDown = true;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    await this.closePort();
+    log.info('EnttecOutput: Shutdown complete');
+  }
+}
+
+function clampInt(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, Math.round(Number(value) || 0)));
+}
+
+function isPinned(port: { path: string; serialNumber: string | null }, pinned: PinnedPort): boolean {
+  return pinned.serialNumber ? port.serialNumber === pinned.serialNumber : port.path === pinned.path;
+}
+
+function describePin(pinned: PinnedPort): string {
+  return pinned.serialNumber ? `S/N ${pinned.serialNumber}` : pinned.path;
+}
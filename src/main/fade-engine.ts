@@ -1,111 +1,671 @@
+import { v4 as uuidv4 } from 'uuid';
 import { DMXUniverse } from './dmx-universe';
+import { FrameScheduler } from './frame-scheduler';
 import { log } from './logger';
 
-const FADE_STEP_INTERVAL = 25; // Match DMX refresh rate (40 Hz)
+export type FadeCurve = 'linear' | 'ease-in' | 'ease-out' | 's-curve' | 'square-law' | 'snap';
+
+export const FADE_CURVES: FadeCurve[] = ['linear', 'ease-in', 'ease-out', 's-curve', 'square-law', 'snap'];
+
+/**
+ * Curve selection for a fade. `roleCurves` is keyed by channel role
+ * (e.g. "dimmer", "red", "pan") and wins over `curve`, which applies to
+ * every other channel. Anything left unset falls back to DEFAULT_ROLE_CURVES.
+ */
+export interface FadeCurveOptions {
+  curve?: FadeCurve;
+  roleCurves?: Partial<Record<string, FadeCurve>>;
+}
+
+// Intensity defaults to square-law: linear level fades look like they rush
+// at the bottom end, because perceived brightness is roughly the square root
+// of light output.
+const DEFAULT_ROLE_CURVES: Partial<Record<string, FadeCurve>> = {
+  dimmer: 'square-law',
+};
+
+// Role names that share a curve setting
+const ROLE_ALIASES: Record<string, string> = {
+  brightness: 'dimmer',
+  temp: 'temperature',
+  sat: 'saturation',
+};
+
+export type FadeAttribute = 'intensity' | 'color' | 'fx';
+
+export const FADE_ATTRIBUTES: FadeAttribute[] = ['intensity', 'color', 'fx'];
+
+/**
+ * Fade time and the delay before it starts, in ms.
+ */
+export interface FadeTiming {
+  time: number;
+  delay?: number;
+}
+
+/**
+ * Split timing for a fade. Channels rising use `up`, channels falling use
+ * `down`; both default to the fade's duration with no delay. An entry in
+ * `attributes` overrides both directions for channels of that attribute.
+ */
+export interface FadeTimingOptions {
+  up?: FadeTiming;
+  down?: FadeTiming;
+  attributes?: Partial<Record<FadeAttribute, FadeTiming>>;
+}
+
+// Roles (after aliasing) by attribute; every other patched role counts as FX
+const COLOR_ROLES = new Set(['red', 'green', 'blue', 'hue', 'saturation', 'temperature']);
+
+export type FadeEndReason = 'complete' | 'cancelled' | 'superseded' | 'reversed';
+
+export type FadeState = 'running' | 'reversing' | 'paused' | 'manual';
+
+export interface FadeOptions extends FadeCurveOptions {
+  label?: string; // Shown in fade lists, e.g. the preset name
+  presetId?: string; // Set when the fade recalls a preset
+  timing?: FadeTimingOptions;
+  manual?: boolean; // Progress only moves with setFadePosition (e.g. a crossfader)
+}
 
 /**
- * FadeEngine — Linear interpolation engine for smooth transitions.
- * Resolution: one step per DMX frame (25ms).
+ * Public view of a running fade.
+ */
+export interface FadeInfo {
+  id: string;
+  label: string;
+  presetId: string | null;
+  state: FadeState;
+  channelCount: number; // Channels the fade still owns
+  durationMs: number;
+  startedAt: number;
+  progress: number; // 0–1
+  remainingMs: number;
+}
+
+/**
+ * Progress update for one fade, as broadcast to UI and Companion clients.
+ */
+export interface FadeProgress {
+  id: string;
+  presetId: string | null;
+  percent: number; // 0–100
+  remainingMs: number;
+}
+
+/**
+ * A started fade. `done` resolves with how the fade ended.
+ */
+export interface FadeHandle {
+  id: string;
+  done: Promise<FadeEndReason>;
+}
+
+interface ActiveFade {
+  id: string;
+  label: string;
+  presetId: string | null;
+  channels: number[]; // 0-indexed channel slots
+  startValues: number[];
+  targetValues: number[];
+  targets: Map<number, number>; // Channel slot -> target, for lookups
+  curves: FadeCurve[];
+  fineOf: number[]; // Position in `channels` of each coarse channel's fine partner, -1 if none
+  isFine: boolean[]; // Fine half of a 16-bit pair, written with its coarse channel
+  delays: number[]; // Per channel, ms from the start of the fade
+  durations: number[]; // Per channel, ms
+  owned: number; // How many of `channels` this fade still owns
+  startedAt: number;
+  durationMs: number; // Until the last channel lands
+  elapsed: number; // Position within the fade, ms
+  direction: 1 | -1;
+  paused: boolean;
+  manual: boolean;
+  needsRender: boolean; // Paused and manual fades only write after a change
+  lastTick: number;
+  resolve: (reason: FadeEndReason) => void;
+}
+
+/**
+ * FadeEngine — Runs any number of concurrent fades, each owning a subset of
+ * channels. When fades overlap, the newest owner wins per channel; a fade
+ * that loses all of its channels ends as superseded. Each channel is shaped
+ * with a fade curve chosen from its fixture role; 16-bit pairs are faded as
+ * one coarse/fine value. Timed fades can be paused
+ * and reversed; manual fades are moved by an external position instead of
+ * the clock.
+ * Fades are evaluated by FrameScheduler at the start of each output frame,
+ * so fade resolution always matches the DMX refresh rate.
  */
 export class FadeEngine {
   private universe: DMXUniverse;
-  private activeFade: ReturnType<typeof setInterval> | null = null;
-  private fadeResolve: (() => void) | null = null;
+  private fades: Map<string, ActiveFade> = new Map();
+  private owners: Map<number, string> = new Map(); // channel slot -> fade ID
+  private channelRoles: Map<number, string> = new Map();
+  private finePairs: Map<number, number> = new Map(); // Coarse slot → fine slot
+  private changeListeners: Set<(fades: FadeInfo[]) => void> = new Set();
+  private progressListeners: Set<(fades: FadeInfo[]) => void> = new Set();
 
-  constructor(universe: DMXUniverse) {
+  constructor(universe: DMXUniverse, scheduler: FrameScheduler) {
     this.universe = universe;
+    scheduler.addTask((now) => this.tick(now));
+  }
+
+  /**
+   * Set the fixture role of each patched channel (absolute channel -> role),
+   * used to pick per-role fade curves.
+   */
+  setChannelRoles(roles: Map<number, string>): void {
+    this.channelRoles = roles;
+  }
+
+  /**
+   * Set the 16-bit channel pairs (absolute coarse channel -> fine channel),
+   * which are interpolated as one value instead of byte by byte.
+   */
+  setFinePairs(pairs: Map<number, number>): void {
+    this.finePairs = new Map();
+    for (const [coarse, fine] of pairs) {
+      this.finePairs.set(coarse - 1, fine - 1);
+    }
   }
 
   /**
-   * Linearly interpolate from current state to target over durationMs.
-   * Calling fadeTo() while a fade is active cancels the previous fade.
+   * Fade the whole programmer towards a full snapshot (e.g. a preset).
+   * The fade only takes the channels it changes: channels already at their
+   * target are left to whichever fade owns them, unless that fade is heading
+   * somewhere else.
    *
-   * LERP formula per channel per step:
-   *   v_t = v_start + (v_end - v_start) * (t_elapsed / t_total)
+   * Per channel per frame, with p = t_elapsed / t_total:
+   *   v_t = v_start + (v_end - v_start) * curve(p)
+   * (square-law interpolates in the square root of the level instead).
    * Result is clamped to [0, 255] integer.
    */
-  fadeTo(targetChannels: number[], durationMs: number): Promise<void> {
-    // Cancel any active fade
-    this.cancelFade();
+  fadeTo(targetChannels: number[], durationMs: number, options?: FadeOptions): FadeHandle {
+    const current = this.universe.getRawState();
+    const targets = new Map<number, number>();
 
-    if (durationMs <= 0) {
-      // Instant snap
-      this.universe.applySnapshot(targetChannels);
-      return Promise.resolve();
+    for (let i = 0; i < current.length; i++) {
+      const target = clampValue(targetChannels[i]);
+      const owner = this.getOwner(i);
+      if (target !== current[i] || (owner && owner.targets.get(i) !== target)) {
+        targets.set(i, target);
+      }
     }
 
-    return new Promise<void>((resolve) => {
-      this.fadeResolve = resolve;
+    return this.startFade(targets, durationMs, options);
+  }
 
-      const startChannels = this.universe.getRawChannelsArray();
-      const startTime = Date.now();
-      const totalSteps = Math.max(1, Math.ceil(durationMs / FADE_STEP_INTERVAL));
+  /**
+   * Fade a set of channels (absolute channel -> value), e.g. one fixture,
+   * leaving every other channel and fade alone.
+   */
+  fadeChannels(values: Record<number, number>, durationMs: number, options?: FadeOptions): FadeHandle {
+    const channelCount = this.universe.getChannelCount();
+    const targets = new Map<number, number>();
 
-      log.debug(`FadeEngine: Starting fade over ${durationMs}ms (${totalSteps} steps)`);
+    for (const [channel, value] of Object.entries(values)) {
+      const ch = Number(channel);
+      if (ch >= 1 && ch <= channelCount) {
+        targets.set(ch - 1, clampValue(value));
+      }
+    }
 
-      this.activeFade = setInterval(() => {
-        const elapsed = Date.now() - startTime;
-        const progress = Math.min(1, elapsed / durationMs);
+    return this.startFade(targets, durationMs, options);
+  }
 
-        const interpolated: number[] = new Array(512);
-        for (let i = 0; i < 512; i++) {
-          const start = startChannels[i] || 0;
-          const end = targetChannels[i] || 0;
-          const value = start + (end - start) * progress;
-          interpolated[i] = Math.max(0, Math.min(255, Math.round(value)));
-        }
+  /**
+   * Claim the target channels and start fading them. If every channel's
+   * delay and time are zero (or there is nothing to change) the targets are
+   * applied at once.
+   */
+  private startFade(targets: Map<number, number>, durationMs: number, options: FadeOptions = {}): FadeHandle {
+    const id = uuidv4();
+    const label = options.label ?? 'Fade';
+    const current = this.universe.getRawState();
 
-        this.universe.applySnapshot(interpolated);
+    // A 16-bit pair fades together, even when only one half changes
+    for (const [coarse, fine] of this.finePairs) {
+      if (fine >= current.length || (!targets.has(coarse) && !targets.has(fine))) continue;
+      if (!targets.has(coarse)) targets.set(coarse, current[coarse]);
+      if (!targets.has(fine)) targets.set(fine, current[fine]);
+    }
 
-        if (progress >= 1) {
-          this.completeFade();
-        }
-      }, FADE_STEP_INTERVAL);
+    // Newest owner wins: take each channel from any fade holding it
+    for (const index of targets.keys()) {
+      this.releaseChannel(index);
+    }
+
+    const channels = Array.from(targets.keys());
+    const startValues = channels.map((i) => current[i]);
+    const targetValues = channels.map((i) => targets.get(i)!);
+    const delays: number[] = new Array(channels.length);
+    const durations: number[] = new Array(channels.length);
+    let totalMs = 0;
+
+    channels.forEach((index, k) => {
+      const timing = this.resolveTiming(index, targetValues[k] >= startValues[k], durationMs, options.timing);
+      delays[k] = Math.max(0, timing.delay ?? 0);
+      durations[k] = Math.max(0, timing.time);
+      totalMs = Math.max(totalMs, delays[k] + durations[k]);
     });
+
+    // A manual fade needs some length to move along, even with zero times
+    if (options.manual && totalMs <= 0) {
+      durations.fill(1);
+      totalMs = 1;
+    }
+
+    if (totalMs <= 0) {
+      const values: Record<number, number> = {};
+      for (const [index, value] of targets) {
+        values[index + 1] = value;
+      }
+      this.universe.setChannels(values);
+      return { id, done: Promise.resolve('complete') };
+    }
+
+    const done = new Promise<FadeEndReason>((resolve) => {
+      this.fades.set(id, {
+        id,
+        label,
+        presetId: options.presetId ?? null,
+        channels,
+        startValues,
+        targetValues,
+        targets,
+        curves: this.resolveCurves(channels, options),
+        ...this.resolvePairs(channels),
+        delays,
+        durations,
+        owned: channels.length,
+        startedAt: Date.now(),
+        durationMs: totalMs,
+        elapsed: 0,
+        direction: 1,
+        paused: false,
+        manual: !!options.manual,
+        needsRender: true,
+        lastTick: Date.now(),
+        resolve,
+      });
+    });
+
+    for (const index of channels) {
+      this.owners.set(index, id);
+    }
+
+    log.debug(`FadeEngine: Started "${label}" (${id}) on ${channels.length} channels over ${totalMs}ms`);
+    this.notifyChange();
+    return { id, done };
   }
 
   /**
-   * Immediately cancel any active fade.
+   * Advance every fade to `now`. Called once per frame.
    */
-  cancelFade(): void {
-    if (this.activeFade) {
-      clearInterval(this.activeFade);
-      this.activeFade = null;
-      log.debug('FadeEngine: Fade cancelled');
+  private tick(now: number): void {
+    if (this.fades.size === 0) return;
+
+    const values: Record<number, number> = {};
+    const finished: [ActiveFade, FadeEndReason][] = [];
+
+    for (const fade of this.fades.values()) {
+      const moving = !fade.paused && !fade.manual;
+      if (moving) {
+        fade.elapsed += (now - fade.lastTick) * fade.direction;
+        fade.elapsed = Math.max(0, Math.min(fade.durationMs, fade.elapsed));
+      }
+      fade.lastTick = now;
+
+      if (moving || fade.needsRender) {
+        fade.needsRender = false;
+        for (let k = 0; k < fade.channels.length; k++) {
+          const index = fade.channels[k];
+          if (fade.isFine[k] || this.owners.get(index) !== fade.id) continue;
+          const local = fade.elapsed - fade.delays[k];
+          const progress =
+            fade.durations[k] > 0 ? Math.max(0, Math.min(1, local / fade.durations[k])) : local >= 0 ? 1 : 0;
+
+          const f = fade.fineOf[k];
+          if (f !== -1 && this.owners.get(fade.channels[f]) === fade.id) {
+            const start = (fade.startValues[k] << 8) | fade.startValues[f];
+            const end = (fade.targetValues[k] << 8) | fade.targetValues[f];
+            const value = Math.round(interpolate(fade.curves[k], start, end, progress, 0xffff));
+            values[index + 1] = value >> 8;
+            values[fade.channels[f] + 1] = value & 0xff;
+          } else {
+            values[index + 1] = interpolate(fade.curves[k], fade.startValues[k], fade.targetValues[k], progress);
+          }
+        }
+      }
+
+      if (fade.elapsed >= fade.durationMs && (fade.direction === 1 || fade.manual)) {
+        finished.push([fade, 'complete']);
+      } else if (fade.elapsed <= 0 && fade.direction === -1 && !fade.manual) {
+        finished.push([fade, 'reversed']);
+      }
+    }
+
+    this.universe.setChannels(values);
+
+    if (this.progressListeners.size > 0) {
+      this.notifyProgress(now);
+    }
+
+    for (const [fade, reason] of finished) {
+      this.endFade(fade, reason);
     }
-    if (this.fadeResolve) {
-      this.fadeResolve();
-      this.fadeResolve = null;
+  }
+
+  /**
+   * Pick the timing for a channel: its attribute's timing if set, otherwise
+   * up or down by direction, otherwise the fade duration with no delay.
+   */
+  private resolveTiming(index: number, rising: boolean, durationMs: number, timing: FadeTimingOptions = {}): FadeTiming {
+    const role = this.channelRoles.get(index + 1);
+    if (role) {
+      const attributeTiming = timing.attributes?.[attributeOf(role)];
+      if (attributeTiming) return attributeTiming;
     }
+    return (rising ? timing.up : timing.down) ?? { time: durationMs };
   }
 
   /**
-   * Check if a fade is currently active.
+   * Pick the curve for each channel: the option for its role, then the
+   * fade-wide curve, then the role default, then linear.
    */
-  isFading(): boolean {
-    return this.activeFade !== null;
+  private resolveCurves(channels: number[], options: FadeCurveOptions): FadeCurve[] {
+    return channels.map((index) => {
+      const role = this.channelRoles.get(index + 1);
+      if (!role) {
+        return options.curve ?? 'linear';
+      }
+      const alias = ROLE_ALIASES[role] ?? role;
+      return (
+        options.roleCurves?.[role] ??
+        options.roleCurves?.[alias] ??
+        options.curve ??
+        DEFAULT_ROLE_CURVES[alias] ??
+        'linear'
+      );
+    });
   }
 
   /**
-   * Complete the current fade.
+   * Find the 16-bit pairs among a fade's channels. startFade adds both
+   * halves of a pair, so a fine channel follows its coarse channel's timing.
    */
-  private completeFade(): void {
-    if (this.activeFade) {
-      clearInterval(this.activeFade);
-      this.activeFade = null;
+  private resolvePairs(channels: number[]): { fineOf: number[]; isFine: boolean[] } {
+    const position = new Map(channels.map((index, k) => [index, k]));
+    const fineOf = new Array<number>(channels.length).fill(-1);
+    const isFine = new Array<boolean>(channels.length).fill(false);
+
+    channels.forEach((index, k) => {
+      const fine = this.finePairs.get(index);
+      const f = fine !== undefined ? position.get(fine) : undefined;
+      if (f !== undefined) {
+        fineOf[k] = f;
+        isFine[f] = true;
+      }
+    });
+    return { fineOf, isFine };
+  }
+
+  /**
+   * The fade currently owning a channel slot, if any.
+   */
+  private getOwner(index: number): ActiveFade | undefined {
+    const id = this.owners.get(index);
+    return id ? this.fades.get(id) : undefined;
+  }
+
+  /**
+   * Take a channel slot away from its owner. A fade left with no channels
+   * ends as superseded.
+   */
+  private releaseChannel(index: number): void {
+    const owner = this.getOwner(index);
+    if (!owner) return;
+
+    this.owners.delete(index);
+    owner.owned--;
+    if (owner.owned <= 0) {
+      this.endFade(owner, 'superseded');
     }
-    if (this.fadeResolve) {
-      this.fadeResolve();
-      this.fadeResolve = null;
+  }
+
+  /**
+   * Remove a fade, release its channels and settle its promise.
+   */
+  private endFade(fade: ActiveFade, reason: FadeEndReason): void {
+    if (!this.fades.delete(fade.id)) return;
+
+    for (const index of fade.channels) {
+      if (this.owners.get(index) === fade.id) {
+        this.owners.delete(index);
+      }
     }
-    log.debug('FadeEngine: Fade complete');
+
+    log.debug(`FadeEngine: Fade "${fade.label}" (${fade.id}) ${reason}`);
+    fade.resolve(reason);
+    this.notifyChange();
+  }
+
+  /**
+   * Stop a fade where it is. Returns false if no such fade is running.
+   */
+  cancelFade(id: string): boolean {
+    const fade = this.fades.get(id);
+    if (!fade) return false;
+    this.endFade(fade, 'cancelled');
+    return true;
+  }
+
+  /**
+   * Jump a fade straight to its targets. Returns false if no such fade is running.
+   */
+  completeFade(id: string): boolean {
+    const fade = this.fades.get(id);
+    if (!fade) return false;
+
+    const values: Record<number, number> = {};
+    fade.channels.forEach((index, k) => {
+      if (this.owners.get(index) === fade.id) {
+        values[index + 1] = fade.targetValues[k];
+      }
+    });
+    this.universe.setChannels(values);
+
+    this.endFade(fade, 'complete');
+    return true;
+  }
+
+  /**
+   * Hold a timed fade where it is. Returns false if no such fade is running.
+   */
+  pauseFade(id: string): boolean {
+    const fade = this.fades.get(id);
+    if (!fade || fade.manual) return false;
+    fade.paused = true;
+    this.notifyChange();
+    return true;
+  }
+
+  /**
+   * Continue a paused fade. Returns false if no such fade is running.
+   */
+  resumeFade(id: string): boolean {
+    const fade = this.fades.get(id);
+    if (!fade || fade.manual) return false;
+    fade.paused = false;
+    this.notifyChange();
+    return true;
+  }
+
+  /**
+   * Turn a timed fade around. Run back to its start, it ends as reversed
+   * with every channel back at its starting value.
+   */
+  reverseFade(id: string): boolean {
+    const fade = this.fades.get(id);
+    if (!fade || fade.manual) return false;
+    fade.direction = fade.direction === 1 ? -1 : 1;
+    this.notifyChange();
+    return true;
   }
 
   /**
-   * Fade to blackout over the specified duration.
+   * Move a fade to a position (0–1) along its length. This is how manual
+   * fades progress; reaching 1 completes the fade.
    */
-  fadeToBlackout(durationMs: number): Promise<void> {
-    const blackout = new Array(512).fill(0);
-    return this.fadeTo(blackout, durationMs);
+  setFadePosition(id: string, position: number): boolean {
+    const fade = this.fades.get(id);
+    if (!fade) return false;
+    fade.elapsed = Math.max(0, Math.min(1, Number(position) || 0)) * fade.durationMs;
+    fade.needsRender = true;
+    return true;
+  }
+
+  /**
+   * Stop every running fade where it is.
+   */
+  cancelAll(): void {
+    for (const fade of Array.from(this.fades.values())) {
+      this.endFade(fade, 'cancelled');
+    }
+  }
+
+  /**
+   * Check if any fade is currently running.
+   */
+  isFading(): boolean {
+    return this.fades.size > 0;
+  }
+
+  /**
+   * Get a snapshot of the running fades, oldest first.
+   */
+  getFades(now: number = Date.now()): FadeInfo[] {
+    return Array.from(this.fades.values()).map((fade) => {
+      // Timed fades run on between ticks; project their position to `now`
+      let elapsed = fade.elapsed;
+      if (!fade.paused && !fade.manual) {
+        elapsed += (now - fade.lastTick) * fade.direction;
+      }
+      elapsed = Math.max(0, Math.min(fade.durationMs, elapsed));
+      return {
+        id: fade.id,
+        label: fade.label,
+        presetId: fade.presetId,
+        state: getFadeState(fade),
+        channelCount: fade.owned,
+        durationMs: fade.durationMs,
+        startedAt: fade.startedAt,
+        progress: elapsed / fade.durationMs,
+        remainingMs: fade.direction === 1 ? fade.durationMs - elapsed : elapsed,
+      };
+    });
+  }
+
+  /**
+   * Register a listener for fades starting or ending.
+   */
+  onChange(callback: (fades: FadeInfo[]) => void): void {
+    this.changeListeners.add(callback);
+  }
+
+  /**
+   * Register a listener called every frame while fades are running, with
+   * their progress. Listeners should throttle anything expensive.
+   */
+  onProgress(callback: (fades: FadeInfo[]) => void): void {
+    this.progressListeners.add(callback);
+  }
+
+  private notifyProgress(now: number): void {
+    const fades = this.getFades(now);
+    for (const listener of this.progressListeners) {
+      try {
+        listener(fades);
+      } catch (err) {
+        log.error('FadeEngine: Progress listener error:', err);
+      }
+    }
+  }
+
+  private notifyChange(): void {
+    const fades = this.getFades();
+    for (const listener of this.changeListeners) {
+      try {
+        listener(fades);
+      } catch (err) {
+        log.error('FadeEngine: Change listener error:', err);
+      }
+    }
+  }
+}
+
+function clampValue(value: unknown): number {
+  return Math.max(0, Math.min(255, Math.round(Number(value) || 0)));
+}
+
+function getFadeState(fade: ActiveFade): FadeState {
+  if (fade.manual) return 'manual';
+  if (fade.paused) return 'paused';
+  return fade.direction === 1 ? 'running' : 'reversing';
+}
+
+/**
+ * Reduce a fade to its progress update.
+ */
+export function toFadeProgress(fade: FadeInfo): FadeProgress {
+  return {
+    id: fade.id,
+    presetId: fade.presetId,
+    percent: Math.round(fade.progress * 100),
+    remainingMs: Math.round(fade.remainingMs),
+  };
+}
+
+/**
+ * The timing attribute a channel role belongs to.
+ */
+function attributeOf(role: string): FadeAttribute {
+  const alias = ROLE_ALIASES[role] ?? role;
+  if (alias === 'dimmer') return 'intensity';
+  if (COLOR_ROLES.has(alias)) return 'color';
+  return 'fx';
+}
+
+/**
+ * Check that a value names a known fade curve.
+ */
+export function isFadeCurve(value: unknown): value is FadeCurve {
+  return typeof value === 'string' && (FADE_CURVES as string[]).includes(value);
+}
+
+/**
+ * Value between start and end at progress p (0..1) along a curve. `full` is
+ * the channel's top value: 255, or 65535 for a 16-bit pair.
+ */
+export function interpolate(curve: FadeCurve, start: number, end: number, p: number, full = 255): number {
+  switch (curve) {
+    case 'ease-in':
+      return start + (end - start) * p * p;
+    case 'ease-out':
+      return start + (end - start) * (1 - (1 - p) * (1 - p));
+    case 's-curve':
+      return start + (end - start) * p * p * (3 - 2 * p);
+    case 'square-law': {
+      // Linear in perceived brightness: slow at the bottom in both directions
+      const a = Math.sqrt(start / full);
+      const b = Math.sqrt(end / full);
+      const level = a + (b - a) * p;
+      return full * level * level;
+    }
+    case 'snap':
+      return p > 0 ? end : start;
+    default:
+      return start + (end - start) * p;
   }
 }
@@ -2,13 +2,15 @@ import type Store from 'electron-store';
 import { v4 as uuidv4 } from 'uuid';
 import path from 'path';
 import * as fs from 'fs';
+import { UNIVERSE_SIZE, MAX_UNIVERSES, formatAddress } from './dmx-universe';
+import { ChannelPatch, normalizeChannelPatch } from './output-patch';
 import { log } from './logger';
 
 type AppStore = Store<Record<string, unknown>>;
 
-interface FixtureChannel {
+interface FixtureChannel extends ChannelPatch {
   name: string;
-  dmxChannel: number;
+  dmxChannel: number; // Absolute: (universe - 1) * 512 + address
 }
 
 type ColorMode = 'rgb' | 'hsb';
@@ -26,6 +28,7 @@ interface ProfileControl {
 interface ProfileChannelDef {
   role: string;
   label: string;
+  fine?: string; // Key of the fine (LSB) channel when this one is the coarse half of a 16-bit pair
 }
 
 interface ProfileMode {
@@ -66,7 +69,7 @@ interface Fixture {
   createdAt: string;
   updatedAt: string;
   profile?: FixtureProfile;
-  startAddress?: number;
+  startAddress?: number; // Absolute, like FixtureChannel.dmxChannel
   activeMode?: string;
   onCanvas?: boolean;
   canvasLayout?: CanvasLayout;
@@ -86,6 +89,7 @@ interface FixtureConfig {
 export class FixtureManager {
   private store: AppStore;
   private bundledProfiles: Map<string, FixtureProfile> = new Map();
+  private changeListeners: Set<() => void> = new Set();
 
   constructor(store: AppStore) {
     this.store = store;
@@ -216,10 +220,7 @@ export class FixtureManager {
       name,
       type,
       colorMode,
-      channels: channels.map((ch) => ({
-        name: ch.name,
-        dmxChannel: ch.dmxChannel,
-      })),
+      channels: channels.map(normalizeChannel),
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
@@ -228,6 +229,7 @@ export class FixtureManager {
     fixtures.push(fixture);
     (this.store as any).set('fixtures', fixtures);
 
+    this.notifyChange();
     log.info(`FixtureManager: Created fixture "${name}" (${fixture.id}) with ${channels.length} channels`);
     return fixture;
   }
@@ -235,6 +237,7 @@ export class FixtureManager {
   /**
    * Create a fixture from a bundled profile.
    * Auto-generates channel mappings from startAddress + profile channel offsets.
+   * The fixture must fit inside a single universe.
    */
   createFromProfile(name: string, profileId: string, startAddress: number): Fixture {
     const profile = this.bundledProfiles.get(profileId);
@@ -242,9 +245,10 @@ export class FixtureManager {
       throw new Error(`Bundled profile not found: ${profileId}`);
     }
 
-    if (startAddress < 1 || startAddress + profile.channelCount - 1 > 512) {
+    const localAddress = ((startAddress - 1) % UNIVERSE_SIZE) + 1;
+    if (startAddress < 1 || localAddress + profile.channelCount - 1 > UNIVERSE_SIZE) {
       throw new Error(
-        `Invalid start address ${startAddress}: fixture requires ${profile.channelCount} channels (max address would be ${startAddress + profile.channelCount - 1})`
+        `Invalid start address ${formatAddress(startAddress)}: fixture requires ${profile.channelCount} channels (max address would be ${localAddress + profile.channelCount - 1})`
       );
     }
 
@@ -278,8 +282,9 @@ export class FixtureManager {
     fixtures.push(fixture);
     (this.store as any).set('fixtures', fixtures);
 
+    this.notifyChange();
     log.info(
-      `FixtureManager: Created profile fixture "${name}" (${fixture.id}) from "${profile.fixture}" at address ${startAddress}, ${profile.channelCount} channels`
+      `FixtureManager: Created profile fixture "${name}" (${fixture.id}) from "${profile.fixture}" at address ${formatAddress(startAddress)}, ${profile.channelCount} channels`
     );
     return fixture;
   }
@@ -342,7 +347,7 @@ export class FixtureManager {
     };
     (this.store as any).set('fixtures', fixtures);
 
-    log.info(`FixtureManager: Set mode "${modeName}" on fixture "${fixture.name}" (CH${dmxChannel} = ${mode.channelValue}, ${results.length - 1} default(s))`);
+    log.info(`FixtureManager: Set mode "${modeName}" on fixture "${fixture.name}" (CH ${formatAddress(dmxChannel)} = ${mode.channelValue}, ${results.length - 1} default(s))`);
     return results;
   }
 
@@ -360,6 +365,7 @@ export class FixtureManager {
     const updated: Fixture = {
       ...fixtures[index],
       ...patch,
+      channels: patch.channels ? patch.channels.map(normalizeChannel) : fixtures[index].channels,
       id: fixtures[index].id,
       createdAt: fixtures[index].createdAt,
       updatedAt: new Date().toISOString(),
@@ -368,6 +374,7 @@ export class FixtureManager {
     fixtures[index] = updated;
     (this.store as any).set('fixtures', fixtures);
 
+    this.notifyChange();
     log.info(`FixtureManager: Updated fixture "${updated.name}" (${id})`);
     return updated;
   }
@@ -387,13 +394,14 @@ export class FixtureManager {
     const removed = fixtures.splice(index, 1)[0];
     (this.store as any).set('fixtures', fixtures);
 
+    this.notifyChange();
     log.info(`FixtureManager: Deleted fixture "${removed.name}" (${id})`);
     return true;
   }
 
   /**
-   * Validates that no two fixtures claim the same DMX channel.
-   * Returns array of conflict descriptions, empty if clean.
+   * Validates that no two fixtures claim the same DMX channel in the same
+   * universe. Returns array of conflict descriptions, empty if clean.
    */
   validateChannelConflicts(): string[] {
     const fixtures = this.getAll();
@@ -405,7 +413,7 @@ export class FixtureManager {
         const existing = channelOwners.get(channel.dmxChannel);
         if (existing) {
           conflicts.push(
-            `DMX channel ${channel.dmxChannel}: "${fixture.name}" (${channel.name}) conflicts with "${existing.fixtureName}" (${existing.channelName})`
+            `DMX ${formatAddress(channel.dmxChannel)}: "${fixture.name}" (${channel.name}) conflicts with "${existing.fixtureName}" (${existing.channelName})`
           );
         } else {
           channelOwners.set(channel.dmxChannel, {
@@ -438,6 +446,8 @@ export class FixtureManager {
   /**
    * Import fixtures from a FixtureConfig JSON object.
    * Strategy: 'merge' adds non-conflicting fixtures, 'replace' overwrites all.
+   * Either way, channels outside the patchable range are dropped and the
+   * rest normalized as when creating a fixture.
    */
   importConfig(config: FixtureConfig, strategy: 'merge' | 'replace'): {
     added: number;
@@ -448,11 +458,14 @@ export class FixtureManager {
       throw new Error(`Unsupported fixture config version: ${config.version}`);
     }
 
+    const imported = (Array.isArray(config.fixtures) ? config.fixtures : []).map(normalizeImportedFixture);
+
     if (strategy === 'replace') {
-      (this.store as any).set('fixtures', config.fixtures);
-      log.info(`FixtureManager: Replaced all fixtures with ${config.fixtures.length} imported fixtures`);
+      (this.store as any).set('fixtures', imported);
+      this.notifyChange();
+      log.info(`FixtureManager: Replaced all fixtures with ${imported.length} imported fixtures`);
       return {
-        added: config.fixtures.length,
+        added: imported.length,
         skipped: 0,
         conflicts: [],
       };
@@ -473,7 +486,7 @@ export class FixtureManager {
     let skipped = 0;
     const conflicts: string[] = [];
 
-    for (const fixture of config.fixtures) {
+    for (const fixture of imported) {
       // Skip if ID already exists
       if (existingIds.has(fixture.id)) {
         skipped++;
@@ -486,7 +499,7 @@ export class FixtureManager {
       if (conflicting.length > 0) {
         skipped++;
         conflicts.push(
-          `Fixture "${fixture.name}" has conflicting channels: ${conflicting.map((c) => c.dmxChannel).join(', ')} — skipped`
+          `Fixture "${fixture.name}" has conflicting channels: ${conflicting.map((c) => formatAddress(c.dmxChannel)).join(', ')} — skipped`
         );
         continue;
       }
@@ -501,11 +514,157 @@ export class FixtureManager {
     }
 
     (this.store as any).set('fixtures', existing);
+    this.notifyChange();
     log.info(`FixtureManager: Import complete — ${added} added, ${skipped} skipped`);
 
     return { added, skipped, conflicts };
   }
 
+  /**
+   * Channels the grand master must leave alone: every patched channel that
+   * isn't intensity. Per fixture, the master scales its dimmer/brightness
+   * channels; failing that its red/green/blue channels act as a virtual
+   * dimmer. Legacy fixtures whose channel names give no hint keep being
+   * scaled as before, as do unpatched channels.
+   */
+  getMasterExemptChannels(): number[] {
+    const exempt: number[] = [];
+
+    for (const fixture of this.getAll()) {
+      const roles = getChannelRoles(fixture);
+      const intensity = roles.filter((r) => INTENSITY_ROLES.has(r.role));
+      const color = roles.filter((r) => COLOR_ROLES.has(r.role));
+
+      let scaled: Set<number>;
+      if (intensity.length > 0) {
+        scaled = new Set(intensity.map((r) => r.dmxChannel));
+      } else if (color.length > 0) {
+        scaled = new Set(color.map((r) => r.dmxChannel));
+      } else if (!fixture.profile) {
+        continue; // Unknown legacy layout — scale everything
+      } else {
+        scaled = new Set();
+      }
+
+      for (const { dmxChannel } of roles) {
+        if (!scaled.has(dmxChannel)) exempt.push(dmxChannel);
+      }
+    }
+
+    return exempt;
+  }
+
+  /**
+   * Channels of a fixture for one attribute: a channel role such as "red"
+   * or "hue", or "intensity" for what the grand master scales (dimmer or
+   * brightness, failing that red/green/blue as a virtual dimmer).
+   */
+  getAttributeChannels(fixtureId: string, attribute: string): number[] {
+    const fixture = this.getById(fixtureId);
+    if (!fixture) {
+      throw new Error(`Fixture not found: ${fixtureId}`);
+    }
+
+    const roles = getChannelRoles(fixture);
+    if (attribute === 'intensity') {
+      const intensity = roles.filter((r) => INTENSITY_ROLES.has(r.role));
+      return (intensity.length > 0 ? intensity : roles.filter((r) => COLOR_ROLES.has(r.role))).map((r) => r.dmxChannel);
+    }
+
+    const role = NAME_ROLES[attribute] ?? attribute;
+    return roles
+      .filter((r) => r.role === attribute || (NAME_ROLES[r.role] ?? r.role) === role)
+      .map((r) => r.dmxChannel);
+  }
+
+  /**
+   * Whether a fixture's intensity is a virtual dimmer: no dimmer or
+   * brightness channel, so red/green/blue stand in. Intensity changes must
+   * then scale the colour rather than replace it.
+   */
+  usesVirtualDimmer(fixtureId: string): boolean {
+    const fixture = this.getById(fixtureId);
+    if (!fixture) {
+      throw new Error(`Fixture not found: ${fixtureId}`);
+    }
+    const roles = getChannelRoles(fixture);
+    return !roles.some((r) => INTENSITY_ROLES.has(r.role)) && roles.some((r) => COLOR_ROLES.has(r.role));
+  }
+
+  /**
+   * Map each patched DMX channel to its fixture channel role. When fixtures
+   * overlap, the first one wins (as in getChannelMap).
+   */
+  getChannelRoleMap(): Map<number, string> {
+    const map = new Map<number, string>();
+    for (const fixture of this.getAll()) {
+      for (const { dmxChannel, role } of getChannelRoles(fixture)) {
+        if (!map.has(dmxChannel)) {
+          map.set(dmxChannel, role);
+        }
+      }
+    }
+    return map;
+  }
+
+  /**
+   * 16-bit channel pairs declared by profiles (absolute coarse channel →
+   * fine channel). When fixtures overlap, the first one wins.
+   */
+  getFinePairs(): Map<number, number> {
+    const pairs = new Map<number, number>();
+    for (const fixture of this.getAll()) {
+      if (!fixture.profile || !fixture.startAddress) continue;
+      const channelKeys = Object.keys(fixture.profile.channels).sort();
+      channelKeys.forEach((key, index) => {
+        const fineKey = fixture.profile!.channels[key].fine;
+        const fineIndex = fineKey ? channelKeys.indexOf(fineKey) : -1;
+        const coarse = fixture.startAddress! + index;
+        if (fineIndex !== -1 && fineIndex !== index && !pairs.has(coarse)) {
+          pairs.set(coarse, fixture.startAddress! + fineIndex);
+        }
+      });
+    }
+    return pairs;
+  }
+
+  /**
+   * Patch-level output processing (limits, inversion, curve) for every
+   * patched channel that has any. When fixtures overlap, the first one wins.
+   */
+  getOutputPatch(): Map<number, ChannelPatch> {
+    const map = new Map<number, ChannelPatch>();
+    const seen = new Set<number>();
+    for (const fixture of this.getAll()) {
+      for (const channel of fixture.channels) {
+        if (seen.has(channel.dmxChannel)) continue;
+        seen.add(channel.dmxChannel);
+        const patch = normalizeChannelPatch(channel);
+        if (Object.keys(patch).length > 0) {
+          map.set(channel.dmxChannel, patch);
+        }
+      }
+    }
+    return map;
+  }
+
+  /**
+   * Register a listener for fixture list changes (create, update, delete, import).
+   */
+  onChange(callback: () => void): void {
+    this.changeListeners.add(callback);
+  }
+
+  private notifyChange(): void {
+    for (const listener of this.changeListeners) {
+      try {
+        listener();
+      } catch (err) {
+        log.error('FixtureManager: Change listener error:', err);
+      }
+    }
+  }
+
   /**
    * Get all DMX channels claimed by any fixture.
    */
@@ -528,3 +687,64 @@ export class FixtureManager {
     return map;
   }
 }
+
+/**
+ * Keep a channel's name, address and cleaned-up patch attributes only.
+ */
+function normalizeChannel(ch: FixtureChannel): FixtureChannel {
+  return {
+    name: ch.name,
+    dmxChannel: ch.dmxChannel,
+    ...normalizeChannelPatch(ch),
+  };
+}
+
+/**
+ * Keep an imported fixture's channels that address a patchable slot,
+ * normalized like a newly created fixture's.
+ */
+function normalizeImportedFixture(fixture: Fixture): Fixture {
+  const channels = Array.isArray(fixture.channels) ? fixture.channels : [];
+  return {
+    ...fixture,
+    channels: channels
+      .filter((ch) => Number.isInteger(ch?.dmxChannel) && ch.dmxChannel >= 1 && ch.dmxChannel <= UNIVERSE_SIZE * MAX_UNIVERSES)
+      .map(normalizeChannel),
+  };
+}
+
+const INTENSITY_ROLES = new Set(['dimmer', 'brightness']);
+const COLOR_ROLES = new Set(['red', 'green', 'blue']);
+
+// Legacy fixtures only have channel names; mirrors inferChannelRole in the renderer
+const NAME_ROLES: Record<string, string> = {
+  red: 'red', r: 'red',
+  green: 'green', g: 'green',
+  blue: 'blue', b: 'blue',
+  brightness: 'brightness', dimmer: 'brightness', dim: 'brightness', intensity: 'brightness',
+  temperature: 'temperature', temp: 'temperature', cct: 'temperature',
+  hue: 'hue',
+  saturation: 'saturation', sat: 'saturation',
+  mode: 'mode', function: 'mode', program: 'mode',
+  'mode-select': 'mode-select',
+  dynamic: 'dynamic',
+};
+
+/**
+ * The role of each of a fixture's channels — from its profile, or inferred
+ * from the channel name for legacy fixtures.
+ */
+function getChannelRoles(fixture: Fixture): { dmxChannel: number; role: string }[] {
+  if (fixture.profile && fixture.startAddress) {
+    const channelKeys = Object.keys(fixture.profile.channels).sort();
+    return channelKeys.map((key, index) => ({
+      dmxChannel: fixture.startAddress! + index,
+      role: fixture.profile!.channels[key].role,
+    }));
+  }
+
+  return fixture.channels.map((ch) => ({
+    dmxChannel: ch.dmxChannel,
+    role: NAME_ROLES[ch.name.toLowerCase().trim()] ?? 'custom',
+  }));
+}
@@ -0,0 +1,131 @@
+import type Store from 'electron-store';
+import { DMXUniverse } from './dmx-universe';
+import { log } from './logger';
+
+type AppStore = Store<Record<string, unknown>>;
+
+const DEFAULT_REFRESH_INTERVAL = 25; // 40 Hz
+const MIN_REFRESH_INTERVAL = 23;     // ~44 Hz, the DMX512 maximum for 512 slots
+const MAX_REFRESH_INTERVAL = 100;    // 10 Hz
+
+interface FrameSchedulerOptions {
+  universe: DMXUniverse;
+  store: AppStore;
+}
+
+/**
+ * FrameScheduler — The single clock for DMX output. Each frame it runs the
+ * registered tasks (fades, effects) against the programmer, renders the
+ * output buffer once, and hands it to the frame listeners (DMXDriver).
+ * Channel writes between frames only mark the universe dirty.
+ *
+ * The frame interval comes from `settings.dmxRefreshRate` (milliseconds).
+ */
+export class FrameScheduler {
+  private universe: DMXUniverse;
+  private store: AppStore;
+  private interval: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private tasks: Set<(now: number) => void> = new Set();
+  private frameListeners: Set<(frame: Uint8Array) => void> = new Set();
+
+  constructor(options: FrameSchedulerOptions) {
+    this.universe = options.universe;
+    this.store = options.store;
+    this.interval = clampInterval((this.store as any).get('settings.dmxRefreshRate') ?? DEFAULT_REFRESH_INTERVAL);
+  }
+
+  /**
+   * Start the frame clock.
+   */
+  start(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+    this.timer = setInterval(() => this.renderFrame(), this.interval);
+    log.info(`FrameScheduler: Started at ${Math.round(1000 / this.interval)} Hz`);
+  }
+
+  /**
+   * Run tasks, render the output buffer and deliver it.
+   */
+  private renderFrame(): void {
+    const now = Date.now();
+
+    for (const task of this.tasks) {
+      try {
+        task(now);
+      } catch (err) {
+        log.error('FrameScheduler: Task error:', err);
+      }
+    }
+
+    let frame: Uint8Array;
+    try {
+      frame = this.universe.renderFrame();
+    } catch (err) {
+      log.error('FrameScheduler: Render error:', err);
+      return;
+    }
+
+    for (const listener of this.frameListeners) {
+      try {
+        listener(frame);
+      } catch (err) {
+        log.error('FrameScheduler: Frame listener error:', err);
+      }
+    }
+  }
+
+  /**
+   * Register a task evaluated at the start of every frame. Returns a function
+   * that removes it.
+   */
+  addTask(task: (now: number) => void): () => void {
+    this.tasks.add(task);
+    return () => {
+      this.tasks.delete(task);
+    };
+  }
+
+  /**
+   * Register a listener for each rendered output frame.
+   */
+  onFrame(callback: (frame: Uint8Array) => void): void {
+    this.frameListeners.add(callback);
+  }
+
+  /**
+   * Get the frame interval in milliseconds.
+   */
+  getRefreshInterval(): number {
+    return this.interval;
+  }
+
+  /**
+   * Change and persist the frame interval, restarting the clock if running.
+   */
+  setRefreshInterval(ms: number): number {
+    this.interval = clampInterval(ms);
+    (this.store as any).set('settings.dmxRefreshRate', this.interval);
+    if (this.timer) {
+      this.start();
+    }
+    return this.interval;
+  }
+
+  /**
+   * Stop the frame clock.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      log.info('FrameScheduler: Stopped');
+    }
+  }
+}
+
+function clampInterval(value: number): number {
+  return Math.max(MIN_REFRESH_INTERVAL, Math.min(MAX_REFRESH_INTERVAL, Math.round(Number(value) || DEFAULT_REFRESH_INTERVAL)));
+}
@@ -3,9 +3,25 @@ import path from 'path';
 import { initializeLogger, log } from './logger';
 import { DMXUniverse } from './dmx-universe';
 import { DMXDriver } from './dmx-driver';
+import { EnttecOutput } from './enttec-output';
+import { ArtNetOutput } from './artnet-output';
+import { SACNOutput } from './sacn-output';
+import { VirtualOutput } from './virtual-output';
+import { DMXInput } from './dmx-input';
 import { FixtureManager } from './fixture-manager';
+import { ParkManager } from './park-manager';
+import { EffectEngine } from './effect-engine';
+import { ChaseManager } from './chase-manager';
 import { PresetManager } from './preset-manager';
+import { SubmasterManager } from './submaster-manager';
 import { FadeEngine } from './fade-engine';
+import { Blackout } from './blackout';
+import { Playback } from './playback';
+import { CueList } from './cue-list';
+import { Timeline } from './timeline';
+import { ScheduleManager } from './schedule-manager';
+import { OSCInput } from './osc-input';
+import { FrameScheduler } from './frame-scheduler';
 import { SocketUIServer } from './socket-ui';
 import { CompanionServer } from './socket-companion';
 import { setupIPCHandlers, getLocalIP } from './ipc-handlers';
@@ -16,9 +32,24 @@ let mainWindow: BrowserWindow | null = null;
 let store: any;
 let universe: DMXUniverse;
 let dmxDriver: DMXDriver;
+let enttecOutput: EnttecOutput;
+let artnetOutput: ArtNetOutput;
+let sacnOutput: SACNOutput;
+let dmxInput: DMXInput;
 let fixtureManager: FixtureManager;
+let parkManager: ParkManager;
+let effectEngine: EffectEngine;
+let chaseManager: ChaseManager;
 let presetManager: PresetManager;
+let submasterManager: SubmasterManager;
 let fadeEngine: FadeEngine;
+let blackout: Blackout;
+let playback: Playback;
+let cueList: CueList;
+let timeline: Timeline;
+let scheduleManager: ScheduleManager;
+let oscInput: OSCInput;
+let scheduler: FrameScheduler;
 let socketUIServer: SocketUIServer;
 let companionServer: CompanionServer;
 let isQuitting = false;
@@ -27,6 +58,13 @@ const isDev = !app.isPackaged;
 const UI_PORT = 9090;
 const VITE_DEV_PORT = 5173;
 
+const TRAY_BLACKOUT_FADE_MS = 1000;
+
+// Enttec widget timing presets offered in the tray (µs / packets per second)
+const ENTTEC_BREAK_OPTIONS = [96, 128, 192, 256, 352];
+const ENTTEC_MAB_OPTIONS = [11, 21, 43, 85];
+const ENTTEC_RATE_OPTIONS = [40, 30, 25, 20];
+
 /**
  * Create or show the main BrowserWindow (lazy-created).
  */
@@ -115,9 +153,25 @@ function updateTrayMenu(): void {
 
   const dmxStatus = dmxDriver.getStatus();
   const ip = getLocalIP();
-  const statusText = dmxStatus.connected
-    ? `Connected (${dmxStatus.port})`
-    : 'Disconnected — Reconnecting...';
+  const routes = dmxDriver.getRoutes();
+
+  // One line per output: status plus the universes routed to it
+  const outputItems: Electron.MenuItemConstructorOptions[] = dmxStatus.outputs.map((output) => {
+    const routedUniverses = Object.keys(routes).filter((u) => routes[Number(u)].includes(output.id));
+    let statusText: string;
+    if (output.type === 'enttec') {
+      statusText = output.connected ? `Connected (${output.detail})` : 'Disconnected — Reconnecting...';
+    } else if (output.type === 'virtual') {
+      statusText = 'Ready';
+    } else {
+      statusText = output.connected ? output.detail || 'On' : 'Off';
+    }
+    const routeText = routedUniverses.length > 0 ? ` → U${routedUniverses.join(', U')}` : '';
+    return {
+      label: `${output.label}: ${statusText}${routeText}`,
+      enabled: false,
+    };
+  });
 
   const contextMenu = Menu.buildFromTemplate([
     {
@@ -129,9 +183,15 @@ function updateTrayMenu(): void {
       label: `IP: ${ip}:${UI_PORT}`,
       enabled: false,
     },
+    ...outputItems,
+    buildAdapterMenu(),
+    ...buildEnttecWidgetMenu(),
+    { type: 'separator' },
     {
-      label: `DMX: ${statusText}`,
-      enabled: false,
+      label: 'Blackout',
+      type: 'checkbox',
+      checked: blackout.getState().active,
+      click: () => blackout.toggle(TRAY_BLACKOUT_FADE_MS),
     },
     { type: 'separator' },
     {
@@ -154,6 +214,98 @@ function updateTrayMenu(): void {
   tray.setContextMenu(contextMenu);
 }
 
+/**
+ * Tray submenu to pick the DMX adapter from the last serial port scan.
+ * Choosing one pins it and reconnects; "Restart DMX" rescans.
+ */
+function buildAdapterMenu(): Electron.MenuItemConstructorOptions {
+  const ports = enttecOutput.getPorts();
+  const pinned = enttecOutput.getConfig().pinnedPort !== null;
+  const select = async (path: string | null) => {
+    try {
+      await enttecOutput.selectPort(path);
+    } catch (err) {
+      log.error('Application: Failed to select DMX adapter:', err);
+    }
+    updateTrayMenu();
+  };
+
+  return {
+    label: 'DMX Adapter',
+    submenu: [
+      {
+        label: 'Auto-detect (Enttec USB Pro)',
+        type: 'radio',
+        checked: !pinned,
+        click: () => select(null),
+      },
+      { type: 'separator' },
+      ...ports.map((port) => ({
+        label: `${port.path} — ${port.manufacturer || 'Unknown'}${port.serialNumber ? ` (S/N ${port.serialNumber})` : ''}`,
+        type: 'radio' as const,
+        checked: port.pinned,
+        click: () => select(port.path),
+      })),
+    ],
+  };
+}
+
+/**
+ * Tray submenu with the Enttec widget's firmware, serial number and timing.
+ * Empty until the widget has reported its parameters.
+ */
+function buildEnttecWidgetMenu(): Electron.MenuItemConstructorOptions[] {
+  const widget = enttecOutput.getWidgetInfo();
+  if (widget.breakTime === null || widget.mabTime === null || widget.outputRate === null) return [];
+
+  const { breakTime, mabTime, outputRate } = widget;
+  const setParams = (patch: { breakTime?: number; mabTime?: number; outputRate?: number }) => {
+    try {
+      enttecOutput.setWidgetParams(patch);
+    } catch (err) {
+      log.error('Application: Failed to set Enttec widget params:', err);
+    }
+  };
+
+  return [
+    {
+      label: 'Enttec Widget',
+      submenu: [
+        { label: `Firmware ${widget.firmware ?? '–'}`, enabled: false },
+        { label: `Serial ${widget.serialNumber ?? '–'}`, enabled: false },
+        { type: 'separator' },
+        {
+          label: `Break Time (${breakTime} µs)`,
+          submenu: ENTTEC_BREAK_OPTIONS.map((us) => ({
+            label: `${us} µs`,
+            type: 'radio' as const,
+            checked: Math.abs(breakTime - us) < 6,
+            click: () => setParams({ breakTime: us }),
+          })),
+        },
+        {
+          label: `MAB Time (${mabTime} µs)`,
+          submenu: ENTTEC_MAB_OPTIONS.map((us) => ({
+            label: `${us} µs`,
+            type: 'radio' as const,
+            checked: Math.abs(mabTime - us) < 6,
+            click: () => setParams({ mabTime: us }),
+          })),
+        },
+        {
+          label: `Output Rate (${outputRate === 0 ? 'max' : `${outputRate} Hz`})`,
+          submenu: [...ENTTEC_RATE_OPTIONS, 0].map((rate) => ({
+            label: rate === 0 ? 'Maximum' : `${rate} Hz`,
+            type: 'radio' as const,
+            checked: outputRate === rate,
+            click: () => setParams({ outputRate: rate }),
+          })),
+        },
+      ],
+    },
+  ];
+}
+
 /**
  * Graceful shutdown — stop all services and quit.
  */
@@ -167,6 +319,15 @@ async function gracefulShutdown(): Promise<void> {
     if (socketUIServer) {
       await socketUIServer.shutdown();
     }
+    if (oscInput) {
+      await oscInput.shutdown();
+    }
+    if (dmxInput) {
+      await dmxInput.shutdown();
+    }
+    if (scheduler) {
+      scheduler.stop();
+    }
     if (dmxDriver) {
       await dmxDriver.shutdown();
     }
@@ -214,52 +375,216 @@ async function main(): Promise<void> {
         defaultFadeTime: 1000,
         uiThrottleRate: 33,
         dmxRefreshRate: 25,
+        universeCount: 1,
       },
     },
   });
   log.info('Application: Store initialized');
 
   // --- Step 4: Create DMXUniverse instance ---
-  universe = new DMXUniverse();
+  universe = new DMXUniverse(store.get('settings.universeCount') || 1);
+  universe.onResize((universeCount) => {
+    store.set('settings.universeCount', universeCount);
+  });
 
   // --- Step 5: Create FixtureManager instance ---
   fixtureManager = new FixtureManager(store);
   log.info(`Application: Loaded ${fixtureManager.getAll().length} fixture(s)`);
 
+  // The grand master only scales intensity — keep its scope in sync with the patch
+  const updateMasterScope = () => universe.setMasterExempt(fixtureManager.getMasterExemptChannels());
+  updateMasterScope();
+  fixtureManager.onChange(updateMasterScope);
+  universe.onResize(updateMasterScope);
+
+  // Limits, inversion and response curves are applied to the output frame;
+  // 16-bit pairs are scaled and patched as one value
+  const updateOutputPatch = () => {
+    universe.setFinePairs(fixtureManager.getFinePairs());
+    universe.setOutputPatch(fixtureManager.getOutputPatch());
+  };
+  updateOutputPatch();
+  fixtureManager.onChange(updateOutputPatch);
+
+  // Parked and locked channels are held by the universe, ignoring writes
+  parkManager = new ParkManager(store, universe, fixtureManager);
+  universe.onResize(() => parkManager.apply());
+
   // --- Step 6: Create PresetManager instance ---
   presetManager = new PresetManager(store);
   log.info(`Application: Loaded ${presetManager.getAll().length} preset(s)`);
 
-  // --- Step 7: Create FadeEngine instance ---
-  fadeEngine = new FadeEngine(universe);
+  // Playback faders mix presets over the programmer
+  submasterManager = new SubmasterManager(store, universe, presetManager);
+  universe.onResize(() => submasterManager.refresh());
+
+  // --- Step 7: Create frame scheduler & FadeEngine (fades run on the frame clock) ---
+  scheduler = new FrameScheduler({ universe, store });
+  fadeEngine = new FadeEngine(universe, scheduler);
+
+  // Fade curves are chosen per channel role, and 16-bit pairs fade as one
+  // value — keep both in sync with the patch
+  const updateFadeRoles = () => {
+    fadeEngine.setChannelRoles(fixtureManager.getChannelRoleMap());
+    fadeEngine.setFinePairs(fixtureManager.getFinePairs());
+  };
+  updateFadeRoles();
+  fixtureManager.onChange(updateFadeRoles);
+
+  // Software LFOs on channels and fixture attributes
+  effectEngine = new EffectEngine(store, universe, fixtureManager, scheduler);
+  log.info(`Application: Loaded ${effectEngine.getAll().length} effect(s)`);
+
+  // Step chases over presets, with BPM and tap tempo
+  chaseManager = new ChaseManager(store, presetManager, fadeEngine, scheduler);
+  log.info(`Application: Loaded ${chaseManager.getAll().length} chase(s)`);
+
+  // Non-destructive blackout at the output stage
+  blackout = new Blackout(universe, scheduler);
+  blackout.onChange(() => {
+    updateTrayMenu();
+  });
+
+  // Preset sequence with GO/BACK and the manual crossfader
+  playback = new Playback({ store, presetManager, fadeEngine });
 
-  // --- Step 8: Auto-detect Enttec USB Pro & start DMX refresh loop ---
-  dmxDriver = new DMXDriver({ universe });
+  // Theatre-style cue list with tracking, waits and follows
+  cueList = new CueList({ store, universe, presetManager, fadeEngine, scheduler });
+
+  // Keyframe timeline on its own clock, written to the programmer
+  timeline = new Timeline({ store, universe, fixtureManager, scheduler });
+
+  // Time-of-day schedules and the idle auto-standby
+  scheduleManager = new ScheduleManager({
+    store,
+    universe,
+    presetManager,
+    fadeEngine,
+    effectEngine,
+    blackout,
+    cueList,
+    scheduler,
+  });
+  log.info(`Application: Loaded ${scheduleManager.getState().schedules.length} schedule(s)`);
+
+  // --- Step 8: Create output transports (Enttec USB Pro, Art-Net, sACN, virtual) ---
+  enttecOutput = new EnttecOutput(store);
+  artnetOutput = new ArtNetOutput(store);
+  sacnOutput = new SACNOutput(store);
+  const outputs = [enttecOutput, artnetOutput, sacnOutput, new VirtualOutput()];
+
+  // --- Step 9: Start outputs & the frame clock with universe routing ---
+  dmxDriver = new DMXDriver({ store, outputs, scheduler });
   await dmxDriver.initialize();
+  scheduler.start();
 
-  // Update tray menu when DMX status changes
+  // Update tray menu when output status or routing changes
   dmxDriver.onStatusChange(() => {
     updateTrayMenu();
   });
+  dmxDriver.onRoutesChange(() => {
+    updateTrayMenu();
+  });
+  enttecOutput.onPortsChange(() => {
+    updateTrayMenu();
+  });
+
+  // --- Step 10: Listen for network DMX input (sACN, Art-Net) to merge ---
+  dmxInput = new DMXInput({ store, universe, artnet: artnetOutput });
+  await dmxInput.start();
+
+  // OSC drives the playback (e.g. a T-bar on a control surface) and the timeline transport
+  oscInput = new OSCInput(store);
+  oscInput.onMessage((address, args) => {
+    scheduleManager.noteActivity();
+    switch (address) {
+      case '/playback/crossfader':
+        if (typeof args[0] === 'number') playback.setCrossfader(args[0]);
+        break;
+      case '/playback/go':
+        // Buttons send 1 on press and 0 on release — act on the press only
+        if (args[0] !== 0) playback.go();
+        break;
+      case '/playback/back':
+        if (args[0] !== 0) playback.back();
+        break;
+      case '/playback/pause':
+        if (args[0] !== 0) playback.pause();
+        break;
+      case '/playback/resume':
+        if (args[0] !== 0) playback.resume();
+        break;
+      case '/playback/reverse':
+        if (args[0] !== 0) playback.reverse();
+        break;
+      case '/timeline/play':
+        if (args[0] !== 0) timeline.play();
+        break;
+      case '/timeline/pause':
+        if (args[0] !== 0) timeline.pause();
+        break;
+      case '/timeline/toggle':
+        if (args[0] !== 0) timeline.toggle();
+        break;
+      case '/timeline/stop':
+        if (args[0] !== 0) timeline.stop();
+        break;
+      case '/timeline/seek':
+        // Position in seconds
+        if (typeof args[0] === 'number') timeline.seek(args[0] * 1000);
+        break;
+      case '/timeline/scrub':
+        // Fader position 0–1 across the whole timeline
+        if (typeof args[0] === 'number') timeline.seek(args[0] * timeline.getTransport().duration);
+        break;
+      default:
+        log.debug(`Application: Unhandled OSC address ${address}`);
+    }
+  });
+  await oscInput.start();
 
-  // --- Step 9: Start Socket.io server ---
+  // --- Step 11: Start Socket.io server ---
   socketUIServer = new SocketUIServer({
     universe,
     driver: dmxDriver,
     presetManager,
+    submasterManager,
     fixtureManager,
+    parkManager,
+    effectEngine,
+    chaseManager,
     fadeEngine,
+    blackout,
+    playback,
+    cueList,
+    timeline,
+    scheduleManager,
+    scheduler,
+    enttec: enttecOutput,
+    artnet: artnetOutput,
+    sacn: sacnOutput,
+    inputs: dmxInput,
+    osc: oscInput,
     isDev,
   });
   await socketUIServer.start();
 
-  // --- Step 10: Start Companion WebSocket server ---
+  // --- Step 12: Start Companion WebSocket server ---
   companionServer = new CompanionServer({
     universe,
     driver: dmxDriver,
     presetManager,
+    submasterManager,
     fixtureManager,
+    parkManager,
+    effectEngine,
+    chaseManager,
     fadeEngine,
+    blackout,
+    playback,
+    cueList,
+    timeline,
+    scheduleManager,
   });
 
   // Bridge UI preset activations to Companion clients
@@ -270,6 +595,11 @@ async function main(): Promise<void> {
     });
   });
 
+  // Faders holding an edited or deleted preset pick up the change
+  socketUIServer.onPresetListChanged(() => {
+    submasterManager.refresh();
+  });
+
   // Bridge preset list changes to Companion clients
   socketUIServer.onPresetListChanged(() => {
     const presets = presetManager.getAll().map((p) => ({
@@ -289,13 +619,19 @@ async function main(): Promise<void> {
     socketUIServer.broadcastPresetActivated(data);
   });
 
-  // --- Step 11: Setup IPC handlers ---
+  // Bridge scheduled and idle standby preset recalls to both
+  scheduleManager.onPresetRecalled((data) => {
+    socketUIServer.broadcastPresetActivated(data);
+    companionServer.broadcast({ event: 'preset_activated', data });
+  });
+
+  // --- Step 13: Setup IPC handlers ---
   setupIPCHandlers({
     driver: dmxDriver,
     fixtureManager,
   });
 
-  // --- Step 12: Create macOS Tray icon ---
+  // --- Step 14: Create macOS Tray icon ---
   createTray();
 
   log.info('Application: Startup complete — ready');
@@ -0,0 +1,221 @@
+import dgram from 'dgram';
+import type Store from 'electron-store';
+import { log } from './logger';
+
+type AppStore = Store<Record<string, unknown>>;
+
+const DEFAULT_OSC_PORT = 8000;
+
+interface OSCConfig {
+  enabled: boolean;
+  port: number;
+}
+
+export type OSCArgument = number | string;
+
+/**
+ * OSCInput — Minimal Open Sound Control receiver over UDP. Decodes messages
+ * and bundles (int, float, string and boolean arguments) and hands each
+ * message to the registered listeners; what an address does is wired up by
+ * the caller. Configuration is persisted in electron-store under `osc`.
+ */
+export class OSCInput {
+  private store: AppStore;
+  private config: OSCConfig;
+  private socket: dgram.Socket | null = null;
+  private messageListeners: Set<(address: string, args: OSCArgument[]) => void> = new Set();
+  private configListeners: Set<(config: OSCConfig) => void> = new Set();
+
+  constructor(store: AppStore) {
+    this.store = store;
+
+    const saved = (this.store as any).get('osc') as Partial<OSCConfig> | undefined;
+    this.config = {
+      enabled: saved?.enabled ?? false,
+      port: clampInt(saved?.port ?? DEFAULT_OSC_PORT, 1024, 65535),
+    };
+  }
+
+  /**
+   * Bind the receive socket if OSC is enabled.
+   */
+  async start(): Promise<void> {
+    if (!this.config.enabled) {
+      log.info('OSCInput: Disabled');
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+      const port = this.config.port;
+
+      const handleBindError = (err: Error) => {
+        log.error(`OSCInput: Could not bind port ${port}: ${err.message}`);
+        socket.close();
+        resolve();
+      };
+      socket.once('error', handleBindError);
+
+      socket.bind(port, () => {
+        socket.off('error', handleBindError);
+        socket.on('error', (err) => {
+          log.error(`OSCInput: Socket error: ${err.message}`);
+        });
+        socket.on('message', (msg) => this.handlePacket(msg));
+        this.socket = socket;
+        log.info(`OSCInput: Listening on UDP port ${port}`);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Get the current OSC configuration.
+   */
+  getConfig(): OSCConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Update and persist the OSC configuration, rebinding the socket.
+   */
+  async updateConfig(patch: Partial<OSCConfig>): Promise<OSCConfig> {
+    this.config = {
+      enabled: typeof patch.enabled === 'boolean' ? patch.enabled : this.config.enabled,
+      port: patch.port !== undefined ? clampInt(patch.port, 1024, 65535) : this.config.port,
+    };
+    (this.store as any).set('osc', this.config);
+
+    await this.shutdown();
+    await this.start();
+
+    const config = this.getConfig();
+    for (const listener of this.configListeners) {
+      try {
+        listener(config);
+      } catch (err) {
+        log.error('OSCInput: Config listener error:', err);
+      }
+    }
+    return config;
+  }
+
+  /**
+   * Register a listener for every received OSC message.
+   */
+  onMessage(callback: (address: string, args: OSCArgument[]) => void): void {
+    this.messageListeners.add(callback);
+  }
+
+  /**
+   * Register a listener for configuration changes.
+   */
+  onConfigChange(callback: (config: OSCConfig) => void): void {
+    this.configListeners.add(callback);
+  }
+
+  /**
+   * Decode a packet (message or bundle) and dispatch its messages.
+   */
+  private handlePacket(packet: Buffer): void {
+    try {
+      for (const { address, args } of decodePacket(packet)) {
+        for (const listener of this.messageListeners) {
+          try {
+            listener(address, args);
+          } catch (err) {
+            log.error('OSCInput: Message listener error:', err);
+          }
+        }
+      }
+    } catch (err) {
+      log.debug('OSCInput: Ignoring malformed packet:', err);
+    }
+  }
+
+  /**
+   * Close the receive socket.
+   */
+  async shutdown(): Promise<void> {
+    const socket = this.socket;
+    if (!socket) return;
+    this.socket = null;
+    await new Promise<void>((resolve) => socket.close(() => resolve()));
+  }
+}
+
+/**
+ * Decode an OSC packet into its messages, flattening bundles.
+ */
+function decodePacket(packet: Buffer): { address: string; args: OSCArgument[] }[] {
+  let offset = 0;
+  const [head, afterHead] = readString(packet, offset);
+
+  if (head === '#bundle') {
+    offset = afterHead + 8; // Skip the time tag; messages are acted on immediately
+    const messages: { address: string; args: OSCArgument[] }[] = [];
+    while (offset + 4 <= packet.length) {
+      const size = packet.readInt32BE(offset);
+      offset += 4;
+      messages.push(...decodePacket(packet.subarray(offset, offset + size)));
+      offset += size;
+    }
+    return messages;
+  }
+
+  if (!head.startsWith('/')) {
+    throw new Error(`Invalid OSC address "${head}"`);
+  }
+  offset = afterHead;
+
+  const args: OSCArgument[] = [];
+  if (offset < packet.length) {
+    const [tags, afterTags] = readString(packet, offset);
+    offset = afterTags;
+    for (const tag of tags.slice(1)) {
+      switch (tag) {
+        case 'i':
+          args.push(packet.readInt32BE(offset));
+          offset += 4;
+          break;
+        case 'f':
+          args.push(packet.readFloatBE(offset));
+          offset += 4;
+          break;
+        case 's': {
+          const [value, next] = readString(packet, offset);
+          args.push(value);
+          offset = next;
+          break;
+        }
+        case 'T':
+          args.push(1);
+          break;
+        case 'F':
+          args.push(0);
+          break;
+        default:
+          throw new Error(`Unsupported OSC type tag "${tag}"`);
+      }
+    }
+  }
+
+  return [{ address: head, args }];
+}
+
+/**
+ * Read a null-terminated OSC string padded to 4 bytes; returns the string
+ * and the offset after its padding.
+ */
+function readString(packet: Buffer, offset: number): [string, number] {
+  const end = packet.indexOf(0, offset);
+  if (end === -1) {
+    throw new Error('Unterminated OSC string');
+  }
+  const value = packet.toString('ascii', offset, end);
+  return [value, (end + 4) & ~3];
+}
+
+function clampInt(value: unknown, min: number, max: number): number {
+  return Math.max(min, Math.min(max, Math.round(Number(value) || 0)));
+}
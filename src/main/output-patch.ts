@@ -0,0 +1,93 @@
+export type OutputCurve = 'linear' | 'square-law' | 'inverse-square' | 's-curve' | 'switch';
+
+export const OUTPUT_CURVES: OutputCurve[] = ['linear', 'square-law', 'inverse-square', 's-curve', 'switch'];
+
+/**
+ * Patch-level processing for one channel, applied at the output stage.
+ * Presets, fades and the UI keep working in logical 0–255; the output
+ * value is `min + (max - min) * curve(logical)`, then inverted if asked.
+ */
+export interface ChannelPatch {
+  min?: number;          // Output floor (preheat), 0–255
+  max?: number;          // Output ceiling, 0–255
+  invert?: boolean;      // 255 − value, for reversed-polarity devices
+  curve?: OutputCurve;   // Response curve (default linear)
+}
+
+/**
+ * Check that a value names a known output curve.
+ */
+export function isOutputCurve(value: unknown): value is OutputCurve {
+  return typeof value === 'string' && (OUTPUT_CURVES as string[]).includes(value);
+}
+
+/**
+ * Clean up a patch from the store or a client: clamp limits, drop unknown
+ * curves and defaults, so an untouched channel has an empty patch.
+ */
+export function normalizeChannelPatch(raw: Partial<Record<keyof ChannelPatch, unknown>> | undefined): ChannelPatch {
+  const patch: ChannelPatch = {};
+  if (!raw) return patch;
+
+  const min = clampValue(raw.min, 0);
+  const max = clampValue(raw.max, 255);
+  if (min > 0) patch.min = min;
+  if (max < 255) patch.max = max;
+  if (raw.invert === true) patch.invert = true;
+  if (isOutputCurve(raw.curve) && raw.curve !== 'linear') patch.curve = raw.curve;
+  return patch;
+}
+
+/**
+ * Whether a patch changes the output at all.
+ */
+export function isIdentityPatch(patch: ChannelPatch): boolean {
+  return patch.min === undefined && patch.max === undefined && !patch.invert && patch.curve === undefined;
+}
+
+/**
+ * Output level (0..1) for a logical level x (0..1) through a patch. Used
+ * directly for 16-bit channels, and to build 8-bit lookup tables.
+ */
+export function patchLevel(patch: ChannelPatch, x: number): number {
+  const min = (patch.min ?? 0) / 255;
+  const max = Math.max(min, (patch.max ?? 255) / 255);
+  const level = min + (max - min) * applyCurve(patch.curve ?? 'linear', x);
+  return patch.invert ? 1 - level : level;
+}
+
+/**
+ * Lookup table from logical value to output value for a patch.
+ */
+export function buildOutputTable(patch: ChannelPatch): Uint8Array {
+  const table = new Uint8Array(256);
+  for (let v = 0; v < 256; v++) {
+    table[v] = Math.round(255 * patchLevel(patch, v / 255));
+  }
+  return table;
+}
+
+/**
+ * Response at logical level x (0..1).
+ */
+function applyCurve(curve: OutputCurve, x: number): number {
+  switch (curve) {
+    case 'square-law':
+      return x * x;
+    case 'inverse-square':
+      return Math.sqrt(x);
+    case 's-curve':
+      return x * x * (3 - 2 * x);
+    case 'switch':
+      // Relays and fans: off below half, full above
+      return x >= 0.5 ? 1 : 0;
+    default:
+      return x;
+  }
+}
+
+function clampValue(value: unknown, fallback: number): number {
+  const n = Number(value);
+  if (value === undefined || value === null || !Number.isFinite(n)) return fallback;
+  return Math.max(0, Math.min(255, Math.round(n)));
+}
@@ -0,0 +1,40 @@
+/**
+ * Output transport contract shared by every DMX output (Enttec USB Pro,
+ * Art-Net, sACN, virtual). DMXDriver owns the refresh loop and routing table;
+ * transports only know how to deliver a 512-channel frame for a universe.
+ */
+
+export type OutputType = 'enttec' | 'artnet' | 'sacn' | 'virtual';
+
+export interface OutputStatus {
+  id: string;
+  type: OutputType;
+  label: string;
+  connected: boolean;
+  detail: string | null; // e.g. serial port path or destination address
+  maxUniverses?: number; // Universes it can carry at once; unlimited when unset
+}
+
+export interface OutputTransport {
+  readonly id: string;
+  readonly type: OutputType;
+  readonly label: string;
+
+  /** Universes the output can carry at once (e.g. 1 for a single DMX port); unlimited when unset. */
+  readonly maxUniverses?: number;
+
+  /** Open sockets/ports. Must not throw when hardware is absent. */
+  start(): Promise<void>;
+
+  /** Deliver one frame for a local universe (1-indexed). */
+  send(universe: number, channels: Uint8Array): void;
+
+  getStatus(): OutputStatus;
+
+  onStatusChange(callback: (status: OutputStatus) => void): void;
+
+  /** Optional re-detection (e.g. re-scan serial ports). */
+  restart?(): Promise<void>;
+
+  shutdown(): Promise<void>;
+}
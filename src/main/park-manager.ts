@@ -0,0 +1,169 @@
+import type Store from 'electron-store';
+import { DMXUniverse, ParkedChannel, formatAddress } from './dmx-universe';
+import { FixtureManager } from './fixture-manager';
+import { log } from './logger';
+
+type AppStore = Store<Record<string, unknown>>;
+
+export interface ParkEntry extends ParkedChannel {
+  address: string;            // universe.address, for display
+  fixtureName: string | null; // First fixture patched on the channel
+  channelName: string | null;
+}
+
+/**
+ * ParkManager — Channels parked at a fixed output value or locked at their
+ * current programmer value. Recalls, fades, Companion and the UI faders all
+ * write through the programmer, which DMXUniverse keeps from touching these
+ * channels. Entries are persisted in electron-store under `parked`.
+ */
+export class ParkManager {
+  private store: AppStore;
+  private universe: DMXUniverse;
+  private fixtureManager: FixtureManager;
+  private entries: Map<number, number | null>; // Channel → parked value, null = locked
+  private changeListeners: Set<(entries: ParkEntry[]) => void> = new Set();
+
+  constructor(store: AppStore, universe: DMXUniverse, fixtureManager: FixtureManager) {
+    this.store = store;
+    this.universe = universe;
+    this.fixtureManager = fixtureManager;
+
+    const saved = (this.store as any).get('parked') as ParkedChannel[] | undefined;
+    this.entries = new Map();
+    for (const entry of Array.isArray(saved) ? saved : []) {
+      if (Number.isInteger(entry?.channel) && entry.channel >= 1) {
+        this.entries.set(entry.channel, typeof entry.value === 'number' ? entry.value : null);
+      }
+    }
+    this.apply();
+  }
+
+  /**
+   * Get every parked or locked channel, in channel order.
+   */
+  getAll(): ParkEntry[] {
+    const names = new Map<number, { fixtureName: string; channelName: string }>();
+    for (const fixture of this.fixtureManager.getAll()) {
+      for (const ch of fixture.channels) {
+        if (!names.has(ch.dmxChannel)) {
+          names.set(ch.dmxChannel, { fixtureName: fixture.name, channelName: ch.name });
+        }
+      }
+    }
+
+    return [...this.entries.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([channel, value]) => ({
+        channel,
+        value,
+        address: formatAddress(channel),
+        fixtureName: names.get(channel)?.fixtureName ?? null,
+        channelName: names.get(channel)?.channelName ?? null,
+      }));
+  }
+
+  /**
+   * Park channels at a value (0–255). Without a value each channel is parked
+   * at what it outputs right now.
+   */
+  park(channels: number[], value?: number): void {
+    const valid = this.validChannels(channels);
+    const output = this.universe.getState();
+    for (const channel of valid) {
+      this.entries.set(channel, value === undefined ? output[channel - 1] : clampValue(value));
+    }
+    log.info(`ParkManager: Parked ${valid.length} channel(s)${value === undefined ? '' : ` at ${clampValue(value)}`}`);
+    this.save();
+  }
+
+  /**
+   * Lock channels at their current programmer value.
+   */
+  lock(channels: number[]): void {
+    const valid = this.validChannels(channels);
+    for (const channel of valid) {
+      this.entries.set(channel, null);
+    }
+    log.info(`ParkManager: Locked ${valid.length} channel(s)`);
+    this.save();
+  }
+
+  /**
+   * Release parked or locked channels.
+   */
+  unpark(channels: number[]): void {
+    for (const channel of channels) {
+      this.entries.delete(channel);
+    }
+    log.info(`ParkManager: Unparked ${channels.length} channel(s)`);
+    this.save();
+  }
+
+  /**
+   * Release every parked and locked channel.
+   */
+  unparkAll(): void {
+    this.entries.clear();
+    log.info('ParkManager: Unparked all channels');
+    this.save();
+  }
+
+  /**
+   * Channels of a fixture, for parking or locking it as a whole.
+   */
+  getFixtureChannels(fixtureId: string): number[] {
+    const fixture = this.fixtureManager.getById(fixtureId);
+    if (!fixture) {
+      throw new Error(`Fixture not found: ${fixtureId}`);
+    }
+    return fixture.channels.map((ch) => ch.dmxChannel);
+  }
+
+  /**
+   * Re-apply entries to the universe (e.g. after it grew).
+   */
+  apply(): void {
+    this.universe.setParkedChannels([...this.entries.entries()].map(([channel, value]) => ({ channel, value })));
+  }
+
+  private validChannels(channels: number[]): number[] {
+    const count = this.universe.getChannelCount();
+    const valid = channels.filter((ch) => Number.isInteger(ch) && ch >= 1 && ch <= count);
+    if (valid.length === 0) {
+      throw new Error('No valid channels');
+    }
+    return valid;
+  }
+
+  private save(): void {
+    (this.store as any).set(
+      'parked',
+      [...this.entries.entries()].map(([channel, value]) => ({ channel, value }))
+    );
+    this.apply();
+    this.notifyChange();
+  }
+
+  /**
+   * Register a listener for park/lock changes.
+   */
+  onChange(callback: (entries: ParkEntry[]) => void): void {
+    this.changeListeners.add(callback);
+  }
+
+  private notifyChange(): void {
+    const entries = this.getAll();
+    for (const listener of this.changeListeners) {
+      try {
+        listener(entries);
+      } catch (err) {
+        log.error('ParkManager: Change listener error:', err);
+      }
+    }
+  }
+}
+
+function clampValue(value: number): number {
+  return Math.max(0, Math.min(255, Math.round(Number(value) || 0)));
+}
@@ -0,0 +1,257 @@
+import type Store from 'electron-store';
+import { FadeEngine, FadeEndReason, FadeState } from './fade-engine';
+import { PresetManager } from './preset-manager';
+import { log } from './logger';
+
+type AppStore = Store<Record<string, unknown>>;
+
+interface PlaybackConfig {
+  sequence: string[]; // Preset IDs, in playback order
+}
+
+export interface PlaybackState {
+  sequence: string[];
+  currentIndex: number; // Live preset; -1 before the first GO
+  nextIndex: number;    // Staged preset; -1 at the end of the sequence
+  crossfader: number;   // Bar position, 0–1
+  crossfaderInverted: boolean; // After each completed manual fade the bar runs the other way
+  fadeId: string | null;
+  fadeState: FadeState | null;
+}
+
+interface PlaybackOptions {
+  store: AppStore;
+  presetManager: PresetManager;
+  fadeEngine: FadeEngine;
+}
+
+/**
+ * Playback — Steps through a sequence of presets. GO and BACK run timed
+ * fades using each preset's own timing, which can be paused, resumed and
+ * reversed. The crossfader fades the staged preset in manually: its position
+ * drives a manual fade in FadeEngine instead of the clock. The sequence is
+ * persisted in electron-store under `playback`.
+ */
+export class Playback {
+  private store: AppStore;
+  private presetManager: PresetManager;
+  private fadeEngine: FadeEngine;
+  private config: PlaybackConfig;
+  private currentIndex = -1;
+  private nextIndex = -1;
+  private crossfader = 0;
+  private crossfaderInverted = false;
+  private manualFadeId: string | null = null;
+  private timedFade: { id: string; previousIndex: number; index: number } | null = null;
+  private changeListeners: Set<(state: PlaybackState) => void> = new Set();
+
+  constructor(options: PlaybackOptions) {
+    this.store = options.store;
+    this.presetManager = options.presetManager;
+    this.fadeEngine = options.fadeEngine;
+
+    const saved = (this.store as any).get('playback') as Partial<PlaybackConfig> | undefined;
+    this.config = {
+      sequence: Array.isArray(saved?.sequence) ? saved!.sequence.filter((id) => typeof id === 'string') : [],
+    };
+    this.nextIndex = this.config.sequence.length > 0 ? 0 : -1;
+
+    // Fade state (paused, reversing, ...) is part of the playback state
+    this.fadeEngine.onChange(() => this.notifyChange());
+  }
+
+  /**
+   * Get the sequence, positions and the state of the playback's fade.
+   */
+  getState(): PlaybackState {
+    const fadeId = this.timedFade?.id ?? this.manualFadeId;
+    const fade = fadeId ? this.fadeEngine.getFades().find((f) => f.id === fadeId) : undefined;
+    return {
+      sequence: [...this.config.sequence],
+      currentIndex: this.currentIndex,
+      nextIndex: this.nextIndex,
+      crossfader: this.crossfader,
+      crossfaderInverted: this.crossfaderInverted,
+      fadeId: fade?.id ?? null,
+      fadeState: fade?.state ?? null,
+    };
+  }
+
+  /**
+   * Replace the preset sequence. Playback restarts from the top.
+   */
+  setSequence(presetIds: string[]): PlaybackState {
+    this.cancelManualFade();
+    this.config = {
+      sequence: presetIds.filter((id) => typeof id === 'string' && !!this.presetManager.getById(id)),
+    };
+    (this.store as any).set('playback', this.config);
+    this.currentIndex = -1;
+    this.nextIndex = this.config.sequence.length > 0 ? 0 : -1;
+    log.info(`Playback: Sequence set (${this.config.sequence.length} presets)`);
+    this.notifyChange();
+    return this.getState();
+  }
+
+  /**
+   * Stage a preset from the sequence as the next one.
+   */
+  stage(index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= this.config.sequence.length) return;
+    this.cancelManualFade();
+    this.nextIndex = index;
+    this.notifyChange();
+  }
+
+  /**
+   * Fade to the staged preset with its own timing and advance.
+   */
+  go(): boolean {
+    if (this.nextIndex < 0) return false;
+    return this.fadeToIndex(this.nextIndex);
+  }
+
+  /**
+   * Fade back to the preset before the live one.
+   */
+  back(): boolean {
+    if (this.currentIndex <= 0) return false;
+    return this.fadeToIndex(this.currentIndex - 1);
+  }
+
+  /**
+   * Hold the running GO/BACK fade.
+   */
+  pause(): boolean {
+    return !!this.timedFade && this.fadeEngine.pauseFade(this.timedFade.id);
+  }
+
+  /**
+   * Continue a paused GO/BACK fade.
+   */
+  resume(): boolean {
+    return !!this.timedFade && this.fadeEngine.resumeFade(this.timedFade.id);
+  }
+
+  /**
+   * Turn the running GO/BACK fade around. Run all the way back, the
+   * previous preset is live again.
+   */
+  reverse(): boolean {
+    return !!this.timedFade && this.fadeEngine.reverseFade(this.timedFade.id);
+  }
+
+  /**
+   * Set the crossfader position (0–1). Moving it off its home end starts a
+   * manual fade to the staged preset; reaching the far end completes it,
+   * advances the sequence, and makes that end the new home.
+   */
+  setCrossfader(value: number): void {
+    this.crossfader = Math.max(0, Math.min(1, Number(value) || 0));
+    const progress = this.crossfaderInverted ? 1 - this.crossfader : this.crossfader;
+
+    if (!this.manualFadeId) {
+      if (progress <= 0 || this.nextIndex < 0) {
+        this.notifyChange();
+        return;
+      }
+      if (!this.startManualFade(this.nextIndex)) return;
+    }
+
+    this.fadeEngine.setFadePosition(this.manualFadeId!, progress);
+    this.notifyChange();
+  }
+
+  /**
+   * Start a timed fade to a sequence entry and make it live.
+   */
+  private fadeToIndex(index: number): boolean {
+    const preset = this.presetManager.getById(this.config.sequence[index]);
+    if (!preset) {
+      log.warn(`Playback: Preset ${this.config.sequence[index]} no longer exists`);
+      return false;
+    }
+
+    this.cancelManualFade();
+
+    const fade = this.fadeEngine.fadeTo(preset.channels, preset.fadeTime, this.presetManager.getFadeOptions(preset));
+    const timedFade = { id: fade.id, previousIndex: this.currentIndex, index };
+    this.timedFade = timedFade;
+    this.makeLive(index);
+    log.info(`Playback: GO to "${preset.name}" (${index + 1}/${this.config.sequence.length})`);
+
+    fade.done.then((reason: FadeEndReason) => {
+      if (this.timedFade !== timedFade) return;
+      this.timedFade = null;
+      if (reason === 'reversed') {
+        this.currentIndex = timedFade.previousIndex;
+        this.nextIndex = timedFade.index;
+      }
+      this.notifyChange();
+    });
+
+    this.notifyChange();
+    return true;
+  }
+
+  /**
+   * Start the manual fade the crossfader drives.
+   */
+  private startManualFade(index: number): boolean {
+    const preset = this.presetManager.getById(this.config.sequence[index]);
+    if (!preset) {
+      log.warn(`Playback: Preset ${this.config.sequence[index]} no longer exists`);
+      return false;
+    }
+
+    const fade = this.fadeEngine.fadeTo(preset.channels, preset.fadeTime, {
+      ...this.presetManager.getFadeOptions(preset),
+      manual: true,
+    });
+    this.manualFadeId = fade.id;
+
+    fade.done.then((reason: FadeEndReason) => {
+      if (this.manualFadeId !== fade.id) return;
+      this.manualFadeId = null;
+      if (reason === 'complete') {
+        this.makeLive(index);
+        this.crossfaderInverted = !this.crossfaderInverted;
+        log.info(`Playback: Crossfade to "${preset.name}" complete`);
+      }
+      this.notifyChange();
+    });
+
+    return true;
+  }
+
+  private cancelManualFade(): void {
+    if (this.manualFadeId) {
+      const id = this.manualFadeId;
+      this.manualFadeId = null;
+      this.fadeEngine.cancelFade(id);
+    }
+  }
+
+  private makeLive(index: number): void {
+    this.currentIndex = index;
+    this.nextIndex = index + 1 < this.config.sequence.length ? index + 1 : -1;
+  }
+
+  /**
+   * Register a listener for playback state changes.
+   */
+  onChange(callback: (state: PlaybackState) => void): void {
+    this.changeListeners.add(callback);
+  }
+
+  private notifyChange(): void {
+    const state = this.getState();
+    for (const listener of this.changeListeners) {
+      try {
+        listener(state);
+      } catch (err) {
+        log.error('Playback: Change listener error:', err);
+      }
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import type Store from 'electron-store';
 import { v4 as uuidv4 } from 'uuid';
-import { DMXUniverse } from './dmx-universe';
+import { DMXUniverse, UNIVERSE_SIZE, MAX_UNIVERSES } from './dmx-universe';
+import { FadeCurve, FadeAttribute, FadeOptions, FadeTiming, FADE_ATTRIBUTES, isFadeCurve } from './fade-engine';
 import { log } from './logger';
 
 type AppStore = Store<Record<string, unknown>>;
@@ -8,10 +9,17 @@ type AppStore = Store<Record<string, unknown>>;
 interface Preset {
   id: string;
   name: string;
-  channels: number[];
-  fadeTime: number;
+  channels: number[]; // 512 values per universe, universe 1 first
+  fadeTime: number; // Fade-in (up) time
+  fadeOutTime?: number; // Fade-out (down) time; defaults to fadeTime
+  delayIn?: number; // Delay before channels rise
+  delayOut?: number; // Delay before channels fall
+  attributeTiming?: Partial<Record<FadeAttribute, FadeTiming>>; // Overrides in/out per attribute
+  fadeCurve?: FadeCurve; // Curve for channels without a role curve
+  roleCurves?: Partial<Record<string, FadeCurve>>; // Channel role -> curve
   color: string;
   fixtureModes?: Record<string, string>;
+  effects?: string[]; // Effects to run on recall (others stop); unset leaves effects alone
   createdAt: string;
   updatedAt: string;
 }
@@ -53,21 +61,24 @@ export class PresetManager {
     channels: number[],
     fadeTime: number,
     color: string,
-    fixtureModes?: Record<string, string>
+    fixtureModes?: Record<string, string>,
+    effects?: string[]
   ): Preset {
     const preset: Preset = {
       id: uuidv4(),
       name,
-      channels: channels.slice(0, 512),
+      channels: channels.slice(0, UNIVERSE_SIZE * MAX_UNIVERSES),
       fadeTime,
       color,
       fixtureModes,
+      effects,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
 
-    // Pad to 512 channels if needed
-    while (preset.channels.length < 512) {
+    // Pad to a whole number of universes
+    const universeCount = Math.max(1, Math.ceil(preset.channels.length / UNIVERSE_SIZE));
+    while (preset.channels.length < universeCount * UNIVERSE_SIZE) {
       preset.channels.push(0);
     }
 
@@ -90,6 +101,27 @@ export class PresetManager {
       throw new Error(`Preset not found: ${id}`);
     }
 
+    if ('fadeCurve' in patch && !isFadeCurve(patch.fadeCurve)) {
+      patch = { ...patch, fadeCurve: undefined };
+    }
+    if ('roleCurves' in patch) {
+      patch = { ...patch, roleCurves: sanitizeRoleCurves(patch.roleCurves) };
+    }
+    for (const key of ['fadeOutTime', 'delayIn', 'delayOut'] as const) {
+      if (key in patch) {
+        patch = { ...patch, [key]: readTime(patch[key]) };
+      }
+    }
+    if ('attributeTiming' in patch) {
+      patch = { ...patch, attributeTiming: sanitizeAttributeTiming(patch.attributeTiming) };
+    }
+    if ('effects' in patch) {
+      patch = {
+        ...patch,
+        effects: Array.isArray(patch.effects) ? patch.effects.filter((id) => typeof id === 'string') : undefined,
+      };
+    }
+
     const updated: Preset = {
       ...presets[index],
       ...patch,
@@ -124,6 +156,30 @@ export class PresetManager {
     return true;
   }
 
+  /**
+   * Fade options for recalling a preset with its own timing and curves.
+   * Passing `fadeTime` (a recall override) fades everything uniformly in
+   * that time instead of using the preset's split timing.
+   */
+  getFadeOptions(preset: Preset, fadeTime?: number): FadeOptions {
+    const options: FadeOptions = {
+      label: preset.name,
+      presetId: preset.id,
+      curve: preset.fadeCurve,
+      roleCurves: preset.roleCurves,
+    };
+
+    if (fadeTime === undefined) {
+      options.timing = {
+        up: { time: preset.fadeTime, delay: preset.delayIn },
+        down: { time: preset.fadeOutTime ?? preset.fadeTime, delay: preset.delayOut },
+        attributes: preset.attributeTiming,
+      };
+    }
+
+    return options;
+  }
+
   /**
    * Capture current universe state as a new preset.
    */
@@ -132,9 +188,49 @@ export class PresetManager {
     universe: DMXUniverse,
     fadeTime: number,
     color: string,
-    fixtureModes?: Record<string, string>
+    fixtureModes?: Record<string, string>,
+    effects?: string[]
   ): Preset {
     const channels = universe.getRawChannelsArray();
-    return this.create(name, channels, fadeTime, color, fixtureModes);
+    return this.create(name, channels, fadeTime, color, fixtureModes, effects);
+  }
+}
+
+/**
+ * Drop role curve entries that don't name a known curve.
+ */
+function sanitizeRoleCurves(value: unknown): Partial<Record<string, FadeCurve>> | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const curves: Partial<Record<string, FadeCurve>> = {};
+  for (const [role, curve] of Object.entries(value)) {
+    if (isFadeCurve(curve)) {
+      curves[role] = curve;
+    }
+  }
+  return Object.keys(curves).length > 0 ? curves : undefined;
+}
+
+/**
+ * A non-negative whole number of milliseconds, or undefined to clear.
+ */
+function readTime(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const ms = Number(value);
+  return Number.isFinite(ms) ? Math.max(0, Math.round(ms)) : undefined;
+}
+
+/**
+ * Keep only well-formed timing entries for known attributes.
+ */
+function sanitizeAttributeTiming(value: unknown): Partial<Record<FadeAttribute, FadeTiming>> | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const timing: Partial<Record<FadeAttribute, FadeTiming>> = {};
+  for (const attribute of FADE_ATTRIBUTES) {
+    const entry = (value as Record<string, any>)[attribute];
+    const time = readTime(entry?.time);
+    if (time !== undefined) {
+      timing[attribute] = { time, delay: readTime(entry.delay) ?? 0 };
+    }
   }
+  return Object.keys(timing).length > 0 ? timing : undefined;
 }
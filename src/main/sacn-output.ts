@@ -0,0 +1,371 @@
+import dgram from 'dgram';
+import type Store from 'electron-store';
+import { v4 as uuidv4, parse as parseUuid } from 'uuid';
+import { OutputTransport, OutputStatus } from './output-transport';
+import { MAX_UNIVERSES } from './dmx-universe';
+import { log } from './logger';
+
+type AppStore = Store<Record<string, unknown>>;
+
+// E1.31 (Streaming ACN) constants
+const SACN_PORT = 5568;
+const ACN_PACKET_IDENTIFIER = Buffer.from([
+  0x41, 0x53, 0x43, 0x2d, 0x45, 0x31, 0x2e, 0x31, 0x37, 0x00, 0x00, 0x00,
+]);
+const VECTOR_ROOT_E131_DATA = 0x00000004;
+const VECTOR_E131_DATA_PACKET = 0x00000002;
+const VECTOR_DMP_SET_PROPERTY = 0x02;
+const OPTION_STREAM_TERMINATED = 0x40;
+const TERMINATION_PACKET_COUNT = 3;
+const DATA_PACKET_LENGTH = 638; // Full 512-slot data packet
+const MULTICAST_TTL = 8;
+
+type SACNMode = 'multicast' | 'unicast';
+
+interface SACNConfig {
+  enabled: boolean;
+  sourceName: string;
+  cid: string;              // Component Identifier (UUID), stable per install
+  universe: number;         // 1–63999
+  priority: number;         // 0–200 (100 = default)
+  universePriorities: Record<number, number>; // Local universe → priority; others use `priority`
+  mode: SACNMode;
+  unicastHosts: string[];
+}
+
+/**
+ * SACNOutput — Streams the DMX buffer as E1.31 (sACN) data packets over UDP,
+ * either to the universe's multicast group or to a list of unicast receivers.
+ * Configuration (including the generated CID) is persisted under `sacn`.
+ * The configured universe is used for local universe 1; further universes
+ * follow on. Each universe sends the global priority unless it has its own.
+ */
+export class SACNOutput implements OutputTransport {
+  readonly id = 'sacn';
+  readonly type = 'sacn' as const;
+  readonly label = 'sACN (E1.31)';
+
+  private store: AppStore;
+  private config: SACNConfig;
+  private socket: dgram.Socket | null = null;
+  private sequences: Map<number, number> = new Map();
+  private activeUniverses: Set<number> = new Set(); // sACN universes streamed since last termination
+  private configListeners: Set<(config: SACNConfig) => void> = new Set();
+  private statusListeners: Set<(status: OutputStatus) => void> = new Set();
+
+  constructor(store: AppStore) {
+    this.store = store;
+
+    // Ensure config exists — the CID must stay the same across restarts
+    if (!(this.store as any).has('sacn')) {
+      const defaults: SACNConfig = {
+        enabled: false,
+        sourceName: 'DMX Controller',
+        cid: uuidv4(),
+        universe: 1,
+        priority: 100,
+        universePriorities: {},
+        mode: 'multicast',
+        unicastHosts: [],
+      };
+      (this.store as any).set('sacn', defaults);
+    }
+    // Cached — send() runs every frame and store reads hit the disk
+    const saved = (this.store as any).get('sacn') as SACNConfig;
+    this.config = { ...saved, universePriorities: normalizePriorities(saved.universePriorities) };
+  }
+
+  /**
+   * Open the UDP socket used for sending.
+   */
+  async start(): Promise<void> {
+    return new Promise<void>((resolve) => {
+      const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+
+      socket.on('error', (err) => {
+        log.error(`SACNOutput: Socket error: ${err.message}`);
+      });
+
+      socket.bind(() => {
+        socket.setMulticastTTL(MULTICAST_TTL);
+        this.socket = socket;
+
+        const config = this.getConfig();
+        log.info(
+          `SACNOutput: Started (${config.enabled ? 'enabled' : 'disabled'}, universe ${config.universe}, priority ${config.priority}, ${config.mode})`
+        );
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Get the current sACN configuration.
+   */
+  getConfig(): SACNConfig {
+    return {
+      ...this.config,
+      universePriorities: { ...this.config.universePriorities },
+      unicastHosts: [...this.config.unicastHosts],
+    };
+  }
+
+  /**
+   * Update and persist the sACN configuration. The CID is never changed here.
+   * Disabling output or moving to another universe terminates the old stream.
+   */
+  updateConfig(patch: Partial<Omit<SACNConfig, 'cid'>>): SACNConfig {
+    const current = this.getConfig();
+    const updated: SACNConfig = {
+      enabled: patch.enabled ?? current.enabled,
+      sourceName: truncateUtf8((patch.sourceName ?? current.sourceName).trim(), 63) || 'DMX Controller',
+      cid: current.cid,
+      universe: clampInt(patch.universe ?? current.universe, 1, 63999),
+      priority: clampInt(patch.priority ?? current.priority, 0, 200),
+      universePriorities: normalizePriorities(patch.universePriorities ?? current.universePriorities),
+      mode: patch.mode === 'unicast' || patch.mode === 'multicast' ? patch.mode : current.mode,
+      unicastHosts: (patch.unicastHosts ?? current.unicastHosts)
+        .map((h) => h.trim())
+        .filter((h) => h.length > 0),
+    };
+
+    if (updated.mode === 'unicast' && updated.unicastHosts.length === 0) {
+      throw new Error('sACN unicast mode requires at least one destination host');
+    }
+
+    const destinationChanged =
+      current.universe !== updated.universe ||
+      current.mode !== updated.mode ||
+      current.unicastHosts.join(',') !== updated.unicastHosts.join(',');
+
+    if (current.enabled && (!updated.enabled || destinationChanged)) {
+      void this.sendTermination(current);
+    }
+
+    this.config = updated;
+    (this.store as any).set('sacn', updated);
+    log.info(
+      `SACNOutput: Config updated (${updated.enabled ? 'enabled' : 'disabled'}, universe ${updated.universe}, priority ${updated.priority}, ${updated.mode})`
+    );
+
+    for (const listener of this.configListeners) {
+      try {
+        listener(updated);
+      } catch (err) {
+        log.error('SACNOutput: Config listener error:', err);
+      }
+    }
+    this.emitStatus();
+
+    return updated;
+  }
+
+  /**
+   * Register a listener for configuration changes.
+   */
+  onConfigChange(callback: (config: SACNConfig) => void): void {
+    this.configListeners.add(callback);
+  }
+
+  /**
+   * Send one E1.31 data packet for a local universe if output is enabled.
+   */
+  send(universe: number, channels: Uint8Array): void {
+    if (!this.socket) return;
+
+    const config = this.getConfig();
+    if (!config.enabled) return;
+
+    const sacnUniverse = config.universe + (universe - 1);
+    if (sacnUniverse > 63999) return;
+
+    this.activeUniverses.add(sacnUniverse);
+    void this.sendPacket(this.buildDataPacket(channels, config, sacnUniverse, 0), config, sacnUniverse);
+  }
+
+  /**
+   * Get current output status.
+   */
+  getStatus(): OutputStatus {
+    const config = this.getConfig();
+    return {
+      id: this.id,
+      type: this.type,
+      label: this.label,
+      connected: config.enabled && this.socket !== null,
+      detail: config.enabled
+        ? `Universe ${config.universe}, priority ${config.priority} (${config.mode})`
+        : null,
+    };
+  }
+
+  /**
+   * Register a status change listener.
+   */
+  onStatusChange(callback: (status: OutputStatus) => void): void {
+    this.statusListeners.add(callback);
+  }
+
+  private emitStatus(): void {
+    const status = this.getStatus();
+    for (const listener of this.statusListeners) {
+      try {
+        listener(status);
+      } catch (err) {
+        log.error('SACNOutput: Status listener error:', err);
+      }
+    }
+  }
+
+  /**
+   * Send the stream-terminated packets on every universe streamed so far so
+   * receivers release this source immediately instead of waiting for the
+   * data-loss timeout.
+   */
+  private async sendTermination(config: SACNConfig): Promise<void> {
+    if (!this.socket) return;
+
+    const universes = [...this.activeUniverses];
+    this.activeUniverses.clear();
+
+    const blank = new Uint8Array(512);
+    for (const sacnUniverse of universes) {
+      for (let i = 0; i < TERMINATION_PACKET_COUNT; i++) {
+        await this.sendPacket(
+          this.buildDataPacket(blank, config, sacnUniverse, OPTION_STREAM_TERMINATED),
+          config,
+          sacnUniverse
+        );
+      }
+      log.info(`SACNOutput: Stream terminated on universe ${sacnUniverse}`);
+    }
+  }
+
+  private sendPacket(packet: Buffer, config: SACNConfig, sacnUniverse: number): Promise<void> {
+    const destinations = config.mode === 'unicast'
+      ? config.unicastHosts
+      : [getMulticastAddress(sacnUniverse)];
+
+    const sends = destinations.map(
+      (host) =>
+        new Promise<void>((resolve) => {
+          this.socket!.send(packet, SACN_PORT, host, (err) => {
+            if (err) {
+              log.error(`SACNOutput: Send error (${host}): ${err.message}`);
+            }
+            resolve();
+          });
+        })
+    );
+
+    return Promise.all(sends).then(() => undefined);
+  }
+
+  /**
+   * Build an E1.31 data packet (root, framing and DMP layers).
+   */
+  private buildDataPacket(
+    channels: Uint8Array,
+    config: SACNConfig,
+    sacnUniverse: number,
+    options: number
+  ): Buffer {
+    const packet = Buffer.alloc(DATA_PACKET_LENGTH);
+    const sequence = this.sequences.get(sacnUniverse) ?? 0;
+
+    // Root layer
+    packet.writeUInt16BE(0x0010, 0);                                 // Preamble size
+    packet.writeUInt16BE(0x0000, 2);                                 // Post-amble size
+    ACN_PACKET_IDENTIFIER.copy(packet, 4);
+    packet.writeUInt16BE(0x7000 | (DATA_PACKET_LENGTH - 16), 16);    // Flags & length
+    packet.writeUInt32BE(VECTOR_ROOT_E131_DATA, 18);
+    Buffer.from(parseUuid(config.cid)).copy(packet, 22);
+
+    // Framing layer
+    packet.writeUInt16BE(0x7000 | (DATA_PACKET_LENGTH - 38), 38);
+    packet.writeUInt32BE(VECTOR_E131_DATA_PACKET, 40);
+    packet.write(config.sourceName, 44, 63, 'utf8');                 // 64 bytes, null-terminated
+    packet[108] = config.universePriorities[sacnUniverse - config.universe + 1] ?? config.priority;
+    packet.writeUInt16BE(0, 109);                                    // Sync address (unused)
+    packet[111] = sequence;
+    packet[112] = options;
+    packet.writeUInt16BE(sacnUniverse, 113);
+
+    // DMP layer
+    packet.writeUInt16BE(0x7000 | (DATA_PACKET_LENGTH - 115), 115);
+    packet[117] = VECTOR_DMP_SET_PROPERTY;
+    packet[118] = 0xa1;                                              // Address & data type
+    packet.writeUInt16BE(0x0000, 119);                               // First property address
+    packet.writeUInt16BE(0x0001, 121);                               // Address increment
+    packet.writeUInt16BE(513, 123);                                  // Property value count
+    packet[125] = 0x00;                                              // DMX start code
+
+    for (let i = 0; i < channels.length && i < 512; i++) {
+      packet[126 + i] = channels[i];
+    }
+
+    this.sequences.set(sacnUniverse, (sequence + 1) & 0xff);
+
+    return packet;
+  }
+
+  /**
+   * Graceful shutdown — terminate the stream and close the socket.
+   */
+  async shutdown(): Promise<void> {
+    const config = this.getConfig();
+    if (config.enabled) {
+      await this.sendTermination(config);
+    }
+
+    return new Promise<void>((resolve) => {
+      if (!this.socket) {
+        resolve();
+        return;
+      }
+      this.socket.close(() => {
+        this.socket = null;
+        log.info('SACNOutput: Shutdown complete');
+        resolve();
+      });
+    });
+  }
+}
+
+function clampInt(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, Math.round(Number(value) || 0)));
+}
+
+/**
+ * Cut a string to at most `maxBytes` of UTF-8 without splitting a character,
+ * so the stored source name is exactly what fits in the packet.
+ */
+function truncateUtf8(value: string, maxBytes: number): string {
+  let result = '';
+  for (const char of value) {
+    if (Buffer.byteLength(result + char, 'utf8') > maxBytes) break;
+    result += char;
+  }
+  return result;
+}
+
+/**
+ * Keep per-universe priorities for valid local universes, clamped to 0–200.
+ */
+function normalizePriorities(raw: Record<number, number> | undefined): Record<number, number> {
+  const priorities: Record<number, number> = {};
+  for (const [key, value] of Object.entries(raw ?? {})) {
+    const universe = Number(key);
+    if (!Number.isInteger(universe) || universe < 1 || universe > MAX_UNIVERSES) continue;
+    if (value === null || !Number.isFinite(Number(value))) continue;
+    priorities[universe] = clampInt(value, 0, 200);
+  }
+  return priorities;
+}
+
+/**
+ * E1.31 multicast group for a universe: 239.255.<hi>.<lo>
+ */
+function getMulticastAddress(universe: number): string {
+  return `239.255.${(universe >> 8) & 0xff}.${universe & 0xff}`;
+}
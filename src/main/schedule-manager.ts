@@ -0,0 +1,437 @@
+import type Store from 'electron-store';
+import { v4 as uuidv4 } from 'uuid';
+import { Blackout } from './blackout';
+import { CueList } from './cue-list';
+import { DMXUniverse } from './dmx-universe';
+import { EffectEngine } from './effect-engine';
+import { FadeEngine } from './fade-engine';
+import { FrameScheduler } from './frame-scheduler';
+import { PresetManager } from './preset-manager';
+import { log } from './logger';
+
+type AppStore = Store<Record<string, unknown>>;
+
+export type ScheduleTrigger = 'time' | 'interval' | 'once';
+export type ScheduleAction = 'preset' | 'blackout' | 'master' | 'cue';
+
+export const SCHEDULE_TRIGGERS: ScheduleTrigger[] = ['time', 'interval', 'once'];
+export const SCHEDULE_ACTIONS: ScheduleAction[] = ['preset', 'blackout', 'master', 'cue'];
+
+const CHECK_INTERVAL_MS = 1000; // Schedules are checked once a second
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ScheduleConfig {
+  id: string;
+  name: string;
+  enabled: boolean;
+  trigger: ScheduleTrigger;
+  time: string;             // 'time': local time of day, "HH:MM"
+  days: number[];           // 'time': weekdays, 0 = Sunday; empty = every day
+  intervalMinutes: number;  // 'interval': minutes between runs
+  at: number | null;        // 'once': when to run (epoch ms)
+  action: ScheduleAction;
+  presetId: string | null;  // 'preset'
+  fadeTime: number | null;  // 'preset': null = the preset's own timing; 'blackout': ms
+  state: 'on' | 'off';      // 'blackout'
+  level: number;            // 'master': 0–100 %
+  cue: number | null;       // 'cue': cue number to go to; null = GO
+  updatedAt: number;        // Intervals count from here (or the last run)
+  lastFiredAt: number | null;
+}
+
+export interface ScheduleInfo extends ScheduleConfig {
+  nextFireAt: number | null; // null when disabled or nothing is left to run
+}
+
+/**
+ * Idle auto-standby: fade to a preset after a stretch without activity
+ * from the UI, Companion or OSC.
+ */
+interface IdleConfig {
+  enabled: boolean;
+  minutes: number;
+  presetId: string | null;
+  fadeTime: number | null; // null = the preset's own timing
+}
+
+export interface IdleInfo extends IdleConfig {
+  active: boolean; // In standby until the next activity
+}
+
+export interface ScheduleState {
+  schedules: ScheduleInfo[];
+  idle: IdleInfo;
+}
+
+export type ScheduleDefinition = Omit<ScheduleConfig, 'id' | 'updatedAt' | 'lastFiredAt'>;
+
+interface ScheduleManagerOptions {
+  store: AppStore;
+  universe: DMXUniverse;
+  presetManager: PresetManager;
+  fadeEngine: FadeEngine;
+  effectEngine: EffectEngine;
+  blackout: Blackout;
+  cueList: CueList;
+  scheduler: FrameScheduler;
+}
+
+/**
+ * ScheduleManager — Runs preset recalls, blackout, master changes and cue
+ * GOs at a time of day (on chosen weekdays), every N minutes, or once at a
+ * date and time. Runs missed while the app was closed are skipped. It also
+ * keeps the idle auto-standby: after N minutes without activity it fades to
+ * a preset once, until the next activity. A scheduled run counts as
+ * activity. Schedules are persisted in electron-store under `schedules`,
+ * the standby settings under `idleStandby`.
+ */
+export class ScheduleManager {
+  private store: AppStore;
+  private universe: DMXUniverse;
+  private presetManager: PresetManager;
+  private fadeEngine: FadeEngine;
+  private effectEngine: EffectEngine;
+  private blackout: Blackout;
+  private cueList: CueList;
+  private schedules: ScheduleConfig[];
+  private idle: IdleConfig;
+  private nextFire: Map<string, number> = new Map();
+  private lastActivityAt = Date.now();
+  private idleActive = false;
+  private nextCheckAt = 0;
+  private changeListeners: Set<(state: ScheduleState) => void> = new Set();
+  private presetRecalledListeners: Array<(data: { id: string; name: string }) => void> = [];
+
+  constructor(options: ScheduleManagerOptions) {
+    this.store = options.store;
+    this.universe = options.universe;
+    this.presetManager = options.presetManager;
+    this.fadeEngine = options.fadeEngine;
+    this.effectEngine = options.effectEngine;
+    this.blackout = options.blackout;
+    this.cueList = options.cueList;
+
+    const saved = (this.store as any).get('schedules') as Partial<ScheduleConfig>[] | undefined;
+    this.schedules = (Array.isArray(saved) ? saved : [])
+      .filter((s) => typeof s?.id === 'string')
+      .map((s) => normalizeSchedule(s, s.id!));
+    this.idle = normalizeIdle((this.store as any).get('idleStandby') ?? {});
+
+    const now = Date.now();
+    for (const schedule of this.schedules) {
+      this.planNext(schedule, now);
+    }
+
+    options.scheduler.addTask((now) => this.tick(now));
+  }
+
+  /**
+   * Get every schedule with its next run, and the idle standby state.
+   */
+  getState(): ScheduleState {
+    return {
+      schedules: this.schedules.map((s) => ({ ...s, nextFireAt: this.nextFire.get(s.id) ?? null })),
+      idle: { ...this.idle, active: this.idleActive },
+    };
+  }
+
+  /**
+   * Create a schedule from a (partial) definition. Missing fields get defaults.
+   */
+  create(definition: Partial<ScheduleDefinition>): ScheduleInfo {
+    const schedule = normalizeSchedule({ ...definition, updatedAt: Date.now(), lastFiredAt: null }, uuidv4());
+    this.schedules.push(schedule);
+    this.planNext(schedule, Date.now());
+    this.save();
+    log.info(`ScheduleManager: Created schedule "${schedule.name}"`);
+    this.notifyChange();
+    return this.getState().schedules.find((s) => s.id === schedule.id)!;
+  }
+
+  /**
+   * Update a schedule. Its next run is worked out again; intervals restart
+   * from now.
+   */
+  update(id: string, patch: Partial<ScheduleDefinition>): ScheduleInfo {
+    const index = this.findIndex(id);
+    const now = Date.now();
+    this.schedules[index] = normalizeSchedule({ ...this.schedules[index], ...patch, updatedAt: now }, id);
+    this.planNext(this.schedules[index], now);
+    this.save();
+    this.notifyChange();
+    return this.getState().schedules[index];
+  }
+
+  /**
+   * Delete a schedule.
+   */
+  delete(id: string): void {
+    const index = this.findIndex(id);
+    const [removed] = this.schedules.splice(index, 1);
+    this.nextFire.delete(id);
+    this.save();
+    log.info(`ScheduleManager: Deleted schedule "${removed.name}"`);
+    this.notifyChange();
+  }
+
+  /**
+   * Run a schedule's action now, e.g. to try it out. Its timing is unchanged.
+   */
+  run(id: string): void {
+    this.fire(this.schedules[this.findIndex(id)]);
+  }
+
+  /**
+   * Change the idle standby settings. The countdown restarts.
+   */
+  updateIdle(patch: Partial<IdleConfig>): IdleInfo {
+    this.idle = normalizeIdle({ ...this.idle, ...patch });
+    (this.store as any).set('idleStandby', this.idle);
+    this.lastActivityAt = Date.now();
+    this.idleActive = false;
+    this.notifyChange();
+    return this.getState().idle;
+  }
+
+  /**
+   * Note operator activity: restarts the idle countdown and ends standby.
+   */
+  noteActivity(): void {
+    this.lastActivityAt = Date.now();
+    if (this.idleActive) {
+      this.idleActive = false;
+      log.info('ScheduleManager: Activity — leaving idle standby');
+      this.notifyChange();
+    }
+  }
+
+  /**
+   * Run due schedules and the idle standby. Runs on the frame clock, but
+   * only checks once a second.
+   */
+  private tick(now: number): void {
+    if (now < this.nextCheckAt) return;
+    this.nextCheckAt = now + CHECK_INTERVAL_MS;
+
+    for (const schedule of this.schedules) {
+      const due = this.nextFire.get(schedule.id);
+      if (due === undefined || now < due) continue;
+
+      schedule.lastFiredAt = now;
+      this.planNext(schedule, Math.max(now, due));
+      this.save();
+      this.fire(schedule);
+    }
+
+    if (
+      this.idle.enabled &&
+      !this.idleActive &&
+      this.idle.presetId &&
+      now - this.lastActivityAt >= this.idle.minutes * 60000
+    ) {
+      this.idleActive = true;
+      log.info(`ScheduleManager: No activity for ${this.idle.minutes} min — going to standby`);
+      try {
+        this.recallPreset(this.idle.presetId, this.idle.fadeTime);
+      } catch (err) {
+        log.error('ScheduleManager: Idle standby failed:', err);
+      }
+      this.notifyChange();
+    }
+  }
+
+  /**
+   * Run a schedule's action. Failures (e.g. a deleted preset) are logged.
+   */
+  private fire(schedule: ScheduleConfig): void {
+    log.info(`ScheduleManager: Running "${schedule.name}"`);
+    try {
+      switch (schedule.action) {
+        case 'preset':
+          if (!schedule.presetId) throw new Error('No preset selected');
+          this.recallPreset(schedule.presetId, schedule.fadeTime);
+          break;
+        case 'blackout':
+          this.blackout.set(schedule.state === 'on', schedule.fadeTime ?? 0);
+          break;
+        case 'master':
+          this.universe.setMasterDimmer((schedule.level / 100) * 255);
+          break;
+        case 'cue':
+          if (schedule.cue === null) {
+            this.cueList.go();
+          } else {
+            this.cueList.goToCue(schedule.cue);
+          }
+          break;
+      }
+    } catch (err) {
+      log.error(`ScheduleManager: "${schedule.name}" failed:`, err);
+    }
+
+    // A scheduled change counts as activity, so standby doesn't follow right away
+    this.lastActivityAt = Date.now();
+    this.idleActive = false;
+    this.notifyChange();
+  }
+
+  /**
+   * Recall a preset as the UI and Companion do, telling listeners once the
+   * fade completes.
+   */
+  private recallPreset(presetId: string, fadeTime: number | null): void {
+    const preset = this.presetManager.getById(presetId);
+    if (!preset) {
+      throw new Error(`Preset not found: ${presetId}`);
+    }
+
+    const fade = this.fadeEngine.fadeTo(
+      preset.channels,
+      fadeTime ?? preset.fadeTime,
+      this.presetManager.getFadeOptions(preset, fadeTime ?? undefined)
+    );
+    if (preset.effects) {
+      this.effectEngine.runOnly(preset.effects);
+    }
+
+    fade.done.then((reason) => {
+      if (reason !== 'complete') return;
+      for (const listener of this.presetRecalledListeners) {
+        try {
+          listener({ id: preset.id, name: preset.name });
+        } catch (err) {
+          log.error('ScheduleManager: Preset recalled listener error:', err);
+        }
+      }
+    });
+  }
+
+  /**
+   * Work out a schedule's next run after a time; none when disabled.
+   */
+  private planNext(schedule: ScheduleConfig, after: number): void {
+    const next = schedule.enabled ? getNextFire(schedule, after) : null;
+    if (next === null) {
+      this.nextFire.delete(schedule.id);
+    } else {
+      this.nextFire.set(schedule.id, next);
+    }
+  }
+
+  private findIndex(id: string): number {
+    const index = this.schedules.findIndex((s) => s.id === id);
+    if (index === -1) {
+      throw new Error(`Schedule not found: ${id}`);
+    }
+    return index;
+  }
+
+  private save(): void {
+    (this.store as any).set('schedules', this.schedules);
+  }
+
+  /**
+   * Register a listener for schedule edits, runs and idle standby changes.
+   */
+  onChange(callback: (state: ScheduleState) => void): void {
+    this.changeListeners.add(callback);
+  }
+
+  /**
+   * Register a listener for presets recalled by a schedule or the idle
+   * standby (after the fade completes).
+   */
+  onPresetRecalled(listener: (data: { id: string; name: string }) => void): void {
+    this.presetRecalledListeners.push(listener);
+  }
+
+  private notifyChange(): void {
+    const state = this.getState();
+    for (const listener of this.changeListeners) {
+      try {
+        listener(state);
+      } catch (err) {
+        log.error('ScheduleManager: Change listener error:', err);
+      }
+    }
+  }
+}
+
+/**
+ * The first run of a schedule after a time (epoch ms), or null when there
+ * is none: a 'once' schedule in the past, or a time schedule with no days.
+ */
+function getNextFire(schedule: ScheduleConfig, after: number): number | null {
+  switch (schedule.trigger) {
+    case 'once':
+      return schedule.at !== null && schedule.at > after ? schedule.at : null;
+
+    case 'interval': {
+      const interval = schedule.intervalMinutes * 60000;
+      const base = schedule.lastFiredAt ?? schedule.updatedAt;
+      if (after < base) return base + interval;
+      return base + (Math.floor((after - base) / interval) + 1) * interval;
+    }
+
+    default: {
+      const [hours, minutes] = schedule.time.split(':').map(Number);
+      const day = new Date(after);
+
+      // Today, or one of the next seven days (local time, so DST shifts follow the clock)
+      for (let i = 0; i <= 7; i++) {
+        const candidate = new Date(day.getFullYear(), day.getMonth(), day.getDate() + i, hours, minutes);
+        if (candidate.getTime() <= after) continue;
+        if (schedule.days.length === 0 || schedule.days.includes(candidate.getDay())) {
+          return candidate.getTime();
+        }
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Fill in defaults and clamp a schedule from the store or a client.
+ */
+function normalizeSchedule(raw: Partial<ScheduleConfig>, id: string): ScheduleConfig {
+  const at = Number(raw.at);
+  const cue = Number(raw.cue);
+  const fadeTime = Number(raw.fadeTime);
+  return {
+    id,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Schedule',
+    enabled: raw.enabled !== false,
+    trigger: SCHEDULE_TRIGGERS.includes(raw.trigger as ScheduleTrigger) ? (raw.trigger as ScheduleTrigger) : 'time',
+    time: typeof raw.time === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(raw.time) ? raw.time : '08:00',
+    days: Array.isArray(raw.days)
+      ? [...new Set(raw.days.filter((d) => Number.isInteger(d) && d >= 0 && d <= 6))].sort((a, b) => a - b)
+      : [],
+    intervalMinutes: Math.max(1, Math.min(DAY_MS / 60000, Math.round(Number(raw.intervalMinutes) || 60))),
+    at: raw.at !== null && raw.at !== undefined && Number.isFinite(at) ? at : null,
+    action: SCHEDULE_ACTIONS.includes(raw.action as ScheduleAction) ? (raw.action as ScheduleAction) : 'preset',
+    presetId: typeof raw.presetId === 'string' && raw.presetId ? raw.presetId : null,
+    fadeTime: raw.fadeTime !== null && raw.fadeTime !== undefined && Number.isFinite(fadeTime)
+      ? Math.max(0, Math.round(fadeTime))
+      : null,
+    state: raw.state === 'off' ? 'off' : 'on',
+    level: Math.max(0, Math.min(100, Number.isFinite(Number(raw.level)) ? Number(raw.level) : 100)),
+    cue: raw.cue !== null && raw.cue !== undefined && Number.isFinite(cue) && cue > 0 ? cue : null,
+    updatedAt: typeof raw.updatedAt === 'number' && Number.isFinite(raw.updatedAt) ? raw.updatedAt : Date.now(),
+    lastFiredAt: typeof raw.lastFiredAt === 'number' && Number.isFinite(raw.lastFiredAt) ? raw.lastFiredAt : null,
+  };
+}
+
+/**
+ * Fill in defaults and clamp the idle standby settings.
+ */
+function normalizeIdle(raw: Partial<IdleConfig>): IdleConfig {
+  const fadeTime = Number(raw.fadeTime);
+  return {
+    enabled: raw.enabled === true,
+    minutes: Math.max(1, Math.min(24 * 60, Math.round(Number(raw.minutes) || 30))),
+    presetId: typeof raw.presetId === 'string' && raw.presetId ? raw.presetId : null,
+    fadeTime: raw.fadeTime !== null && raw.fadeTime !== undefined && Number.isFinite(fadeTime)
+      ? Math.max(0, Math.round(fadeTime))
+      : null,
+  };
+}
@@ -1,12 +1,23 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import { DMXUniverse } from './dmx-universe';
+import { DMXUniverse, toAbsoluteChannel, UNIVERSE_SIZE } from './dmx-universe';
 import { DMXDriver } from './dmx-driver';
 import { PresetManager } from './preset-manager';
+import { SubmasterManager } from './submaster-manager';
 import { FixtureManager } from './fixture-manager';
-import { FadeEngine } from './fade-engine';
+import { ParkManager } from './park-manager';
+import { EffectEngine } from './effect-engine';
+import { ChaseManager } from './chase-manager';
+import { FadeEngine, FadeInfo, toFadeProgress } from './fade-engine';
+import { Blackout } from './blackout';
+import { Playback } from './playback';
+import { CueList } from './cue-list';
+import { Timeline } from './timeline';
+import { ScheduleManager } from './schedule-manager';
 import { log } from './logger';
 
 const COMPANION_PORT = 9091;
+const FADE_PROGRESS_THROTTLE_MS = 250; // Enough for button text and variables
+const TIMELINE_POSITION_THROTTLE_MS = 250;
 
 interface CompanionCommand {
   action: string;
@@ -14,17 +25,31 @@ interface CompanionCommand {
   fixtureId?: string;
   modeName?: string;
   fadeTime?: number;
+  universe?: number; // 1-indexed; when set, `channel` is an address within it
   channel?: number;
   value?: number;
   state?: 'on' | 'off';
+  fadeId?: string;
+  delta?: number; // Relative crossfader/submaster move in percent (timeline: seconds), e.g. from a rotary
+  submaster?: number; // 1-indexed fader number
+  cue?: number; // Cue number, e.g. 3.5
 }
 
 interface CompanionServerOptions {
   universe: DMXUniverse;
   driver: DMXDriver;
   presetManager: PresetManager;
+  submasterManager: SubmasterManager;
   fixtureManager: FixtureManager;
+  parkManager: ParkManager;
+  effectEngine: EffectEngine;
+  chaseManager: ChaseManager;
   fadeEngine: FadeEngine;
+  blackout: Blackout;
+  playback: Playback;
+  cueList: CueList;
+  timeline: Timeline;
+  scheduleManager: ScheduleManager;
 }
 
 /**
@@ -36,22 +61,52 @@ export class CompanionServer {
   private universe: DMXUniverse;
   private driver: DMXDriver;
   private presetManager: PresetManager;
+  private submasterManager: SubmasterManager;
   private fixtureManager: FixtureManager;
+  private parkManager: ParkManager;
+  private effectEngine: EffectEngine;
+  private chaseManager: ChaseManager;
   private fadeEngine: FadeEngine;
+  private blackout: Blackout;
+  private playback: Playback;
+  private cueList: CueList;
+  private timeline: Timeline;
+  private scheduleManager: ScheduleManager;
   private clients: Set<WebSocket> = new Set();
+  private fadeProgressTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingFadeProgress: FadeInfo[] | null = null;
+  private lastTimelinePositionAt = 0;
   private presetRecalledListeners: Array<(data: { id: string; name: string }) => void> = [];
 
   constructor(options: CompanionServerOptions) {
     this.universe = options.universe;
     this.driver = options.driver;
     this.presetManager = options.presetManager;
+    this.submasterManager = options.submasterManager;
     this.fixtureManager = options.fixtureManager;
+    this.parkManager = options.parkManager;
+    this.effectEngine = options.effectEngine;
+    this.chaseManager = options.chaseManager;
     this.fadeEngine = options.fadeEngine;
+    this.blackout = options.blackout;
+    this.playback = options.playback;
+    this.cueList = options.cueList;
+    this.timeline = options.timeline;
+    this.scheduleManager = options.scheduleManager;
 
     this.wss = new WebSocketServer({ port: COMPANION_PORT });
 
     this.setupHandlers();
     this.setupDriverStatusListener();
+    this.setupFadeListener();
+    this.setupBlackoutListener();
+    this.setupPlaybackListener();
+    this.setupCueListListener();
+    this.setupTimelineListener();
+    this.setupSubmasterListener();
+    this.setupParkListener();
+    this.setupEffectListener();
+    this.setupChaseListener();
 
     log.info(`CompanionServer: Listening on port ${COMPANION_PORT}`);
   }
@@ -98,27 +153,144 @@ export class CompanionServer {
    * Listen for DMX driver status changes and broadcast to Companion clients.
    */
   private setupDriverStatusListener(): void {
-    this.driver.onStatusChange((connected) => {
+    this.driver.onStatusChange((status) => {
       this.broadcast({
         event: 'dmx_status',
-        data: { connected },
+        data: {
+          connected: status.connected,
+          outputs: status.outputs.map((o) => ({ id: o.id, connected: o.connected })),
+        },
       });
     });
   }
 
+  /**
+   * Broadcast the running fade list whenever fades start or end, and
+   * (throttled) fade progress while they run.
+   */
+  private setupFadeListener(): void {
+    this.fadeEngine.onChange((fades) => {
+      this.broadcast({ event: 'fades', data: fades });
+      this.pendingFadeProgress = null; // Superseded by this up-to-date list
+      this.broadcastFadeProgress(fades);
+    });
+    this.fadeEngine.onProgress((fades) => {
+      this.pendingFadeProgress = fades;
+      if (this.fadeProgressTimer) return;
+      this.fadeProgressTimer = setTimeout(() => {
+        this.fadeProgressTimer = null;
+        if (this.pendingFadeProgress) {
+          this.broadcastFadeProgress(this.pendingFadeProgress);
+          this.pendingFadeProgress = null;
+        }
+      }, FADE_PROGRESS_THROTTLE_MS);
+    });
+  }
+
+  /**
+   * Broadcast blackout state (on/off, and when a fade finishes).
+   */
+  private setupBlackoutListener(): void {
+    this.blackout.onChange((state) => {
+      this.broadcast({ event: 'blackout', data: state });
+    });
+  }
+
+  /**
+   * Broadcast playback state (live and staged preset, crossfader, fade state).
+   */
+  private setupPlaybackListener(): void {
+    this.playback.onChange((state) => {
+      this.broadcast({ event: 'playback', data: state });
+    });
+  }
+
+  /**
+   * Broadcast cue list edits, GOs and cue fade state.
+   */
+  private setupCueListListener(): void {
+    this.cueList.onChange((state) => {
+      this.broadcast({ event: 'cues', data: state });
+    });
+  }
+
+  /**
+   * Broadcast the timeline transport when it changes, and (throttled) the
+   * playhead while it plays. Tracks are left to the UI.
+   */
+  private setupTimelineListener(): void {
+    this.timeline.onChange(() => {
+      this.broadcast({ event: 'timeline', data: this.timeline.getTransport() });
+    });
+    this.timeline.onPosition((transport) => {
+      const now = Date.now();
+      if (now - this.lastTimelinePositionAt < TIMELINE_POSITION_THROTTLE_MS) return;
+      this.lastTimelinePositionAt = now;
+      this.broadcast({ event: 'timeline', data: transport });
+    });
+  }
+
+  /**
+   * Broadcast submaster assignments and levels.
+   */
+  private setupSubmasterListener(): void {
+    this.submasterManager.onChange((submasters) => {
+      this.broadcast({ event: 'submasters', data: submasters });
+    });
+  }
+
+  /**
+   * Broadcast parked and locked channels.
+   */
+  private setupParkListener(): void {
+    this.parkManager.onChange((entries) => {
+      this.broadcast({ event: 'parked', data: entries });
+    });
+  }
+
+  /**
+   * Broadcast effect definitions and run state.
+   */
+  private setupEffectListener(): void {
+    this.effectEngine.onChange((effects) => {
+      this.broadcast({ event: 'effects', data: effects });
+    });
+  }
+
+  /**
+   * Broadcast chase definitions and run state (every step).
+   */
+  private setupChaseListener(): void {
+    this.chaseManager.onChange((chases) => {
+      this.broadcast({ event: 'chases', data: chases });
+    });
+  }
+
+  /**
+   * Broadcast the progress of every running fade (an empty list once all end).
+   */
+  private broadcastFadeProgress(fades: FadeInfo[]): void {
+    this.broadcast({ event: 'fade_progress', data: fades.map(toFadeProgress) });
+  }
+
   /**
    * Handle an inbound command from Companion.
    */
   private async handleCommand(ws: WebSocket, command: CompanionCommand): Promise<void> {
     log.info(`CompanionServer: Received command: ${command.action}`);
 
+    // State requests don't count as activity for the idle standby
+    if (!/^(list|get)_/.test(command.action)) {
+      this.scheduleManager.noteActivity();
+    }
+
     switch (command.action) {
       case 'recall_preset':
         await this.handleRecallPreset(ws, command);
         break;
 
       case 'blackout':
-        await this.handleBlackout(ws, command);
+        this.handleBlackout(ws, command);
         break;
 
       case 'set_channel':
@@ -145,6 +317,93 @@ export class CompanionServer {
         this.handleTrigger(ws, command);
         break;
 
+      case 'list_fades':
+        this.handleListFades(ws);
+        break;
+
+      case 'cancel_fade':
+        this.handleCancelFade(ws, command);
+        break;
+
+      case 'complete_fade':
+        this.handleCompleteFade(ws, command);
+        break;
+
+      case 'playback_go':
+      case 'playback_back':
+      case 'playback_pause':
+      case 'playback_resume':
+      case 'playback_reverse':
+        this.handlePlayback(ws, command);
+        break;
+
+      case 'crossfader':
+        this.handleCrossfader(ws, command);
+        break;
+
+      case 'list_cues':
+        this.sendResponse(ws, { status: 'ok', action: 'list_cues', data: this.cueList.getState() });
+        break;
+
+      case 'go':
+      case 'back':
+      case 'goto_cue':
+        this.handleCue(ws, command);
+        break;
+
+      case 'get_timeline':
+        this.sendResponse(ws, { status: 'ok', action: 'get_timeline', data: this.timeline.getTransport() });
+        break;
+
+      case 'timeline_play':
+      case 'timeline_pause':
+      case 'timeline_toggle':
+      case 'timeline_stop':
+      case 'timeline_seek':
+      case 'timeline_loop':
+        this.handleTimeline(ws, command);
+        break;
+
+      case 'list_submasters':
+        this.handleListSubmasters(ws);
+        break;
+
+      case 'submaster':
+        this.handleSubmaster(ws, command);
+        break;
+
+      case 'list_parked':
+        this.sendResponse(ws, { status: 'ok', action: 'list_parked', data: this.parkManager.getAll() });
+        break;
+
+      case 'park':
+      case 'lock':
+      case 'unpark':
+        this.handlePark(ws, command);
+        break;
+
+      case 'list_effects':
+        this.sendResponse(ws, { status: 'ok', action: 'list_effects', data: this.effectEngine.getAll() });
+        break;
+
+      case 'effect_start':
+      case 'effect_stop':
+      case 'effect_toggle':
+        this.handleEffect(ws, command);
+        break;
+
+      case 'list_chases':
+        this.sendResponse(ws, { status: 'ok', action: 'list_chases', data: this.chaseManager.getAll() });
+        break;
+
+      case 'chase_start':
+      case 'chase_stop':
+      case 'chase_toggle':
+      case 'chase_tap':
+      case 'chase_bpm':
+        this.handleChase(ws, command);
+        break;
+
       default:
         this.sendResponse(ws, {
           status: 'error',
@@ -179,18 +438,26 @@ export class CompanionServer {
 
     const fadeTime = command.fadeTime ?? preset.fadeTime;
 
-    if (fadeTime > 0) {
-      await this.fadeEngine.fadeTo(preset.channels, fadeTime);
-    } else {
-      this.universe.applySnapshot(preset.channels);
+    const fade = this.fadeEngine.fadeTo(
+      preset.channels,
+      fadeTime,
+      this.presetManager.getFadeOptions(preset, command.fadeTime)
+    );
+    if (preset.effects) {
+      this.effectEngine.runOnly(preset.effects);
     }
 
+    // Acknowledge right away; progress follows as fade_progress events
     this.sendResponse(ws, {
       status: 'ok',
       action: 'recall_preset',
-      data: { presetId: preset.id, fadeTime },
+      data: { presetId: preset.id, fadeTime, fadeId: fade.id },
     });
 
+    // A superseded or cancelled recall never made the preset active
+    const reason = await fade.done;
+    if (reason !== 'complete') return;
+
     // Broadcast preset activation to all Companion clients
     this.broadcast({
       event: 'preset_activated',
@@ -202,24 +469,287 @@ export class CompanionServer {
   }
 
   /**
-   * Handle blackout command.
+   * Handle blackout command — toggles the output-stage blackout, or sets it
+   * with `state` ('on' blacks out, 'off' restores the look).
    */
-  private async handleBlackout(ws: WebSocket, command: CompanionCommand): Promise<void> {
+  private handleBlackout(ws: WebSocket, command: CompanionCommand): void {
     const fadeTime = command.fadeTime ?? 0;
 
-    if (fadeTime > 0) {
-      await this.fadeEngine.fadeToBlackout(fadeTime);
+    const state = command.state
+      ? this.blackout.set(command.state === 'on', fadeTime)
+      : this.blackout.toggle(fadeTime);
+
+    this.sendResponse(ws, {
+      status: 'ok',
+      action: 'blackout',
+      data: { fadeTime, active: state.active },
+    });
+  }
+
+  /**
+   * Handle list fades command.
+   */
+  private handleListFades(ws: WebSocket): void {
+    this.sendResponse(ws, {
+      status: 'ok',
+      action: 'list_fades',
+      data: this.fadeEngine.getFades(),
+    });
+  }
+
+  /**
+   * Handle cancel fade command — stops one fade where it is, or all fades
+   * when no fadeId is given.
+   */
+  private handleCancelFade(ws: WebSocket, command: CompanionCommand): void {
+    if (!command.fadeId) {
+      this.fadeEngine.cancelAll();
+    } else if (!this.fadeEngine.cancelFade(command.fadeId)) {
+      this.sendResponse(ws, {
+        status: 'error',
+        action: 'cancel_fade',
+        message: 'Fade not found',
+      });
+      return;
+    }
+
+    this.sendResponse(ws, {
+      status: 'ok',
+      action: 'cancel_fade',
+      data: { fadeId: command.fadeId ?? null },
+    });
+  }
+
+  /**
+   * Handle complete fade command — jumps one fade to its end, or all fades
+   * when no fadeId is given.
+   */
+  private handleCompleteFade(ws: WebSocket, command: CompanionCommand): void {
+    if (!command.fadeId) {
+      for (const fade of this.fadeEngine.getFades()) {
+        this.fadeEngine.completeFade(fade.id);
+      }
+    } else if (!this.fadeEngine.completeFade(command.fadeId)) {
+      this.sendResponse(ws, {
+        status: 'error',
+        action: 'complete_fade',
+        message: 'Fade not found',
+      });
+      return;
+    }
+
+    this.sendResponse(ws, {
+      status: 'ok',
+      action: 'complete_fade',
+      data: { fadeId: command.fadeId ?? null },
+    });
+  }
+
+  /**
+   * Handle playback commands — GO, BACK, and pause/resume/reverse of the
+   * running GO/BACK fade.
+   */
+  private handlePlayback(ws: WebSocket, command: CompanionCommand): void {
+    let ok: boolean;
+    switch (command.action) {
+      case 'playback_go':
+        ok = this.playback.go();
+        break;
+      case 'playback_back':
+        ok = this.playback.back();
+        break;
+      case 'playback_pause':
+        ok = this.playback.pause();
+        break;
+      case 'playback_resume':
+        ok = this.playback.resume();
+        break;
+      default:
+        ok = this.playback.reverse();
+    }
+
+    if (!ok) {
+      this.sendResponse(ws, {
+        status: 'error',
+        action: command.action,
+        message: 'Nothing to do',
+      });
+      return;
+    }
+
+    this.sendResponse(ws, {
+      status: 'ok',
+      action: command.action,
+      data: this.playback.getState(),
+    });
+  }
+
+  /**
+   * Handle cue list commands — GO on the standby cue, BACK to the cue
+   * before the live one, and `goto_cue` to jump to cue number `cue`.
+   */
+  private handleCue(ws: WebSocket, command: CompanionCommand): void {
+    try {
+      let ok = true;
+      if (command.action === 'go') {
+        ok = this.cueList.go();
+      } else if (command.action === 'back') {
+        ok = this.cueList.back();
+      } else if (command.cue === undefined) {
+        throw new Error('Missing cue number');
+      } else {
+        this.cueList.goToCue(command.cue);
+      }
+
+      if (!ok) {
+        this.sendResponse(ws, {
+          status: 'error',
+          action: command.action,
+          message: 'Nothing to do',
+        });
+        return;
+      }
+
+      this.sendResponse(ws, {
+        status: 'ok',
+        action: command.action,
+        data: this.cueList.getState(),
+      });
+    } catch (err: any) {
+      this.sendResponse(ws, {
+        status: 'error',
+        action: command.action,
+        message: err.message || 'Failed to go to cue',
+      });
+    }
+  }
+
+  /**
+   * Handle timeline transport commands. `timeline_seek` moves the playhead
+   * to `value` seconds, or by `delta` seconds; `timeline_loop` sets looping
+   * with `state`, or toggles it.
+   */
+  private handleTimeline(ws: WebSocket, command: CompanionCommand): void {
+    try {
+      switch (command.action) {
+        case 'timeline_play':
+          this.timeline.play();
+          break;
+        case 'timeline_pause':
+          this.timeline.pause();
+          break;
+        case 'timeline_toggle':
+          this.timeline.toggle();
+          break;
+        case 'timeline_stop':
+          this.timeline.stop();
+          break;
+        case 'timeline_seek': {
+          const transport = this.timeline.getTransport();
+          if (command.delta !== undefined) {
+            this.timeline.seek(transport.position + command.delta * 1000);
+          } else if (command.value !== undefined) {
+            this.timeline.seek(command.value * 1000);
+          } else {
+            throw new Error('Missing value or delta');
+          }
+          break;
+        }
+        case 'timeline_loop': {
+          const loop = command.state ? command.state === 'on' : !this.timeline.getTransport().loop;
+          this.timeline.update({ loop });
+          break;
+        }
+      }
+
+      this.sendResponse(ws, { status: 'ok', action: command.action, data: this.timeline.getTransport() });
+    } catch (err: any) {
+      this.sendResponse(ws, {
+        status: 'error',
+        action: command.action,
+        message: err.message || 'Failed to control the timeline',
+      });
+    }
+  }
+
+  /**
+   * Handle crossfader command — an absolute position (`value`, 0–100) or a
+   * relative move (`delta`, in percent) for rotary encoders.
+   */
+  private handleCrossfader(ws: WebSocket, command: CompanionCommand): void {
+    let percent: number;
+    if (command.value !== undefined) {
+      percent = command.value;
+    } else if (command.delta !== undefined) {
+      percent = this.playback.getState().crossfader * 100 + command.delta;
     } else {
-      this.universe.blackout();
+      this.sendResponse(ws, {
+        status: 'error',
+        action: 'crossfader',
+        message: 'Missing value or delta',
+      });
+      return;
     }
 
+    this.playback.setCrossfader(percent / 100);
+
     this.sendResponse(ws, {
       status: 'ok',
-      action: 'blackout',
-      data: { fadeTime },
+      action: 'crossfader',
+      data: { value: Math.round(this.playback.getState().crossfader * 100) },
+    });
+  }
+
+  /**
+   * Handle list submasters command.
+   */
+  private handleListSubmasters(ws: WebSocket): void {
+    this.sendResponse(ws, {
+      status: 'ok',
+      action: 'list_submasters',
+      data: this.submasterManager.getAll(),
     });
   }
 
+  /**
+   * Handle submaster command — set a fader to `value` (0–100) or move it by
+   * `delta` percent. With `id`, the fader is assigned that preset first.
+   */
+  private handleSubmaster(ws: WebSocket, command: CompanionCommand): void {
+    const sub = this.submasterManager.getAll().find((s) => s.number === command.submaster);
+    if (!sub) {
+      this.sendResponse(ws, {
+        status: 'error',
+        action: 'submaster',
+        message: 'Invalid submaster',
+      });
+      return;
+    }
+
+    try {
+      if (command.id) {
+        this.submasterManager.assign(sub.number, command.id);
+      }
+      if (command.value !== undefined) {
+        this.submasterManager.setLevel(sub.number, command.value);
+      } else if (command.delta !== undefined) {
+        this.submasterManager.setLevel(sub.number, sub.level + command.delta);
+      }
+
+      this.sendResponse(ws, {
+        status: 'ok',
+        action: 'submaster',
+        data: this.submasterManager.getAll()[sub.number - 1],
+      });
+    } catch (err: any) {
+      this.sendResponse(ws, {
+        status: 'error',
+        action: 'submaster',
+        message: err.message || 'Failed to set submaster',
+      });
+    }
+  }
+
   /**
    * Handle set channel command.
    */
@@ -233,15 +763,163 @@ export class CompanionServer {
       return;
     }
 
-    this.universe.setChannel(command.channel, command.value);
+    const channel = this.resolveChannel(command.universe, command.channel);
+    if (channel === null) {
+      this.sendResponse(ws, {
+        status: 'error',
+        action: 'set_channel',
+        message: `Invalid universe/channel: ${command.universe ?? 1}.${command.channel}`,
+      });
+      return;
+    }
+
+    if (this.universe.isParked(channel)) {
+      this.sendResponse(ws, {
+        status: 'error',
+        action: 'set_channel',
+        message: `Channel ${command.universe ?? 1}.${command.channel} is parked`,
+      });
+      return;
+    }
+
+    this.universe.setChannel(channel, command.value);
 
     this.sendResponse(ws, {
       status: 'ok',
       action: 'set_channel',
-      data: { channel: command.channel, value: command.value },
+      data: { universe: command.universe ?? 1, channel: command.channel, value: command.value },
     });
   }
 
+  /**
+   * Handle park, lock and unpark commands — for one channel (`channel`,
+   * optionally with `universe`) or a whole fixture (`fixtureId`). `park`
+   * takes an optional `value`; without one the channel holds its current
+   * output. `unpark` with neither releases everything.
+   */
+  private handlePark(ws: WebSocket, command: CompanionCommand): void {
+    try {
+      let channels: number[] | null = null;
+      if (command.fixtureId) {
+        channels = this.parkManager.getFixtureChannels(command.fixtureId);
+      } else if (command.channel !== undefined) {
+        const channel = this.resolveChannel(command.universe, command.channel);
+        if (channel === null) {
+          throw new Error(`Invalid universe/channel: ${command.universe ?? 1}.${command.channel}`);
+        }
+        channels = [channel];
+      }
+
+      if (command.action === 'unpark') {
+        if (channels) {
+          this.parkManager.unpark(channels);
+        } else {
+          this.parkManager.unparkAll();
+        }
+      } else if (!channels) {
+        throw new Error('Missing channel or fixtureId');
+      } else if (command.action === 'park') {
+        this.parkManager.park(channels, command.value);
+      } else {
+        this.parkManager.lock(channels);
+      }
+
+      this.sendResponse(ws, {
+        status: 'ok',
+        action: command.action,
+        data: this.parkManager.getAll(),
+      });
+    } catch (err: any) {
+      this.sendResponse(ws, {
+        status: 'error',
+        action: command.action,
+        message: err.message || `Failed to ${command.action}`,
+      });
+    }
+  }
+
+  /**
+   * Handle effect start, stop and toggle commands for the effect `id`.
+   * `effect_stop` without an id stops every running effect.
+   */
+  private handleEffect(ws: WebSocket, command: CompanionCommand): void {
+    try {
+      if (command.action === 'effect_stop' && !command.id) {
+        this.effectEngine.stopAll();
+      } else if (!command.id) {
+        throw new Error('Missing effect id');
+      } else if (command.action === 'effect_start') {
+        this.effectEngine.start(command.id);
+      } else if (command.action === 'effect_stop') {
+        this.effectEngine.stop(command.id);
+      } else {
+        this.effectEngine.toggle(command.id);
+      }
+
+      this.sendResponse(ws, {
+        status: 'ok',
+        action: command.action,
+        data: this.effectEngine.getAll(),
+      });
+    } catch (err: any) {
+      this.sendResponse(ws, {
+        status: 'error',
+        action: command.action,
+        message: err.message || `Failed to ${command.action.replace('_', ' ')}`,
+      });
+    }
+  }
+
+  /**
+   * Handle chase commands for the chase `id`: start, stop, toggle, tap
+   * tempo, and `chase_bpm` with `value` (0 or none clears the BPM).
+   * `chase_stop` without an id stops every running chase.
+   */
+  private handleChase(ws: WebSocket, command: CompanionCommand): void {
+    try {
+      if (command.action === 'chase_stop' && !command.id) {
+        this.chaseManager.stopAll();
+      } else if (!command.id) {
+        throw new Error('Missing chase id');
+      } else if (command.action === 'chase_start') {
+        this.chaseManager.start(command.id);
+      } else if (command.action === 'chase_stop') {
+        this.chaseManager.stop(command.id);
+      } else if (command.action === 'chase_toggle') {
+        this.chaseManager.toggle(command.id);
+      } else if (command.action === 'chase_tap') {
+        this.chaseManager.tap(command.id);
+      } else {
+        this.chaseManager.setBpm(command.id, command.value ? command.value : null);
+      }
+
+      this.sendResponse(ws, {
+        status: 'ok',
+        action: command.action,
+        data: this.chaseManager.getAll(),
+      });
+    } catch (err: any) {
+      this.sendResponse(ws, {
+        status: 'error',
+        action: command.action,
+        message: err.message || `Failed to ${command.action.replace('_', ' ')}`,
+      });
+    }
+  }
+
+  /**
+   * Resolve an optional universe plus channel to an absolute channel.
+   * Without a universe the channel is taken as absolute (universe 1 = 1–512).
+   */
+  private resolveChannel(universe: number | undefined, channel: number): number | null {
+    if (universe === undefined) {
+      return channel >= 1 && channel <= this.universe.getChannelCount() ? channel : null;
+    }
+    if (universe < 1 || universe > this.universe.getUniverseCount()) return null;
+    if (channel < 1 || channel > UNIVERSE_SIZE) return null;
+    return toAbsoluteChannel(universe, channel);
+  }
+
   /**
    * Handle get state command.
    */
@@ -251,7 +929,9 @@ export class CompanionServer {
       action: 'get_state',
       data: {
         channels: this.universe.getRawChannelsArray(),
+        universeCount: this.universe.getUniverseCount(),
         master: this.universe.getMasterDimmer(),
+        blackout: this.blackout.getState().active,
       },
     });
   }
@@ -264,6 +944,7 @@ export class CompanionServer {
       id: p.id,
       name: p.name,
       fadeTime: p.fadeTime,
+      fadeOutTime: p.fadeOutTime ?? p.fadeTime,
       color: p.color,
     }));
 
@@ -330,7 +1011,8 @@ export class CompanionServer {
   }
 
   /**
-   * Handle trigger command — momentary trigger on/off.
+   * Handle trigger command — momentary trigger on/off, with an optional
+   * `universe` like `set_channel`.
    */
   private handleTrigger(ws: WebSocket, command: CompanionCommand): void {
     if (command.channel === undefined || !command.state) {
@@ -342,13 +1024,32 @@ export class CompanionServer {
       return;
     }
 
+    const channel = this.resolveChannel(command.universe, command.channel);
+    if (channel === null) {
+      this.sendResponse(ws, {
+        status: 'error',
+        action: 'trigger',
+        message: `Invalid universe/channel: ${command.universe ?? 1}.${command.channel}`,
+      });
+      return;
+    }
+
+    if (this.universe.isParked(channel)) {
+      this.sendResponse(ws, {
+        status: 'error',
+        action: 'trigger',
+        message: `Channel ${command.universe ?? 1}.${command.channel} is parked`,
+      });
+      return;
+    }
+
     const value = command.state === 'on' ? 255 : 0;
-    this.universe.setChannel(command.channel, value);
+    this.universe.setChannel(channel, value);
 
     this.sendResponse(ws, {
       status: 'ok',
       action: 'trigger',
-      data: { channel: command.channel, state: command.state, value },
+      data: { universe: command.universe ?? 1, channel: command.channel, state: command.state, value },
     });
   }
 
@@ -395,6 +1096,9 @@ export class CompanionServer {
    */
   async shutdown(): Promise<void> {
     return new Promise((resolve) => {
+      if (this.fadeProgressTimer) {
+        clearTimeout(this.fadeProgressTimer);
+      }
       for (const client of this.clients) {
         client.close();
       }
@@ -2,22 +2,55 @@ import { Server as HttpServer, createServer, IncomingMessage, ServerResponse } f
 import { Server, Socket } from 'socket.io';
 import path from 'path';
 import * as fs from 'fs';
-import { DMXUniverse } from './dmx-universe';
+import { DMXUniverse, UNIVERSE_SIZE } from './dmx-universe';
 import { DMXDriver } from './dmx-driver';
 import { PresetManager } from './preset-manager';
+import { SubmasterManager } from './submaster-manager';
 import { FixtureManager } from './fixture-manager';
-import { FadeEngine } from './fade-engine';
+import { ParkManager } from './park-manager';
+import { EffectEngine, EffectInfo } from './effect-engine';
+import { ChaseManager, ChaseInfo } from './chase-manager';
+import { FadeEngine, FadeInfo, toFadeProgress } from './fade-engine';
+import { Blackout } from './blackout';
+import { Playback } from './playback';
+import { CueList, CueInfo, CueRecordOptions } from './cue-list';
+import { Timeline, Keyframe, TimelineTrackDefinition } from './timeline';
+import { ScheduleManager, ScheduleDefinition, IdleInfo } from './schedule-manager';
+import { FrameScheduler } from './frame-scheduler';
+import { EnttecOutput } from './enttec-output';
+import { ArtNetOutput } from './artnet-output';
+import { SACNOutput } from './sacn-output';
+import { DMXInput } from './dmx-input';
+import { OSCInput } from './osc-input';
 import { log } from './logger';
 
 const UI_PORT = 9090;
 const UI_THROTTLE_MS = 33; // ~30 fps max for UI updates
+const ENTTEC_INPUT_THROTTLE_MS = 100; // Received-frame preview is informational only
+const FADE_PROGRESS_THROTTLE_MS = 100;
+const TIMELINE_POSITION_THROTTLE_MS = 100;
 
 interface SocketUIOptions {
   universe: DMXUniverse;
   driver: DMXDriver;
   presetManager: PresetManager;
+  submasterManager: SubmasterManager;
   fixtureManager: FixtureManager;
+  parkManager: ParkManager;
+  effectEngine: EffectEngine;
+  chaseManager: ChaseManager;
   fadeEngine: FadeEngine;
+  blackout: Blackout;
+  playback: Playback;
+  cueList: CueList;
+  timeline: Timeline;
+  scheduleManager: ScheduleManager;
+  scheduler: FrameScheduler;
+  enttec: EnttecOutput;
+  artnet: ArtNetOutput;
+  sacn: SACNOutput;
+  inputs: DMXInput;
+  osc: OSCInput;
   isDev: boolean;
 }
 
@@ -32,10 +65,29 @@ export class SocketUIServer {
   private universe: DMXUniverse;
   private driver: DMXDriver;
   private presetManager: PresetManager;
+  private submasterManager: SubmasterManager;
   private fixtureManager: FixtureManager;
+  private parkManager: ParkManager;
+  private effectEngine: EffectEngine;
+  private chaseManager: ChaseManager;
   private fadeEngine: FadeEngine;
+  private blackout: Blackout;
+  private playback: Playback;
+  private cueList: CueList;
+  private timeline: Timeline;
+  private scheduleManager: ScheduleManager;
+  private scheduler: FrameScheduler;
+  private enttec: EnttecOutput;
+  private artnet: ArtNetOutput;
+  private sacn: SACNOutput;
+  private inputs: DMXInput;
+  private osc: OSCInput;
   private throttleTimer: ReturnType<typeof setTimeout> | null = null;
   private pendingUpdate: boolean = false;
+  private enttecInputTimer: ReturnType<typeof setTimeout> | null = null;
+  private fadeProgressTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingFadeProgress: FadeInfo[] | null = null;
+  private lastTimelinePositionAt = 0;
   private presetActivatedListeners: Array<(data: { id: string; name: string }) => void> = [];
   private presetListChangedListeners: Array<() => void> = [];
 
@@ -43,8 +95,23 @@ export class SocketUIServer {
     this.universe = options.universe;
     this.driver = options.driver;
     this.presetManager = options.presetManager;
+    this.submasterManager = options.submasterManager;
     this.fixtureManager = options.fixtureManager;
+    this.parkManager = options.parkManager;
+    this.effectEngine = options.effectEngine;
+    this.chaseManager = options.chaseManager;
     this.fadeEngine = options.fadeEngine;
+    this.blackout = options.blackout;
+    this.playback = options.playback;
+    this.cueList = options.cueList;
+    this.timeline = options.timeline;
+    this.scheduleManager = options.scheduleManager;
+    this.scheduler = options.scheduler;
+    this.enttec = options.enttec;
+    this.artnet = options.artnet;
+    this.sacn = options.sacn;
+    this.inputs = options.inputs;
+    this.osc = options.osc;
 
     // Create HTTP server with optional static file serving
     const rendererPath = path.join(__dirname, '..', 'renderer');
@@ -104,6 +171,20 @@ export class SocketUIServer {
 
     this.setupUniverseListener();
     this.setupDriverStatusListener();
+    this.setupEnttecListener();
+    this.setupArtNetListener();
+    this.setupSACNListener();
+    this.setupInputListener();
+    this.setupFadeListener();
+    this.setupBlackoutListener();
+    this.setupPlaybackListener();
+    this.setupCueListListener();
+    this.setupTimelineListener();
+    this.setupScheduleListener();
+    this.setupSubmasterListener();
+    this.setupParkListener();
+    this.setupEffectListener();
+    this.setupChaseListener();
     this.setupSocketHandlers();
   }
 
@@ -139,22 +220,208 @@ export class SocketUIServer {
   }
 
   /**
-   * Listen for DMX driver status changes.
+   * Listen for DMX output status and routing changes.
    */
   private setupDriverStatusListener(): void {
-    this.driver.onStatusChange((connected, port) => {
-      this.io.emit('dmx:status', { connected, port });
+    this.driver.onStatusChange((status) => {
+      this.io.emit('dmx:status', status);
+    });
+    this.driver.onRoutesChange((routes) => {
+      this.io.emit('dmx:routes', routes);
+    });
+  }
+
+  /**
+   * Push Enttec configuration, widget parameters and (throttled) received
+   * frames to all clients.
+   */
+  private setupEnttecListener(): void {
+    this.enttec.onWidgetChange((info) => {
+      this.io.emit('enttec:widget', info);
+    });
+    this.enttec.onPortsChange((ports) => {
+      this.io.emit('enttec:ports', ports);
+    });
+    this.enttec.onConfigChange((config) => {
+      this.io.emit('enttec:config', config);
+      this.io.emit('enttec:input', this.enttec.getReceivedFrame());
+    });
+    this.enttec.onReceive(() => {
+      if (this.enttecInputTimer) return;
+      this.enttecInputTimer = setTimeout(() => {
+        this.enttecInputTimer = null;
+        this.io.emit('enttec:input', this.enttec.getReceivedFrame());
+      }, ENTTEC_INPUT_THROTTLE_MS);
+    });
+  }
+
+  /**
+   * Push Art-Net configuration and node discovery changes to all clients.
+   */
+  private setupArtNetListener(): void {
+    this.artnet.onConfigChange((config) => {
+      this.io.emit('artnet:config', config);
+    });
+    this.artnet.onNodesChange((nodes) => {
+      this.io.emit('artnet:nodes', nodes);
+    });
+  }
+
+  /**
+   * Push sACN configuration changes to all clients.
+   */
+  private setupSACNListener(): void {
+    this.sacn.onConfigChange((config) => {
+      this.io.emit('sacn:config', config);
+    });
+  }
+
+  /**
+   * Push input source list and activity changes to all clients.
+   */
+  private setupInputListener(): void {
+    this.inputs.onChange((sources) => {
+      this.io.emit('inputs:list', sources);
+    });
+  }
+
+  /**
+   * Push the running fade list to all clients when fades start or end.
+   */
+  private setupFadeListener(): void {
+    this.fadeEngine.onChange((fades) => {
+      this.io.emit('fades:list', fades);
+      this.pendingFadeProgress = null; // Superseded by this up-to-date list
+      this.emitFadeProgress(fades);
+    });
+    this.fadeEngine.onProgress((fades) => {
+      this.pendingFadeProgress = fades;
+      if (this.fadeProgressTimer) return;
+      this.fadeProgressTimer = setTimeout(() => {
+        this.fadeProgressTimer = null;
+        if (this.pendingFadeProgress) {
+          this.emitFadeProgress(this.pendingFadeProgress);
+          this.pendingFadeProgress = null;
+        }
+      }, FADE_PROGRESS_THROTTLE_MS);
+    });
+  }
+
+  /**
+   * Push blackout state changes to all clients.
+   */
+  private setupBlackoutListener(): void {
+    this.blackout.onChange((state) => {
+      this.io.emit('blackout:state', state);
+    });
+  }
+
+  /**
+   * Push playback state and OSC configuration changes to all clients.
+   */
+  private setupPlaybackListener(): void {
+    this.playback.onChange((state) => {
+      this.io.emit('playback:state', state);
+    });
+    this.osc.onConfigChange((config) => {
+      this.io.emit('osc:config', config);
     });
   }
 
+  /**
+   * Push cue list edits, GOs and cue fade state to all clients.
+   */
+  private setupCueListListener(): void {
+    this.cueList.onChange((state) => {
+      this.io.emit('cues:state', state);
+    });
+  }
+
+  /**
+   * Push timeline edits and transport changes to all clients, and
+   * (throttled) the playhead while it plays.
+   */
+  private setupTimelineListener(): void {
+    this.timeline.onChange((state) => {
+      this.io.emit('timeline:state', state);
+    });
+    this.timeline.onPosition((transport) => {
+      const now = Date.now();
+      if (now - this.lastTimelinePositionAt < TIMELINE_POSITION_THROTTLE_MS) return;
+      this.lastTimelinePositionAt = now;
+      this.io.emit('timeline:position', transport);
+    });
+  }
+
+  /**
+   * Push schedule edits, runs and idle standby changes to all clients.
+   */
+  private setupScheduleListener(): void {
+    this.scheduleManager.onChange((state) => {
+      this.io.emit('schedules:state', state);
+    });
+  }
+
+  /**
+   * Push submaster assignments and levels to all clients.
+   */
+  private setupSubmasterListener(): void {
+    this.submasterManager.onChange((submasters) => {
+      this.io.emit('submasters:list', submasters);
+    });
+  }
+
+  /**
+   * Push parked and locked channels to all clients.
+   */
+  private setupParkListener(): void {
+    this.parkManager.onChange((entries) => {
+      this.io.emit('park:list', entries);
+    });
+  }
+
+  /**
+   * Push effect definitions and run state to all clients.
+   */
+  private setupEffectListener(): void {
+    this.effectEngine.onChange((effects) => {
+      this.io.emit('effects:list', effects);
+    });
+  }
+
+  /**
+   * Push chase definitions and run state (every step) to all clients.
+   */
+  private setupChaseListener(): void {
+    this.chaseManager.onChange((chases) => {
+      this.io.emit('chases:list', chases);
+    });
+  }
+
+  /**
+   * Emit the progress of every running fade (an empty list once all end).
+   */
+  private emitFadeProgress(fades: FadeInfo[]): void {
+    this.io.emit('fade:progress', fades.map(toFadeProgress));
+  }
+
+  /**
+   * Current DMX state: merged channel values, master, and which input
+   * source (if any) owns each channel.
+   */
+  private getDMXStatePayload() {
+    return {
+      channels: this.universe.getMergedChannelsArray(),
+      master: this.universe.getMasterDimmer(),
+      owners: this.universe.getChannelOwners(),
+    };
+  }
+
   /**
    * Emit current DMX state to all clients.
    */
   private emitDMXState(): void {
-    this.io.emit('dmx:state', {
-      channels: this.universe.getRawChannelsArray(),
-      master: this.universe.getMasterDimmer(),
-    });
+    this.io.emit('dmx:state', this.getDMXStatePayload());
   }
 
   /**
@@ -164,13 +431,37 @@ export class SocketUIServer {
     this.io.on('connection', (socket: Socket) => {
       log.info(`SocketUIServer: Client connected (${socket.id})`);
 
-      // Send initial state
-      socket.emit('dmx:state', {
-        channels: this.universe.getRawChannelsArray(),
-        master: this.universe.getMasterDimmer(),
+      // Anything but a state request counts as activity for the idle standby
+      socket.onAny((event: string) => {
+        if (!event.endsWith(':get')) this.scheduleManager.noteActivity();
       });
 
+      // Send initial state
+      socket.emit('dmx:state', this.getDMXStatePayload());
+
       socket.emit('dmx:status', this.driver.getStatus());
+      socket.emit('dmx:routes', this.driver.getRoutes());
+      socket.emit('dmx:refresh-rate', { interval: this.scheduler.getRefreshInterval() });
+      socket.emit('fades:list', this.fadeEngine.getFades());
+      socket.emit('fade:progress', this.fadeEngine.getFades().map(toFadeProgress));
+      socket.emit('blackout:state', this.blackout.getState());
+      socket.emit('enttec:config', this.enttec.getConfig());
+      socket.emit('enttec:widget', this.enttec.getWidgetInfo());
+      socket.emit('enttec:ports', this.enttec.getPorts());
+      socket.emit('enttec:input', this.enttec.getReceivedFrame());
+      socket.emit('artnet:config', this.artnet.getConfig());
+      socket.emit('artnet:nodes', this.artnet.getNodes());
+      socket.emit('sacn:config', this.sacn.getConfig());
+      socket.emit('inputs:list', this.inputs.getSources());
+      socket.emit('osc:config', this.osc.getConfig());
+      socket.emit('playback:state', this.playback.getState());
+      socket.emit('cues:state', this.cueList.getState());
+      socket.emit('timeline:state', this.timeline.getState());
+      socket.emit('schedules:state', this.scheduleManager.getState());
+      socket.emit('submasters:list', this.submasterManager.getAll());
+      socket.emit('park:list', this.parkManager.getAll());
+      socket.emit('effects:list', this.effectEngine.getAll());
+      socket.emit('chases:list', this.chaseManager.getAll());
       socket.emit('presets:list', this.presetManager.getAll());
       socket.emit('fixtures:list', this.fixtureManager.getAll());
       socket.emit('fixtures:profiles', this.fixtureManager.getBundledProfiles());
@@ -207,37 +498,708 @@ export class SocketUIServer {
         }
       });
 
-      socket.on('dmx:blackout', async (data: { fadeTime?: number }) => {
+      socket.on('dmx:blackout', (data: { fadeTime?: number; active?: boolean }, ack?: (res: { active: boolean }) => void) => {
         try {
           const fadeTime = data?.fadeTime ?? 0;
-          if (fadeTime > 0) {
-            await this.fadeEngine.fadeToBlackout(fadeTime);
-          } else {
-            this.universe.blackout();
-          }
+          const state = typeof data?.active === 'boolean'
+            ? this.blackout.set(data.active, fadeTime)
+            : this.blackout.toggle(fadeTime);
+          ack?.({ active: state.active });
         } catch (err) {
           log.error('SocketUIServer: Error during blackout:', err);
         }
       });
 
+      // --- Fades ---
+
+      socket.on('fade:cancel', (data: { id: string }) => {
+        try {
+          this.fadeEngine.cancelFade(data.id);
+        } catch (err) {
+          log.error('SocketUIServer: Error cancelling fade:', err);
+        }
+      });
+
+      socket.on('fade:complete', (data: { id: string }) => {
+        try {
+          this.fadeEngine.completeFade(data.id);
+        } catch (err) {
+          log.error('SocketUIServer: Error completing fade:', err);
+        }
+      });
+
+      // --- Playback ---
+
+      socket.on('playback:get', () => {
+        try {
+          // Everything the playback panel shows, for panels mounted after connect
+          socket.emit('presets:list', this.presetManager.getAll());
+          socket.emit('playback:state', this.playback.getState());
+        } catch (err) {
+          log.error('SocketUIServer: Error getting playback state:', err);
+        }
+      });
+
+      socket.on('playback:set-sequence', (data: { presetIds: string[] }) => {
+        try {
+          this.playback.setSequence(Array.isArray(data.presetIds) ? data.presetIds : []);
+        } catch (err) {
+          log.error('SocketUIServer: Error setting playback sequence:', err);
+        }
+      });
+
+      socket.on('playback:stage', (data: { index: number }) => {
+        try {
+          this.playback.stage(data.index);
+        } catch (err) {
+          log.error('SocketUIServer: Error staging playback preset:', err);
+        }
+      });
+
+      socket.on('playback:crossfader', (data: { value: number }) => {
+        try {
+          this.playback.setCrossfader(data.value);
+        } catch (err) {
+          log.error('SocketUIServer: Error moving crossfader:', err);
+        }
+      });
+
+      socket.on('playback:go', () => {
+        try {
+          this.playback.go();
+        } catch (err) {
+          log.error('SocketUIServer: Error on playback GO:', err);
+        }
+      });
+
+      socket.on('playback:back', () => {
+        try {
+          this.playback.back();
+        } catch (err) {
+          log.error('SocketUIServer: Error on playback BACK:', err);
+        }
+      });
+
+      socket.on('playback:pause', () => {
+        try {
+          this.playback.pause();
+        } catch (err) {
+          log.error('SocketUIServer: Error pausing playback:', err);
+        }
+      });
+
+      socket.on('playback:resume', () => {
+        try {
+          this.playback.resume();
+        } catch (err) {
+          log.error('SocketUIServer: Error resuming playback:', err);
+        }
+      });
+
+      socket.on('playback:reverse', () => {
+        try {
+          this.playback.reverse();
+        } catch (err) {
+          log.error('SocketUIServer: Error reversing playback:', err);
+        }
+      });
+
+      // --- Cue List ---
+
+      socket.on('cues:get', () => {
+        try {
+          // Everything the cue list shows, for panels mounted after connect
+          socket.emit('presets:list', this.presetManager.getAll());
+          socket.emit('cues:state', this.cueList.getState());
+        } catch (err) {
+          log.error('SocketUIServer: Error getting cue list:', err);
+        }
+      });
+
+      socket.on('cue:record', (data: CueRecordOptions) => {
+        try {
+          this.cueList.record(data ?? {});
+        } catch (err) {
+          log.error('SocketUIServer: Error recording cue:', err);
+        }
+      });
+
+      socket.on('cue:rerecord', (data: { id: string; presetId?: string }) => {
+        try {
+          this.cueList.rerecord(data.id, data.presetId);
+        } catch (err) {
+          log.error('SocketUIServer: Error updating cue look:', err);
+        }
+      });
+
+      socket.on('cue:update', (data: { id: string; patch: Partial<CueInfo> }) => {
+        try {
+          const { channelCount, ...patch } = data.patch ?? {};
+          this.cueList.update(data.id, patch);
+        } catch (err) {
+          log.error('SocketUIServer: Error updating cue:', err);
+        }
+      });
+
+      socket.on('cue:delete', (data: { id: string }) => {
+        try {
+          this.cueList.delete(data.id);
+        } catch (err) {
+          log.error('SocketUIServer: Error deleting cue:', err);
+        }
+      });
+
+      socket.on('cue:go', () => {
+        try {
+          this.cueList.go();
+        } catch (err) {
+          log.error('SocketUIServer: Error on cue GO:', err);
+        }
+      });
+
+      socket.on('cue:back', () => {
+        try {
+          this.cueList.back();
+        } catch (err) {
+          log.error('SocketUIServer: Error on cue BACK:', err);
+        }
+      });
+
+      socket.on('cue:goto', (data: { number: number }) => {
+        try {
+          this.cueList.goToCue(data.number);
+        } catch (err) {
+          log.error('SocketUIServer: Error jumping to cue:', err);
+        }
+      });
+
+      // --- Timeline ---
+
+      socket.on('timeline:get', () => {
+        try {
+          socket.emit('timeline:state', this.timeline.getState());
+        } catch (err) {
+          log.error('SocketUIServer: Error getting timeline:', err);
+        }
+      });
+
+      socket.on('timeline:update', (data: { duration?: number; loop?: boolean }) => {
+        try {
+          this.timeline.update(data ?? {});
+        } catch (err) {
+          log.error('SocketUIServer: Error updating timeline:', err);
+        }
+      });
+
+      socket.on('timeline:add-track', (data: { track: Partial<TimelineTrackDefinition> }) => {
+        try {
+          this.timeline.addTrack(data.track ?? {});
+        } catch (err) {
+          log.error('SocketUIServer: Error adding timeline track:', err);
+        }
+      });
+
+      socket.on('timeline:update-track', (data: { id: string; patch: Partial<TimelineTrackDefinition> }) => {
+        try {
+          this.timeline.updateTrack(data.id, data.patch ?? {});
+        } catch (err) {
+          log.error('SocketUIServer: Error updating timeline track:', err);
+        }
+      });
+
+      socket.on('timeline:delete-track', (data: { id: string }) => {
+        try {
+          this.timeline.deleteTrack(data.id);
+        } catch (err) {
+          log.error('SocketUIServer: Error deleting timeline track:', err);
+        }
+      });
+
+      socket.on('timeline:set-keyframe', (data: { trackId: string; keyframe: Partial<Omit<Keyframe, 'id'>> }) => {
+        try {
+          this.timeline.setKeyframe(data.trackId, data.keyframe ?? {});
+        } catch (err) {
+          log.error('SocketUIServer: Error setting keyframe:', err);
+        }
+      });
+
+      socket.on(
+        'timeline:update-keyframe',
+        (data: { trackId: string; id: string; patch: Partial<Omit<Keyframe, 'id'>> }) => {
+          try {
+            this.timeline.updateKeyframe(data.trackId, data.id, data.patch ?? {});
+          } catch (err) {
+            log.error('SocketUIServer: Error updating keyframe:', err);
+          }
+        }
+      );
+
+      socket.on('timeline:delete-keyframe', (data: { trackId: string; id: string }) => {
+        try {
+          this.timeline.deleteKeyframe(data.trackId, data.id);
+        } catch (err) {
+          log.error('SocketUIServer: Error deleting keyframe:', err);
+        }
+      });
+
+      socket.on('timeline:record', (data?: { trackIds?: string[] }) => {
+        try {
+          this.timeline.record(data?.trackIds);
+        } catch (err) {
+          log.error('SocketUIServer: Error recording keyframes:', err);
+        }
+      });
+
+      socket.on('timeline:play', () => {
+        try {
+          this.timeline.play();
+        } catch (err) {
+          log.error('SocketUIServer: Error playing timeline:', err);
+        }
+      });
+
+      socket.on('timeline:pause', () => {
+        try {
+          this.timeline.pause();
+        } catch (err) {
+          log.error('SocketUIServer: Error pausing timeline:', err);
+        }
+      });
+
+      socket.on('timeline:stop', () => {
+        try {
+          this.timeline.stop();
+        } catch (err) {
+          log.error('SocketUIServer: Error stopping timeline:', err);
+        }
+      });
+
+      socket.on('timeline:seek', (data: { position: number }) => {
+        try {
+          this.timeline.seek(data.position);
+        } catch (err) {
+          log.error('SocketUIServer: Error seeking timeline:', err);
+        }
+      });
+
+      // --- Schedules ---
+
+      socket.on('schedules:get', () => {
+        try {
+          socket.emit('presets:list', this.presetManager.getAll());
+          socket.emit('schedules:state', this.scheduleManager.getState());
+        } catch (err) {
+          log.error('SocketUIServer: Error getting schedules:', err);
+        }
+      });
+
+      socket.on('schedule:create', (data: { schedule: Partial<ScheduleDefinition> }) => {
+        try {
+          this.scheduleManager.create(data.schedule ?? {});
+        } catch (err) {
+          log.error('SocketUIServer: Error creating schedule:', err);
+        }
+      });
+
+      socket.on('schedule:update', (data: { id: string; patch: Partial<ScheduleDefinition> }) => {
+        try {
+          this.scheduleManager.update(data.id, data.patch ?? {});
+        } catch (err) {
+          log.error('SocketUIServer: Error updating schedule:', err);
+        }
+      });
+
+      socket.on('schedule:delete', (data: { id: string }) => {
+        try {
+          this.scheduleManager.delete(data.id);
+        } catch (err) {
+          log.error('SocketUIServer: Error deleting schedule:', err);
+        }
+      });
+
+      socket.on('schedule:run', (data: { id: string }) => {
+        try {
+          this.scheduleManager.run(data.id);
+        } catch (err) {
+          log.error('SocketUIServer: Error running schedule:', err);
+        }
+      });
+
+      socket.on('schedule:idle', (data: { patch: Partial<Omit<IdleInfo, 'active'>> }) => {
+        try {
+          this.scheduleManager.updateIdle(data.patch ?? {});
+        } catch (err) {
+          log.error('SocketUIServer: Error updating idle standby:', err);
+        }
+      });
+
+      // --- Park & Lock ---
+
+      socket.on('park:park', (data: { channels?: number[]; fixtureId?: string; value?: number | null }) => {
+        try {
+          const channels = data.fixtureId ? this.parkManager.getFixtureChannels(data.fixtureId) : data.channels ?? [];
+          this.parkManager.park(channels, data.value ?? undefined);
+        } catch (err) {
+          log.error('SocketUIServer: Error parking channels:', err);
+        }
+      });
+
+      socket.on('park:lock', (data: { channels?: number[]; fixtureId?: string }) => {
+        try {
+          const channels = data.fixtureId ? this.parkManager.getFixtureChannels(data.fixtureId) : data.channels ?? [];
+          this.parkManager.lock(channels);
+        } catch (err) {
+          log.error('SocketUIServer: Error locking channels:', err);
+        }
+      });
+
+      socket.on('park:unpark', (data: { channels: number[] }) => {
+        try {
+          this.parkManager.unpark(data.channels);
+        } catch (err) {
+          log.error('SocketUIServer: Error unparking channels:', err);
+        }
+      });
+
+      socket.on('park:unpark-all', () => {
+        try {
+          this.parkManager.unparkAll();
+        } catch (err) {
+          log.error('SocketUIServer: Error unparking all channels:', err);
+        }
+      });
+
+      // --- Effects ---
+
+      socket.on('effect:create', (data: { effect: Partial<EffectInfo> }) => {
+        try {
+          this.effectEngine.create(data.effect ?? {});
+        } catch (err) {
+          log.error('SocketUIServer: Error creating effect:', err);
+        }
+      });
+
+      socket.on('effect:update', (data: { id: string; patch: Partial<EffectInfo> }) => {
+        try {
+          this.effectEngine.update(data.id, data.patch ?? {});
+        } catch (err) {
+          log.error('SocketUIServer: Error updating effect:', err);
+        }
+      });
+
+      socket.on('effect:delete', (data: { id: string }) => {
+        try {
+          this.effectEngine.delete(data.id);
+        } catch (err) {
+          log.error('SocketUIServer: Error deleting effect:', err);
+        }
+      });
+
+      socket.on('effect:start', (data: { id: string }) => {
+        try {
+          this.effectEngine.start(data.id);
+        } catch (err) {
+          log.error('SocketUIServer: Error starting effect:', err);
+        }
+      });
+
+      socket.on('effect:stop', (data: { id: string }) => {
+        try {
+          this.effectEngine.stop(data.id);
+        } catch (err) {
+          log.error('SocketUIServer: Error stopping effect:', err);
+        }
+      });
+
+      socket.on('effect:stop-all', () => {
+        try {
+          this.effectEngine.stopAll();
+        } catch (err) {
+          log.error('SocketUIServer: Error stopping effects:', err);
+        }
+      });
+
+      // --- Chases ---
+
+      socket.on('chases:get', () => {
+        try {
+          // Everything the chase editor shows, for dialogs opened after connect
+          socket.emit('presets:list', this.presetManager.getAll());
+          socket.emit('chases:list', this.chaseManager.getAll());
+        } catch (err) {
+          log.error('SocketUIServer: Error getting chases:', err);
+        }
+      });
+
+      socket.on('chase:create', (data: { chase: Partial<ChaseInfo> }) => {
+        try {
+          this.chaseManager.create(data.chase ?? {});
+        } catch (err) {
+          log.error('SocketUIServer: Error creating chase:', err);
+        }
+      });
+
+      socket.on('chase:update', (data: { id: string; patch: Partial<ChaseInfo> }) => {
+        try {
+          this.chaseManager.update(data.id, data.patch ?? {});
+        } catch (err) {
+          log.error('SocketUIServer: Error updating chase:', err);
+        }
+      });
+
+      socket.on('chase:delete', (data: { id: string }) => {
+        try {
+          this.chaseManager.delete(data.id);
+        } catch (err) {
+          log.error('SocketUIServer: Error deleting chase:', err);
+        }
+      });
+
+      socket.on('chase:start', (data: { id: string }) => {
+        try {
+          this.chaseManager.start(data.id);
+        } catch (err) {
+          log.error('SocketUIServer: Error starting chase:', err);
+        }
+      });
+
+      socket.on('chase:stop', (data: { id: string }) => {
+        try {
+          this.chaseManager.stop(data.id);
+        } catch (err) {
+          log.error('SocketUIServer: Error stopping chase:', err);
+        }
+      });
+
+      socket.on('chase:stop-all', () => {
+        try {
+          this.chaseManager.stopAll();
+        } catch (err) {
+          log.error('SocketUIServer: Error stopping chases:', err);
+        }
+      });
+
+      socket.on('chase:tap', (data: { id: string }) => {
+        try {
+          this.chaseManager.tap(data.id);
+        } catch (err) {
+          log.error('SocketUIServer: Error tapping chase tempo:', err);
+        }
+      });
+
+      socket.on('chase:bpm', (data: { id: string; bpm: number | null }) => {
+        try {
+          this.chaseManager.setBpm(data.id, data.bpm);
+        } catch (err) {
+          log.error('SocketUIServer: Error setting chase BPM:', err);
+        }
+      });
+
+      // --- Submasters ---
+
+      socket.on('submasters:get', () => {
+        try {
+          // Everything the fader page shows, for pages mounted after connect
+          socket.emit('presets:list', this.presetManager.getAll());
+          socket.emit('submasters:list', this.submasterManager.getAll());
+        } catch (err) {
+          log.error('SocketUIServer: Error getting submasters:', err);
+        }
+      });
+
+      socket.on('submaster:assign', (data: { number: number; presetId: string | null }) => {
+        try {
+          this.submasterManager.assign(data.number, data.presetId || null);
+        } catch (err) {
+          log.error('SocketUIServer: Error assigning submaster:', err);
+        }
+      });
+
+      socket.on('submaster:level', (data: { number: number; level: number }) => {
+        try {
+          this.submasterManager.setLevel(data.number, data.level);
+        } catch (err) {
+          log.error('SocketUIServer: Error setting submaster level:', err);
+        }
+      });
+
+      socket.on('dmx:set-universe-count', (data: { count: number }) => {
+        try {
+          this.universe.setUniverseCount(data.count);
+        } catch (err) {
+          log.error('SocketUIServer: Error setting universe count:', err);
+        }
+      });
+
+      socket.on('dmx:set-refresh-rate', (data: { interval: number }) => {
+        try {
+          const interval = this.scheduler.setRefreshInterval(data.interval);
+          this.io.emit('dmx:refresh-rate', { interval });
+        } catch (err) {
+          log.error('SocketUIServer: Error setting refresh rate:', err);
+        }
+      });
+
+      // --- Output Routing ---
+
+      socket.on('dmx:set-route', (data: { universe: number; outputIds: string[] }) => {
+        try {
+          this.driver.setRoute(data.universe, data.outputIds);
+        } catch (err) {
+          log.error('SocketUIServer: Error setting output route:', err);
+        }
+      });
+
+      // --- Enttec USB Pro ---
+
+      socket.on('enttec:update-config', (data: { patch: Record<string, unknown> }) => {
+        try {
+          this.enttec.updateConfig(data.patch);
+        } catch (err) {
+          log.error('SocketUIServer: Error updating Enttec config:', err);
+        }
+      });
+
+      socket.on('enttec:scan-ports', async () => {
+        try {
+          await this.enttec.listPorts();
+        } catch (err) {
+          log.error('SocketUIServer: Error scanning serial ports:', err);
+        }
+      });
+
+      socket.on('enttec:select-port', async (data: { path: string | null }) => {
+        try {
+          await this.enttec.selectPort(data.path);
+        } catch (err) {
+          log.error('SocketUIServer: Error selecting DMX adapter:', err);
+        }
+      });
+
+      socket.on('enttec:set-widget-params', (data: { patch: { breakTime?: number; mabTime?: number; outputRate?: number } }) => {
+        try {
+          this.enttec.setWidgetParams(data.patch);
+        } catch (err) {
+          log.error('SocketUIServer: Error setting Enttec widget params:', err);
+        }
+      });
+
+      socket.on('enttec:capture', (data: { name: string; universe?: number; fadeTime?: number; color?: string }) => {
+        try {
+          const { channels: received, receivedAt } = this.enttec.getReceivedFrame();
+          if (receivedAt === null) {
+            log.warn('SocketUIServer: No Enttec input frame to capture');
+            return;
+          }
+
+          const universe = Math.max(1, Math.min(this.universe.getUniverseCount(), data.universe ?? 1));
+          const channels = new Array(this.universe.getChannelCount()).fill(0);
+          channels.splice((universe - 1) * UNIVERSE_SIZE, UNIVERSE_SIZE, ...received);
+
+          const preset = this.presetManager.create(
+            data.name?.trim() || 'Captured Look',
+            channels,
+            data.fadeTime ?? 1000,
+            data.color || '#607d8b'
+          );
+          this.io.emit('presets:list', this.presetManager.getAll());
+          this.notifyPresetListChanged();
+          log.info(`SocketUIServer: Captured Enttec input as preset "${preset.name}" (U${universe})`);
+        } catch (err) {
+          log.error('SocketUIServer: Error capturing Enttec input:', err);
+        }
+      });
+
+      // --- Art-Net Output ---
+
+      socket.on('artnet:update-config', (data: { patch: Record<string, unknown> }) => {
+        try {
+          this.artnet.updateConfig(data.patch);
+        } catch (err) {
+          log.error('SocketUIServer: Error updating Art-Net config:', err);
+        }
+      });
+
+      socket.on('artnet:poll', () => {
+        try {
+          this.artnet.poll();
+        } catch (err) {
+          log.error('SocketUIServer: Error polling Art-Net nodes:', err);
+        }
+      });
+
+      // --- sACN Output ---
+
+      socket.on('sacn:update-config', (data: { patch: Record<string, unknown> }) => {
+        try {
+          this.sacn.updateConfig(data.patch);
+        } catch (err) {
+          log.error('SocketUIServer: Error updating sACN config:', err);
+        }
+      });
+
+      // --- OSC Input ---
+
+      socket.on('osc:update-config', (data: { patch: Record<string, unknown> }) => {
+        this.osc.updateConfig(data.patch).catch((err) => {
+          log.error('SocketUIServer: Error updating OSC config:', err);
+        });
+      });
+
+      // --- Network DMX Inputs ---
+
+      socket.on('inputs:create', (data: { source: Record<string, unknown> }) => {
+        try {
+          this.inputs.create(data.source);
+        } catch (err) {
+          log.error('SocketUIServer: Error creating input source:', err);
+        }
+      });
+
+      socket.on('inputs:update', (data: { id: string; patch: Record<string, unknown> }) => {
+        try {
+          this.inputs.update(data.id, data.patch);
+        } catch (err) {
+          log.error('SocketUIServer: Error updating input source:', err);
+        }
+      });
+
+      socket.on('inputs:delete', (data: { id: string }) => {
+        try {
+          this.inputs.delete(data.id);
+        } catch (err) {
+          log.error('SocketUIServer: Error deleting input source:', err);
+        }
+      });
+
       // --- Preset Controls ---
 
-      socket.on('preset:recall', async (data: { id: string; fadeTime?: number }) => {
+      // Acknowledged as soon as the fade starts; progress follows as fade:progress
+      socket.on('preset:recall', async (data: { id: string; fadeTime?: number }, ack?: (res: { fadeId: string | null }) => void) => {
         try {
           const preset = this.presetManager.getById(data.id);
           if (!preset) {
             log.warn(`SocketUIServer: Preset not found: ${data.id}`);
+            ack?.({ fadeId: null });
             return;
           }
 
           const fadeTime = data.fadeTime ?? preset.fadeTime;
           log.info(`SocketUIServer: Recalling preset "${preset.name}" (fade: ${fadeTime}ms)`);
 
-          if (fadeTime > 0) {
-            await this.fadeEngine.fadeTo(preset.channels, fadeTime);
-          } else {
-            this.universe.applySnapshot(preset.channels);
+          const fade = this.fadeEngine.fadeTo(
+            preset.channels,
+            fadeTime,
+            this.presetManager.getFadeOptions(preset, data.fadeTime)
+          );
+          if (preset.effects) {
+            this.effectEngine.runOnly(preset.effects);
           }
+          ack?.({ fadeId: fade.id });
+
+          // A superseded or cancelled recall never made the preset active
+          const reason = await fade.done;
+          if (reason !== 'complete') return;
 
           if (preset.fixtureModes && Object.keys(preset.fixtureModes).length > 0) {
             for (const [fixtureId, modeName] of Object.entries(preset.fixtureModes)) {
@@ -276,12 +1238,14 @@ export class SocketUIServer {
           }
 
           const modesPayload = Object.keys(fixtureModes).length > 0 ? fixtureModes : undefined;
+          const runningEffects = this.effectEngine.getRunningIds();
           const preset = this.presetManager.captureFromUniverse(
             data.name,
             this.universe,
             data.fadeTime,
             data.color,
-            modesPayload
+            modesPayload,
+            runningEffects.length > 0 ? runningEffects : undefined
           );
           this.io.emit('presets:list', this.presetManager.getAll());
           this.notifyPresetListChanged();
@@ -518,6 +1482,12 @@ export class SocketUIServer {
       if (this.throttleTimer) {
         clearTimeout(this.throttleTimer);
       }
+      if (this.enttecInputTimer) {
+        clearTimeout(this.enttecInputTimer);
+      }
+      if (this.fadeProgressTimer) {
+        clearTimeout(this.fadeProgressTimer);
+      }
       this.io.close(() => {
         this.httpServer.close(() => {
           log.info('SocketUIServer: Shutdown complete');
@@ -0,0 +1,139 @@
+import type Store from 'electron-store';
+import { DMXUniverse } from './dmx-universe';
+import { PresetManager } from './preset-manager';
+import { log } from './logger';
+
+type AppStore = Store<Record<string, unknown>>;
+
+export const SUBMASTER_COUNT = 10;
+
+interface SubmasterConfig {
+  presetId: string | null;
+}
+
+export interface SubmasterInfo {
+  number: number;        // 1-indexed fader number
+  presetId: string | null;
+  presetName: string | null;
+  level: number;         // 0–100 (%)
+}
+
+/**
+ * SubmasterManager — A bank of playback faders, each holding a preset at a
+ * level. The faders are layered over the programmer by DMXUniverse (HTP for
+ * intensity, LTP for everything else), so several presets can be mixed at
+ * once. Fader assignments are persisted in electron-store under
+ * `submasters`; levels start at zero on launch.
+ */
+export class SubmasterManager {
+  private store: AppStore;
+  private universe: DMXUniverse;
+  private presetManager: PresetManager;
+  private config: SubmasterConfig[];
+  private levels: number[] = new Array(SUBMASTER_COUNT).fill(0);
+  private changeListeners: Set<(submasters: SubmasterInfo[]) => void> = new Set();
+
+  constructor(store: AppStore, universe: DMXUniverse, presetManager: PresetManager) {
+    this.store = store;
+    this.universe = universe;
+    this.presetManager = presetManager;
+
+    const saved = (this.store as any).get('submasters') as Partial<SubmasterConfig>[] | undefined;
+    this.config = Array.from({ length: SUBMASTER_COUNT }, (_, i) => ({
+      presetId: typeof saved?.[i]?.presetId === 'string' ? saved[i].presetId! : null,
+    }));
+  }
+
+  /**
+   * Get every fader with its preset and level.
+   */
+  getAll(): SubmasterInfo[] {
+    const presets = this.presetManager.getAll();
+    return this.config.map((sub, i) => ({
+      number: i + 1,
+      presetId: sub.presetId,
+      presetName: presets.find((p) => p.id === sub.presetId)?.name ?? null,
+      level: this.levels[i],
+    }));
+  }
+
+  /**
+   * Assign a preset to a fader (null to clear it).
+   */
+  assign(number: number, presetId: string | null): void {
+    const index = this.toIndex(number);
+    if (presetId !== null && !this.presetManager.getById(presetId)) {
+      throw new Error(`Preset not found: ${presetId}`);
+    }
+
+    this.config[index] = { presetId };
+    (this.store as any).set('submasters', this.config);
+    this.apply(index);
+    log.info(`SubmasterManager: Fader ${number} assigned to ${presetId ?? 'nothing'}`);
+    this.notifyChange();
+  }
+
+  /**
+   * Set a fader level (0–100 %).
+   */
+  setLevel(number: number, level: number): void {
+    const index = this.toIndex(number);
+    const clamped = Math.max(0, Math.min(100, Math.round(Number(level) || 0)));
+    if (clamped === this.levels[index]) return;
+
+    this.levels[index] = clamped;
+    this.apply(index);
+    this.notifyChange();
+  }
+
+  /**
+   * Re-apply every fader after presets were edited or deleted, or the
+   * universe count changed.
+   */
+  refresh(): void {
+    for (let i = 0; i < SUBMASTER_COUNT; i++) {
+      this.apply(i);
+    }
+    this.notifyChange();
+  }
+
+  /**
+   * Push one fader's layer to the universe.
+   */
+  private apply(index: number): void {
+    const id = `submaster-${index + 1}`;
+    const presetId = this.config[index].presetId;
+    const preset = presetId ? this.presetManager.getById(presetId) : undefined;
+
+    if (!preset || this.levels[index] === 0) {
+      this.universe.clearSubmasterLayer(id);
+      return;
+    }
+    this.universe.setSubmasterLayer(id, preset.channels, this.levels[index] / 100);
+  }
+
+  private toIndex(number: number): number {
+    if (!Number.isInteger(number) || number < 1 || number > SUBMASTER_COUNT) {
+      throw new Error(`Invalid submaster: ${number}`);
+    }
+    return number - 1;
+  }
+
+  /**
+   * Register a listener for fader assignment and level changes.
+   */
+  onChange(callback: (submasters: SubmasterInfo[]) => void): void {
+    this.changeListeners.add(callback);
+  }
+
+  private notifyChange(): void {
+    const submasters = this.getAll();
+    for (const listener of this.changeListeners) {
+      try {
+        listener(submasters);
+      } catch (err) {
+        log.error('SubmasterManager: Change listener error:', err);
+      }
+    }
+  }
+}
@@ -0,0 +1,521 @@
+import type Store from 'electron-store';
+import { v4 as uuidv4 } from 'uuid';
+import { DMXUniverse } from './dmx-universe';
+import { FadeCurve, interpolate, isFadeCurve } from './fade-engine';
+import { FixtureManager } from './fixture-manager';
+import { FrameScheduler } from './frame-scheduler';
+import { log } from './logger';
+
+type AppStore = Store<Record<string, unknown>>;
+
+const DEFAULT_DURATION_MS = 180000; // 3 minutes
+const MAX_DURATION_MS = 3600000;    // 1 hour
+
+export interface Keyframe {
+  id: string;
+  time: number;       // ms from the start of the timeline
+  value: number;      // 0–255
+  easing: FadeCurve;  // Curve from the keyframe before into this one
+}
+
+interface TimelineTrack {
+  id: string;
+  name: string;
+  fixtureId: string | null; // Fixture target: drives `attribute` on this fixture
+  attribute: string;        // Fixture attribute ("intensity" or a channel role)
+  channel: number | null;   // Raw absolute channel, when there is no fixture
+  keyframes: Keyframe[];    // Sorted by time
+}
+
+interface TimelineConfig {
+  duration: number; // ms
+  loop: boolean;
+  tracks: TimelineTrack[];
+}
+
+/**
+ * Transport state: where the playhead is and whether the clock runs.
+ */
+export interface TimelineTransport {
+  playing: boolean;
+  position: number; // ms
+  duration: number;
+  loop: boolean;
+}
+
+export interface TimelineState extends TimelineTransport {
+  tracks: TimelineTrack[];
+}
+
+export type TimelineTrackDefinition = Omit<TimelineTrack, 'id' | 'keyframes'>;
+
+interface TimelineOptions {
+  store: AppStore;
+  universe: DMXUniverse;
+  fixtureManager: FixtureManager;
+  scheduler: FrameScheduler;
+}
+
+/**
+ * Timeline — A pre-programmed show on an internal clock. Tracks drive one
+ * attribute of a fixture or a raw channel through keyframes, easing into
+ * each with a fade curve. While the timeline plays (or when it is scrubbed)
+ * every track is evaluated at the playhead and written to the programmer,
+ * so the output, canvas and faders follow it like any other change; parked
+ * channels are left alone. An intensity track on an RGB-only fixture
+ * scales the programmed colour through a scale layer instead, held until
+ * the timeline is stopped. Before its first keyframe a track holds that
+ * value, and after its last one it holds the last. The timeline is
+ * persisted in electron-store under `timeline`; it starts stopped.
+ */
+export class Timeline {
+  private store: AppStore;
+  private universe: DMXUniverse;
+  private fixtureManager: FixtureManager;
+  private config: TimelineConfig;
+  private targets: Map<string, number[]> = new Map(); // Track ID → channels
+  private scaledTracks: Set<string> = new Set(); // Intensity tracks on a virtual dimmer
+  private playing = false;
+  private position = 0;
+  private startedAt = 0;   // Clock time at position `startPosition`
+  private startPosition = 0;
+  private changeListeners: Set<(state: TimelineState) => void> = new Set();
+  private positionListeners: Set<(transport: TimelineTransport) => void> = new Set();
+
+  constructor(options: TimelineOptions) {
+    this.store = options.store;
+    this.universe = options.universe;
+    this.fixtureManager = options.fixtureManager;
+
+    const saved = (this.store as any).get('timeline') as Partial<TimelineConfig> | undefined;
+    this.config = {
+      duration: readDuration(saved?.duration),
+      loop: saved?.loop === true,
+      tracks: (Array.isArray(saved?.tracks) ? saved!.tracks : [])
+        .filter((t) => typeof t?.id === 'string')
+        .map((t) => normalizeTrack(t, t.id)),
+    };
+    this.resolveTargets();
+
+    // Fixture targets are resolved ahead of time — re-resolve after a repatch
+    this.fixtureManager.onChange(() => this.resolveTargets());
+
+    options.scheduler.addTask((now) => this.tick(now));
+  }
+
+  /**
+   * Get the tracks and the transport state.
+   */
+  getState(): TimelineState {
+    return { ...this.getTransport(), tracks: this.config.tracks };
+  }
+
+  /**
+   * Get the transport state only.
+   */
+  getTransport(): TimelineTransport {
+    return {
+      playing: this.playing,
+      position: Math.round(this.position),
+      duration: this.config.duration,
+      loop: this.config.loop,
+    };
+  }
+
+  /**
+   * Change the length or loop setting. A shorter timeline pulls the
+   * playhead back inside it.
+   */
+  update(patch: { duration?: number; loop?: boolean }): void {
+    if (patch.duration !== undefined) {
+      this.config.duration = readDuration(patch.duration);
+      if (this.position > this.config.duration) {
+        this.setPosition(this.config.duration, Date.now());
+      }
+    }
+    if (patch.loop !== undefined) {
+      this.config.loop = patch.loop === true;
+    }
+    this.save();
+    this.notifyChange();
+  }
+
+  /**
+   * Add a track for a fixture attribute or a raw channel.
+   */
+  addTrack(definition: Partial<TimelineTrackDefinition>): TimelineTrack {
+    const track = normalizeTrack({ ...definition, keyframes: [] }, uuidv4());
+    this.config.tracks.push(track);
+    this.resolveTargets();
+    this.save();
+    log.info(`Timeline: Added track "${track.name}"`);
+    this.notifyChange();
+    return track;
+  }
+
+  /**
+   * Change a track's name or target. Keyframes are kept.
+   */
+  updateTrack(id: string, patch: Partial<TimelineTrackDefinition>): void {
+    const index = this.findTrackIndex(id);
+    const track = this.config.tracks[index];
+    this.config.tracks[index] = normalizeTrack({ ...track, ...patch, keyframes: track.keyframes }, id);
+    this.resolveTargets();
+    this.save();
+    this.notifyChange();
+  }
+
+  /**
+   * Delete a track and its keyframes. Its channels keep their last value.
+   */
+  deleteTrack(id: string): void {
+    const index = this.findTrackIndex(id);
+    const [removed] = this.config.tracks.splice(index, 1);
+    this.targets.delete(id);
+    this.save();
+    log.info(`Timeline: Deleted track "${removed.name}"`);
+    this.notifyChange();
+  }
+
+  /**
+   * Set a keyframe on a track. A keyframe already at that time is replaced.
+   */
+  setKeyframe(trackId: string, keyframe: Partial<Omit<Keyframe, 'id'>>): Keyframe {
+    const track = this.config.tracks[this.findTrackIndex(trackId)];
+    const result = this.putKeyframe(track, keyframe);
+    this.save();
+    this.notifyChange();
+    return result;
+  }
+
+  /**
+   * Move a keyframe, or change its value or easing.
+   */
+  updateKeyframe(trackId: string, id: string, patch: Partial<Omit<Keyframe, 'id'>>): void {
+    const track = this.config.tracks[this.findTrackIndex(trackId)];
+    const index = this.findKeyframeIndex(track, id);
+    const keyframe = normalizeKeyframe({ ...track.keyframes[index], ...patch }, id, this.config.duration);
+    if (track.keyframes.some((k) => k.time === keyframe.time && k.id !== id)) {
+      throw new Error(`Track "${track.name}" already has a keyframe at ${keyframe.time} ms`);
+    }
+    track.keyframes[index] = keyframe;
+    track.keyframes.sort((a, b) => a.time - b.time);
+    this.save();
+    this.notifyChange();
+  }
+
+  /**
+   * Delete a keyframe.
+   */
+  deleteKeyframe(trackId: string, id: string): void {
+    const track = this.config.tracks[this.findTrackIndex(trackId)];
+    track.keyframes.splice(this.findKeyframeIndex(track, id), 1);
+    this.save();
+    this.notifyChange();
+  }
+
+  /**
+   * Record a keyframe on every track (or the given ones) at the playhead,
+   * from the programmer. A fixture track takes its first channel's value.
+   */
+  record(trackIds?: string[]): number {
+    const channels = this.universe.getRawChannelsArray();
+    const time = Math.round(this.position);
+    let count = 0;
+
+    for (const track of this.config.tracks) {
+      if (trackIds && !trackIds.includes(track.id)) continue;
+      const target = this.targets.get(track.id) ?? [];
+      if (target.length === 0) continue;
+      this.putKeyframe(track, { time, value: channels[target[0] - 1] ?? 0 });
+      count++;
+    }
+
+    if (count > 0) {
+      this.save();
+      this.notifyChange();
+    }
+    log.info(`Timeline: Recorded ${count} keyframe(s) at ${time} ms`);
+    return count;
+  }
+
+  /**
+   * Insert a keyframe in time order, replacing one at the same time (and
+   * keeping its easing unless a new one is given).
+   */
+  private putKeyframe(track: TimelineTrack, keyframe: Partial<Omit<Keyframe, 'id'>>): Keyframe {
+    const normalized = normalizeKeyframe(keyframe, uuidv4(), this.config.duration);
+    const existing = track.keyframes.find((k) => k.time === normalized.time);
+    if (existing) {
+      normalized.id = existing.id;
+      if (keyframe.easing === undefined) normalized.easing = existing.easing;
+    }
+    track.keyframes = [...track.keyframes.filter((k) => k !== existing), normalized].sort((a, b) => a.time - b.time);
+    return normalized;
+  }
+
+  /**
+   * Start the clock from the playhead. At the end it starts over from the
+   * beginning.
+   */
+  play(): void {
+    if (this.playing) return;
+    const now = Date.now();
+    if (this.position >= this.config.duration) {
+      this.position = 0;
+    }
+    this.playing = true;
+    this.startedAt = now;
+    this.startPosition = this.position;
+    log.info(`Timeline: Playing from ${Math.round(this.position)} ms`);
+    this.notifyChange();
+  }
+
+  /**
+   * Stop the clock, leaving the playhead where it is.
+   */
+  pause(): void {
+    if (!this.playing) return;
+    this.position = Math.min(this.config.duration, this.startPosition + (Date.now() - this.startedAt));
+    this.playing = false;
+    log.info(`Timeline: Paused at ${Math.round(this.position)} ms`);
+    this.notifyChange();
+  }
+
+  /**
+   * Play when paused, pause when playing. Returns whether it now plays.
+   */
+  toggle(): boolean {
+    if (this.playing) {
+      this.pause();
+    } else {
+      this.play();
+    }
+    return this.playing;
+  }
+
+  /**
+   * Stop the clock and return the playhead to the start (without output —
+   * the stage keeps the look it stopped on, except that virtual-dimmer
+   * tracks release the colour they were scaling).
+   */
+  stop(): void {
+    if (!this.playing && this.position === 0) return;
+    this.playing = false;
+    this.position = 0;
+    this.universe.setScaleLayer('timeline', new Map());
+    log.info('Timeline: Stopped');
+    this.notifyChange();
+  }
+
+  /**
+   * Move the playhead (scrub) and output the look there. Playback carries
+   * on from the new position.
+   */
+  seek(position: number): void {
+    const ms = Number(position);
+    if (!Number.isFinite(ms)) {
+      throw new Error(`Invalid timeline position: ${position}`);
+    }
+    this.setPosition(Math.max(0, Math.min(this.config.duration, ms)), Date.now());
+    this.output();
+    this.notifyChange();
+  }
+
+  /**
+   * Advance the clock and output the tracks. Runs at the start of every frame.
+   */
+  private tick(now: number): void {
+    if (!this.playing) return;
+
+    let position = this.startPosition + (now - this.startedAt);
+    if (position >= this.config.duration) {
+      if (this.config.loop && this.config.duration > 0) {
+        position %= this.config.duration;
+        this.startedAt = now;
+        this.startPosition = position;
+      } else {
+        this.position = this.config.duration;
+        this.output();
+        this.playing = false;
+        log.info('Timeline: Reached the end');
+        this.notifyChange();
+        return;
+      }
+    }
+
+    this.position = position;
+    this.output();
+    this.notifyPosition();
+  }
+
+  private setPosition(position: number, now: number): void {
+    this.position = position;
+    this.startedAt = now;
+    this.startPosition = position;
+  }
+
+  /**
+   * Write every track's value at the playhead to the programmer, or to the
+   * scale layer for virtual-dimmer tracks.
+   */
+  private output(): void {
+    const values: Record<number, number> = {};
+    const scales = new Map<number, number>();
+    for (const track of this.config.tracks) {
+      const channels = this.targets.get(track.id);
+      if (!channels || channels.length === 0 || track.keyframes.length === 0) continue;
+      const value = Math.round(evaluateTrack(track, this.position));
+      for (const channel of channels) {
+        if (this.scaledTracks.has(track.id)) {
+          scales.set(channel, value / 255);
+        } else {
+          values[channel] = value;
+        }
+      }
+    }
+    if (Object.keys(values).length > 0) {
+      this.universe.setChannels(values);
+    }
+    this.universe.setScaleLayer('timeline', scales);
+  }
+
+  /**
+   * Work out the channels each track drives.
+   */
+  private resolveTargets(): void {
+    this.targets.clear();
+    this.scaledTracks.clear();
+    for (const track of this.config.tracks) {
+      if (track.fixtureId) {
+        try {
+          this.targets.set(track.id, this.fixtureManager.getAttributeChannels(track.fixtureId, track.attribute));
+          if (track.attribute === 'intensity' && this.fixtureManager.usesVirtualDimmer(track.fixtureId)) {
+            this.scaledTracks.add(track.id);
+          }
+        } catch {
+          // Fixture deleted since — the track drives nothing
+          this.targets.set(track.id, []);
+        }
+      } else {
+        this.targets.set(track.id, track.channel !== null ? [track.channel] : []);
+      }
+    }
+  }
+
+  private findTrackIndex(id: string): number {
+    const index = this.config.tracks.findIndex((t) => t.id === id);
+    if (index === -1) {
+      throw new Error(`Track not found: ${id}`);
+    }
+    return index;
+  }
+
+  private findKeyframeIndex(track: TimelineTrack, id: string): number {
+    const index = track.keyframes.findIndex((k) => k.id === id);
+    if (index === -1) {
+      throw new Error(`Keyframe not found: ${id}`);
+    }
+    return index;
+  }
+
+  private save(): void {
+    (this.store as any).set('timeline', this.config);
+  }
+
+  /**
+   * Register a listener for timeline edits and transport changes (play,
+   * pause, stop, seek, reaching the end).
+   */
+  onChange(callback: (state: TimelineState) => void): void {
+    this.changeListeners.add(callback);
+  }
+
+  /**
+   * Register a listener for the playhead, called every frame while playing.
+   */
+  onPosition(callback: (transport: TimelineTransport) => void): void {
+    this.positionListeners.add(callback);
+  }
+
+  private notifyChange(): void {
+    const state = this.getState();
+    for (const listener of this.changeListeners) {
+      try {
+        listener(state);
+      } catch (err) {
+        log.error('Timeline: Change listener error:', err);
+      }
+    }
+  }
+
+  private notifyPosition(): void {
+    const transport = this.getTransport();
+    for (const listener of this.positionListeners) {
+      try {
+        listener(transport);
+      } catch (err) {
+        log.error('Timeline: Position listener error:', err);
+      }
+    }
+  }
+}
+
+/**
+ * A track's value at a time: held before the first and after the last
+ * keyframe, eased between them with the later keyframe's curve.
+ */
+function evaluateTrack(track: TimelineTrack, time: number): number {
+  const keyframes = track.keyframes;
+  const next = keyframes.findIndex((k) => k.time > time);
+  if (next === -1) return keyframes[keyframes.length - 1].value;
+  if (next === 0) return keyframes[0].value;
+
+  const from = keyframes[next - 1];
+  const to = keyframes[next];
+  const p = (time - from.time) / (to.time - from.time);
+  return interpolate(to.easing, from.value, to.value, p);
+}
+
+/**
+ * Fill in defaults and clamp a track from the store or a client.
+ */
+function normalizeTrack(raw: Partial<TimelineTrack>, id: string): TimelineTrack {
+  const fixtureId = typeof raw.fixtureId === 'string' && raw.fixtureId ? raw.fixtureId : null;
+  const channel = Number(raw.channel);
+  const attribute = typeof raw.attribute === 'string' && raw.attribute ? raw.attribute : 'intensity';
+  return {
+    id,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Track',
+    fixtureId,
+    attribute,
+    channel: !fixtureId && Number.isInteger(channel) && channel >= 1 ? channel : null,
+    keyframes: (Array.isArray(raw.keyframes) ? raw.keyframes : [])
+      .filter((k) => typeof k?.id === 'string')
+      .map((k) => normalizeKeyframe(k, k.id, MAX_DURATION_MS))
+      .sort((a, b) => a.time - b.time),
+  };
+}
+
+/**
+ * Fill in defaults and clamp a keyframe from the store or a client.
+ */
+function normalizeKeyframe(raw: Partial<Keyframe>, id: string, duration: number): Keyframe {
+  const time = Number(raw.time);
+  const value = Number(raw.value);
+  return {
+    id,
+    time: Number.isFinite(time) ? Math.max(0, Math.min(duration, Math.round(time))) : 0,
+    value: Number.isFinite(value) ? Math.max(0, Math.min(255, Math.round(value))) : 0,
+    easing: isFadeCurve(raw.easing) ? raw.easing : 'linear',
+  };
+}
+
+/**
+ * A timeline length in ms: at least a second, at most an hour.
+ */
+function readDuration(value: unknown): number {
+  const ms = Number(value);
+  if (value === undefined || value === null || !Number.isFinite(ms)) return DEFAULT_DURATION_MS;
+  return Math.max(1000, Math.min(MAX_DURATION_MS, Math.round(ms)));
+}
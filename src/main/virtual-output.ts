@@ -0,0 +1,59 @@
+import { OutputTransport, OutputStatus } from './output-transport';
+import { log } from './logger';
+
+/**
+ * VirtualOutput — Null transport that accepts frames without any hardware.
+ * Keeps the last frame per universe so the pipeline can be exercised and
+ * inspected on a laptop with nothing plugged in.
+ */
+export class VirtualOutput implements OutputTransport {
+  readonly id = 'virtual';
+  readonly type = 'virtual' as const;
+  readonly label = 'Virtual (no hardware)';
+
+  private lastFrames: Map<number, Uint8Array> = new Map();
+  private frameCount: number = 0;
+
+  async start(): Promise<void> {
+    log.info('VirtualOutput: Ready');
+  }
+
+  send(universe: number, channels: Uint8Array): void {
+    this.lastFrames.set(universe, new Uint8Array(channels));
+    this.frameCount++;
+  }
+
+  /**
+   * Get the last frame delivered for a universe, if any.
+   */
+  getLastFrame(universe: number): Uint8Array | null {
+    return this.lastFrames.get(universe) ?? null;
+  }
+
+  /**
+   * Total frames received since startup.
+   */
+  getFrameCount(): number {
+    return this.frameCount;
+  }
+
+  getStatus(): OutputStatus {
+    return {
+      id: this.id,
+      type: this.type,
+      label: this.label,
+      connected: true,
+      detail: null,
+    };
+  }
+
+  /**
+   * The virtual output is always available, so its status never changes.
+   */
+  onStatusChange(_callback: (status: OutputStatus) => void): void {}
+
+  async shutdown(): Promise<void> {
+    this.lastFrames.clear();
+    log.info('VirtualOutput: Shutdown complete');
+  }
+}
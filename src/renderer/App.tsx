@@ -6,23 +6,81 @@ import { FixturePanel } from './components/FixturePanel';
 import { FixtureEditor } from './components/FixtureEditor';
 import { FaderBank } from './components/FaderBank';
 import { PresetGrid } from './components/PresetGrid';
+import { PlaybackPanel } from './components/PlaybackPanel';
+import { SubmasterPage } from './components/SubmasterPage';
 import { CanvasView } from './components/CanvasView';
+import { OutputSettings } from './components/OutputSettings';
+import { InputSettings } from './components/InputSettings';
+import { FadeList } from './components/FadeList';
+import { ParkPanel } from './components/ParkPanel';
+import { EffectsPanel } from './components/EffectsPanel';
+import { ChasePanel } from './components/ChasePanel';
+import { CueListPanel } from './components/CueListPanel';
+import { CueListEditor } from './components/CueListEditor';
+import { TimelinePanel } from './components/TimelinePanel';
+import { SchedulePanel } from './components/SchedulePanel';
 import { useSocket } from './hooks/useSocket';
 import { useDMXState } from './hooks/useDMXState';
 import { useFixtures } from './hooks/useFixtures';
+import { useOutputs } from './hooks/useOutputs';
+import { useInputs } from './hooks/useInputs';
+import { useFades } from './hooks/useFades';
+import { useParked } from './hooks/useParked';
+import { useEffects } from './hooks/useEffects';
+import { getFinePairs } from './utils/fineChannels';
 import type { Fixture, FixtureChannel, ColorMode } from './types';
 
 export const App: React.FC = () => {
   const { socket, isConnected } = useSocket();
-  const { channels, master, dmxStatus, setChannel, setMasterDimmer, blackout } =
+  const { channels, universeCount, master, owners, dmxStatus, blackoutActive, setChannel, setMasterDimmer, setUniverseCount, blackout } =
     useDMXState(socket);
   const { fixtures, conflicts, bundledProfiles, createFixture, createFromProfile, updateFixture, deleteFixture, setMode, triggerStart, triggerEnd } =
     useFixtures(socket);
+  const {
+    routes,
+    setRoute,
+    refreshInterval,
+    setRefreshInterval,
+    enttecWidget,
+    setEnttecWidgetParams,
+    enttecPorts,
+    scanEnttecPorts,
+    selectEnttecPort,
+    artnetConfig,
+    artnetNodes,
+    sacnConfig,
+    updateArtNetConfig,
+    pollArtNet,
+    updateSACNConfig,
+  } = useOutputs(socket);
+  const {
+    inputSources,
+    createInput,
+    updateInput,
+    deleteInput,
+    enttecConfig,
+    enttecFrame,
+    updateEnttecConfig,
+    captureEnttecFrame,
+    oscConfig,
+    updateOSCConfig,
+  } = useInputs(socket);
+  const { fades, cancelFade, completeFade } = useFades(socket);
+  const { parked, park, lock, unpark, unparkAll } = useParked(socket);
+  const { effects, createEffect, updateEffect, deleteEffect, startEffect, stopEffect, stopAllEffects } = useEffects(socket);
 
   const [showFixtureEditor, setShowFixtureEditor] = useState(false);
   const [editingFixture, setEditingFixture] = useState<Fixture | null>(null);
   const [showFixtureDrawer, setShowFixtureDrawer] = useState(false);
   const [activeView, setActiveView] = useState<ViewMode>('canvas');
+  const [showOutputSettings, setShowOutputSettings] = useState(false);
+  const [showInputSettings, setShowInputSettings] = useState(false);
+  const [showParkPanel, setShowParkPanel] = useState(false);
+  const [showEffectsPanel, setShowEffectsPanel] = useState(false);
+  const [showChasePanel, setShowChasePanel] = useState(false);
+  const [showCueListEditor, setShowCueListEditor] = useState(false);
+  const [showTimelinePanel, setShowTimelinePanel] = useState(false);
+  const [showSchedulePanel, setShowSchedulePanel] = useState(false);
 
   // Build channel map for the fader bank labels
   const channelMap = useMemo(() => {
@@ -40,6 +98,27 @@ export const App: React.FC = () => {
     return map;
   }, [fixtures]);
 
+  // 16-bit pairs — the fader bank drives them as one fader
+  const finePairs = useMemo(() => getFinePairs(fixtures), [fixtures]);
+
+  // Input source names for the fader bank owner labels
+  const inputNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    for (const source of inputSources) {
+      names[source.id] = source.name;
+    }
+    return names;
+  }, [inputSources]);
+
+  // Park state for the fader bank
+  const parkedChannels = useMemo(() => {
+    const states: Record<number, 'parked' | 'locked'> = {};
+    for (const entry of parked) {
+      states[entry.channel] = entry.value === null ? 'locked' : 'parked';
+    }
+    return states;
+  }, [parked]);
+
   const handleOpenEditor = useCallback(() => {
     setEditingFixture(null);
     setShowFixtureEditor(true);
@@ -83,8 +162,19 @@ export const App: React.FC = () => {
       <Header
         dmxStatus={dmxStatus}
         isSocketConnected={isConnected}
+        blackoutActive={blackoutActive}
         activeView={activeView}
         onViewChange={setActiveView}
+        onOpenOutputs={() => setShowOutputSettings(true)}
+        onOpenInputs={() => setShowInputSettings(true)}
+        onOpenPark={() => setShowParkPanel(true)}
+        parkedCount={parked.length}
+        onOpenEffects={() => setShowEffectsPanel(true)}
+        runningEffects={effects.filter((e) => e.running).length}
+        onOpenChases={() => setShowChasePanel(true)}
+        onOpenCues={() => setShowCueListEditor(true)}
+        onOpenTimeline={() => setShowTimelinePanel(true)}
+        onOpenSchedules={() => setShowSchedulePanel(true)}
       />
 
       <div className="app-body">
@@ -92,14 +182,16 @@ export const App: React.FC = () => {
         <div className="sidebar">
           <MasterFader value={master} onChange={setMasterDimmer} />
           <button
-            className="blackout-btn"
+            className={`blackout-btn ${blackoutActive ? 'active' : ''}`}
             onClick={() => blackout(1000)}
+            title={blackoutActive ? 'Fade back to the look' : 'Fade the output to black'}
           >
-            Blackout
+            {blackoutActive ? 'Restore' : 'Blackout'}
           </button>
+          <FadeList fades={fades} onComplete={completeFade} onCancel={cancelFade} />
         </div>
 
-        {/* Main content area — switches between Canvas and Fixtures view */}
+        {/* Main content area — switches between Canvas, Fixtures and Faders view */}
         <div className="main-content">
           {activeView === 'canvas' ? (
             <CanvasView
@@ -113,6 +205,8 @@ export const App: React.FC = () => {
               onTriggerStart={triggerStart}
               onTriggerEnd={triggerEnd}
             />
+          ) : activeView === 'faders' ? (
+            <SubmasterPage socket={socket} />
           ) : (
             <>
               <div className="top-section">
@@ -134,7 +228,12 @@ export const App: React.FC = () => {
                 <div style={{ marginTop: 16 }}>
                   <FaderBank
                     channels={channels}
+                    universeCount={universeCount}
                     channelMap={channelMap}
+                    owners={owners}
+                    inputNames={inputNames}
+                    parked={parkedChannels}
+                    finePairs={finePairs}
                     onChannelChange={setChannel}
                   />
                 </div>
@@ -145,6 +244,12 @@ export const App: React.FC = () => {
                 {/* Preset Grid */}
                 <PresetGrid socket={socket} />
 
+                {/* Playback: sequence, crossfader, GO/Back */}
+                <PlaybackPanel socket={socket} />
+
+                {/* Cue List: running order, standby, GO/Back */}
+                <CueListPanel socket={socket} />
+
                 {/* Fixture Editor Drawer Toggle */}
                 <div
                   className="fixture-editor-header"
@@ -219,6 +324,7 @@ export const App: React.FC = () => {
         <FixtureEditor
           fixture={editingFixture || undefined}
           bundledProfiles={bundledProfiles}
+          universeCount={universeCount}
           onSave={handleSaveFixture}
           onSaveFromProfile={handleSaveFromProfile}
           onUpdate={handleUpdateFixture}
@@ -229,6 +335,94 @@ export const App: React.FC = () => {
           }}
         />
       )}
+
+      {/* DMX Output Settings Modal */}
+      {showOutputSettings && (
+        <OutputSettings
+          outputs={dmxStatus.outputs}
+          universeCount={universeCount}
+          onSetUniverseCount={setUniverseCount}
+          routes={routes}
+          onSetRoute={setRoute}
+          refreshInterval={refreshInterval}
+          onSetRefreshInterval={setRefreshInterval}
+          enttecPorts={enttecPorts}
+          enttecAutoDetect={!enttecConfig?.pinnedPort}
+          onScanEnttecPorts={scanEnttecPorts}
+          onSelectEnttecPort={selectEnttecPort}
+          enttecWidget={enttecWidget}
+          onSetEnttecWidgetParams={setEnttecWidgetParams}
+          artnetConfig={artnetConfig}
+          artnetNodes={artnetNodes}
+          onUpdateArtNet={updateArtNetConfig}
+          onPollArtNet={pollArtNet}
+          sacnConfig={sacnConfig}
+          onUpdateSACN={updateSACNConfig}
+          onClose={() => setShowOutputSettings(false)}
+        />
+      )}
+
+      {/* DMX Input Settings Modal */}
+      {showInputSettings && (
+        <InputSettings
+          inputSources={inputSources}
+          owners={owners}
+          universeCount={universeCount}
+          onCreate={createInput}
+          onUpdate={updateInput}
+          onDelete={deleteInput}
+          enttecConfig={enttecConfig}
+          enttecFrame={enttecFrame}
+          onUpdateEnttec={updateEnttecConfig}
+          onCaptureEnttec={captureEnttecFrame}
+          oscConfig={oscConfig}
+          onUpdateOSC={updateOSCConfig}
+          onClose={() => setShowInputSettings(false)}
+        />
+      )}
+
+      {/* Park & Lock Modal */}
+      {showParkPanel && (
+        <ParkPanel
+          parked={parked}
+          fixtures={fixtures}
+          universeCount={universeCount}
+          onPark={park}
+          onLock={lock}
+          onUnpark={unpark}
+          onUnparkAll={unparkAll}
+          onClose={() => setShowParkPanel(false)}
+        />
+      )}
+
+      {/* Effects Modal */}
+      {showEffectsPanel && (
+        <EffectsPanel
+          effects={effects}
+          fixtures={fixtures}
+          onCreate={createEffect}
+          onUpdate={updateEffect}
+          onDelete={deleteEffect}
+          onStart={startEffect}
+          onStop={stopEffect}
+          onStopAll={stopAllEffects}
+          onClose={() => setShowEffectsPanel(false)}
+        />
+      )}
+
+      {/* Chases Modal */}
+      {showChasePanel && <ChasePanel socket={socket} onClose={() => setShowChasePanel(false)} />}
+
+      {/* Cue List Modal */}
+      {showCueListEditor && <CueListEditor socket={socket} onClose={() => setShowCueListEditor(false)} />}
+
+      {/* Timeline Modal */}
+      {showTimelinePanel && (
+        <TimelinePanel socket={socket} fixtures={fixtures} onClose={() => setShowTimelinePanel(false)} />
+      )}
+
+      {/* Schedule Modal */}
+      {showSchedulePanel && <SchedulePanel socket={socket} onClose={() => setShowSchedulePanel(false)} />}
     </div>
   );
 };
@@ -1,40 +1,62 @@
 import React, { useCallback } from 'react';
+import { MAX_16BIT, split16 } from '../utils/fineChannels';
 
 interface ChannelFaderProps {
-  channel: number;
+  channel: number; // Absolute channel, passed to onChange
+  address?: number; // Address within the universe, shown on the label
   value: number;
   label?: string;
+  owner?: string; // Name of the network input currently driving this channel
+  parked?: 'parked' | 'locked';
+  fine?: { channel: number; value: number }; // Fine partner — the fader runs in 16-bit
   onChange: (channel: number, value: number) => void;
 }
 
 export const ChannelFader: React.FC<ChannelFaderProps> = ({
   channel,
+  address,
   value,
   label,
+  owner,
+  parked,
+  fine,
   onChange,
 }) => {
+  const fineChannel = fine?.channel;
   const handleChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      onChange(channel, parseInt(e.target.value, 10));
+      const next = parseInt(e.target.value, 10);
+      if (fineChannel === undefined) {
+        onChange(channel, next);
+        return;
+      }
+      const { coarse, fine: lsb } = split16(next);
+      onChange(channel, coarse);
+      onChange(fineChannel, lsb);
     },
-    [channel, onChange]
+    [channel, fineChannel, onChange]
   );
 
   return (
-    <div className="channel-fader">
-      <span className="channel-number">CH {channel}</span>
+    <div className={`channel-fader ${owner ? 'input-owned' : ''} ${parked ? 'parked' : ''}`}>
+      <span className="channel-number">CH {address ?? channel}</span>
       <input
         type="range"
         className="vertical-fader"
         min={0}
-        max={255}
-        value={value}
+        max={fine ? MAX_16BIT : 255}
+        value={fine ? (value << 8) | fine.value : value}
         onChange={handleChange}
+        disabled={!!parked}
         // @ts-expect-error — orient is a non-standard attribute for vertical sliders
         orient="vertical"
       />
-      <span className="channel-value">{value}</span>
+      <span className="channel-value" title={fine ? `16-bit: ${(value << 8) | fine.value}` : undefined}>
+        {fine ? `${value}.${fine.value}` : value}
+      </span>
       {label && <span className="channel-label" title={label}>{label}</span>}
+      {parked && <span className="channel-parked">{parked === 'parked' ? 'PARK' : 'LOCK'}</span>}
+      {owner && <span className="channel-owner" title={`Driven by ${owner}`}>{owner}</span>}
     </div>
   );
 };
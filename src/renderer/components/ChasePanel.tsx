@@ -0,0 +1,304 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Socket } from 'socket.io-client';
+import { useChases } from '../hooks/useChases';
+import type { ChaseDefinition } from '../hooks/useChases';
+import type { Chase, ChaseOrder, ChaseStep, Preset } from '../types';
+
+const ORDERS: { value: ChaseOrder; label: string }[] = [
+  { value: 'forward', label: 'Forward' },
+  { value: 'bounce', label: 'Bounce' },
+  { value: 'random', label: 'Random' },
+];
+
+const NEW_CHASE: ChaseDefinition = {
+  name: '',
+  steps: [],
+  order: 'forward',
+  loop: true,
+  bpm: null,
+  crossfade: 0,
+};
+
+interface ChasePanelProps {
+  socket: Socket | null;
+  onClose: () => void;
+}
+
+/**
+ * ChasePanel — Modal dialog to build step chases from presets and run
+ * them. Each step has its own fade and hold, or the chase runs one step
+ * per beat at a BPM set directly or with the Tap button.
+ */
+export const ChasePanel: React.FC<ChasePanelProps> = ({ socket, onClose }) => {
+  const { chases, createChase, updateChase, deleteChase, startChase, stopChase, stopAllChases, tapChase } =
+    useChases(socket);
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ChaseDefinition>(NEW_CHASE);
+  const [loadedBpm, setLoadedBpm] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handlePresetsList = (data: Preset[]) => {
+      setPresets(data);
+    };
+
+    socket.on('presets:list', handlePresetsList);
+
+    return () => {
+      socket.off('presets:list', handlePresetsList);
+    };
+  }, [socket]);
+
+  const handleEdit = useCallback((chase: Chase) => {
+    const { id, running, currentStep, ...definition } = chase;
+    setEditingId(id);
+    setDraft(definition);
+    setLoadedBpm(definition.bpm);
+  }, []);
+
+  const handleNew = useCallback(() => {
+    setEditingId(null);
+    setDraft(NEW_CHASE);
+  }, []);
+
+  const handleSave = useCallback(() => {
+    const definition: Partial<ChaseDefinition> = { ...draft, name: draft.name.trim() || 'Chase' };
+    if (editingId) {
+      // Leave a tempo tapped in since the chase was loaded alone
+      if (draft.bpm === loadedBpm) delete definition.bpm;
+      updateChase(editingId, definition);
+    } else {
+      createChase(definition);
+      handleNew();
+    }
+  }, [draft, editingId, loadedBpm, createChase, updateChase, handleNew]);
+
+  const handleAddStep = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (!e.target.value) return;
+    const presetId = e.target.value;
+    setDraft((d) => ({ ...d, steps: [...d.steps, { presetId, fade: 0, hold: 1000 }] }));
+  }, []);
+
+  const updateStep = (index: number, patch: Partial<ChaseStep>) =>
+    setDraft((d) => ({ ...d, steps: d.steps.map((s, i) => (i === index ? { ...s, ...patch } : s)) }));
+
+  const moveStep = (index: number, delta: number) =>
+    setDraft((d) => {
+      const steps = [...d.steps];
+      const target = index + delta;
+      if (target < 0 || target >= steps.length) return d;
+      [steps[index], steps[target]] = [steps[target], steps[index]];
+      return { ...d, steps };
+    });
+
+  const removeStep = (index: number) => setDraft((d) => ({ ...d, steps: d.steps.filter((_, i) => i !== index) }));
+
+  const presetName = (presetId: string) => presets.find((p) => p.id === presetId)?.name ?? 'Missing preset';
+  const runningCount = chases.filter((c) => c.running).length;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Chases</h2>
+          <button className="modal-close" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        {/* ── Chase List ── */}
+        <div className="output-section">
+          <div className="output-section-header">
+            <h3>Chases</h3>
+            <button className="btn btn-secondary btn-sm" onClick={stopAllChases} disabled={runningCount === 0}>
+              Stop All
+            </button>
+          </div>
+          {chases.length === 0 ? (
+            <div className="empty-state">
+              <p>No chases yet</p>
+            </div>
+          ) : (
+            <div className="fixture-list">
+              {chases.map((chase) => (
+                <div key={chase.id} className={`fixture-list-item ${chase.running ? 'chase-running' : ''}`}>
+                  <div className="fixture-info">
+                    <span className="fixture-name">{chase.name}</span>
+                    <span className="fixture-channels">
+                      {chase.steps.length} step(s) · {chase.order}
+                      {chase.loop ? ', loop' : ''} · {chase.bpm ? `${chase.bpm} BPM` : 'step times'}
+                      {chase.running && chase.currentStep >= 0 && ` · step ${chase.currentStep + 1}`}
+                    </span>
+                  </div>
+                  <div className="fixture-actions">
+                    <button className="btn btn-secondary btn-sm" onClick={() => tapChase(chase.id)} title="Tap tempo">
+                      Tap
+                    </button>
+                    <button
+                      className={`btn btn-sm ${chase.running ? 'btn-primary' : 'btn-secondary'}`}
+                      onClick={() => (chase.running ? stopChase(chase.id) : startChase(chase.id))}
+                      disabled={chase.steps.length === 0}
+                    >
+                      {chase.running ? 'Stop' : 'Start'}
+                    </button>
+                    <button className="btn btn-secondary btn-sm" onClick={() => handleEdit(chase)}>
+                      Edit
+                    </button>
+                    <button
+                      className="btn btn-secondary btn-sm"
+                      onClick={() => {
+                        if (editingId === chase.id) handleNew();
+                        deleteChase(chase.id);
+                      }}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* ── Chase Editor ── */}
+        <div className="output-section">
+          <div className="output-section-header">
+            <h3>{editingId ? 'Edit Chase' : 'New Chase'}</h3>
+            {editingId && (
+              <button className="btn btn-secondary btn-sm" onClick={handleNew}>
+                New
+              </button>
+            )}
+          </div>
+
+          <div className="form-group">
+            <label>Name</label>
+            <input
+              type="text"
+              className="form-input"
+              value={draft.name}
+              onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))}
+              placeholder="e.g. Colour Chase"
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Steps — fade / hold (ms)</label>
+            {draft.steps.map((step, index) => (
+              <div key={index} className="chase-step-row">
+                <span className="chase-step-name">
+                  {index + 1}. {presetName(step.presetId)}
+                </span>
+                <input
+                  type="number"
+                  className="form-input"
+                  value={step.fade}
+                  onChange={(e) => updateStep(index, { fade: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                  min={0}
+                  step={100}
+                  disabled={draft.bpm !== null}
+                  title="Fade (ms)"
+                />
+                <input
+                  type="number"
+                  className="form-input"
+                  value={step.hold}
+                  onChange={(e) => updateStep(index, { hold: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                  min={0}
+                  step={100}
+                  disabled={draft.bpm !== null}
+                  title="Hold (ms)"
+                />
+                <button className="btn btn-secondary btn-sm" onClick={() => moveStep(index, -1)} disabled={index === 0}>
+                  ↑
+                </button>
+                <button
+                  className="btn btn-secondary btn-sm"
+                  onClick={() => moveStep(index, 1)}
+                  disabled={index === draft.steps.length - 1}
+                >
+                  ↓
+                </button>
+                <button className="btn btn-secondary btn-sm" onClick={() => removeStep(index)}>
+                  ×
+                </button>
+              </div>
+            ))}
+            <select className="form-select" value="" onChange={handleAddStep}>
+              <option value="">+ Add preset</option>
+              {presets.map((preset) => (
+                <option key={preset.id} value={preset.id}>
+                  {preset.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label>Order</label>
+            <div className="editor-mode-selector">
+              {ORDERS.map((o) => (
+                <button
+                  key={o.value}
+                  className={`btn btn-sm ${draft.order === o.value ? 'btn-primary' : 'btn-secondary'}`}
+                  onClick={() => setDraft((d) => ({ ...d, order: o.value }))}
+                  type="button"
+                >
+                  {o.label}
+                </button>
+              ))}
+              <button
+                className={`btn btn-sm ${draft.loop ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => setDraft((d) => ({ ...d, loop: !d.loop }))}
+                type="button"
+              >
+                Loop
+              </button>
+            </div>
+            <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+              Without loop the chase stops after one pass (bounce: there and back)
+            </small>
+          </div>
+
+          <div className="form-group">
+            <label>BPM / Crossfade (%)</label>
+            <div className="output-address-row">
+              <input
+                type="number"
+                className="form-input"
+                value={draft.bpm ?? ''}
+                onChange={(e) => {
+                  const bpm = parseFloat(e.target.value);
+                  setDraft((d) => ({ ...d, bpm: bpm > 0 ? bpm : null }));
+                }}
+                min={10}
+                max={600}
+                placeholder="Step times"
+              />
+              <input
+                type="number"
+                className="form-input"
+                value={draft.crossfade}
+                onChange={(e) =>
+                  setDraft((d) => ({ ...d, crossfade: Math.max(0, Math.min(100, parseInt(e.target.value, 10) || 0)) }))
+                }
+                min={0}
+                max={100}
+                disabled={draft.bpm === null}
+              />
+            </div>
+            <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+              With a BPM each step lasts one beat and fades for the crossfade share of it
+            </small>
+          </div>
+
+          <button className="btn btn-primary btn-sm" onClick={handleSave} disabled={draft.steps.length === 0}>
+            {editingId ? 'Save' : 'Create'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
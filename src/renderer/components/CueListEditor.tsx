@@ -0,0 +1,297 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Socket } from 'socket.io-client';
+import { useCueList } from '../hooks/useCueList';
+import type { CueInfo, Preset } from '../types';
+
+interface CueDraft {
+  number: string;
+  label: string;
+  fadeTime: number;
+  fadeOutTime: number | null;
+  delay: number;
+  follow: number | null;
+  presetId: string; // '' = record the stage
+}
+
+const NEW_CUE: CueDraft = {
+  number: '',
+  label: '',
+  fadeTime: 3000,
+  fadeOutTime: null,
+  delay: 0,
+  follow: null,
+  presetId: '',
+};
+
+interface CueListEditorProps {
+  socket: Socket | null;
+  onClose: () => void;
+}
+
+/**
+ * CueListEditor — Modal dialog to record and edit the cue list. Cues are
+ * recorded from the stage or a preset; each stores only the channels that
+ * change from the cue before, so later cues track through edits.
+ */
+export const CueListEditor: React.FC<CueListEditorProps> = ({ socket, onClose }) => {
+  const { cueList, recordCue, rerecordCue, updateCue, deleteCue, goToCue } = useCueList(socket);
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CueDraft>(NEW_CUE);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handlePresetsList = (data: Preset[]) => {
+      setPresets(data);
+    };
+
+    socket.on('presets:list', handlePresetsList);
+
+    return () => {
+      socket.off('presets:list', handlePresetsList);
+    };
+  }, [socket]);
+
+  const cues = cueList?.cues ?? [];
+
+  const handleEdit = useCallback((cue: CueInfo) => {
+    setEditingId(cue.id);
+    setDraft({
+      number: String(cue.number),
+      label: cue.label,
+      fadeTime: cue.fadeTime,
+      fadeOutTime: cue.fadeOutTime,
+      delay: cue.delay,
+      follow: cue.follow,
+      presetId: '',
+    });
+  }, []);
+
+  const handleNew = useCallback(() => {
+    setEditingId(null);
+    setDraft(NEW_CUE);
+  }, []);
+
+  const number = draft.number.trim() ? Math.round(parseFloat(draft.number) * 1000) / 1000 : null;
+  const numberInvalid = number !== null && !(number > 0);
+  const numberTaken = number !== null && cues.some((c) => c.number === number && c.id !== editingId);
+
+  const handleSave = useCallback(() => {
+    const timing = {
+      label: draft.label.trim(),
+      fadeTime: draft.fadeTime,
+      fadeOutTime: draft.fadeOutTime,
+      delay: draft.delay,
+      follow: draft.follow,
+    };
+    if (editingId) {
+      updateCue(editingId, { ...timing, ...(number !== null ? { number } : {}) });
+    } else {
+      recordCue({ ...timing, number: number ?? undefined, presetId: draft.presetId || undefined });
+      handleNew();
+    }
+  }, [draft, number, editingId, recordCue, updateCue, handleNew]);
+
+  const setTime = (key: 'fadeTime' | 'delay') => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setDraft((d) => ({ ...d, [key]: Math.max(0, parseInt(e.target.value, 10) || 0) }));
+
+  const setOptionalTime = (key: 'fadeOutTime' | 'follow') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const ms = parseInt(e.target.value, 10);
+    setDraft((d) => ({ ...d, [key]: Number.isFinite(ms) && ms >= 0 ? ms : null }));
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Cue List</h2>
+          <button className="modal-close" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        {/* ── Cues ── */}
+        <div className="output-section">
+          <div className="output-section-header">
+            <h3>Cues</h3>
+          </div>
+          {cues.length === 0 ? (
+            <div className="empty-state">
+              <p>No cues yet</p>
+            </div>
+          ) : (
+            <div className="fixture-list">
+              {cues.map((cue) => {
+                const stateClass =
+                  cue.id === cueList?.currentId ? 'cue-live' : cue.id === cueList?.standbyId ? 'cue-standby-item' : '';
+                return (
+                  <div key={cue.id} className={`fixture-list-item ${stateClass}`}>
+                    <div className="fixture-info">
+                      <span className="fixture-name">
+                        Cue {cue.number}
+                        {cue.label && ` — ${cue.label}`}
+                      </span>
+                      <span className="fixture-channels">{describeCue(cue)}</span>
+                    </div>
+                    <div className="fixture-actions">
+                      <button className="btn btn-secondary btn-sm" onClick={() => goToCue(cue.number)}>
+                        Go To
+                      </button>
+                      <button
+                        className="btn btn-secondary btn-sm"
+                        onClick={() => rerecordCue(cue.id)}
+                        title="Re-record the cue from the stage"
+                      >
+                        Update
+                      </button>
+                      <button className="btn btn-secondary btn-sm" onClick={() => handleEdit(cue)}>
+                        Edit
+                      </button>
+                      <button
+                        className="btn btn-secondary btn-sm"
+                        onClick={() => {
+                          if (editingId === cue.id) handleNew();
+                          deleteCue(cue.id);
+                        }}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+            Cues track: each stores only what changes from the cue before
+          </small>
+        </div>
+
+        {/* ── Cue Editor ── */}
+        <div className="output-section">
+          <div className="output-section-header">
+            <h3>{editingId ? 'Edit Cue' : 'Record Cue'}</h3>
+            {editingId && (
+              <button className="btn btn-secondary btn-sm" onClick={handleNew}>
+                New
+              </button>
+            )}
+          </div>
+
+          <div className="form-group">
+            <label>Number / Label</label>
+            <div className="output-address-row">
+              <input
+                type="number"
+                className="form-input"
+                value={draft.number}
+                onChange={(e) => setDraft((d) => ({ ...d, number: e.target.value }))}
+                min={0}
+                step={0.1}
+                placeholder="Next"
+              />
+              <input
+                type="text"
+                className="form-input"
+                value={draft.label}
+                onChange={(e) => setDraft((d) => ({ ...d, label: e.target.value }))}
+                placeholder="e.g. Sunrise"
+              />
+            </div>
+            {(numberInvalid || numberTaken) && (
+              <small style={{ color: 'var(--error)', marginTop: 4, display: 'block' }}>
+                {numberTaken ? `Cue ${number} already exists` : 'Cue numbers must be above 0'}
+              </small>
+            )}
+          </div>
+
+          {!editingId && (
+            <div className="form-group">
+              <label>Look</label>
+              <select
+                className="form-select"
+                value={draft.presetId}
+                onChange={(e) => setDraft((d) => ({ ...d, presetId: e.target.value }))}
+              >
+                <option value="">Current stage</option>
+                {presets.map((preset) => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="form-group">
+            <label>Fade In / Out (ms)</label>
+            <div className="output-address-row">
+              <input
+                type="number"
+                className="form-input"
+                value={draft.fadeTime}
+                onChange={setTime('fadeTime')}
+                min={0}
+                step={100}
+              />
+              <input
+                type="number"
+                className="form-input"
+                value={draft.fadeOutTime ?? ''}
+                onChange={setOptionalTime('fadeOutTime')}
+                min={0}
+                step={100}
+                placeholder="Same"
+              />
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label>Wait / Follow (ms)</label>
+            <div className="output-address-row">
+              <input
+                type="number"
+                className="form-input"
+                value={draft.delay}
+                onChange={setTime('delay')}
+                min={0}
+                step={100}
+              />
+              <input
+                type="number"
+                className="form-input"
+                value={draft.follow ?? ''}
+                onChange={setOptionalTime('follow')}
+                min={0}
+                step={100}
+                placeholder="Manual"
+              />
+            </div>
+            <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+              The wait delays the fade after GO; with a follow the next cue GOes that long after the fade ends
+            </small>
+          </div>
+
+          <button className="btn btn-primary btn-sm" onClick={handleSave} disabled={numberInvalid || numberTaken}>
+            {editingId ? 'Save' : 'Record'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Short summary of a cue's timing and size.
+ */
+function describeCue(cue: CueInfo): string {
+  const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+  const parts = [
+    cue.fadeOutTime !== null ? `${seconds(cue.fadeTime)} / ${seconds(cue.fadeOutTime)}` : seconds(cue.fadeTime),
+  ];
+  if (cue.delay > 0) parts.push(`wait ${seconds(cue.delay)}`);
+  if (cue.follow !== null) parts.push(`follow ${seconds(cue.follow)}`);
+  parts.push(`${cue.channelCount} channel(s)`);
+  return parts.join(' · ');
+}
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Socket } from 'socket.io-client';
+import { useCueList } from '../hooks/useCueList';
+
+interface CueListPanelProps {
+  socket: Socket | null;
+}
+
+/**
+ * CueListPanel — The cue list's running order with the live and standby
+ * cue, GO and Back. Click a cue to jump to it.
+ */
+export const CueListPanel: React.FC<CueListPanelProps> = ({ socket }) => {
+  const { cueList, go, back, goToCue } = useCueList(socket);
+
+  if (!cueList || cueList.cues.length === 0) return null;
+
+  const standby = cueList.cues.find((c) => c.id === cueList.standbyId);
+  const currentIndex = cueList.cues.findIndex((c) => c.id === cueList.currentId);
+
+  return (
+    <div className="playback-panel">
+      <span className="preset-grid-label">Cues</span>
+
+      <div className="playback-steps">
+        {cueList.cues.map((cue) => {
+          const stateClass = cue.id === cueList.currentId ? 'current' : cue.id === cueList.standbyId ? 'next' : '';
+          return (
+            <div
+              key={cue.id}
+              className={`playback-step cue-step ${stateClass}`}
+              onClick={() => goToCue(cue.number)}
+              title={`Go to cue ${cue.number}`}
+            >
+              <span className="playback-step-number">{cue.number}</span>
+              {cue.label && <span className="playback-step-name">{cue.label}</span>}
+              {cue.follow !== null && <span className="cue-follow-mark">↳</span>}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="playback-controls">
+        <span className="cue-standby">
+          {cueList.followAt !== null ? 'Follow → ' : 'Standby: '}
+          {standby ? `${standby.number}${standby.label ? ` ${standby.label}` : ''}` : '—'}
+        </span>
+        <button className="btn btn-secondary btn-sm" onClick={back} disabled={currentIndex <= 0}>
+          Back
+        </button>
+        <button className="btn btn-primary btn-sm playback-go" onClick={go} disabled={!standby}>
+          GO
+        </button>
+      </div>
+    </div>
+  );
+};
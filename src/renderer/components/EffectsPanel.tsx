@@ -0,0 +1,349 @@
+import React, { useState, useCallback } from 'react';
+import type { Effect, Fixture, Waveform } from '../types';
+import type { EffectDefinition } from '../hooks/useEffects';
+import { UNIVERSE_SIZE, formatAddress, toAbsoluteChannel } from '../utils/dmxAddress';
+
+const WAVEFORMS: { value: Waveform; label: string }[] = [
+  { value: 'sine', label: 'Sine (breathe)' },
+  { value: 'square', label: 'Square (on/off)' },
+  { value: 'saw', label: 'Saw (ramp)' },
+  { value: 'random', label: 'Random' },
+  { value: 'flicker', label: 'Flicker (candle)' },
+];
+
+const ATTRIBUTES = [
+  { value: 'intensity', label: 'Intensity' },
+  { value: 'red', label: 'Red' },
+  { value: 'green', label: 'Green' },
+  { value: 'blue', label: 'Blue' },
+  { value: 'hue', label: 'Hue' },
+  { value: 'saturation', label: 'Saturation' },
+  { value: 'temperature', label: 'Temperature' },
+];
+
+const NEW_EFFECT: EffectDefinition = {
+  name: '',
+  waveform: 'sine',
+  fixtureIds: [],
+  attribute: 'intensity',
+  channels: [],
+  rate: 0.5,
+  size: 255,
+  offset: 0,
+  phaseSpread: 0,
+};
+
+interface EffectsPanelProps {
+  effects: Effect[];
+  fixtures: Fixture[];
+  onCreate: (effect: Partial<EffectDefinition>) => void;
+  onUpdate: (id: string, patch: Partial<EffectDefinition>) => void;
+  onDelete: (id: string) => void;
+  onStart: (id: string) => void;
+  onStop: (id: string) => void;
+  onStopAll: () => void;
+  onClose: () => void;
+}
+
+/**
+ * EffectsPanel — Modal dialog to build software effects (sine, square,
+ * saw, random, flicker) on fixture attributes or raw channels, and to
+ * start and stop them. Presets saved while effects run bring them back.
+ */
+export const EffectsPanel: React.FC<EffectsPanelProps> = ({
+  effects,
+  fixtures,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onStart,
+  onStop,
+  onStopAll,
+  onClose,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<EffectDefinition>(NEW_EFFECT);
+  const [channelText, setChannelText] = useState('');
+
+  const handleEdit = useCallback((effect: Effect) => {
+    const { id, running, ...definition } = effect;
+    setEditingId(id);
+    setDraft(definition);
+    setChannelText(definition.channels.map(formatAddress).join(', '));
+  }, []);
+
+  const handleNew = useCallback(() => {
+    setEditingId(null);
+    setDraft(NEW_EFFECT);
+    setChannelText('');
+  }, []);
+
+  const handleToggleFixture = useCallback((fixtureId: string) => {
+    setDraft((d) => ({
+      ...d,
+      fixtureIds: d.fixtureIds.includes(fixtureId)
+        ? d.fixtureIds.filter((id) => id !== fixtureId)
+        : [...d.fixtureIds, fixtureId],
+    }));
+  }, []);
+
+  const handleSave = useCallback(() => {
+    const definition = { ...draft, name: draft.name.trim() || 'Effect', channels: parseChannelList(channelText) };
+    if (editingId) {
+      onUpdate(editingId, definition);
+    } else {
+      onCreate(definition);
+      handleNew();
+    }
+  }, [draft, channelText, editingId, onCreate, onUpdate, handleNew]);
+
+  const setNumber = (key: 'rate' | 'size' | 'offset' | 'phaseSpread') => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setDraft((d) => ({ ...d, [key]: parseFloat(e.target.value) || 0 }));
+
+  const hasTargets = draft.fixtureIds.length > 0 || parseChannelList(channelText).length > 0;
+  const runningCount = effects.filter((e) => e.running).length;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Effects</h2>
+          <button className="modal-close" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        {/* ── Effect List ── */}
+        <div className="output-section">
+          <div className="output-section-header">
+            <h3>Effects</h3>
+            <button className="btn btn-secondary btn-sm" onClick={onStopAll} disabled={runningCount === 0}>
+              Stop All
+            </button>
+          </div>
+          {effects.length === 0 ? (
+            <div className="empty-state">
+              <p>No effects yet</p>
+            </div>
+          ) : (
+            <div className="fixture-list">
+              {effects.map((effect) => (
+                <div key={effect.id} className={`fixture-list-item ${effect.running ? 'effect-running' : ''}`}>
+                  <div className="fixture-info">
+                    <span className="fixture-name">{effect.name}</span>
+                    <span className="fixture-channels">
+                      {effect.waveform} · {effect.rate} Hz · {describeTargets(effect, fixtures)}
+                    </span>
+                  </div>
+                  <div className="fixture-actions">
+                    <button
+                      className={`btn btn-sm ${effect.running ? 'btn-primary' : 'btn-secondary'}`}
+                      onClick={() => (effect.running ? onStop(effect.id) : onStart(effect.id))}
+                    >
+                      {effect.running ? 'Stop' : 'Start'}
+                    </button>
+                    <button className="btn btn-secondary btn-sm" onClick={() => handleEdit(effect)}>
+                      Edit
+                    </button>
+                    <button
+                      className="btn btn-secondary btn-sm"
+                      onClick={() => {
+                        if (editingId === effect.id) handleNew();
+                        onDelete(effect.id);
+                      }}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+            Presets saved while effects run start those effects again on recall
+          </small>
+        </div>
+
+        {/* ── Effect Editor ── */}
+        <div className="output-section">
+          <div className="output-section-header">
+            <h3>{editingId ? 'Edit Effect' : 'New Effect'}</h3>
+            {editingId && (
+              <button className="btn btn-secondary btn-sm" onClick={handleNew}>
+                New
+              </button>
+            )}
+          </div>
+
+          <div className="form-group">
+            <label>Name</label>
+            <input
+              type="text"
+              className="form-input"
+              value={draft.name}
+              onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))}
+              placeholder="e.g. Breathe"
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Waveform</label>
+            <select
+              className="form-select"
+              value={draft.waveform}
+              onChange={(e) => setDraft((d) => ({ ...d, waveform: e.target.value as Waveform }))}
+            >
+              {WAVEFORMS.map((w) => (
+                <option key={w.value} value={w.value}>
+                  {w.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label>Fixtures</label>
+            {fixtures.length === 0 ? (
+              <small style={{ color: 'var(--text-secondary)', display: 'block' }}>No fixtures</small>
+            ) : (
+              <div className="effect-fixture-list">
+                {fixtures.map((fixture) => (
+                  <label key={fixture.id} className="effect-fixture">
+                    <input
+                      type="checkbox"
+                      checked={draft.fixtureIds.includes(fixture.id)}
+                      onChange={() => handleToggleFixture(fixture.id)}
+                    />
+                    {fixture.name}
+                  </label>
+                ))}
+              </div>
+            )}
+            <select
+              className="form-select"
+              value={draft.attribute}
+              onChange={(e) => setDraft((d) => ({ ...d, attribute: e.target.value }))}
+              style={{ marginTop: 8 }}
+            >
+              {ATTRIBUTES.map((a) => (
+                <option key={a.value} value={a.value}>
+                  {a.label}
+                </option>
+              ))}
+            </select>
+            <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+              Intensity drives the dimmer, or red/green/blue on fixtures without one
+            </small>
+          </div>
+
+          <div className="form-group">
+            <label>Channels</label>
+            <input
+              type="text"
+              className="form-input"
+              value={channelText}
+              onChange={(e) => setChannelText(e.target.value)}
+              placeholder="e.g. 1-8, 2.1"
+            />
+            <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+              Raw channels as absolute numbers or universe.address, after the fixtures in phase order
+            </small>
+          </div>
+
+          <div className="form-group">
+            <label>Rate (Hz) / Phase Spread (°)</label>
+            <div className="output-address-row">
+              <input
+                type="number"
+                className="form-input"
+                value={draft.rate}
+                onChange={setNumber('rate')}
+                min={0.01}
+                max={25}
+                step={0.05}
+              />
+              <input
+                type="number"
+                className="form-input"
+                value={draft.phaseSpread}
+                onChange={setNumber('phaseSpread')}
+                min={0}
+                max={360}
+              />
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label>Size / Offset (0–255)</label>
+            <div className="output-address-row">
+              <input
+                type="number"
+                className="form-input"
+                value={draft.size}
+                onChange={setNumber('size')}
+                min={0}
+                max={255}
+              />
+              <input
+                type="number"
+                className="form-input"
+                value={draft.offset}
+                onChange={setNumber('offset')}
+                min={0}
+                max={255}
+              />
+            </div>
+            <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+              The output swings from the offset up to offset + size
+            </small>
+          </div>
+
+          <button className="btn btn-primary btn-sm" onClick={handleSave} disabled={!hasTargets}>
+            {editingId ? 'Save' : 'Create'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Short summary of what an effect runs on.
+ */
+function describeTargets(effect: Effect, fixtures: Fixture[]): string {
+  const parts: string[] = [];
+  if (effect.fixtureIds.length > 0) {
+    const names = effect.fixtureIds.map((id) => fixtures.find((f) => f.id === id)?.name).filter(Boolean);
+    parts.push(`${names.length} fixture(s) ${effect.attribute}`);
+  }
+  if (effect.channels.length > 0) {
+    parts.push(`${effect.channels.length} channel(s)`);
+  }
+  return parts.join(', ') || 'no targets';
+}
+
+/**
+ * Parse "1-8, 2.1, 2.5-2.8" into absolute channels, in order. Plain numbers
+ * are absolute; universe.address entries are converted.
+ */
+function parseChannelList(text: string): number[] {
+  const toChannel = (token: string): number => {
+    const [a, b] = token.trim().split('.');
+    if (b === undefined) return parseInt(a, 10);
+    const address = parseInt(b, 10);
+    return address >= 1 && address <= UNIVERSE_SIZE ? toAbsoluteChannel(parseInt(a, 10), address) : NaN;
+  };
+
+  const channels: number[] = [];
+  for (const part of text.split(',')) {
+    if (!part.trim()) continue;
+    const [from, to] = part.split('-');
+    const start = toChannel(from);
+    const end = to === undefined ? start : toChannel(to);
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 1 || end < start) continue;
+    for (let ch = start; ch <= end && channels.length < UNIVERSE_SIZE; ch++) {
+      if (!channels.includes(ch)) channels.push(ch);
+    }
+  }
+  return channels;
+}
@@ -0,0 +1,35 @@
+import React from 'react';
+import type { FadeInfo } from '../types';
+
+interface FadeListProps {
+  fades: FadeInfo[];
+  onComplete: (id: string) => void;
+  onCancel: (id: string) => void;
+}
+
+/**
+ * FadeList — Running fades in the sidebar, each of which can be snapped to
+ * its end or stopped where it is.
+ */
+export const FadeList: React.FC<FadeListProps> = ({ fades, onComplete, onCancel }) => {
+  if (fades.length === 0) return null;
+
+  return (
+    <div className="fade-list">
+      <label>Fades</label>
+      {fades.map((fade) => (
+        <div key={fade.id} className="fade-list-item" title={`${fade.channelCount} ch, ${fade.durationMs / 1000}s`}>
+          <span className="fade-list-label">{fade.label}</span>
+          <div className="fade-list-actions">
+            <button className="btn-icon" onClick={() => onComplete(fade.id)} title="Complete now">
+              ⏭
+            </button>
+            <button className="btn-icon" onClick={() => onCancel(fade.id)} title="Stop here">
+              ×
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
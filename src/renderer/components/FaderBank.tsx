@@ -1,38 +1,59 @@
 import React, { useState, useMemo, useCallback } from 'react';
 import { ChannelFader } from './ChannelFader';
+import { UNIVERSE_SIZE, toAbsoluteChannel } from '../utils/dmxAddress';
 
 const FADERS_PER_PAGE = 12;
 
 interface FaderBankProps {
   channels: number[];
+  universeCount: number;
   channelMap: Map<number, { fixtureName: string; channelName: string }>;
+  owners?: Record<number, string>; // Absolute channel → input source ID
+  inputNames?: Record<string, string>;
+  parked?: Record<number, 'parked' | 'locked'>; // Absolute channel → park state
+  finePairs?: Map<number, number>; // 16-bit coarse channel → fine channel
   onChannelChange: (channel: number, value: number) => void;
 }
 
 export const FaderBank: React.FC<FaderBankProps> = ({
   channels,
+  universeCount,
   channelMap,
+  owners = {},
+  inputNames = {},
+  parked = {},
+  finePairs,
   onChannelChange,
 }) => {
+  const [universe, setUniverse] = useState(1);
   const [page, setPage] = useState(0);
   const [isCollapsed, setIsCollapsed] = useState(true);
 
-  const totalPages = Math.ceil(512 / FADERS_PER_PAGE);
+  // Fall back to universe 1 if the selected universe was removed
+  const activeUniverse = Math.min(universe, universeCount);
+
+  const totalPages = Math.ceil(UNIVERSE_SIZE / FADERS_PER_PAGE);
   const startChannel = page * FADERS_PER_PAGE + 1;
-  const endChannel = Math.min(startChannel + FADERS_PER_PAGE - 1, 512);
+  const endChannel = Math.min(startChannel + FADERS_PER_PAGE - 1, UNIVERSE_SIZE);
 
   const faders = useMemo(() => {
-    const result: { channel: number; value: number; label?: string }[] = [];
-    for (let ch = startChannel; ch <= endChannel; ch++) {
+    const result: { channel: number; address: number; value: number; label?: string; owner?: string; parked?: 'parked' | 'locked'; fine?: { channel: number; value: number } }[] = [];
+    for (let address = startChannel; address <= endChannel; address++) {
+      const ch = toAbsoluteChannel(activeUniverse, address);
       const mapping = channelMap.get(ch);
+      const fineChannel = finePairs?.get(ch);
       result.push({
         channel: ch,
+        address,
         value: channels[ch - 1] || 0,
         label: mapping ? `${mapping.fixtureName} / ${mapping.channelName}` : undefined,
+        owner: owners[ch] ? inputNames[owners[ch]] || owners[ch] : undefined,
+        parked: parked[ch],
+        fine: fineChannel !== undefined ? { channel: fineChannel, value: channels[fineChannel - 1] || 0 } : undefined,
       });
     }
     return result;
-  }, [channels, startChannel, endChannel, channelMap]);
+  }, [channels, activeUniverse, startChannel, endChannel, channelMap, owners, inputNames, parked, finePairs]);
 
   const prevPage = useCallback(() => {
     setPage((p) => Math.max(0, p - 1));
@@ -49,7 +70,7 @@ export const FaderBank: React.FC<FaderBankProps> = ({
         onClick={() => setIsCollapsed(!isCollapsed)}
       >
         <span className={`collapsible-arrow ${!isCollapsed ? 'open' : ''}`}>&#9654;</span>
-        Raw Channels ({startChannel}–{endChannel})
+        Raw Channels ({universeCount > 1 ? `U${activeUniverse} ` : ''}{startChannel}–{endChannel})
       </button>
 
       {!isCollapsed && (
@@ -59,6 +80,19 @@ export const FaderBank: React.FC<FaderBankProps> = ({
               Channels {startChannel}–{endChannel}
             </h3>
             <div className="fader-bank-controls">
+              {universeCount > 1 && (
+                <select
+                  className="form-select fader-bank-universe"
+                  value={activeUniverse}
+                  onChange={(e) => setUniverse(parseInt(e.target.value, 10))}
+                >
+                  {Array.from({ length: universeCount }, (_, i) => (
+                    <option key={i + 1} value={i + 1}>
+                      Universe {i + 1}
+                    </option>
+                  ))}
+                </select>
+              )}
               <button className="btn-icon" onClick={prevPage} disabled={page === 0}>
                 ◀
               </button>
@@ -79,8 +113,12 @@ export const FaderBank: React.FC<FaderBankProps> = ({
               <ChannelFader
                 key={f.channel}
                 channel={f.channel}
+                address={f.address}
                 value={f.value}
                 label={f.label}
+                owner={f.owner}
+                parked={f.parked}
+                fine={f.fine}
                 onChange={onChannelChange}
               />
             ))}
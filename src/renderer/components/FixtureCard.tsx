@@ -4,6 +4,7 @@ import { VerticalSlider } from './VerticalSlider';
 import { MomentaryButton } from './MomentaryButton';
 import type { Fixture, FixtureChannel, FixtureProfile, ProfileMode, ProfileControl } from '../types';
 import { inferChannelRole } from '../types';
+import { MAX_16BIT, read16, split16 } from '../utils/fineChannels';
 
 // --- Static icon imports (Vite resolves these at build time) ---
 import iconSun from '../assets/icons/sun.svg';
@@ -289,6 +290,31 @@ const ProfileFixtureCard: React.FC<ProfileFixtureCardProps> = ({
     [colorWheelGroup, onChannelChange]
   );
 
+  // Level sliders run in 16-bit when the channel declares a fine partner
+  const sliderProps = useCallback(
+    (key: string, dmxChannel: number) => {
+      const fineKey = profile.channels[key]?.fine;
+      const fineDmx = fineKey ? channelKeysToDmx[fineKey] : undefined;
+      if (!fineDmx) {
+        return {
+          value: channels[dmxChannel - 1] || 0,
+          max: 255,
+          onChange: (v: number) => onChannelChange(dmxChannel, v),
+        };
+      }
+      return {
+        value: read16(channels, dmxChannel, fineDmx),
+        max: MAX_16BIT,
+        onChange: (v: number) => {
+          const { coarse, fine } = split16(v);
+          onChannelChange(dmxChannel, coarse);
+          onChannelChange(fineDmx, fine);
+        },
+      };
+    },
+    [profile.channels, channelKeysToDmx, channels, onChannelChange]
+  );
+
   // Get the dimmer channel(s) — role === 'dimmer', excluding any consumed by ColorWheel
   const dimmerEntries = useMemo(() => {
     return Object.entries(profile.channels)
@@ -396,10 +422,8 @@ const ProfileFixtureCard: React.FC<ProfileFixtureCardProps> = ({
           <VerticalSlider
             key={key}
             label={def.label}
-            value={channels[dmxChannel - 1] || 0}
             min={0}
-            max={255}
-            onChange={(v) => onChannelChange(dmxChannel, v)}
+            {...sliderProps(key, dmxChannel)}
             showPercentage
           />
         ))}
@@ -454,10 +478,8 @@ const ProfileFixtureCard: React.FC<ProfileFixtureCardProps> = ({
             <VerticalSlider
               key={key}
               label={control.label}
-              value={channels[dmxChannel - 1] || 0}
               min={0}
-              max={255}
-              onChange={(v) => onChannelChange(dmxChannel, v)}
+              {...sliderProps(key, dmxChannel)}
               showPercentage
             />
           );
@@ -1,5 +1,6 @@
 import React, { useState, useCallback } from 'react';
-import type { Fixture, FixtureChannel, ColorMode, FixtureProfile } from '../types';
+import type { Fixture, FixtureChannel, ColorMode, FixtureProfile, OutputCurve } from '../types';
+import { UNIVERSE_SIZE, toAbsoluteChannel, splitAddress, formatAddress } from '../utils/dmxAddress';
 
 interface BundledProfile {
   id: string;
@@ -9,6 +10,7 @@ interface BundledProfile {
 interface FixtureEditorProps {
   fixture?: Fixture; // If provided, editing; otherwise creating
   bundledProfiles?: BundledProfile[];
+  universeCount?: number;
   onSave: (name: string, type: string, channels: FixtureChannel[], colorMode: ColorMode) => void;
   onSaveFromProfile?: (name: string, profileId: string, startAddress: number) => void;
   onUpdate?: (id: string, patch: Partial<Fixture>) => void;
@@ -18,6 +20,16 @@ interface FixtureEditorProps {
 
 type EditorMode = 'basic' | 'profile';
 
+type ChannelPatch = Pick<FixtureChannel, 'min' | 'max' | 'invert' | 'curve'>;
+
+const OUTPUT_CURVES: { value: OutputCurve; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'square-law', label: 'Square law' },
+  { value: 'inverse-square', label: 'Inverse square' },
+  { value: 's-curve', label: 'S-curve' },
+  { value: 'switch', label: 'Switch (on/off)' },
+];
+
 const FIXTURE_TYPES = ['RGB Fixture', 'HSB Fixture', 'RGBW Fixture', 'Dimmer', 'Moving Head', 'Custom'];
 
 const DEFAULT_RGB_CHANNELS: FixtureChannel[] = [
@@ -35,10 +47,12 @@ const DEFAULT_HSB_CHANNELS: FixtureChannel[] = [
 /**
  * FixtureEditor — Modal dialog for creating/editing fixture profiles.
  * Supports both basic (manual channel) and profile-based (bundled JSON) creation.
+ * Addresses are edited within a single universe and saved as absolute channels.
  */
 export const FixtureEditor: React.FC<FixtureEditorProps> = ({
   fixture,
   bundledProfiles = [],
+  universeCount = 1,
   onSave,
   onSaveFromProfile,
   onUpdate,
@@ -53,15 +67,22 @@ export const FixtureEditor: React.FC<FixtureEditorProps> = ({
   const [name, setName] = useState(fixture?.name || '');
   const [type, setType] = useState(fixture?.type || 'RGB Fixture');
   const [colorMode, setColorMode] = useState<ColorMode>(fixture?.colorMode || 'rgb');
+  const [universe, setUniverse] = useState<number>(
+    splitAddress(fixture?.startAddress || fixture?.channels[0]?.dmxChannel || 1).universe
+  );
+  // Channel addresses are held relative to the selected universe while editing
   const [channels, setChannels] = useState<FixtureChannel[]>(
-    fixture?.channels || DEFAULT_RGB_CHANNELS.map((ch) => ({ ...ch }))
+    fixture?.channels.map((ch) => ({ ...ch, dmxChannel: splitAddress(ch.dmxChannel).address })) ||
+      DEFAULT_RGB_CHANNELS.map((ch) => ({ ...ch }))
   );
 
   // Profile mode state
   const [selectedProfileId, setSelectedProfileId] = useState<string>(
     bundledProfiles.length > 0 ? bundledProfiles[0].id : ''
   );
-  const [startAddress, setStartAddress] = useState<number>(fixture?.startAddress || 1);
+  const [startAddress, setStartAddress] = useState<number>(
+    splitAddress(fixture?.startAddress || 1).address
+  );
 
   const selectedProfile = bundledProfiles.find((p) => p.id === selectedProfileId)?.profile;
 
@@ -83,13 +104,25 @@ export const FixtureEditor: React.FC<FixtureEditorProps> = ({
       if (field === 'name') {
         updated[index] = { ...updated[index], name: value as string };
       } else {
-        updated[index] = { ...updated[index], dmxChannel: value as number };
+        updated[index] = {
+          ...updated[index],
+          dmxChannel: Math.max(1, Math.min(UNIVERSE_SIZE, value as number)),
+        };
       }
       setChannels(updated);
     },
     [channels]
   );
 
+  const updateChannelPatch = useCallback(
+    (index: number, patch: ChannelPatch) => {
+      const updated = [...channels];
+      updated[index] = { ...updated[index], ...patch };
+      setChannels(updated);
+    },
+    [channels]
+  );
+
   const handleColorModeChange = useCallback(
     (newMode: ColorMode) => {
       setColorMode(newMode);
@@ -113,22 +146,30 @@ export const FixtureEditor: React.FC<FixtureEditorProps> = ({
     if (editorMode === 'profile' && !fixture) {
       // Creating a new profile fixture
       if (!selectedProfileId || !onSaveFromProfile) return;
-      onSaveFromProfile(name, selectedProfileId, startAddress);
+      onSaveFromProfile(name, selectedProfileId, toAbsoluteChannel(universe, startAddress));
       onClose();
       return;
     }
 
-    if (editorMode === 'basic') {
+    const absoluteChannels = channels.map((ch) => ({
+      ...ch,
+      dmxChannel: toAbsoluteChannel(universe, ch.dmxChannel),
+    }));
+
+    if (fixture?.profile && onUpdate) {
+      // Profile layout is fixed — only the output patch is editable
+      onUpdate(fixture.id, { channels: absoluteChannels });
+    } else if (editorMode === 'basic') {
       if (channels.length === 0) return;
       if (fixture && onUpdate) {
-        onUpdate(fixture.id, { name, type, channels, colorMode });
+        onUpdate(fixture.id, { name, type, channels: absoluteChannels, colorMode });
       } else {
-        onSave(name, type, channels, colorMode);
+        onSave(name, type, absoluteChannels, colorMode);
       }
     }
 
     onClose();
-  }, [name, type, channels, colorMode, fixture, editorMode, selectedProfileId, startAddress, onSave, onSaveFromProfile, onUpdate, onClose]);
+  }, [name, type, channels, colorMode, universe, fixture, editorMode, selectedProfileId, startAddress, onSave, onSaveFromProfile, onUpdate, onClose]);
 
   const handleDelete = useCallback(() => {
     if (fixture && onDelete) {
@@ -182,6 +223,24 @@ export const FixtureEditor: React.FC<FixtureEditorProps> = ({
           />
         </div>
 
+        {/* Universe (only when more than one is configured) */}
+        {universeCount > 1 && !fixture?.profile && (
+          <div className="form-group">
+            <label>Universe</label>
+            <select
+              className="form-select"
+              value={universe}
+              onChange={(e) => setUniverse(parseInt(e.target.value, 10))}
+            >
+              {Array.from({ length: universeCount }, (_, i) => (
+                <option key={i + 1} value={i + 1}>
+                  Universe {i + 1}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {/* ── Profile Mode ── */}
         {editorMode === 'profile' && !fixture && (
           <>
@@ -208,12 +267,16 @@ export const FixtureEditor: React.FC<FixtureEditorProps> = ({
                     type="number"
                     className="form-input"
                     value={startAddress}
-                    onChange={(e) => setStartAddress(Math.max(1, Math.min(512, parseInt(e.target.value, 10) || 1)))}
+                    onChange={(e) =>
+                      setStartAddress(
+                        Math.max(1, Math.min(UNIVERSE_SIZE - selectedProfile.channelCount + 1, parseInt(e.target.value, 10) || 1))
+                      )
+                    }
                     min={1}
-                    max={512 - selectedProfile.channelCount + 1}
+                    max={UNIVERSE_SIZE - selectedProfile.channelCount + 1}
                   />
                   <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
-                    Uses {selectedProfile.channelCount} channels (DMX {startAddress}–{startAddress + selectedProfile.channelCount - 1})
+                    Uses {selectedProfile.channelCount} channels (DMX {universe}.{startAddress}–{universe}.{startAddress + selectedProfile.channelCount - 1})
                   </small>
                 </div>
 
@@ -225,7 +288,7 @@ export const FixtureEditor: React.FC<FixtureEditorProps> = ({
                       .sort(([a], [b]) => a.localeCompare(b))
                       .map(([key, def], index) => (
                         <div key={key} className="profile-preview-row">
-                          <span className="profile-preview-addr">DMX {startAddress + index}</span>
+                          <span className="profile-preview-addr">DMX {universe}.{startAddress + index}</span>
                           <span className="profile-preview-label">{def.label}</span>
                           <span className="profile-preview-role">{def.role}</span>
                         </div>
@@ -311,7 +374,7 @@ export const FixtureEditor: React.FC<FixtureEditorProps> = ({
                       updateChannel(index, 'dmxChannel', parseInt(e.target.value, 10) || 1)
                     }
                     min={1}
-                    max={512}
+                    max={UNIVERSE_SIZE}
                     placeholder="DMX #"
                   />
                   <button
@@ -340,7 +403,7 @@ export const FixtureEditor: React.FC<FixtureEditorProps> = ({
               </div>
               <div className="profile-preview-row">
                 <span className="profile-preview-label">
-                  Channels: DMX {fixture.startAddress}–{(fixture.startAddress || 1) + fixture.profile.channelCount - 1}
+                  Channels: DMX {formatAddress(fixture.startAddress || 1)}–{formatAddress((fixture.startAddress || 1) + fixture.profile.channelCount - 1)}
                 </span>
               </div>
               <div className="profile-preview-row">
@@ -350,6 +413,65 @@ export const FixtureEditor: React.FC<FixtureEditorProps> = ({
           </div>
         )}
 
+        {/* Output patch — limits, inversion and curve per channel */}
+        {(editorMode === 'basic' || fixture?.profile) && channels.length > 0 && (
+          <div className="form-group">
+            <label>Output Patch</label>
+            {channels.map((ch, index) => (
+              <div key={index} className="channel-row channel-patch-row">
+                <span className="channel-patch-name" title={ch.name}>
+                  {ch.name || `CH ${ch.dmxChannel}`}
+                </span>
+                <input
+                  type="number"
+                  className="form-input channel-number-input"
+                  value={ch.min ?? 0}
+                  onChange={(e) =>
+                    updateChannelPatch(index, { min: Math.max(0, Math.min(255, parseInt(e.target.value, 10) || 0)) })
+                  }
+                  min={0}
+                  max={255}
+                  title="Minimum output (preheat)"
+                />
+                <input
+                  type="number"
+                  className="form-input channel-number-input"
+                  value={ch.max ?? 255}
+                  onChange={(e) =>
+                    updateChannelPatch(index, { max: Math.max(0, Math.min(255, parseInt(e.target.value, 10) || 0)) })
+                  }
+                  min={0}
+                  max={255}
+                  title="Maximum output"
+                />
+                <select
+                  className="form-select"
+                  value={ch.curve ?? 'linear'}
+                  onChange={(e) => updateChannelPatch(index, { curve: e.target.value as OutputCurve })}
+                  title="Response curve"
+                >
+                  {OUTPUT_CURVES.map((c) => (
+                    <option key={c.value} value={c.value}>
+                      {c.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  className={`btn btn-sm ${ch.invert ? 'btn-primary' : 'btn-secondary'}`}
+                  onClick={() => updateChannelPatch(index, { invert: !ch.invert })}
+                  type="button"
+                  title="Invert output"
+                >
+                  Invert
+                </button>
+              </div>
+            ))}
+            <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+              Min / max, curve and inversion apply at the output only — presets and faders keep working in 0–255
+            </small>
+          </div>
+        )}
+
         <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end', marginTop: 16 }}>
           {fixture && onDelete && (
             <button className="btn btn-danger" onClick={handleDelete}>
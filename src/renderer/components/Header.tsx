@@ -2,16 +2,27 @@ import React, { useEffect, useState } from 'react';
 import { StatusBar } from './StatusBar';
 import type { DMXStatus } from '../types';
 
-export type ViewMode = 'canvas' | 'fixtures';
+export type ViewMode = 'canvas' | 'fixtures' | 'faders';
 
 interface HeaderProps {
   dmxStatus: DMXStatus;
   isSocketConnected: boolean;
+  blackoutActive: boolean;
   activeView: ViewMode;
   onViewChange: (view: ViewMode) => void;
+  onOpenOutputs: () => void;
+  onOpenInputs: () => void;
+  onOpenPark: () => void;
+  parkedCount: number;
+  onOpenEffects: () => void;
+  runningEffects: number;
+  onOpenChases: () => void;
+  onOpenCues: () => void;
+  onOpenTimeline: () => void;
+  onOpenSchedules: () => void;
 }
 
-export const Header: React.FC<HeaderProps> = ({ dmxStatus, isSocketConnected, activeView, onViewChange }) => {
+export const Header: React.FC<HeaderProps> = ({ dmxStatus, isSocketConnected, blackoutActive, activeView, onViewChange, onOpenOutputs, onOpenInputs, onOpenPark, parkedCount, onOpenEffects, runningEffects, onOpenChases, onOpenCues, onOpenTimeline, onOpenSchedules }) => {
   const [version, setVersion] = useState<string>('');
 
   useEffect(() => {
@@ -63,10 +74,49 @@ export const Header: React.FC<HeaderProps> = ({ dmxStatus, isSocketConnected, ac
             </svg>
             Fixtures &amp; Channels
           </button>
+          <button
+            className={`view-tab ${activeView === 'faders' ? 'active' : ''}`}
+            onClick={() => onViewChange('faders')}
+          >
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <line x1="6" y1="3" x2="6" y2="21" />
+              <line x1="12" y1="3" x2="12" y2="21" />
+              <line x1="18" y1="3" x2="18" y2="21" />
+              <rect x="3" y="13" width="6" height="3" rx="1" />
+              <rect x="9" y="6" width="6" height="3" rx="1" />
+              <rect x="15" y="16" width="6" height="3" rx="1" />
+            </svg>
+            Faders
+          </button>
         </div>
       </div>
       <div className="status-area">
+        {blackoutActive && <span className="blackout-badge">Blackout</span>}
         <StatusBar dmxStatus={dmxStatus} isSocketConnected={isSocketConnected} />
+        <button className="btn btn-secondary btn-sm" onClick={onOpenSchedules} title="Run looks at set times and on idle">
+          Schedule
+        </button>
+        <button className="btn btn-secondary btn-sm" onClick={onOpenTimeline} title="Program and play the show timeline">
+          Timeline
+        </button>
+        <button className="btn btn-secondary btn-sm" onClick={onOpenCues} title="Record and edit the cue list">
+          Cues
+        </button>
+        <button className="btn btn-secondary btn-sm" onClick={onOpenChases} title="Build and run step chases">
+          Chases
+        </button>
+        <button className="btn btn-secondary btn-sm" onClick={onOpenEffects} title="Build and run effects">
+          Effects{runningEffects > 0 ? ` (${runningEffects})` : ''}
+        </button>
+        <button className="btn btn-secondary btn-sm" onClick={onOpenPark} title="Park or lock channels">
+          Park{parkedCount > 0 ? ` (${parkedCount})` : ''}
+        </button>
+        <button className="btn btn-secondary btn-sm" onClick={onOpenInputs} title="Configure network DMX inputs">
+          Inputs
+        </button>
+        <button className="btn btn-secondary btn-sm" onClick={onOpenOutputs} title="Configure DMX outputs">
+          Outputs
+        </button>
       </div>
     </header>
   );
@@ -0,0 +1,402 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import type { InputSource, MergePolicy, EnttecConfig, EnttecInputFrame, OSCConfig } from '../types';
+
+type InputSourcePatch = Partial<Omit<InputSource, 'id' | 'active' | 'sender' | 'lastSeen' | 'effectivePriority'>>;
+
+interface InputSettingsProps {
+  inputSources: InputSource[];
+  owners: Record<number, string>;
+  universeCount: number;
+  onCreate: (source: InputSourcePatch) => void;
+  onUpdate: (id: string, patch: InputSourcePatch) => void;
+  onDelete: (id: string) => void;
+  enttecConfig: EnttecConfig | null;
+  enttecFrame: EnttecInputFrame | null;
+  onUpdateEnttec: (patch: Partial<Pick<EnttecConfig, 'receiveMode'>>) => void;
+  onCaptureEnttec: (name: string, universe: number) => void;
+  oscConfig: OSCConfig | null;
+  onUpdateOSC: (patch: Partial<OSCConfig>) => void;
+  onClose: () => void;
+}
+
+const POLICIES: { value: MergePolicy; label: string }[] = [
+  { value: 'htp', label: 'HTP' },
+  { value: 'ltp', label: 'LTP' },
+  { value: 'priority', label: 'Priority' },
+];
+
+const RECEIVE_MODES: { value: EnttecConfig['receiveMode']; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'always', label: 'Every Frame' },
+  { value: 'change', label: 'On Change' },
+];
+
+/**
+ * InputSettings — Modal dialog for network DMX inputs (sACN/Art-Net receive).
+ * Each source merges into a local universe with its own policy; the number of
+ * channels it currently owns is shown live. Also hosts the Enttec USB Pro
+ * receive mode, whose frames can be captured as a preset, and the OSC
+ * receiver that drives the playback.
+ */
+export const InputSettings: React.FC<InputSettingsProps> = ({
+  inputSources,
+  owners,
+  universeCount,
+  onCreate,
+  onUpdate,
+  onDelete,
+  enttecConfig,
+  enttecFrame,
+  onUpdateEnttec,
+  onCaptureEnttec,
+  oscConfig,
+  onUpdateOSC,
+  onClose,
+}) => {
+  // New source form state
+  const [name, setName] = useState('');
+  const [protocol, setProtocol] = useState<InputSource['protocol']>('sacn');
+  const [sourceUniverse, setSourceUniverse] = useState(1);
+  const [universe, setUniverse] = useState(1);
+  const [policy, setPolicy] = useState<MergePolicy>('htp');
+  const [priority, setPriority] = useState(100);
+
+  // Enttec capture form state
+  const [captureName, setCaptureName] = useState('');
+  const [captureUniverse, setCaptureUniverse] = useState(1);
+
+  // OSC form state
+  const [oscPort, setOSCPort] = useState(oscConfig?.port ?? 8000);
+
+  useEffect(() => {
+    if (oscConfig) setOSCPort(oscConfig.port);
+  }, [oscConfig]);
+
+  const ownedCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const id of Object.values(owners)) {
+      counts[id] = (counts[id] || 0) + 1;
+    }
+    return counts;
+  }, [owners]);
+
+  const handleProtocolChange = useCallback((next: InputSource['protocol']) => {
+    setProtocol(next);
+    setSourceUniverse(next === 'sacn' ? 1 : 0);
+  }, []);
+
+  const handleAdd = useCallback(() => {
+    onCreate({ name: name.trim(), protocol, sourceUniverse, universe, policy, priority });
+    setName('');
+  }, [name, protocol, sourceUniverse, universe, policy, priority, onCreate]);
+
+  const handleCapture = useCallback(() => {
+    onCaptureEnttec(captureName.trim(), captureUniverse);
+    setCaptureName('');
+  }, [captureName, captureUniverse, onCaptureEnttec]);
+
+  const receiving = enttecConfig !== null && enttecConfig.receiveMode !== 'off';
+  const hasFrame = receiving && enttecFrame?.receivedAt != null;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>DMX Inputs</h2>
+          <button className="modal-close" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        {/* ── Sources ── */}
+        <div className="output-section">
+          <h3>Sources</h3>
+          {inputSources.length === 0 ? (
+            <div className="empty-state">
+              <p>No input sources</p>
+            </div>
+          ) : (
+            <div className="fixture-list">
+              {inputSources.map((source) => (
+                <div key={source.id} className="fixture-list-item output-route-item">
+                  <span className={`status-dot ${source.active ? 'connected' : 'disconnected'}`} />
+                  <div className="fixture-info">
+                    <span className="fixture-name">{source.name}</span>
+                    <span className="fixture-channels">
+                      {source.protocol === 'sacn' ? `sACN ${source.sourceUniverse}` : `Art-Net ${source.sourceUniverse}`}
+                      {' → U'}{source.universe}
+                      {source.active
+                        ? ` — ${source.sender}, priority ${source.effectivePriority}, owns ${ownedCounts[source.id] || 0} ch`
+                        : ' — idle'}
+                    </span>
+                  </div>
+                  <div className="editor-mode-selector">
+                    {POLICIES.map((p) => (
+                      <button
+                        key={p.value}
+                        className={`btn btn-sm ${source.policy === p.value ? 'btn-primary' : 'btn-secondary'}`}
+                        onClick={() => onUpdate(source.id, { policy: p.value })}
+                        type="button"
+                      >
+                        {p.label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="fixture-actions">
+                    <button
+                      className={`btn btn-sm ${source.enabled ? 'btn-primary' : 'btn-secondary'}`}
+                      onClick={() => onUpdate(source.id, { enabled: !source.enabled })}
+                    >
+                      {source.enabled ? 'On' : 'Off'}
+                    </button>
+                    <button className="btn btn-danger btn-sm" onClick={() => onDelete(source.id)}>
+                      ×
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* ── Add Source ── */}
+        <div className="output-section">
+          <h3>Add Source</h3>
+
+          <div className="form-group">
+            <label>Name</label>
+            <input
+              type="text"
+              className="form-input"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Visiting LD console"
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Protocol</label>
+            <div className="editor-mode-selector">
+              <button
+                className={`btn btn-sm ${protocol === 'sacn' ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => handleProtocolChange('sacn')}
+                type="button"
+              >
+                sACN
+              </button>
+              <button
+                className={`btn btn-sm ${protocol === 'artnet' ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => handleProtocolChange('artnet')}
+                type="button"
+              >
+                Art-Net
+              </button>
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label>{protocol === 'sacn' ? 'sACN Universe' : 'Art-Net Port-Address'} → Local Universe</label>
+            <div className="output-address-row">
+              <input
+                type="number"
+                className="form-input"
+                value={sourceUniverse}
+                onChange={(e) => {
+                  const max = protocol === 'sacn' ? 63999 : 32767;
+                  const min = protocol === 'sacn' ? 1 : 0;
+                  setSourceUniverse(Math.max(min, Math.min(max, parseInt(e.target.value, 10) || min)));
+                }}
+                min={protocol === 'sacn' ? 1 : 0}
+                max={protocol === 'sacn' ? 63999 : 32767}
+              />
+              <select
+                className="form-select"
+                value={universe}
+                onChange={(e) => setUniverse(parseInt(e.target.value, 10))}
+              >
+                {Array.from({ length: universeCount }, (_, i) => (
+                  <option key={i + 1} value={i + 1}>
+                    Universe {i + 1}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label>Merge Policy</label>
+            <div className="editor-mode-selector">
+              {POLICIES.map((p) => (
+                <button
+                  key={p.value}
+                  className={`btn btn-sm ${policy === p.value ? 'btn-primary' : 'btn-secondary'}`}
+                  onClick={() => setPolicy(p.value)}
+                  type="button"
+                >
+                  {p.label}
+                </button>
+              ))}
+            </div>
+            <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+              {policy === 'htp' && 'Highest value between this source and the local programmer wins'}
+              {policy === 'ltp' && 'Whichever side changed a channel most recently wins'}
+              {policy === 'priority' &&
+                (protocol === 'sacn'
+                  ? 'Takes over the universe when the sender’s sACN priority is above 100'
+                  : 'Takes over the universe when the priority below is above 100')}
+            </small>
+          </div>
+
+          {protocol === 'artnet' && policy === 'priority' && (
+            <div className="form-group">
+              <label>Priority</label>
+              <input
+                type="number"
+                className="form-input"
+                value={priority}
+                onChange={(e) => setPriority(Math.max(0, Math.min(200, parseInt(e.target.value, 10) || 0)))}
+                min={0}
+                max={200}
+              />
+            </div>
+          )}
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+            <button className="btn btn-primary btn-sm" onClick={handleAdd}>
+              Add Source
+            </button>
+          </div>
+        </div>
+
+        {/* ── Enttec USB Pro Receive ── */}
+        {enttecConfig && (
+          <div className="output-section">
+            <h3>Enttec USB Pro Receive</h3>
+
+            <div className="form-group">
+              <label>Receive Mode</label>
+              <div className="editor-mode-selector">
+                {RECEIVE_MODES.map((m) => (
+                  <button
+                    key={m.value}
+                    className={`btn btn-sm ${enttecConfig.receiveMode === m.value ? 'btn-primary' : 'btn-secondary'}`}
+                    onClick={() => onUpdateEnttec({ receiveMode: m.value })}
+                    type="button"
+                  >
+                    {m.label}
+                  </button>
+                ))}
+              </div>
+              <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+                The widget has one DMX port — output to it pauses while receiving
+              </small>
+            </div>
+
+            {receiving && (
+              <>
+                <div className="enttec-input-grid">
+                  {(enttecFrame?.channels ?? []).map((value, i) => (
+                    <span
+                      key={i}
+                      className="enttec-input-cell"
+                      style={{ opacity: 0.1 + (value / 255) * 0.9 }}
+                      title={`CH ${i + 1}: ${value}`}
+                    />
+                  ))}
+                </div>
+                <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+                  {hasFrame
+                    ? `Last frame ${new Date(enttecFrame!.receivedAt!).toLocaleTimeString()}`
+                    : 'Waiting for DMX…'}
+                </small>
+
+                <div className="form-group" style={{ marginTop: 12 }}>
+                  <label>Capture as Preset</label>
+                  <div className="output-address-row">
+                    <input
+                      type="text"
+                      className="form-input"
+                      value={captureName}
+                      onChange={(e) => setCaptureName(e.target.value)}
+                      placeholder="Captured Look"
+                    />
+                    <select
+                      className="form-select"
+                      value={captureUniverse}
+                      onChange={(e) => setCaptureUniverse(parseInt(e.target.value, 10))}
+                    >
+                      {Array.from({ length: universeCount }, (_, i) => (
+                        <option key={i + 1} value={i + 1}>
+                          Universe {i + 1}
+                        </option>
+                      ))}
+                    </select>
+                    <button className="btn btn-primary btn-sm" onClick={handleCapture} disabled={!hasFrame}>
+                      Capture
+                    </button>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* ── OSC ── */}
+        <div className="output-section">
+          <div className="output-section-header">
+            <h3>OSC</h3>
+            <div className="editor-mode-selector">
+              <button
+                className={`btn btn-sm ${oscConfig?.enabled ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => onUpdateOSC({ enabled: true })}
+                type="button"
+                disabled={!oscConfig}
+              >
+                On
+              </button>
+              <button
+                className={`btn btn-sm ${oscConfig && !oscConfig.enabled ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => onUpdateOSC({ enabled: false })}
+                type="button"
+                disabled={!oscConfig}
+              >
+                Off
+              </button>
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label>UDP Port</label>
+            <div className="output-address-row">
+              <input
+                type="number"
+                className="form-input"
+                value={oscPort}
+                onChange={(e) => setOSCPort(Math.max(1024, Math.min(65535, parseInt(e.target.value, 10) || 1024)))}
+                min={1024}
+                max={65535}
+              />
+              <button
+                className="btn btn-primary btn-sm"
+                onClick={() => onUpdateOSC({ port: oscPort })}
+                disabled={!oscConfig || oscPort === oscConfig.port}
+              >
+                Apply
+              </button>
+            </div>
+            <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+              /playback/crossfader (0–1), /playback/go, /playback/back, /playback/pause, /playback/resume,
+              /playback/reverse
+            </small>
+          </div>
+        </div>
+
+        <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end', marginTop: 16 }}>
+          <button className="btn btn-secondary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
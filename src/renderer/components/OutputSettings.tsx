@@ -0,0 +1,631 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type {
+  ArtNetConfig,
+  ArtNetNode,
+  SACNConfig,
+  OutputStatus,
+  OutputRoutes,
+  EnttecWidgetInfo,
+  SerialPortCandidate,
+} from '../types';
+import { MAX_UNIVERSES } from '../utils/dmxAddress';
+
+// Frame intervals (ms) offered for the DMX refresh rate
+const REFRESH_INTERVALS = [23, 25, 33, 40, 50];
+
+interface OutputSettingsProps {
+  outputs: OutputStatus[];
+  universeCount: number;
+  onSetUniverseCount: (count: number) => void;
+  routes: OutputRoutes;
+  onSetRoute: (universe: number, outputIds: string[]) => void;
+  refreshInterval: number;
+  onSetRefreshInterval: (interval: number) => void;
+  enttecPorts: SerialPortCandidate[];
+  enttecAutoDetect: boolean;
+  onScanEnttecPorts: () => void;
+  onSelectEnttecPort: (path: string | null) => void;
+  enttecWidget: EnttecWidgetInfo | null;
+  onSetEnttecWidgetParams: (patch: Partial<Pick<EnttecWidgetInfo, 'breakTime' | 'mabTime' | 'outputRate'>>) => void;
+  artnetConfig: ArtNetConfig | null;
+  artnetNodes: ArtNetNode[];
+  sacnConfig: SACNConfig | null;
+  onUpdateArtNet: (patch: Partial<ArtNetConfig>) => void;
+  onPollArtNet: () => void;
+  onUpdateSACN: (patch: Partial<Omit<SACNConfig, 'cid'>>) => void;
+  onClose: () => void;
+}
+
+/**
+ * OutputSettings — Modal dialog for output routing, Enttec widget timing and
+ * network DMX outputs. Lists Art-Net nodes discovered via ArtPoll so one can
+ * be picked as the target.
+ */
+export const OutputSettings: React.FC<OutputSettingsProps> = ({
+  outputs,
+  universeCount,
+  onSetUniverseCount,
+  routes,
+  onSetRoute,
+  refreshInterval,
+  onSetRefreshInterval,
+  enttecPorts,
+  enttecAutoDetect,
+  onScanEnttecPorts,
+  onSelectEnttecPort,
+  enttecWidget,
+  onSetEnttecWidgetParams,
+  artnetConfig,
+  artnetNodes,
+  sacnConfig,
+  onUpdateArtNet,
+  onPollArtNet,
+  onUpdateSACN,
+  onClose,
+}) => {
+  // Enttec widget form state
+  const [breakTime, setBreakTime] = useState(enttecWidget?.breakTime ?? 96);
+  const [mabTime, setMabTime] = useState(enttecWidget?.mabTime ?? 11);
+  const [outputRate, setOutputRate] = useState(enttecWidget?.outputRate ?? 40);
+
+  // Art-Net form state
+  const [host, setHost] = useState(artnetConfig?.host || '');
+  const [net, setNet] = useState(artnetConfig?.net ?? 0);
+  const [subnet, setSubnet] = useState(artnetConfig?.subnet ?? 0);
+  const [universe, setUniverse] = useState(artnetConfig?.universe ?? 0);
+
+  // sACN form state
+  const [sourceName, setSourceName] = useState(sacnConfig?.sourceName || '');
+  const [sacnUniverse, setSACNUniverse] = useState(sacnConfig?.universe ?? 1);
+  const [priority, setPriority] = useState(sacnConfig?.priority ?? 100);
+  const [universePriorities, setUniversePriorities] = useState(sacnConfig?.universePriorities ?? {});
+  const [sacnMode, setSACNMode] = useState<SACNConfig['mode']>(sacnConfig?.mode || 'multicast');
+  const [unicastHosts, setUnicastHosts] = useState(sacnConfig?.unicastHosts.join(', ') || '');
+
+  // Keep the forms in sync when another client changes the config
+  useEffect(() => {
+    if (enttecWidget?.breakTime == null || enttecWidget.mabTime == null || enttecWidget.outputRate == null) return;
+    setBreakTime(enttecWidget.breakTime);
+    setMabTime(enttecWidget.mabTime);
+    setOutputRate(enttecWidget.outputRate);
+  }, [enttecWidget]);
+
+  useEffect(() => {
+    if (!artnetConfig) return;
+    setHost(artnetConfig.host);
+    setNet(artnetConfig.net);
+    setSubnet(artnetConfig.subnet);
+    setUniverse(artnetConfig.universe);
+  }, [artnetConfig]);
+
+  useEffect(() => {
+    if (!sacnConfig) return;
+    setSourceName(sacnConfig.sourceName);
+    setSACNUniverse(sacnConfig.universe);
+    setPriority(sacnConfig.priority);
+    setUniversePriorities(sacnConfig.universePriorities);
+    setSACNMode(sacnConfig.mode);
+    setUnicastHosts(sacnConfig.unicastHosts.join(', '));
+  }, [sacnConfig]);
+
+  const parsedHosts = unicastHosts
+    .split(',')
+    .map((h) => h.trim())
+    .filter((h) => h.length > 0);
+
+  const hasWidgetParams = enttecWidget?.breakTime != null;
+
+  const isEnttecDirty =
+    hasWidgetParams &&
+    (breakTime !== enttecWidget!.breakTime ||
+      mabTime !== enttecWidget!.mabTime ||
+      outputRate !== enttecWidget!.outputRate);
+
+  const isArtNetDirty =
+    !!artnetConfig &&
+    (host.trim() !== artnetConfig.host ||
+      net !== artnetConfig.net ||
+      subnet !== artnetConfig.subnet ||
+      universe !== artnetConfig.universe);
+
+  const isSACNDirty =
+    !!sacnConfig &&
+    (sourceName.trim() !== sacnConfig.sourceName ||
+      sacnUniverse !== sacnConfig.universe ||
+      priority !== sacnConfig.priority ||
+      JSON.stringify(universePriorities) !== JSON.stringify(sacnConfig.universePriorities) ||
+      sacnMode !== sacnConfig.mode ||
+      parsedHosts.join(',') !== sacnConfig.unicastHosts.join(','));
+
+  const handleApplyEnttec = useCallback(() => {
+    onSetEnttecWidgetParams({ breakTime, mabTime, outputRate });
+  }, [breakTime, mabTime, outputRate, onSetEnttecWidgetParams]);
+
+  const handleApplyArtNet = useCallback(() => {
+    if (!host.trim()) return;
+    onUpdateArtNet({ host: host.trim(), net, subnet, universe });
+  }, [host, net, subnet, universe, onUpdateArtNet]);
+
+  const handleApplySACN = useCallback(() => {
+    if (sacnMode === 'unicast' && parsedHosts.length === 0) return;
+    onUpdateSACN({
+      sourceName: sourceName.trim(),
+      universe: sacnUniverse,
+      priority,
+      universePriorities,
+      mode: sacnMode,
+      unicastHosts: parsedHosts,
+    });
+  }, [sourceName, sacnUniverse, priority, universePriorities, sacnMode, parsedHosts, onUpdateSACN]);
+
+  const handleUniversePriority = useCallback((universeNumber: number, value: string) => {
+    setUniversePriorities((current) => {
+      const { [universeNumber]: _previous, ...rest } = current;
+      const parsed = parseInt(value, 10);
+      return Number.isFinite(parsed) ? { ...rest, [universeNumber]: Math.max(0, Math.min(200, parsed)) } : rest;
+    });
+  }, []);
+
+  const handleToggleRoute = useCallback(
+    (universeNumber: number, outputId: string) => {
+      const routed = routes[universeNumber] || [];
+      const next = routed.includes(outputId)
+        ? routed.filter((id) => id !== outputId)
+        : [...routed, outputId];
+      onSetRoute(universeNumber, next);
+    },
+    [routes, onSetRoute]
+  );
+
+  const handleUseNode = useCallback((node: ArtNetNode) => {
+    setHost(node.ip);
+    setNet(node.net);
+    setSubnet(node.subnet);
+    setUniverse(node.universes.length > 0 ? node.universes[0] : 0);
+  }, []);
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>DMX Outputs</h2>
+          <button className="modal-close" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        {/* ── Routing ── */}
+        <div className="output-section">
+          <div className="output-section-header">
+            <h3>Routing</h3>
+            <div className="output-universe-count">
+              <label>Universes</label>
+              <select
+                className="form-select"
+                value={universeCount}
+                onChange={(e) => onSetUniverseCount(parseInt(e.target.value, 10))}
+              >
+                {Array.from({ length: MAX_UNIVERSES }, (_, i) => (
+                  <option key={i + 1} value={i + 1}>
+                    {i + 1}
+                  </option>
+                ))}
+              </select>
+              <label>Refresh</label>
+              <select
+                className="form-select"
+                value={refreshInterval}
+                onChange={(e) => onSetRefreshInterval(parseInt(e.target.value, 10))}
+              >
+                {[...new Set([...REFRESH_INTERVALS, refreshInterval])]
+                  .sort((a, b) => a - b)
+                  .map((ms) => (
+                    <option key={ms} value={ms}>
+                      {Math.round(1000 / ms)} Hz
+                    </option>
+                  ))}
+              </select>
+            </div>
+          </div>
+          <div className="fixture-list">
+            {outputs.map((output) => (
+              <div key={output.id} className="fixture-list-item output-route-item">
+                <span className={`status-dot ${output.connected ? 'connected' : 'disconnected'}`} />
+                <div className="fixture-info">
+                  <span className="fixture-name">{output.label}</span>
+                  <span className="fixture-channels">
+                    {output.connected ? output.detail || 'Ready' : 'Disconnected'}
+                  </span>
+                </div>
+                <div className="output-route-universes">
+                  {Array.from({ length: universeCount }, (_, i) => i + 1).map((u) => {
+                    const routed = (routes[u] || []).includes(output.id);
+                    const full =
+                      output.maxUniverses !== undefined &&
+                      Object.values(routes).filter((ids) => ids.includes(output.id)).length >= output.maxUniverses;
+                    return (
+                      <label
+                        key={u}
+                        className="output-route-universe"
+                        title={!routed && full ? `Carries ${output.maxUniverses} universe(s) at most` : undefined}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={routed}
+                          disabled={!routed && full}
+                          onChange={() => handleToggleRoute(u, output.id)}
+                        />
+                        U{u}
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* ── Enttec DMX USB Pro ── */}
+        <div className="output-section">
+          <div className="output-section-header">
+            <h3>Enttec DMX USB Pro</h3>
+            <button className="btn btn-secondary btn-sm" onClick={onScanEnttecPorts}>
+              Rescan
+            </button>
+          </div>
+
+          <div className="form-group">
+            <label>Adapter</label>
+            <div className="fixture-list">
+              <div className="fixture-list-item output-route-item">
+                <div className="fixture-info">
+                  <span className="fixture-name">Auto-detect</span>
+                  <span className="fixture-channels">First port matching the Enttec USB Pro (VID 0403, PID 6001)</span>
+                </div>
+                <div className="fixture-actions">
+                  <button
+                    className={`btn btn-sm ${enttecAutoDetect ? 'btn-primary' : 'btn-secondary'}`}
+                    onClick={() => onSelectEnttecPort(null)}
+                    disabled={enttecAutoDetect}
+                  >
+                    {enttecAutoDetect ? 'Active' : 'Use'}
+                  </button>
+                </div>
+              </div>
+              {enttecPorts.map((port) => (
+                <div key={port.path} className="fixture-list-item output-route-item">
+                  <span className={`status-dot ${port.inUse ? 'connected' : 'disconnected'}`} />
+                  <div className="fixture-info">
+                    <span className="fixture-name">
+                      {port.path}
+                      {port.isEnttec ? ' (Enttec)' : ''}
+                    </span>
+                    <span className="fixture-channels">
+                      {port.manufacturer || 'Unknown'}
+                      {port.vendorId ? ` — ${port.vendorId}:${port.productId}` : ''}
+                      {port.serialNumber ? ` — S/N ${port.serialNumber}` : ''}
+                    </span>
+                  </div>
+                  <div className="fixture-actions">
+                    <button
+                      className={`btn btn-sm ${port.pinned ? 'btn-primary' : 'btn-secondary'}`}
+                      onClick={() => onSelectEnttecPort(port.path)}
+                      title={port.serialNumber ? 'Pin by serial number' : 'Pin by path'}
+                    >
+                      {port.pinned ? 'Pinned' : 'Pin'}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {!hasWidgetParams ? (
+            <div className="empty-state">
+              <p>Widget not connected</p>
+            </div>
+          ) : (
+            <>
+              <small style={{ color: 'var(--text-secondary)', marginBottom: 8, display: 'block' }}>
+                Firmware {enttecWidget!.firmware ?? '–'} — Serial {enttecWidget!.serialNumber ?? '–'}
+              </small>
+
+              <div className="form-group">
+                <label>Break (µs) / MAB (µs) / Output Rate (Hz, 0 = max)</label>
+                <div className="output-address-row">
+                  <input
+                    type="number"
+                    className="form-input"
+                    value={breakTime}
+                    onChange={(e) => setBreakTime(Math.min(1355, parseFloat(e.target.value) || 0))}
+                    min={96}
+                    max={1355}
+                    step={10.67}
+                  />
+                  <input
+                    type="number"
+                    className="form-input"
+                    value={mabTime}
+                    onChange={(e) => setMabTime(Math.min(1355, parseFloat(e.target.value) || 0))}
+                    min={10.7}
+                    max={1355}
+                    step={10.67}
+                  />
+                  <input
+                    type="number"
+                    className="form-input"
+                    value={outputRate}
+                    onChange={(e) => setOutputRate(Math.max(0, Math.min(40, parseInt(e.target.value, 10) || 0)))}
+                    min={0}
+                    max={40}
+                  />
+                </div>
+                <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+                  Times are rounded to 10.67 µs steps (break ≥ 96 µs) and stored on the widget
+                </small>
+              </div>
+
+              <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+                <button className="btn btn-primary btn-sm" onClick={handleApplyEnttec} disabled={!isEnttecDirty}>
+                  Apply Timing
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* ── Art-Net ── */}
+        <div className="output-section">
+          <div className="output-section-header">
+            <h3>Art-Net</h3>
+            <div className="editor-mode-selector">
+              <button
+                className={`btn btn-sm ${artnetConfig?.enabled ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => onUpdateArtNet({ enabled: true })}
+                type="button"
+                disabled={!artnetConfig}
+              >
+                On
+              </button>
+              <button
+                className={`btn btn-sm ${artnetConfig && !artnetConfig.enabled ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => onUpdateArtNet({ enabled: false })}
+                type="button"
+                disabled={!artnetConfig}
+              >
+                Off
+              </button>
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label>Node IP / Broadcast Address</label>
+            <input
+              type="text"
+              className="form-input"
+              value={host}
+              onChange={(e) => setHost(e.target.value)}
+              placeholder="e.g., 2.0.0.10 or 2.255.255.255"
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Port-Address (Net : Subnet : Universe)</label>
+            {universeCount > 1 && (
+              <small style={{ color: 'var(--text-secondary)', marginBottom: 4, display: 'block' }}>
+                Used for universe 1; universe 2 onward use the following Port-Addresses
+              </small>
+            )}
+            <div className="output-address-row">
+              <input
+                type="number"
+                className="form-input"
+                value={net}
+                onChange={(e) => setNet(Math.max(0, Math.min(127, parseInt(e.target.value, 10) || 0)))}
+                min={0}
+                max={127}
+              />
+              <input
+                type="number"
+                className="form-input"
+                value={subnet}
+                onChange={(e) => setSubnet(Math.max(0, Math.min(15, parseInt(e.target.value, 10) || 0)))}
+                min={0}
+                max={15}
+              />
+              <input
+                type="number"
+                className="form-input"
+                value={universe}
+                onChange={(e) => setUniverse(Math.max(0, Math.min(15, parseInt(e.target.value, 10) || 0)))}
+                min={0}
+                max={15}
+              />
+            </div>
+          </div>
+
+          <div className="form-group">
+            <div className="output-section-header">
+              <label>Discovered Nodes ({artnetNodes.length})</label>
+              <button className="btn btn-secondary btn-sm" onClick={onPollArtNet}>
+                Refresh
+              </button>
+            </div>
+            {artnetNodes.length === 0 ? (
+              <div className="empty-state">
+                <p>No Art-Net nodes found</p>
+              </div>
+            ) : (
+              <div className="fixture-list">
+                {artnetNodes.map((node) => (
+                  <div key={node.ip} className="fixture-list-item">
+                    <div className="fixture-info">
+                      <span className="fixture-name">{node.shortName || node.ip}</span>
+                      <span className="fixture-channels">
+                        {node.ip} — {node.net}:{node.subnet}:{node.universes.join(', ') || '–'} — {node.mac}
+                      </span>
+                    </div>
+                    <div className="fixture-actions">
+                      <button className="btn btn-secondary btn-sm" onClick={() => handleUseNode(node)}>
+                        Use
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+            <button
+              className="btn btn-primary btn-sm"
+              onClick={handleApplyArtNet}
+              disabled={!host.trim() || !isArtNetDirty}
+            >
+              Apply Art-Net
+            </button>
+          </div>
+        </div>
+
+        {/* ── sACN (E1.31) ── */}
+        <div className="output-section">
+          <div className="output-section-header">
+            <h3>sACN (E1.31)</h3>
+            <div className="editor-mode-selector">
+              <button
+                className={`btn btn-sm ${sacnConfig?.enabled ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => onUpdateSACN({ enabled: true })}
+                type="button"
+                disabled={!sacnConfig}
+              >
+                On
+              </button>
+              <button
+                className={`btn btn-sm ${sacnConfig && !sacnConfig.enabled ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => onUpdateSACN({ enabled: false })}
+                type="button"
+                disabled={!sacnConfig}
+              >
+                Off
+              </button>
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label>Source Name</label>
+            <input
+              type="text"
+              className="form-input"
+              value={sourceName}
+              onChange={(e) => setSourceName(e.target.value)}
+              maxLength={63}
+              placeholder="e.g., Studio A Controller"
+            />
+            {sacnConfig && (
+              <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+                CID {sacnConfig.cid}
+              </small>
+            )}
+          </div>
+
+          <div className="form-group">
+            <label>Universe / Priority</label>
+            {universeCount > 1 && (
+              <small style={{ color: 'var(--text-secondary)', marginBottom: 4, display: 'block' }}>
+                Used for universe 1; universe 2 onward use the following sACN universes
+              </small>
+            )}
+            <div className="output-address-row">
+              <input
+                type="number"
+                className="form-input"
+                value={sacnUniverse}
+                onChange={(e) => setSACNUniverse(Math.max(1, Math.min(63999, parseInt(e.target.value, 10) || 1)))}
+                min={1}
+                max={63999}
+              />
+              <input
+                type="number"
+                className="form-input"
+                value={priority}
+                onChange={(e) => setPriority(Math.max(0, Math.min(200, parseInt(e.target.value, 10) || 0)))}
+                min={0}
+                max={200}
+              />
+            </div>
+          </div>
+
+          {universeCount > 1 && (
+            <div className="form-group">
+              <label>Priority per Universe</label>
+              <div className="sacn-priority-grid">
+                {Array.from({ length: universeCount }, (_, i) => i + 1).map((u) => (
+                  <label key={u} className="sacn-priority-universe">
+                    U{u}
+                    <input
+                      type="number"
+                      className="form-input"
+                      value={universePriorities[u] ?? ''}
+                      onChange={(e) => handleUniversePriority(u, e.target.value)}
+                      min={0}
+                      max={200}
+                      placeholder={String(priority)}
+                    />
+                  </label>
+                ))}
+              </div>
+              <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+                Leave empty to use the priority above
+              </small>
+            </div>
+          )}
+
+          <div className="form-group">
+            <label>Destination</label>
+            <div className="editor-mode-selector">
+              <button
+                className={`btn btn-sm ${sacnMode === 'multicast' ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => setSACNMode('multicast')}
+                type="button"
+              >
+                Multicast
+              </button>
+              <button
+                className={`btn btn-sm ${sacnMode === 'unicast' ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => setSACNMode('unicast')}
+                type="button"
+              >
+                Unicast
+              </button>
+            </div>
+            {sacnMode === 'unicast' && (
+              <input
+                type="text"
+                className="form-input"
+                value={unicastHosts}
+                onChange={(e) => setUnicastHosts(e.target.value)}
+                placeholder="Receiver IPs, comma-separated"
+              />
+            )}
+          </div>
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+            <button
+              className="btn btn-primary btn-sm"
+              onClick={handleApplySACN}
+              disabled={!isSACNDirty || (sacnMode === 'unicast' && parsedHosts.length === 0)}
+            >
+              Apply sACN
+            </button>
+          </div>
+        </div>
+
+        <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end', marginTop: 16 }}>
+          <button className="btn btn-secondary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+import React, { useState, useCallback } from 'react';
+import type { Fixture, ParkEntry } from '../types';
+import { UNIVERSE_SIZE, toAbsoluteChannel } from '../utils/dmxAddress';
+
+type ParkTarget = { channels?: number[]; fixtureId?: string };
+
+interface ParkPanelProps {
+  parked: ParkEntry[];
+  fixtures: Fixture[];
+  universeCount: number;
+  onPark: (target: ParkTarget, value?: number) => void;
+  onLock: (target: ParkTarget) => void;
+  onUnpark: (channels: number[]) => void;
+  onUnparkAll: () => void;
+  onClose: () => void;
+}
+
+/**
+ * ParkPanel — Modal dialog to park channels at a fixed output or lock them
+ * at their current value, so recalls, fades and faders leave them alone.
+ * Lists everything held with one-click release.
+ */
+export const ParkPanel: React.FC<ParkPanelProps> = ({
+  parked,
+  fixtures,
+  universeCount,
+  onPark,
+  onLock,
+  onUnpark,
+  onUnparkAll,
+  onClose,
+}) => {
+  const [targetType, setTargetType] = useState<'channel' | 'fixture'>('channel');
+  const [universe, setUniverse] = useState(1);
+  const [address, setAddress] = useState(1);
+  const [fixtureId, setFixtureId] = useState(fixtures[0]?.id ?? '');
+  const [mode, setMode] = useState<'park' | 'lock'>('park');
+  const [value, setValue] = useState('');
+
+  const handleApply = useCallback(() => {
+    const target: ParkTarget =
+      targetType === 'fixture' ? { fixtureId } : { channels: [toAbsoluteChannel(universe, address)] };
+    if (targetType === 'fixture' && !fixtureId) return;
+
+    if (mode === 'lock') {
+      onLock(target);
+    } else {
+      onPark(target, value.trim() === '' ? undefined : Math.max(0, Math.min(255, parseInt(value, 10) || 0)));
+    }
+  }, [targetType, fixtureId, universe, address, mode, value, onPark, onLock]);
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Park &amp; Lock</h2>
+          <button className="modal-close" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        {/* ── Held Channels ── */}
+        <div className="output-section">
+          <div className="output-section-header">
+            <h3>Held Channels</h3>
+            <button className="btn btn-secondary btn-sm" onClick={onUnparkAll} disabled={parked.length === 0}>
+              Unpark All
+            </button>
+          </div>
+          {parked.length === 0 ? (
+            <div className="empty-state">
+              <p>No parked or locked channels</p>
+            </div>
+          ) : (
+            <div className="fixture-list">
+              {parked.map((entry) => (
+                <div key={entry.channel} className="fixture-list-item">
+                  <div className="fixture-info">
+                    <span className="fixture-name">
+                      {entry.address}
+                      {entry.fixtureName && ` — ${entry.fixtureName} / ${entry.channelName}`}
+                    </span>
+                    <span className="fixture-channels">
+                      {entry.value === null ? 'Locked' : `Parked at ${entry.value}`}
+                    </span>
+                  </div>
+                  <div className="fixture-actions">
+                    <button className="btn btn-secondary btn-sm" onClick={() => onUnpark([entry.channel])}>
+                      Unpark
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* ── Park / Lock ── */}
+        <div className="output-section">
+          <h3>Park or Lock</h3>
+
+          <div className="form-group">
+            <label>Target</label>
+            <div className="editor-mode-selector">
+              <button
+                className={`btn btn-sm ${targetType === 'channel' ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => setTargetType('channel')}
+                type="button"
+              >
+                Channel
+              </button>
+              <button
+                className={`btn btn-sm ${targetType === 'fixture' ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => setTargetType('fixture')}
+                type="button"
+              >
+                Fixture
+              </button>
+            </div>
+          </div>
+
+          {targetType === 'channel' ? (
+            <div className="form-group">
+              <label>Universe / Address</label>
+              <div className="output-address-row">
+                <select
+                  className="form-select"
+                  value={Math.min(universe, universeCount)}
+                  onChange={(e) => setUniverse(parseInt(e.target.value, 10))}
+                >
+                  {Array.from({ length: universeCount }, (_, i) => (
+                    <option key={i + 1} value={i + 1}>
+                      Universe {i + 1}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  className="form-input"
+                  value={address}
+                  onChange={(e) => setAddress(Math.max(1, Math.min(UNIVERSE_SIZE, parseInt(e.target.value, 10) || 1)))}
+                  min={1}
+                  max={UNIVERSE_SIZE}
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="form-group">
+              <label>Fixture</label>
+              <select className="form-select" value={fixtureId} onChange={(e) => setFixtureId(e.target.value)}>
+                {fixtures.length === 0 && <option value="">No fixtures</option>}
+                {fixtures.map((fixture) => (
+                  <option key={fixture.id} value={fixture.id}>
+                    {fixture.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="form-group">
+            <label>Mode</label>
+            <div className="editor-mode-selector">
+              <button
+                className={`btn btn-sm ${mode === 'park' ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => setMode('park')}
+                type="button"
+              >
+                Park
+              </button>
+              <button
+                className={`btn btn-sm ${mode === 'lock' ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => setMode('lock')}
+                type="button"
+              >
+                Lock
+              </button>
+            </div>
+            <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+              {mode === 'park'
+                ? 'Holds the output at a fixed value, ignoring the grand master and blackout'
+                : 'Freezes the programmer value; the grand master still applies'}
+            </small>
+          </div>
+
+          {mode === 'park' && (
+            <div className="form-group">
+              <label>Value (0–255)</label>
+              <input
+                type="number"
+                className="form-input"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                min={0}
+                max={255}
+                placeholder="Current output"
+              />
+            </div>
+          )}
+
+          <button
+            className="btn btn-primary btn-sm"
+            onClick={handleApply}
+            disabled={targetType === 'fixture' && !fixtureId}
+          >
+            {mode === 'park' ? 'Park' : 'Lock'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Socket } from 'socket.io-client';
+import { usePlayback } from '../hooks/usePlayback';
+import type { Preset } from '../types';
+
+interface PlaybackPanelProps {
+  socket: Socket | null;
+}
+
+/**
+ * PlaybackPanel — A sequence of presets played back with GO/Back, or
+ * crossfaded by hand with the T-bar. Click a step to stage it as next.
+ */
+export const PlaybackPanel: React.FC<PlaybackPanelProps> = ({ socket }) => {
+  const { playback, setSequence, stage, setCrossfader, go, back, pause, resume, reverse } = usePlayback(socket);
+  const [presets, setPresets] = useState<Preset[]>([]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handlePresetsList = (data: Preset[]) => {
+      setPresets(data);
+    };
+
+    socket.on('presets:list', handlePresetsList);
+
+    return () => {
+      socket.off('presets:list', handlePresetsList);
+    };
+  }, [socket]);
+
+  const sequence = playback?.sequence ?? [];
+
+  const handleAdd = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      if (!e.target.value) return;
+      setSequence([...sequence, e.target.value]);
+    },
+    [sequence, setSequence]
+  );
+
+  const handleRemove = useCallback(
+    (index: number) => {
+      setSequence(sequence.filter((_, i) => i !== index));
+    },
+    [sequence, setSequence]
+  );
+
+  if (!playback) return null;
+
+  const fadeState = playback.fadeState;
+  const timedFade = fadeState !== null && fadeState !== 'manual';
+
+  return (
+    <div className="playback-panel">
+      <span className="preset-grid-label">Playback</span>
+
+      <div className="playback-steps">
+        {sequence.map((presetId, index) => {
+          const preset = presets.find((p) => p.id === presetId);
+          const stateClass =
+            index === playback.currentIndex ? 'current' : index === playback.nextIndex ? 'next' : '';
+          return (
+            <div
+              key={`${presetId}-${index}`}
+              className={`playback-step ${stateClass}`}
+              style={{ '--preset-color': preset?.color } as React.CSSProperties}
+              onClick={() => stage(index)}
+              title={index === playback.nextIndex ? 'Next' : 'Stage as next'}
+            >
+              <span className="playback-step-number">{index + 1}</span>
+              <span className="playback-step-name">{preset?.name ?? 'Missing preset'}</span>
+              <button
+                className="playback-step-remove"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleRemove(index);
+                }}
+                title="Remove from sequence"
+              >
+                ×
+              </button>
+            </div>
+          );
+        })}
+        <select className="form-select playback-add" value="" onChange={handleAdd}>
+          <option value="">+ Add</option>
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="playback-controls">
+        <input
+          type="range"
+          className="horizontal-slider playback-tbar"
+          min={0}
+          max={100}
+          value={Math.round(playback.crossfader * 100)}
+          onChange={(e) => setCrossfader(parseInt(e.target.value, 10) / 100)}
+          title="Crossfader"
+        />
+        <button className="btn btn-secondary btn-sm" onClick={back} disabled={playback.currentIndex <= 0}>
+          Back
+        </button>
+        {fadeState === 'paused' ? (
+          <button className="btn btn-secondary btn-sm" onClick={resume}>
+            Resume
+          </button>
+        ) : (
+          <button className="btn btn-secondary btn-sm" onClick={pause} disabled={!timedFade}>
+            Pause
+          </button>
+        )}
+        <button className="btn btn-secondary btn-sm" onClick={reverse} disabled={!timedFade}>
+          Reverse
+        </button>
+        <button className="btn btn-primary btn-sm playback-go" onClick={go} disabled={playback.nextIndex < 0}>
+          GO
+        </button>
+      </div>
+    </div>
+  );
+};
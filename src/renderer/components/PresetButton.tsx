@@ -5,6 +5,7 @@ interface PresetButtonProps {
   name: string;
   color: string;
   isActive: boolean;
+  fadePercent?: number; // Set while a recall of this preset is fading
   onClick: (id: string) => void;
   onEdit: (id: string) => void;
   onDelete: (id: string) => void;
@@ -12,20 +13,21 @@ interface PresetButtonProps {
 
 /**
  * PresetButton — Single preset trigger button with color, active state,
- * and touch-friendly edit/delete icons.
+ * fade progress, and touch-friendly edit/delete icons.
  */
 export const PresetButton: React.FC<PresetButtonProps> = ({
   id,
   name,
   color,
   isActive,
+  fadePercent,
   onClick,
   onEdit,
   onDelete,
 }) => {
   return (
     <div
-      className={`preset-button-wrapper ${isActive ? 'active' : ''}`}
+      className={`preset-button-wrapper ${isActive || fadePercent !== undefined ? 'active' : ''}`}
       style={{ '--preset-color': color } as React.CSSProperties}
     >
       <button
@@ -35,7 +37,13 @@ export const PresetButton: React.FC<PresetButtonProps> = ({
       >
         {name}
       </button>
-      <span className="preset-dot" />
+      {fadePercent !== undefined ? (
+        <span className="preset-progress" title={`Fading: ${fadePercent}%`}>
+          <span className="preset-progress-fill" style={{ width: `${fadePercent}%` }} />
+        </span>
+      ) : (
+        <span className="preset-dot" />
+      )}
       <div className="preset-button-actions">
         <button
           className="preset-action-btn"
@@ -1,7 +1,7 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import { Socket } from 'socket.io-client';
 import { PresetButton } from './PresetButton';
-import type { Preset } from '../types';
+import type { Preset, FadeCurve, FadeAttribute, FadeTiming, FadeProgress } from '../types';
 
 interface PresetGridProps {
   socket: Socket | null;
@@ -13,12 +13,57 @@ const PRESET_COLORS = [
   '#ff5722', '#795548', '#607d8b', '#00bcd4',
 ];
 
+const FADE_CURVES: { value: FadeCurve; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'ease-in', label: 'Ease in' },
+  { value: 'ease-out', label: 'Ease out' },
+  { value: 's-curve', label: 'S-curve' },
+  { value: 'square-law', label: 'Square-law' },
+  { value: 'snap', label: 'Snap' },
+];
+
+// Roles offered for per-role curves ("dimmer" also covers "brightness")
+const CURVE_ROLES: { role: string; label: string }[] = [
+  { role: 'dimmer', label: 'Dimmer' },
+  { role: 'red', label: 'Red' },
+  { role: 'green', label: 'Green' },
+  { role: 'blue', label: 'Blue' },
+  { role: 'hue', label: 'Hue' },
+  { role: 'saturation', label: 'Saturation' },
+  { role: 'temperature', label: 'Temperature' },
+  { role: 'mode', label: 'Mode' },
+];
+
+const FADE_ATTRIBUTES: { attribute: FadeAttribute; label: string }[] = [
+  { attribute: 'intensity', label: 'Intensity' },
+  { attribute: 'color', label: 'Colour' },
+  { attribute: 'fx', label: 'FX' },
+];
+
+// Timing fields are edited as text so that blank means "not set"
+type AttributeTimingDraft = Record<FadeAttribute, { time: string; delay: string }>;
+
+const EMPTY_ATTRIBUTE_TIMING: AttributeTimingDraft = {
+  intensity: { time: '', delay: '' },
+  color: { time: '', delay: '' },
+  fx: { time: '', delay: '' },
+};
+
+function toDraft(value: number | undefined): string {
+  return value === undefined ? '' : String(value);
+}
+
+function fromDraft(value: string): number | null {
+  return value.trim() === '' ? null : Math.max(0, parseInt(value, 10) || 0);
+}
+
 /**
  * PresetGrid — Scrollable grid of preset trigger buttons.
  */
 export const PresetGrid: React.FC<PresetGridProps> = ({ socket }) => {
   const [presets, setPresets] = useState<Preset[]>([]);
   const [activePresetId, setActivePresetId] = useState<string | null>(null);
+  const [fadeProgress, setFadeProgress] = useState<Record<string, number>>({});
   const [showSaveDialog, setShowSaveDialog] = useState(false);
   const [newPresetName, setNewPresetName] = useState('');
   const [newPresetFadeTime, setNewPresetFadeTime] = useState(1000);
@@ -27,7 +72,13 @@ export const PresetGrid: React.FC<PresetGridProps> = ({ socket }) => {
 
   const [editName, setEditName] = useState('');
   const [editFadeTime, setEditFadeTime] = useState(1000);
+  const [editFadeOutTime, setEditFadeOutTime] = useState('');
+  const [editDelayIn, setEditDelayIn] = useState('');
+  const [editDelayOut, setEditDelayOut] = useState('');
+  const [editAttributeTiming, setEditAttributeTiming] = useState<AttributeTimingDraft>(EMPTY_ATTRIBUTE_TIMING);
   const [editColor, setEditColor] = useState(PRESET_COLORS[0]);
+  const [editFadeCurve, setEditFadeCurve] = useState<FadeCurve | ''>('');
+  const [editRoleCurves, setEditRoleCurves] = useState<Partial<Record<string, FadeCurve>>>({});
   const [confirmDelete, setConfirmDelete] = useState<Preset | null>(null);
 
   useEffect(() => {
@@ -41,12 +92,25 @@ export const PresetGrid: React.FC<PresetGridProps> = ({ socket }) => {
       setActivePresetId(data.id);
     };
 
+    // Preset ID -> percent for presets currently fading in
+    const handleFadeProgress = (data: FadeProgress[]) => {
+      const progress: Record<string, number> = {};
+      for (const fade of data) {
+        if (fade.presetId) {
+          progress[fade.presetId] = fade.percent;
+        }
+      }
+      setFadeProgress(progress);
+    };
+
     socket.on('presets:list', handlePresetsList);
     socket.on('preset:activated', handlePresetActivated);
+    socket.on('fade:progress', handleFadeProgress);
 
     return () => {
       socket.off('presets:list', handlePresetsList);
       socket.off('preset:activated', handlePresetActivated);
+      socket.off('fade:progress', handleFadeProgress);
     };
   }, [socket]);
 
@@ -86,7 +150,26 @@ export const PresetGrid: React.FC<PresetGridProps> = ({ socket }) => {
         setEditingPreset(preset);
         setEditName(preset.name);
         setEditFadeTime(preset.fadeTime);
+        setEditFadeOutTime(toDraft(preset.fadeOutTime));
+        setEditDelayIn(toDraft(preset.delayIn));
+        setEditDelayOut(toDraft(preset.delayOut));
+        setEditAttributeTiming({
+          intensity: {
+            time: toDraft(preset.attributeTiming?.intensity?.time),
+            delay: toDraft(preset.attributeTiming?.intensity?.delay),
+          },
+          color: {
+            time: toDraft(preset.attributeTiming?.color?.time),
+            delay: toDraft(preset.attributeTiming?.color?.delay),
+          },
+          fx: {
+            time: toDraft(preset.attributeTiming?.fx?.time),
+            delay: toDraft(preset.attributeTiming?.fx?.delay),
+          },
+        });
         setEditColor(preset.color);
+        setEditFadeCurve(preset.fadeCurve ?? '');
+        setEditRoleCurves(preset.roleCurves ?? {});
       }
     },
     [presets]
@@ -104,16 +187,59 @@ export const PresetGrid: React.FC<PresetGridProps> = ({ socket }) => {
 
   const updatePreset = useCallback(() => {
     if (!editingPreset || !editName.trim()) return;
+
+    const attributeTiming: Partial<Record<FadeAttribute, FadeTiming>> = {};
+    for (const { attribute } of FADE_ATTRIBUTES) {
+      const time = fromDraft(editAttributeTiming[attribute].time);
+      if (time !== null) {
+        attributeTiming[attribute] = { time, delay: fromDraft(editAttributeTiming[attribute].delay) ?? 0 };
+      }
+    }
+
     socket?.emit('preset:update', {
       id: editingPreset.id,
       patch: {
         name: editName.trim(),
         fadeTime: editFadeTime,
+        fadeOutTime: fromDraft(editFadeOutTime),
+        delayIn: fromDraft(editDelayIn),
+        delayOut: fromDraft(editDelayOut),
+        attributeTiming,
+        fadeCurve: editFadeCurve || null,
+        roleCurves: editRoleCurves,
         color: editColor,
       },
     });
     setEditingPreset(null);
-  }, [socket, editingPreset, editName, editFadeTime, editColor]);
+  }, [
+    socket,
+    editingPreset,
+    editName,
+    editFadeTime,
+    editFadeOutTime,
+    editDelayIn,
+    editDelayOut,
+    editAttributeTiming,
+    editFadeCurve,
+    editRoleCurves,
+    editColor,
+  ]);
+
+  const setAttributeTiming = useCallback((attribute: FadeAttribute, field: 'time' | 'delay', value: string) => {
+    setEditAttributeTiming((prev) => ({ ...prev, [attribute]: { ...prev[attribute], [field]: value } }));
+  }, []);
+
+  const setRoleCurve = useCallback((role: string, curve: FadeCurve | '') => {
+    setEditRoleCurves((prev) => {
+      const next = { ...prev };
+      if (curve) {
+        next[role] = curve;
+      } else {
+        delete next[role];
+      }
+      return next;
+    });
+  }, []);
 
   return (
     <div className="preset-grid">
@@ -127,6 +253,7 @@ export const PresetGrid: React.FC<PresetGridProps> = ({ socket }) => {
             name={preset.name}
             color={preset.color}
             isActive={preset.id === activePresetId}
+            fadePercent={fadeProgress[preset.id]}
             onClick={recallPreset}
             onEdit={handleEdit}
             onDelete={handleDeleteRequest}
@@ -235,15 +362,120 @@ export const PresetGrid: React.FC<PresetGridProps> = ({ socket }) => {
             </div>
 
             <div className="form-group">
-              <label>Fade Time (ms)</label>
-              <input
-                type="number"
-                className="form-input"
-                value={editFadeTime}
-                onChange={(e) => setEditFadeTime(parseInt(e.target.value, 10) || 0)}
-                min={0}
-                step={100}
-              />
+              <label>Timing (ms)</label>
+              <div className="preset-timing-grid">
+                <span />
+                <span>Fade</span>
+                <span>Delay</span>
+
+                <span>In</span>
+                <input
+                  type="number"
+                  className="form-input"
+                  value={editFadeTime}
+                  onChange={(e) => setEditFadeTime(parseInt(e.target.value, 10) || 0)}
+                  min={0}
+                  step={100}
+                />
+                <input
+                  type="number"
+                  className="form-input"
+                  value={editDelayIn}
+                  onChange={(e) => setEditDelayIn(e.target.value)}
+                  placeholder="0"
+                  min={0}
+                  step={100}
+                />
+
+                <span>Out</span>
+                <input
+                  type="number"
+                  className="form-input"
+                  value={editFadeOutTime}
+                  onChange={(e) => setEditFadeOutTime(e.target.value)}
+                  placeholder={String(editFadeTime)}
+                  min={0}
+                  step={100}
+                />
+                <input
+                  type="number"
+                  className="form-input"
+                  value={editDelayOut}
+                  onChange={(e) => setEditDelayOut(e.target.value)}
+                  placeholder="0"
+                  min={0}
+                  step={100}
+                />
+
+                {FADE_ATTRIBUTES.map(({ attribute, label }) => (
+                  <React.Fragment key={attribute}>
+                    <span>{label}</span>
+                    <input
+                      type="number"
+                      className="form-input"
+                      value={editAttributeTiming[attribute].time}
+                      onChange={(e) => setAttributeTiming(attribute, 'time', e.target.value)}
+                      placeholder="In/Out"
+                      min={0}
+                      step={100}
+                    />
+                    <input
+                      type="number"
+                      className="form-input"
+                      value={editAttributeTiming[attribute].delay}
+                      onChange={(e) => setAttributeTiming(attribute, 'delay', e.target.value)}
+                      placeholder="0"
+                      min={0}
+                      step={100}
+                      disabled={editAttributeTiming[attribute].time === ''}
+                    />
+                  </React.Fragment>
+                ))}
+              </div>
+              <small style={{ color: 'var(--text-secondary)' }}>
+                In applies to channels rising, Out to channels falling. An Intensity, Colour or FX time
+                overrides both for that attribute.
+              </small>
+            </div>
+
+            <div className="form-group">
+              <label>Fade Curve</label>
+              <select
+                className="form-select"
+                value={editFadeCurve}
+                onChange={(e) => setEditFadeCurve(e.target.value as FadeCurve | '')}
+              >
+                <option value="">Default (linear)</option>
+                {FADE_CURVES.map((c) => (
+                  <option key={c.value} value={c.value}>{c.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label>Curves by Channel Role</label>
+              <div className="preset-role-curves">
+                {CURVE_ROLES.map(({ role, label }) => (
+                  <div key={role} className="preset-role-curve">
+                    <span>{label}</span>
+                    <select
+                      className="form-select"
+                      value={editRoleCurves[role] ?? ''}
+                      onChange={(e) => setRoleCurve(role, e.target.value as FadeCurve | '')}
+                    >
+                      <option value="">
+                        {role === 'dimmer' && !editFadeCurve ? 'Default (square-law)' : 'Fade curve'}
+                      </option>
+                      {FADE_CURVES.map((c) => (
+                        <option key={c.value} value={c.value}>{c.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <small style={{ color: 'var(--text-secondary)' }}>
+                Square-law fades evenly in perceived brightness; snap jumps at the start of the fade.
+              </small>
             </div>
 
             <div className="form-group">
@@ -0,0 +1,509 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Socket } from 'socket.io-client';
+import { useSchedules, ScheduleDefinition } from '../hooks/useSchedules';
+import type { Preset, Schedule, ScheduleAction, ScheduleTrigger } from '../types';
+
+const TRIGGERS: { value: ScheduleTrigger; label: string }[] = [
+  { value: 'time', label: 'Time of Day' },
+  { value: 'interval', label: 'Interval' },
+  { value: 'once', label: 'Once' },
+];
+
+const ACTIONS: { value: ScheduleAction; label: string }[] = [
+  { value: 'preset', label: 'Preset' },
+  { value: 'blackout', label: 'Blackout' },
+  { value: 'master', label: 'Master' },
+  { value: 'cue', label: 'Cue' },
+];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface ScheduleDraft extends ScheduleDefinition {
+  atText: string; // datetime-local value for 'once'
+}
+
+const NEW_SCHEDULE: ScheduleDraft = {
+  name: '',
+  enabled: true,
+  trigger: 'time',
+  time: '08:00',
+  days: [],
+  intervalMinutes: 60,
+  at: null,
+  atText: '',
+  action: 'preset',
+  presetId: null,
+  fadeTime: null,
+  state: 'on',
+  level: 100,
+  cue: null,
+};
+
+interface SchedulePanelProps {
+  socket: Socket | null;
+  onClose: () => void;
+}
+
+/**
+ * SchedulePanel — Modal dialog to run presets, blackout, master changes or
+ * cue GOs at set times, and to fade to a standby look when the desk has
+ * been left alone.
+ */
+export const SchedulePanel: React.FC<SchedulePanelProps> = ({ socket, onClose }) => {
+  const { schedules, createSchedule, updateSchedule, deleteSchedule, runSchedule, updateIdle } = useSchedules(socket);
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ScheduleDraft>(NEW_SCHEDULE);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handlePresetsList = (data: Preset[]) => {
+      setPresets(data);
+    };
+
+    socket.on('presets:list', handlePresetsList);
+
+    return () => {
+      socket.off('presets:list', handlePresetsList);
+    };
+  }, [socket]);
+
+  const list = schedules?.schedules ?? [];
+  const idle = schedules?.idle;
+
+  const presetName = useCallback(
+    (id: string | null) => presets.find((p) => p.id === id)?.name ?? 'No preset',
+    [presets]
+  );
+
+  const handleEdit = useCallback((schedule: Schedule) => {
+    const { id, updatedAt, lastFiredAt, nextFireAt, ...definition } = schedule;
+    setEditingId(id);
+    setDraft({ ...definition, atText: schedule.at !== null ? toDateTimeLocal(schedule.at) : '' });
+  }, []);
+
+  const handleNew = useCallback(() => {
+    setEditingId(null);
+    setDraft(NEW_SCHEDULE);
+  }, []);
+
+  const handleSave = useCallback(() => {
+    const { atText, ...definition } = draft;
+    const at = atText ? new Date(atText).getTime() : null;
+    const schedule = { ...definition, name: draft.name.trim(), at: Number.isFinite(at) ? at : null };
+    if (editingId) {
+      updateSchedule(editingId, schedule);
+    } else {
+      createSchedule(schedule);
+      handleNew();
+    }
+  }, [draft, editingId, createSchedule, updateSchedule, handleNew]);
+
+  const handleToggleDay = useCallback((day: number) => {
+    setDraft((d) => ({
+      ...d,
+      days: d.days.includes(day) ? d.days.filter((x) => x !== day) : [...d.days, day].sort((a, b) => a - b),
+    }));
+  }, []);
+
+  const setOptionalNumber = (key: 'fadeTime' | 'cue') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(e.target.value);
+    setDraft((d) => ({ ...d, [key]: Number.isFinite(value) && value >= 0 ? value : null }));
+  };
+
+  const missingPreset = draft.action === 'preset' && !draft.presetId;
+  const missingDate = draft.trigger === 'once' && !draft.atText;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Schedule</h2>
+          <button className="modal-close" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        {/* ── Schedules ── */}
+        <div className="output-section">
+          <div className="output-section-header">
+            <h3>Schedules</h3>
+          </div>
+          {list.length === 0 ? (
+            <div className="empty-state">
+              <p>No schedules yet</p>
+            </div>
+          ) : (
+            <div className="fixture-list">
+              {list.map((schedule) => (
+                <div
+                  key={schedule.id}
+                  className={`fixture-list-item ${schedule.enabled ? '' : 'schedule-disabled'}`}
+                >
+                  <div className="fixture-info">
+                    <span className="fixture-name">{schedule.name}</span>
+                    <span className="fixture-channels">
+                      {describeTrigger(schedule)} · {describeAction(schedule, presetName(schedule.presetId))}
+                    </span>
+                    <span className="fixture-channels">
+                      {schedule.nextFireAt !== null
+                        ? `Next: ${new Date(schedule.nextFireAt).toLocaleString()}`
+                        : schedule.enabled
+                          ? 'Nothing left to run'
+                          : 'Disabled'}
+                    </span>
+                  </div>
+                  <div className="fixture-actions">
+                    <button
+                      className={`btn btn-sm ${schedule.enabled ? 'btn-primary' : 'btn-secondary'}`}
+                      onClick={() => updateSchedule(schedule.id, { enabled: !schedule.enabled })}
+                      title={schedule.enabled ? 'Disable the schedule' : 'Enable the schedule'}
+                    >
+                      {schedule.enabled ? 'On' : 'Off'}
+                    </button>
+                    <button
+                      className="btn btn-secondary btn-sm"
+                      onClick={() => runSchedule(schedule.id)}
+                      title="Run the action now"
+                    >
+                      Run
+                    </button>
+                    <button className="btn btn-secondary btn-sm" onClick={() => handleEdit(schedule)}>
+                      Edit
+                    </button>
+                    <button
+                      className="btn btn-secondary btn-sm"
+                      onClick={() => {
+                        if (editingId === schedule.id) handleNew();
+                        deleteSchedule(schedule.id);
+                      }}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+            Times are the computer's local time; runs missed while the app was closed are skipped
+          </small>
+        </div>
+
+        {/* ── Schedule Editor ── */}
+        <div className="output-section">
+          <div className="output-section-header">
+            <h3>{editingId ? 'Edit Schedule' : 'New Schedule'}</h3>
+            {editingId && (
+              <button className="btn btn-secondary btn-sm" onClick={handleNew}>
+                New
+              </button>
+            )}
+          </div>
+
+          <div className="form-group">
+            <label>Name</label>
+            <input
+              type="text"
+              className="form-input"
+              value={draft.name}
+              onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))}
+              placeholder="e.g. Lobby on"
+            />
+          </div>
+
+          <div className="form-group">
+            <label>When</label>
+            <div className="editor-mode-selector">
+              {TRIGGERS.map((t) => (
+                <button
+                  key={t.value}
+                  className={`btn btn-sm ${draft.trigger === t.value ? 'btn-primary' : 'btn-secondary'}`}
+                  onClick={() => setDraft((d) => ({ ...d, trigger: t.value }))}
+                  type="button"
+                >
+                  {t.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {draft.trigger === 'time' && (
+            <div className="form-group">
+              <label>Time / Days</label>
+              <input
+                type="time"
+                className="form-input"
+                value={draft.time}
+                onChange={(e) => setDraft((d) => ({ ...d, time: e.target.value || d.time }))}
+              />
+              <div className="editor-mode-selector schedule-days">
+                {WEEKDAYS.map((label, day) => (
+                  <button
+                    key={label}
+                    className={`btn btn-sm ${draft.days.includes(day) ? 'btn-primary' : 'btn-secondary'}`}
+                    onClick={() => handleToggleDay(day)}
+                    type="button"
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+                With no days selected the schedule runs every day
+              </small>
+            </div>
+          )}
+
+          {draft.trigger === 'interval' && (
+            <div className="form-group">
+              <label>Every (minutes)</label>
+              <input
+                type="number"
+                className="form-input"
+                value={draft.intervalMinutes}
+                onChange={(e) =>
+                  setDraft((d) => ({ ...d, intervalMinutes: Math.max(1, parseInt(e.target.value, 10) || 1) }))
+                }
+                min={1}
+                max={1440}
+              />
+              <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+                Counted from when the schedule is saved
+              </small>
+            </div>
+          )}
+
+          {draft.trigger === 'once' && (
+            <div className="form-group">
+              <label>Date / Time</label>
+              <input
+                type="datetime-local"
+                className="form-input"
+                value={draft.atText}
+                onChange={(e) => setDraft((d) => ({ ...d, atText: e.target.value }))}
+              />
+            </div>
+          )}
+
+          <div className="form-group">
+            <label>Action</label>
+            <div className="editor-mode-selector">
+              {ACTIONS.map((a) => (
+                <button
+                  key={a.value}
+                  className={`btn btn-sm ${draft.action === a.value ? 'btn-primary' : 'btn-secondary'}`}
+                  onClick={() => setDraft((d) => ({ ...d, action: a.value }))}
+                  type="button"
+                >
+                  {a.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {draft.action === 'preset' && (
+            <div className="form-group">
+              <label>Preset / Fade (ms)</label>
+              <div className="output-address-row">
+                <select
+                  className="form-select"
+                  value={draft.presetId ?? ''}
+                  onChange={(e) => setDraft((d) => ({ ...d, presetId: e.target.value || null }))}
+                >
+                  <option value="">Select a preset…</option>
+                  {presets.map((preset) => (
+                    <option key={preset.id} value={preset.id}>
+                      {preset.name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  className="form-input"
+                  value={draft.fadeTime ?? ''}
+                  onChange={setOptionalNumber('fadeTime')}
+                  min={0}
+                  step={100}
+                  placeholder="Preset's"
+                />
+              </div>
+            </div>
+          )}
+
+          {draft.action === 'blackout' && (
+            <div className="form-group">
+              <label>Blackout / Fade (ms)</label>
+              <div className="output-address-row">
+                <select
+                  className="form-select"
+                  value={draft.state}
+                  onChange={(e) => setDraft((d) => ({ ...d, state: e.target.value as 'on' | 'off' }))}
+                >
+                  <option value="on">On</option>
+                  <option value="off">Off</option>
+                </select>
+                <input
+                  type="number"
+                  className="form-input"
+                  value={draft.fadeTime ?? ''}
+                  onChange={setOptionalNumber('fadeTime')}
+                  min={0}
+                  step={100}
+                  placeholder="0"
+                />
+              </div>
+            </div>
+          )}
+
+          {draft.action === 'master' && (
+            <div className="form-group">
+              <label>Master: {draft.level}%</label>
+              <input
+                type="range"
+                className="horizontal-slider"
+                value={draft.level}
+                onChange={(e) => setDraft((d) => ({ ...d, level: parseInt(e.target.value, 10) }))}
+                min={0}
+                max={100}
+              />
+            </div>
+          )}
+
+          {draft.action === 'cue' && (
+            <div className="form-group">
+              <label>Cue</label>
+              <input
+                type="number"
+                className="form-input"
+                value={draft.cue ?? ''}
+                onChange={setOptionalNumber('cue')}
+                min={0}
+                step={0.1}
+                placeholder="GO"
+              />
+              <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+                Leave empty to GO the next cue
+              </small>
+            </div>
+          )}
+
+          <button className="btn btn-primary btn-sm" onClick={handleSave} disabled={missingPreset || missingDate}>
+            {editingId ? 'Save' : 'Add'}
+          </button>
+        </div>
+
+        {/* ── Idle Standby ── */}
+        {idle && (
+          <div className="output-section">
+            <div className="output-section-header">
+              <h3>Idle Standby{idle.active ? ' (active)' : ''}</h3>
+              <div className="editor-mode-selector">
+                <button
+                  className={`btn btn-sm ${idle.enabled ? 'btn-primary' : 'btn-secondary'}`}
+                  onClick={() => updateIdle({ enabled: true })}
+                  type="button"
+                >
+                  On
+                </button>
+                <button
+                  className={`btn btn-sm ${!idle.enabled ? 'btn-primary' : 'btn-secondary'}`}
+                  onClick={() => updateIdle({ enabled: false })}
+                  type="button"
+                >
+                  Off
+                </button>
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label>After (minutes) / Preset / Fade (ms)</label>
+              <div className="output-address-row">
+                <input
+                  type="number"
+                  className="form-input"
+                  value={idle.minutes}
+                  onChange={(e) => updateIdle({ minutes: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                  min={1}
+                  max={1440}
+                />
+                <select
+                  className="form-select"
+                  value={idle.presetId ?? ''}
+                  onChange={(e) => updateIdle({ presetId: e.target.value || null })}
+                >
+                  <option value="">Select a preset…</option>
+                  {presets.map((preset) => (
+                    <option key={preset.id} value={preset.id}>
+                      {preset.name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  className="form-input"
+                  value={idle.fadeTime ?? ''}
+                  onChange={(e) => {
+                    const ms = parseInt(e.target.value, 10);
+                    updateIdle({ fadeTime: Number.isFinite(ms) && ms >= 0 ? ms : null });
+                  }}
+                  min={0}
+                  step={100}
+                  placeholder="Preset's"
+                />
+              </div>
+              <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+                Fades to the preset once nothing has been touched in the UI, Companion or OSC for that long
+              </small>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Short summary of when a schedule runs.
+ */
+function describeTrigger(schedule: Schedule): string {
+  switch (schedule.trigger) {
+    case 'interval':
+      return `Every ${schedule.intervalMinutes} min`;
+    case 'once':
+      return schedule.at !== null ? `Once at ${new Date(schedule.at).toLocaleString()}` : 'Once';
+    default: {
+      const days = schedule.days.length === 0 ? 'Daily' : schedule.days.map((d) => WEEKDAYS[d]).join(', ');
+      return `${days} at ${schedule.time}`;
+    }
+  }
+}
+
+/**
+ * Short summary of what a schedule does.
+ */
+function describeAction(schedule: Schedule, presetName: string): string {
+  switch (schedule.action) {
+    case 'blackout':
+      return `Blackout ${schedule.state}`;
+    case 'master':
+      return `Master ${schedule.level}%`;
+    case 'cue':
+      return schedule.cue !== null ? `Cue ${schedule.cue}` : 'Cue GO';
+    default:
+      return presetName;
+  }
+}
+
+/**
+ * Format epoch ms as a datetime-local input value (local time).
+ */
+function toDateTimeLocal(ms: number): string {
+  const date = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+}
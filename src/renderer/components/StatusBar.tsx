@@ -9,15 +9,16 @@ interface StatusBarProps {
 export const StatusBar: React.FC<StatusBarProps> = ({ dmxStatus, isSocketConnected }) => {
   return (
     <div className="status-bar">
-      <div className="status-item">
-        <span className={`status-dot ${dmxStatus.connected ? 'connected' : 'disconnected'}`} />
-        <span>DMX: {dmxStatus.connected ? 'Connected' : 'Disconnected'}</span>
-      </div>
-      {dmxStatus.port && (
-        <div className="status-item">
-          <span>{dmxStatus.port}</span>
-        </div>
-      )}
+      {dmxStatus.outputs
+        .filter((output) => output.type === 'enttec' || (output.type !== 'virtual' && output.connected))
+        .map((output) => (
+          <div key={output.id} className="status-item" title={output.detail || undefined}>
+            <span className={`status-dot ${output.connected ? 'connected' : 'disconnected'}`} />
+            <span>
+              {output.label}: {output.connected ? output.detail || 'Connected' : 'Disconnected'}
+            </span>
+          </div>
+        ))}
       <div className="status-item">
         <span className={`status-dot ${isSocketConnected ? 'connected' : 'disconnected'}`} />
         <span>UI: {isSocketConnected ? 'Connected' : 'Disconnected'}</span>
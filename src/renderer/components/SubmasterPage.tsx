@@ -0,0 +1,83 @@
+import React, { useState, useEffect } from 'react';
+import { Socket } from 'socket.io-client';
+import { useSubmasters } from '../hooks/useSubmasters';
+import type { Preset } from '../types';
+
+interface SubmasterPageProps {
+  socket: Socket | null;
+}
+
+/**
+ * SubmasterPage — A page of playback faders, each holding a preset at a
+ * level so several looks can be layered: intensity mixes highest-takes-
+ * precedence, everything else follows the fader raised last.
+ */
+export const SubmasterPage: React.FC<SubmasterPageProps> = ({ socket }) => {
+  const { submasters, assignSubmaster, setSubmasterLevel } = useSubmasters(socket);
+  const [presets, setPresets] = useState<Preset[]>([]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handlePresetsList = (data: Preset[]) => {
+      setPresets(data);
+    };
+
+    socket.on('presets:list', handlePresetsList);
+
+    return () => {
+      socket.off('presets:list', handlePresetsList);
+    };
+  }, [socket]);
+
+  return (
+    <div className="top-section">
+      <div className="fader-bank">
+        <div className="fader-bank-header">
+          <h3>Playback Faders</h3>
+        </div>
+
+        <div className="fader-bank-grid submaster-grid">
+          {submasters.map((sub) => {
+            const preset = presets.find((p) => p.id === sub.presetId);
+            return (
+              <div
+                key={sub.number}
+                className={`channel-fader submaster-fader ${sub.level > 0 ? 'active' : ''}`}
+                style={{ '--preset-color': preset?.color } as React.CSSProperties}
+              >
+                <span className="channel-number">SUB {sub.number}</span>
+                <input
+                  type="range"
+                  className="vertical-fader"
+                  min={0}
+                  max={100}
+                  value={sub.level}
+                  onChange={(e) => setSubmasterLevel(sub.number, parseInt(e.target.value, 10))}
+                  disabled={!preset}
+                  // @ts-expect-error — orient is a non-standard attribute for vertical sliders
+                  orient="vertical"
+                />
+                <span className="channel-value">{sub.level}%</span>
+                <select
+                  className="form-select submaster-preset"
+                  value={sub.presetId ?? ''}
+                  onChange={(e) => assignSubmaster(sub.number, e.target.value || null)}
+                  title={preset?.name ?? 'Unassigned'}
+                >
+                  <option value="">—</option>
+                  {sub.presetId && !preset && <option value={sub.presetId}>Missing preset</option>}
+                  {presets.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,402 @@
+import React, { useState, useCallback } from 'react';
+import { Socket } from 'socket.io-client';
+import { useTimeline } from '../hooks/useTimeline';
+import type { TimelineTrackDefinition } from '../hooks/useTimeline';
+import type { FadeCurve, Fixture, TimelineTrack } from '../types';
+import { formatAddress } from '../utils/dmxAddress';
+
+const EASINGS: { value: FadeCurve; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'ease-in', label: 'Ease in' },
+  { value: 'ease-out', label: 'Ease out' },
+  { value: 's-curve', label: 'S-curve' },
+  { value: 'square-law', label: 'Square-law' },
+  { value: 'snap', label: 'Snap' },
+];
+
+const ATTRIBUTES = [
+  { value: 'intensity', label: 'Intensity' },
+  { value: 'red', label: 'Red' },
+  { value: 'green', label: 'Green' },
+  { value: 'blue', label: 'Blue' },
+  { value: 'white', label: 'White' },
+  { value: 'pan', label: 'Pan' },
+  { value: 'tilt', label: 'Tilt' },
+  { value: 'temperature', label: 'Temperature' },
+];
+
+const NEW_TRACK: TimelineTrackDefinition = {
+  name: '',
+  fixtureId: null,
+  attribute: 'intensity',
+  channel: null,
+};
+
+interface TimelinePanelProps {
+  socket: Socket | null;
+  fixtures: Fixture[];
+  onClose: () => void;
+}
+
+/**
+ * TimelinePanel — Modal dialog to program a show on a timeline: tracks for
+ * fixture attributes or raw channels hold keyframes, eased into with a fade
+ * curve. Play, pause, stop, loop and scrub the playhead; the stage follows.
+ */
+export const TimelinePanel: React.FC<TimelinePanelProps> = ({ socket, fixtures, onClose }) => {
+  const {
+    timeline,
+    position,
+    updateTimeline,
+    addTrack,
+    deleteTrack,
+    setKeyframe,
+    updateKeyframe,
+    deleteKeyframe,
+    record,
+    play,
+    pause,
+    stop,
+    seek,
+  } = useTimeline(socket);
+  const [draft, setDraft] = useState<TimelineTrackDefinition>(NEW_TRACK);
+  const [target, setTarget] = useState<'fixture' | 'channel'>('fixture');
+  const [selected, setSelected] = useState<{ trackId: string; keyframeId: string } | null>(null);
+
+  const handleAddTrack = useCallback(() => {
+    const fixture = fixtures.find((f) => f.id === draft.fixtureId);
+    const track =
+      target === 'fixture'
+        ? { ...draft, channel: null, name: draft.name.trim() || `${fixture?.name ?? 'Fixture'} ${draft.attribute}` }
+        : { ...draft, fixtureId: null, name: draft.name.trim() || `Channel ${draft.channel}` };
+    addTrack(track);
+    setDraft((d) => ({ ...d, name: '' }));
+  }, [draft, target, fixtures, addTrack]);
+
+  if (!timeline) return null;
+
+  const duration = timeline.duration;
+  const percent = (ms: number) => `${duration > 0 ? (ms / duration) * 100 : 0}%`;
+
+  const selectedTrack = timeline.tracks.find((t) => t.id === selected?.trackId);
+  const selectedKeyframe = selectedTrack?.keyframes.find((k) => k.id === selected?.keyframeId);
+
+  const canAddTrack = target === 'fixture' ? !!draft.fixtureId : draft.channel !== null;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content timeline-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Timeline</h2>
+          <button className="modal-close" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        {/* ── Transport ── */}
+        <div className="output-section">
+          <div className="timeline-transport">
+            <span className="timeline-clock">
+              {formatClock(position)} / {formatClock(duration)}
+            </span>
+            <button className="btn btn-secondary btn-sm" onClick={stop}>
+              Stop
+            </button>
+            {timeline.playing ? (
+              <button className="btn btn-primary btn-sm" onClick={pause}>
+                Pause
+              </button>
+            ) : (
+              <button className="btn btn-primary btn-sm" onClick={play}>
+                Play
+              </button>
+            )}
+            <button
+              className={`btn btn-sm ${timeline.loop ? 'btn-primary' : 'btn-secondary'}`}
+              onClick={() => updateTimeline({ loop: !timeline.loop })}
+            >
+              Loop
+            </button>
+            <button
+              className="btn btn-secondary btn-sm"
+              onClick={() => record()}
+              disabled={timeline.tracks.length === 0}
+              title="Key every track from the stage at the playhead"
+            >
+              Record
+            </button>
+          </div>
+          <input
+            type="range"
+            className="horizontal-slider timeline-scrub"
+            min={0}
+            max={duration}
+            step={100}
+            value={Math.round(position)}
+            onChange={(e) => seek(parseInt(e.target.value, 10))}
+            title="Scrub"
+          />
+          <div className="form-group">
+            <label>Length (s)</label>
+            <input
+              type="number"
+              className="form-input"
+              value={duration / 1000}
+              onChange={(e) => {
+                const seconds = parseFloat(e.target.value);
+                if (seconds > 0) updateTimeline({ duration: seconds * 1000 });
+              }}
+              min={1}
+              max={3600}
+            />
+          </div>
+        </div>
+
+        {/* ── Tracks ── */}
+        <div className="output-section">
+          <div className="output-section-header">
+            <h3>Tracks</h3>
+          </div>
+          {timeline.tracks.length === 0 ? (
+            <div className="empty-state">
+              <p>No tracks yet</p>
+            </div>
+          ) : (
+            <div className="timeline-tracks">
+              {timeline.tracks.map((track) => (
+                <div key={track.id} className="timeline-track">
+                  <div className="timeline-track-head">
+                    <span className="fixture-name">{track.name}</span>
+                    <span className="fixture-channels">{describeTarget(track, fixtures)}</span>
+                  </div>
+                  <div
+                    className="timeline-lane"
+                    onDoubleClick={(e) => {
+                      // Double-click the lane to move the playhead there
+                      const rect = e.currentTarget.getBoundingClientRect();
+                      seek(((e.clientX - rect.left) / rect.width) * duration);
+                    }}
+                    title="Double-click to move the playhead here"
+                  >
+                    {track.keyframes.map((keyframe) => (
+                      <button
+                        key={keyframe.id}
+                        className={`timeline-keyframe ${selected?.keyframeId === keyframe.id ? 'selected' : ''}`}
+                        style={{ left: percent(keyframe.time) }}
+                        onClick={() => setSelected({ trackId: track.id, keyframeId: keyframe.id })}
+                        title={`${formatClock(keyframe.time)} → ${keyframe.value}`}
+                      />
+                    ))}
+                    <div className="timeline-playhead" style={{ left: percent(position) }} />
+                  </div>
+                  <div className="fixture-actions">
+                    <button
+                      className="btn btn-secondary btn-sm"
+                      onClick={() => record([track.id])}
+                      title="Key this track from the stage at the playhead"
+                    >
+                      Key
+                    </button>
+                    <button
+                      className="btn btn-secondary btn-sm"
+                      onClick={() => {
+                        if (selected?.trackId === track.id) setSelected(null);
+                        deleteTrack(track.id);
+                      }}
+                    >
+                      ×
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+            Set the look on stage, move the playhead and press Record or Key; click a keyframe to edit it
+          </small>
+        </div>
+
+        {/* ── Keyframe Editor ── */}
+        {selectedTrack && selectedKeyframe && (
+          <div className="output-section">
+            <div className="output-section-header">
+              <h3>Keyframe — {selectedTrack.name}</h3>
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={() => {
+                  deleteKeyframe(selectedTrack.id, selectedKeyframe.id);
+                  setSelected(null);
+                }}
+              >
+                Delete
+              </button>
+            </div>
+            <div className="form-group">
+              <label>Time (s) / Value (0–255)</label>
+              <div className="output-address-row">
+                <input
+                  type="number"
+                  className="form-input"
+                  value={selectedKeyframe.time / 1000}
+                  onChange={(e) => {
+                    const seconds = parseFloat(e.target.value);
+                    if (seconds >= 0) updateKeyframe(selectedTrack.id, selectedKeyframe.id, { time: seconds * 1000 });
+                  }}
+                  min={0}
+                  max={duration / 1000}
+                  step={0.1}
+                />
+                <input
+                  type="number"
+                  className="form-input"
+                  value={selectedKeyframe.value}
+                  onChange={(e) =>
+                    updateKeyframe(selectedTrack.id, selectedKeyframe.id, { value: parseInt(e.target.value, 10) || 0 })
+                  }
+                  min={0}
+                  max={255}
+                />
+              </div>
+            </div>
+            <div className="form-group">
+              <label>Easing</label>
+              <select
+                className="form-select"
+                value={selectedKeyframe.easing}
+                onChange={(e) =>
+                  updateKeyframe(selectedTrack.id, selectedKeyframe.id, { easing: e.target.value as FadeCurve })
+                }
+              >
+                {EASINGS.map((c) => (
+                  <option key={c.value} value={c.value}>
+                    {c.label}
+                  </option>
+                ))}
+              </select>
+              <small style={{ color: 'var(--text-secondary)', marginTop: 4, display: 'block' }}>
+                The curve from the keyframe before into this one
+              </small>
+            </div>
+            <button
+              className="btn btn-secondary btn-sm"
+              onClick={() =>
+                setKeyframe(selectedTrack.id, { time: Math.round(position), value: selectedKeyframe.value })
+              }
+            >
+              Copy to Playhead
+            </button>
+          </div>
+        )}
+
+        {/* ── New Track ── */}
+        <div className="output-section">
+          <div className="output-section-header">
+            <h3>New Track</h3>
+          </div>
+
+          <div className="form-group">
+            <label>Target</label>
+            <div className="editor-mode-selector">
+              <button
+                className={`btn btn-sm ${target === 'fixture' ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => setTarget('fixture')}
+                type="button"
+              >
+                Fixture
+              </button>
+              <button
+                className={`btn btn-sm ${target === 'channel' ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => setTarget('channel')}
+                type="button"
+              >
+                Channel
+              </button>
+            </div>
+          </div>
+
+          {target === 'fixture' ? (
+            <div className="form-group">
+              <label>Fixture / Attribute</label>
+              <div className="output-address-row">
+                <select
+                  className="form-select"
+                  value={draft.fixtureId ?? ''}
+                  onChange={(e) => setDraft((d) => ({ ...d, fixtureId: e.target.value || null }))}
+                >
+                  <option value="">Select fixture</option>
+                  {fixtures.map((fixture) => (
+                    <option key={fixture.id} value={fixture.id}>
+                      {fixture.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className="form-select"
+                  value={draft.attribute}
+                  onChange={(e) => setDraft((d) => ({ ...d, attribute: e.target.value }))}
+                >
+                  {ATTRIBUTES.map((a) => (
+                    <option key={a.value} value={a.value}>
+                      {a.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          ) : (
+            <div className="form-group">
+              <label>Channel</label>
+              <input
+                type="number"
+                className="form-input"
+                value={draft.channel ?? ''}
+                onChange={(e) => {
+                  const channel = parseInt(e.target.value, 10);
+                  setDraft((d) => ({ ...d, channel: channel >= 1 ? channel : null }));
+                }}
+                min={1}
+                placeholder="Absolute channel"
+              />
+            </div>
+          )}
+
+          <div className="form-group">
+            <label>Name</label>
+            <input
+              type="text"
+              className="form-input"
+              value={draft.name}
+              onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))}
+              placeholder="Optional"
+            />
+          </div>
+
+          <button className="btn btn-primary btn-sm" onClick={handleAddTrack} disabled={!canAddTrack}>
+            Add Track
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Short summary of what a track drives.
+ */
+function describeTarget(track: TimelineTrack, fixtures: Fixture[]): string {
+  if (track.fixtureId) {
+    const fixture = fixtures.find((f) => f.id === track.fixtureId);
+    return `${fixture?.name ?? 'Missing fixture'} · ${track.attribute}`;
+  }
+  return track.channel !== null ? `Channel ${formatAddress(track.channel)}` : 'No target';
+}
+
+/**
+ * m:ss.s for a time in ms.
+ */
+function formatClock(ms: number): string {
+  const tenths = Math.max(0, Math.floor(ms / 100));
+  const minutes = Math.floor(tenths / 600);
+  const seconds = ((tenths % 600) / 10).toFixed(1).padStart(4, '0');
+  return `${minutes}:${seconds}`;
+}
@@ -0,0 +1,87 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Socket } from 'socket.io-client';
+import type { Chase } from '../types';
+
+export type ChaseDefinition = Omit<Chase, 'id' | 'running' | 'currentStep'>;
+
+/**
+ * Hook to edit, run and tap the tempo of step chases via Socket.io.
+ */
+export function useChases(socket: Socket | null) {
+  const [chases, setChases] = useState<Chase[]>([]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleList = (data: Chase[]) => {
+      setChases(data);
+    };
+
+    socket.on('chases:list', handleList);
+
+    // Request state on mount — the dialog opens after the initial sync
+    socket.emit('chases:get');
+
+    return () => {
+      socket.off('chases:list', handleList);
+    };
+  }, [socket]);
+
+  const createChase = useCallback(
+    (chase: Partial<ChaseDefinition>) => {
+      socket?.emit('chase:create', { chase });
+    },
+    [socket]
+  );
+
+  const updateChase = useCallback(
+    (id: string, patch: Partial<ChaseDefinition>) => {
+      socket?.emit('chase:update', { id, patch });
+    },
+    [socket]
+  );
+
+  const deleteChase = useCallback(
+    (id: string) => {
+      socket?.emit('chase:delete', { id });
+    },
+    [socket]
+  );
+
+  const startChase = useCallback(
+    (id: string) => {
+      socket?.emit('chase:start', { id });
+    },
+    [socket]
+  );
+
+  const stopChase = useCallback(
+    (id: string) => {
+      socket?.emit('chase:stop', { id });
+    },
+    [socket]
+  );
+
+  const stopAllChases = useCallback(() => {
+    socket?.emit('chase:stop-all');
+  }, [socket]);
+
+  const tapChase = useCallback(
+    (id: string) => {
+      socket?.emit('chase:tap', { id });
+    },
+    [socket]
+  );
+
+  /**
+   * Set the tempo; null clears it so the steps use their own times.
+   */
+  const setChaseBpm = useCallback(
+    (id: string, bpm: number | null) => {
+      socket?.emit('chase:bpm', { id, bpm });
+    },
+    [socket]
+  );
+
+  return { chases, createChase, updateChase, deleteChase, startChase, stopChase, stopAllChases, tapChase, setChaseBpm };
+}
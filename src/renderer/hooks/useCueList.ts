@@ -0,0 +1,77 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Socket } from 'socket.io-client';
+import type { CueInfo, CueListState, CueRecordOptions } from '../types';
+
+export type CuePatch = Partial<Omit<CueInfo, 'id' | 'channelCount'>>;
+
+/**
+ * Hook to record, edit and run the theatre cue list via Socket.io.
+ */
+export function useCueList(socket: Socket | null) {
+  const [cueList, setCueList] = useState<CueListState | null>(null);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleState = (data: CueListState) => {
+      setCueList(data);
+    };
+
+    socket.on('cues:state', handleState);
+
+    // Request state on mount — the panel may mount after the initial sync
+    socket.emit('cues:get');
+
+    return () => {
+      socket.off('cues:state', handleState);
+    };
+  }, [socket]);
+
+  const recordCue = useCallback(
+    (options: CueRecordOptions) => {
+      socket?.emit('cue:record', options);
+    },
+    [socket]
+  );
+
+  /**
+   * Re-record a cue's look from the stage, or from a preset.
+   */
+  const rerecordCue = useCallback(
+    (id: string, presetId?: string) => {
+      socket?.emit('cue:rerecord', { id, presetId });
+    },
+    [socket]
+  );
+
+  const updateCue = useCallback(
+    (id: string, patch: CuePatch) => {
+      socket?.emit('cue:update', { id, patch });
+    },
+    [socket]
+  );
+
+  const deleteCue = useCallback(
+    (id: string) => {
+      socket?.emit('cue:delete', { id });
+    },
+    [socket]
+  );
+
+  const go = useCallback(() => {
+    socket?.emit('cue:go');
+  }, [socket]);
+
+  const back = useCallback(() => {
+    socket?.emit('cue:back');
+  }, [socket]);
+
+  const goToCue = useCallback(
+    (number: number) => {
+      socket?.emit('cue:goto', { number });
+    },
+    [socket]
+  );
+
+  return { cueList, recordCue, rerecordCue, updateCue, deleteCue, go, back, goToCue };
+}
@@ -1,16 +1,19 @@
 import { useEffect, useState, useCallback } from 'react';
 import { Socket } from 'socket.io-client';
-import type { DMXState, DMXStatus } from '../types';
+import type { DMXState, DMXStatus, BlackoutState } from '../types';
+import { UNIVERSE_SIZE } from '../utils/dmxAddress';
 
 /**
  * Hook to subscribe to DMX universe state updates via Socket.io.
  */
 export function useDMXState(socket: Socket | null) {
-  const [channels, setChannelsState] = useState<number[]>(new Array(512).fill(0));
+  const [channels, setChannelsState] = useState<number[]>(new Array(UNIVERSE_SIZE).fill(0));
   const [master, setMaster] = useState<number>(255);
+  const [owners, setOwners] = useState<Record<number, string>>({});
+  const [blackoutActive, setBlackoutActive] = useState(false);
   const [dmxStatus, setDMXStatus] = useState<DMXStatus>({
     connected: false,
-    port: null,
+    outputs: [],
   });
 
   useEffect(() => {
@@ -19,18 +22,25 @@ export function useDMXState(socket: Socket | null) {
     const handleState = (data: DMXState) => {
       setChannelsState(data.channels);
       setMaster(data.master);
+      setOwners(data.owners || {});
     };
 
     const handleStatus = (data: DMXStatus) => {
       setDMXStatus(data);
     };
 
+    const handleBlackout = (data: BlackoutState) => {
+      setBlackoutActive(data.active);
+    };
+
     socket.on('dmx:state', handleState);
     socket.on('dmx:status', handleStatus);
+    socket.on('blackout:state', handleBlackout);
 
     return () => {
       socket.off('dmx:state', handleState);
       socket.off('dmx:status', handleStatus);
+      socket.off('blackout:state', handleBlackout);
     };
   }, [socket]);
 
@@ -55,6 +65,14 @@ export function useDMXState(socket: Socket | null) {
     [socket]
   );
 
+  const setUniverseCount = useCallback(
+    (count: number) => {
+      socket?.emit('dmx:set-universe-count', { count });
+    },
+    [socket]
+  );
+
+  // Toggles: a second call fades back to the look that was up
   const blackout = useCallback(
     (fadeTime?: number) => {
       socket?.emit('dmx:blackout', { fadeTime });
@@ -64,11 +82,15 @@ export function useDMXState(socket: Socket | null) {
 
   return {
     channels,
+    universeCount: Math.max(1, Math.ceil(channels.length / UNIVERSE_SIZE)),
     master,
+    owners,
     dmxStatus,
+    blackoutActive,
     setChannel,
     setChannelsBatch: setChannels,
     setMasterDimmer,
+    setUniverseCount,
     blackout,
   };
 }
@@ -0,0 +1,67 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Socket } from 'socket.io-client';
+import type { Effect } from '../types';
+
+export type EffectDefinition = Omit<Effect, 'id' | 'running'>;
+
+/**
+ * Hook to create, edit, start and stop software effects via Socket.io.
+ */
+export function useEffects(socket: Socket | null) {
+  const [effects, setEffects] = useState<Effect[]>([]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleList = (data: Effect[]) => {
+      setEffects(data);
+    };
+
+    socket.on('effects:list', handleList);
+
+    return () => {
+      socket.off('effects:list', handleList);
+    };
+  }, [socket]);
+
+  const createEffect = useCallback(
+    (effect: Partial<EffectDefinition>) => {
+      socket?.emit('effect:create', { effect });
+    },
+    [socket]
+  );
+
+  const updateEffect = useCallback(
+    (id: string, patch: Partial<EffectDefinition>) => {
+      socket?.emit('effect:update', { id, patch });
+    },
+    [socket]
+  );
+
+  const deleteEffect = useCallback(
+    (id: string) => {
+      socket?.emit('effect:delete', { id });
+    },
+    [socket]
+  );
+
+  const startEffect = useCallback(
+    (id: string) => {
+      socket?.emit('effect:start', { id });
+    },
+    [socket]
+  );
+
+  const stopEffect = useCallback(
+    (id: string) => {
+      socket?.emit('effect:stop', { id });
+    },
+    [socket]
+  );
+
+  const stopAllEffects = useCallback(() => {
+    socket?.emit('effect:stop-all');
+  }, [socket]);
+
+  return { effects, createEffect, updateEffect, deleteEffect, startEffect, stopEffect, stopAllEffects };
+}
@@ -0,0 +1,40 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Socket } from 'socket.io-client';
+import type { FadeInfo } from '../types';
+
+/**
+ * Hook to list running fades and cancel or complete them via Socket.io.
+ */
+export function useFades(socket: Socket | null) {
+  const [fades, setFades] = useState<FadeInfo[]>([]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleList = (data: FadeInfo[]) => {
+      setFades(data);
+    };
+
+    socket.on('fades:list', handleList);
+
+    return () => {
+      socket.off('fades:list', handleList);
+    };
+  }, [socket]);
+
+  const cancelFade = useCallback(
+    (id: string) => {
+      socket?.emit('fade:cancel', { id });
+    },
+    [socket]
+  );
+
+  const completeFade = useCallback(
+    (id: string) => {
+      socket?.emit('fade:complete', { id });
+    },
+    [socket]
+  );
+
+  return { fades, cancelFade, completeFade };
+}
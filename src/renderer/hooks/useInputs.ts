@@ -0,0 +1,103 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Socket } from 'socket.io-client';
+import type { InputSource, EnttecConfig, EnttecInputFrame, OSCConfig } from '../types';
+
+type InputSourcePatch = Partial<Omit<InputSource, 'id' | 'active' | 'sender' | 'lastSeen' | 'effectivePriority'>>;
+
+/**
+ * Hook to manage DMX inputs via Socket.io: network sources (sACN/Art-Net
+ * receive), the Enttec USB Pro receive mode, and the OSC receiver.
+ */
+export function useInputs(socket: Socket | null) {
+  const [inputSources, setInputSources] = useState<InputSource[]>([]);
+  const [enttecConfig, setEnttecConfig] = useState<EnttecConfig | null>(null);
+  const [enttecFrame, setEnttecFrame] = useState<EnttecInputFrame | null>(null);
+  const [oscConfig, setOSCConfig] = useState<OSCConfig | null>(null);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleList = (data: InputSource[]) => {
+      setInputSources(data);
+    };
+
+    const handleEnttecConfig = (data: EnttecConfig) => {
+      setEnttecConfig(data);
+    };
+
+    const handleEnttecInput = (data: EnttecInputFrame) => {
+      setEnttecFrame(data);
+    };
+
+    const handleOSCConfig = (data: OSCConfig) => {
+      setOSCConfig(data);
+    };
+
+    socket.on('inputs:list', handleList);
+    socket.on('enttec:config', handleEnttecConfig);
+    socket.on('enttec:input', handleEnttecInput);
+    socket.on('osc:config', handleOSCConfig);
+
+    return () => {
+      socket.off('inputs:list', handleList);
+      socket.off('enttec:config', handleEnttecConfig);
+      socket.off('enttec:input', handleEnttecInput);
+      socket.off('osc:config', handleOSCConfig);
+    };
+  }, [socket]);
+
+  const createInput = useCallback(
+    (source: InputSourcePatch) => {
+      socket?.emit('inputs:create', { source });
+    },
+    [socket]
+  );
+
+  const updateInput = useCallback(
+    (id: string, patch: InputSourcePatch) => {
+      socket?.emit('inputs:update', { id, patch });
+    },
+    [socket]
+  );
+
+  const deleteInput = useCallback(
+    (id: string) => {
+      socket?.emit('inputs:delete', { id });
+    },
+    [socket]
+  );
+
+  const updateEnttecConfig = useCallback(
+    (patch: Partial<Pick<EnttecConfig, 'receiveMode'>>) => {
+      socket?.emit('enttec:update-config', { patch });
+    },
+    [socket]
+  );
+
+  const captureEnttecFrame = useCallback(
+    (name: string, universe: number) => {
+      socket?.emit('enttec:capture', { name, universe });
+    },
+    [socket]
+  );
+
+  const updateOSCConfig = useCallback(
+    (patch: Partial<OSCConfig>) => {
+      socket?.emit('osc:update-config', { patch });
+    },
+    [socket]
+  );
+
+  return {
+    inputSources,
+    createInput,
+    updateInput,
+    deleteInput,
+    enttecConfig,
+    enttecFrame,
+    updateEnttecConfig,
+    captureEnttecFrame,
+    oscConfig,
+    updateOSCConfig,
+  };
+}
@@ -0,0 +1,137 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Socket } from 'socket.io-client';
+import type { ArtNetConfig, ArtNetNode, SACNConfig, OutputRoutes, EnttecWidgetInfo, SerialPortCandidate } from '../types';
+
+type EnttecWidgetParams = Partial<Pick<EnttecWidgetInfo, 'breakTime' | 'mabTime' | 'outputRate'>>;
+
+/**
+ * Hook to subscribe to output routing and refresh rate, Enttec adapter selection and widget
+ * parameters, and network output configuration (Art-Net, sACN) via Socket.io.
+ */
+export function useOutputs(socket: Socket | null) {
+  const [artnetConfig, setArtNetConfig] = useState<ArtNetConfig | null>(null);
+  const [artnetNodes, setArtNetNodes] = useState<ArtNetNode[]>([]);
+  const [sacnConfig, setSACNConfig] = useState<SACNConfig | null>(null);
+  const [routes, setRoutes] = useState<OutputRoutes>({});
+  const [enttecWidget, setEnttecWidget] = useState<EnttecWidgetInfo | null>(null);
+  const [enttecPorts, setEnttecPorts] = useState<SerialPortCandidate[]>([]);
+  const [refreshInterval, setRefreshIntervalState] = useState(25);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleArtNetConfig = (data: ArtNetConfig) => {
+      setArtNetConfig(data);
+    };
+
+    const handleArtNetNodes = (data: ArtNetNode[]) => {
+      setArtNetNodes(data);
+    };
+
+    const handleSACNConfig = (data: SACNConfig) => {
+      setSACNConfig(data);
+    };
+
+    const handleRoutes = (data: OutputRoutes) => {
+      setRoutes(data);
+    };
+
+    const handleEnttecWidget = (data: EnttecWidgetInfo) => {
+      setEnttecWidget(data);
+    };
+
+    const handleEnttecPorts = (data: SerialPortCandidate[]) => {
+      setEnttecPorts(data);
+    };
+
+    const handleRefreshRate = (data: { interval: number }) => {
+      setRefreshIntervalState(data.interval);
+    };
+
+    socket.on('artnet:config', handleArtNetConfig);
+    socket.on('artnet:nodes', handleArtNetNodes);
+    socket.on('sacn:config', handleSACNConfig);
+    socket.on('dmx:routes', handleRoutes);
+    socket.on('enttec:widget', handleEnttecWidget);
+    socket.on('enttec:ports', handleEnttecPorts);
+    socket.on('dmx:refresh-rate', handleRefreshRate);
+
+    return () => {
+      socket.off('artnet:config', handleArtNetConfig);
+      socket.off('artnet:nodes', handleArtNetNodes);
+      socket.off('sacn:config', handleSACNConfig);
+      socket.off('dmx:routes', handleRoutes);
+      socket.off('enttec:widget', handleEnttecWidget);
+      socket.off('enttec:ports', handleEnttecPorts);
+      socket.off('dmx:refresh-rate', handleRefreshRate);
+    };
+  }, [socket]);
+
+  const updateArtNetConfig = useCallback(
+    (patch: Partial<ArtNetConfig>) => {
+      socket?.emit('artnet:update-config', { patch });
+    },
+    [socket]
+  );
+
+  const pollArtNet = useCallback(() => {
+    socket?.emit('artnet:poll');
+  }, [socket]);
+
+  const updateSACNConfig = useCallback(
+    (patch: Partial<Omit<SACNConfig, 'cid'>>) => {
+      socket?.emit('sacn:update-config', { patch });
+    },
+    [socket]
+  );
+
+  const setRoute = useCallback(
+    (universe: number, outputIds: string[]) => {
+      socket?.emit('dmx:set-route', { universe, outputIds });
+    },
+    [socket]
+  );
+
+  const setEnttecWidgetParams = useCallback(
+    (patch: EnttecWidgetParams) => {
+      socket?.emit('enttec:set-widget-params', { patch });
+    },
+    [socket]
+  );
+
+  const setRefreshInterval = useCallback(
+    (interval: number) => {
+      socket?.emit('dmx:set-refresh-rate', { interval });
+    },
+    [socket]
+  );
+
+  const scanEnttecPorts = useCallback(() => {
+    socket?.emit('enttec:scan-ports');
+  }, [socket]);
+
+  const selectEnttecPort = useCallback(
+    (path: string | null) => {
+      socket?.emit('enttec:select-port', { path });
+    },
+    [socket]
+  );
+
+  return {
+    routes,
+    setRoute,
+    refreshInterval,
+    setRefreshInterval,
+    enttecWidget,
+    setEnttecWidgetParams,
+    enttecPorts,
+    scanEnttecPorts,
+    selectEnttecPort,
+    artnetConfig,
+    artnetNodes,
+    sacnConfig,
+    updateArtNetConfig,
+    pollArtNet,
+    updateSACNConfig,
+  };
+}
@@ -0,0 +1,55 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Socket } from 'socket.io-client';
+import type { ParkEntry } from '../types';
+
+/**
+ * Hook to park, lock and release channels via Socket.io.
+ */
+export function useParked(socket: Socket | null) {
+  const [parked, setParked] = useState<ParkEntry[]>([]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleList = (data: ParkEntry[]) => {
+      setParked(data);
+    };
+
+    socket.on('park:list', handleList);
+
+    return () => {
+      socket.off('park:list', handleList);
+    };
+  }, [socket]);
+
+  /**
+   * Park channels (or a whole fixture) at a value; without one they hold
+   * their current output.
+   */
+  const park = useCallback(
+    (target: { channels?: number[]; fixtureId?: string }, value?: number) => {
+      socket?.emit('park:park', { ...target, value });
+    },
+    [socket]
+  );
+
+  const lock = useCallback(
+    (target: { channels?: number[]; fixtureId?: string }) => {
+      socket?.emit('park:lock', target);
+    },
+    [socket]
+  );
+
+  const unpark = useCallback(
+    (channels: number[]) => {
+      socket?.emit('park:unpark', { channels });
+    },
+    [socket]
+  );
+
+  const unparkAll = useCallback(() => {
+    socket?.emit('park:unpark-all');
+  }, [socket]);
+
+  return { parked, park, lock, unpark, unparkAll };
+}
@@ -0,0 +1,70 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Socket } from 'socket.io-client';
+import type { PlaybackState } from '../types';
+
+/**
+ * Hook to drive the playback sequence (GO/BACK, crossfader) via Socket.io.
+ */
+export function usePlayback(socket: Socket | null) {
+  const [playback, setPlayback] = useState<PlaybackState | null>(null);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleState = (data: PlaybackState) => {
+      setPlayback(data);
+    };
+
+    socket.on('playback:state', handleState);
+
+    // Request state on mount — the panel may mount after the initial sync
+    socket.emit('playback:get');
+
+    return () => {
+      socket.off('playback:state', handleState);
+    };
+  }, [socket]);
+
+  const setSequence = useCallback(
+    (presetIds: string[]) => {
+      socket?.emit('playback:set-sequence', { presetIds });
+    },
+    [socket]
+  );
+
+  const stage = useCallback(
+    (index: number) => {
+      socket?.emit('playback:stage', { index });
+    },
+    [socket]
+  );
+
+  const setCrossfader = useCallback(
+    (value: number) => {
+      socket?.emit('playback:crossfader', { value });
+    },
+    [socket]
+  );
+
+  const go = useCallback(() => {
+    socket?.emit('playback:go');
+  }, [socket]);
+
+  const back = useCallback(() => {
+    socket?.emit('playback:back');
+  }, [socket]);
+
+  const pause = useCallback(() => {
+    socket?.emit('playback:pause');
+  }, [socket]);
+
+  const resume = useCallback(() => {
+    socket?.emit('playback:resume');
+  }, [socket]);
+
+  const reverse = useCallback(() => {
+    socket?.emit('playback:reverse');
+  }, [socket]);
+
+  return { playback, setSequence, stage, setCrossfader, go, back, pause, resume, reverse };
+}
@@ -0,0 +1,77 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Socket } from 'socket.io-client';
+import type { IdleStandby, Schedule, ScheduleState } from '../types';
+
+export type ScheduleDefinition = Omit<Schedule, 'id' | 'updatedAt' | 'lastFiredAt' | 'nextFireAt'>;
+export type IdleStandbyPatch = Partial<Omit<IdleStandby, 'active'>>;
+
+/**
+ * Hook to edit schedules and the idle auto-standby via Socket.io.
+ */
+export function useSchedules(socket: Socket | null) {
+  const [schedules, setSchedules] = useState<ScheduleState | null>(null);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleState = (data: ScheduleState) => {
+      setSchedules(data);
+    };
+
+    socket.on('schedules:state', handleState);
+
+    // Request state on mount — the dialog opens after the initial sync
+    socket.emit('schedules:get');
+
+    return () => {
+      socket.off('schedules:state', handleState);
+    };
+  }, [socket]);
+
+  const createSchedule = useCallback(
+    (schedule: Partial<ScheduleDefinition>) => {
+      socket?.emit('schedule:create', { schedule });
+    },
+    [socket]
+  );
+
+  const updateSchedule = useCallback(
+    (id: string, patch: Partial<ScheduleDefinition>) => {
+      socket?.emit('schedule:update', { id, patch });
+    },
+    [socket]
+  );
+
+  const deleteSchedule = useCallback(
+    (id: string) => {
+      socket?.emit('schedule:delete', { id });
+    },
+    [socket]
+  );
+
+  /**
+   * Run a schedule's action now, without changing its timing.
+   */
+  const runSchedule = useCallback(
+    (id: string) => {
+      socket?.emit('schedule:run', { id });
+    },
+    [socket]
+  );
+
+  const updateIdle = useCallback(
+    (patch: IdleStandbyPatch) => {
+      socket?.emit('schedule:idle', { patch });
+    },
+    [socket]
+  );
+
+  return {
+    schedules,
+    createSchedule,
+    updateSchedule,
+    deleteSchedule,
+    runSchedule,
+    updateIdle,
+  };
+}
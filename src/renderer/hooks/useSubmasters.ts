@@ -0,0 +1,43 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Socket } from 'socket.io-client';
+import type { SubmasterInfo } from '../types';
+
+/**
+ * Hook to assign presets to playback faders and set their levels via Socket.io.
+ */
+export function useSubmasters(socket: Socket | null) {
+  const [submasters, setSubmasters] = useState<SubmasterInfo[]>([]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleList = (data: SubmasterInfo[]) => {
+      setSubmasters(data);
+    };
+
+    socket.on('submasters:list', handleList);
+
+    // Request state on mount — the fader page may mount after the initial sync
+    socket.emit('submasters:get');
+
+    return () => {
+      socket.off('submasters:list', handleList);
+    };
+  }, [socket]);
+
+  const assignSubmaster = useCallback(
+    (number: number, presetId: string | null) => {
+      socket?.emit('submaster:assign', { number, presetId });
+    },
+    [socket]
+  );
+
+  const setSubmasterLevel = useCallback(
+    (number: number, level: number) => {
+      socket?.emit('submaster:level', { number, level });
+    },
+    [socket]
+  );
+
+  return { submasters, assignSubmaster, setSubmasterLevel };
+}
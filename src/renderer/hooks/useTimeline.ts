@@ -0,0 +1,156 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Socket } from 'socket.io-client';
+import type { TimelineKeyframe, TimelineState, TimelineTrack, TimelineTransport } from '../types';
+
+export type TimelineTrackDefinition = Omit<TimelineTrack, 'id' | 'keyframes'>;
+export type KeyframeDefinition = Partial<Omit<TimelineKeyframe, 'id'>>;
+
+/**
+ * Hook to edit the keyframe timeline and drive its transport via Socket.io.
+ * The server sends the playhead a few times a second; in between, a
+ * playing timeline's position is advanced locally for a smooth playhead.
+ */
+export function useTimeline(socket: Socket | null) {
+  const [timeline, setTimeline] = useState<TimelineState | null>(null);
+  const [position, setPosition] = useState(0);
+  const [syncedAt, setSyncedAt] = useState(0);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleState = (data: TimelineState) => {
+      setTimeline(data);
+      setPosition(data.position);
+      setSyncedAt(Date.now());
+    };
+
+    const handlePosition = (data: TimelineTransport) => {
+      setTimeline((t) => (t ? { ...t, ...data } : t));
+      setPosition(data.position);
+      setSyncedAt(Date.now());
+    };
+
+    socket.on('timeline:state', handleState);
+    socket.on('timeline:position', handlePosition);
+
+    // Request state on mount — the dialog opens after the initial sync
+    socket.emit('timeline:get');
+
+    return () => {
+      socket.off('timeline:state', handleState);
+      socket.off('timeline:position', handlePosition);
+    };
+  }, [socket]);
+
+  const playing = timeline?.playing ?? false;
+  const duration = timeline?.duration ?? 0;
+  const syncedPosition = timeline?.position ?? 0;
+
+  useEffect(() => {
+    if (!playing) return;
+
+    let frame = requestAnimationFrame(function advance() {
+      const elapsed = Date.now() - syncedAt;
+      setPosition(Math.min(duration, syncedPosition + elapsed));
+      frame = requestAnimationFrame(advance);
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [playing, duration, syncedPosition, syncedAt]);
+
+  const updateTimeline = useCallback(
+    (patch: { duration?: number; loop?: boolean }) => {
+      socket?.emit('timeline:update', patch);
+    },
+    [socket]
+  );
+
+  const addTrack = useCallback(
+    (track: Partial<TimelineTrackDefinition>) => {
+      socket?.emit('timeline:add-track', { track });
+    },
+    [socket]
+  );
+
+  const updateTrack = useCallback(
+    (id: string, patch: Partial<TimelineTrackDefinition>) => {
+      socket?.emit('timeline:update-track', { id, patch });
+    },
+    [socket]
+  );
+
+  const deleteTrack = useCallback(
+    (id: string) => {
+      socket?.emit('timeline:delete-track', { id });
+    },
+    [socket]
+  );
+
+  const setKeyframe = useCallback(
+    (trackId: string, keyframe: KeyframeDefinition) => {
+      socket?.emit('timeline:set-keyframe', { trackId, keyframe });
+    },
+    [socket]
+  );
+
+  const updateKeyframe = useCallback(
+    (trackId: string, id: string, patch: KeyframeDefinition) => {
+      socket?.emit('timeline:update-keyframe', { trackId, id, patch });
+    },
+    [socket]
+  );
+
+  const deleteKeyframe = useCallback(
+    (trackId: string, id: string) => {
+      socket?.emit('timeline:delete-keyframe', { trackId, id });
+    },
+    [socket]
+  );
+
+  /**
+   * Record a keyframe from the stage at the playhead, on every track or
+   * the given ones.
+   */
+  const record = useCallback(
+    (trackIds?: string[]) => {
+      socket?.emit('timeline:record', { trackIds });
+    },
+    [socket]
+  );
+
+  const play = useCallback(() => {
+    socket?.emit('timeline:play');
+  }, [socket]);
+
+  const pause = useCallback(() => {
+    socket?.emit('timeline:pause');
+  }, [socket]);
+
+  const stop = useCallback(() => {
+    socket?.emit('timeline:stop');
+  }, [socket]);
+
+  const seek = useCallback(
+    (ms: number) => {
+      socket?.emit('timeline:seek', { position: ms });
+    },
+    [socket]
+  );
+
+  return {
+    timeline,
+    position,
+    updateTimeline,
+    addTrack,
+    updateTrack,
+    deleteTrack,
+    setKeyframe,
+    updateKeyframe,
+    deleteKeyframe,
+    record,
+    play,
+    pause,
+    stop,
+    seek,
+  };
+}
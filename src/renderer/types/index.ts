@@ -6,9 +6,19 @@
  */
 export interface FixtureChannel {
   name: string;
-  dmxChannel: number; // 1–512 (DMX convention, 1-indexed)
+  dmxChannel: number; // Absolute, 1-indexed: (universe - 1) * 512 + address
+  // Patch-level output processing — presets and faders stay in logical 0–255
+  min?: number;       // Output floor (preheat)
+  max?: number;       // Output ceiling
+  invert?: boolean;
+  curve?: OutputCurve;
 }
 
+/**
+ * Response curve applied to a channel at the output stage.
+ */
+export type OutputCurve = 'linear' | 'square-law' | 'inverse-square' | 's-curve' | 'switch';
+
 /**
  * Supported channel property categories.
  * Used by the UI to render the correct control widget for each channel.
@@ -22,6 +32,7 @@ export type ChannelRole =
   | 'mode'
   | 'mode-select'
   | 'dynamic'
+  | 'fine'
   | 'custom';
 
 /**
@@ -78,6 +89,7 @@ export interface ProfileControl {
 export interface ProfileChannelDef {
   role: ChannelRole;
   label: string;
+  fine?: string; // Key of the fine (LSB) channel — makes this the coarse half of a 16-bit pair
 }
 
 /**
@@ -154,13 +166,40 @@ export interface FixtureConfig {
 /**
  * A saved lighting preset.
  */
+/**
+ * Fade curve shaping a channel's transition during a preset fade.
+ * 'square-law' is linear in perceived brightness; 'snap' jumps at the start.
+ */
+export type FadeCurve = 'linear' | 'ease-in' | 'ease-out' | 's-curve' | 'square-law' | 'snap';
+
+/**
+ * Timing attribute of a channel: intensity (dimmer), colour (RGB, hue,
+ * saturation, temperature) or FX (everything else on a fixture).
+ */
+export type FadeAttribute = 'intensity' | 'color' | 'fx';
+
+/**
+ * Fade time and the delay before it starts, in ms.
+ */
+export interface FadeTiming {
+  time: number;
+  delay?: number;
+}
+
 export interface Preset {
   id: string;
   name: string;
-  channels: number[]; // 512-length array of values 0–255
-  fadeTime: number;    // Default fade duration in ms
+  channels: number[]; // 512 values (0–255) per universe, universe 1 first
+  fadeTime: number;    // Fade-in (up) duration in ms
+  fadeOutTime?: number; // Fade-out (down) duration in ms (default: fadeTime)
+  delayIn?: number;     // Delay before channels rise, ms
+  delayOut?: number;    // Delay before channels fall, ms
+  attributeTiming?: Partial<Record<FadeAttribute, FadeTiming>>; // Overrides in/out per attribute
+  fadeCurve?: FadeCurve; // Curve for channels without a role curve (default: linear)
+  roleCurves?: Partial<Record<string, FadeCurve>>; // Channel role -> curve (dimmer defaults to square-law)
   color: string;       // Hex color for the UI button (e.g., "#ff3300")
   fixtureModes?: Record<string, string>; // Fixture ID -> active mode name
+  effects?: string[];  // Effect IDs to run on recall (others stop); unset leaves effects alone
   createdAt: string;
   updatedAt: string;
 }
@@ -175,31 +214,407 @@ export interface StoreSchema {
     defaultFadeTime: number;
     uiThrottleRate: number;
     dmxRefreshRate: number;
+    universeCount: number;
   };
 }
 
 /**
- * DMX connection status payload.
+ * Status of a single DMX output transport.
  */
-export interface DMXStatus {
+export interface OutputStatus {
+  id: string;
+  type: 'enttec' | 'artnet' | 'sacn' | 'virtual';
+  label: string;
   connected: boolean;
-  port: string | null;
+  detail: string | null;
+  maxUniverses?: number; // Universes it can carry at once; unlimited when unset
+}
+
+/**
+ * DMX connection status payload — one entry per output.
+ */
+export interface DMXStatus {
+  connected: boolean; // true if any hardware/network output is connected
+  outputs: OutputStatus[];
+}
+
+/**
+ * Universe → output IDs routing table (keys are 1-indexed universes).
+ */
+export type OutputRoutes = Record<number, string[]>;
+
+/**
+ * Enttec DMX USB Pro configuration.
+ * 'off': output only; 'always': report every received frame;
+ * 'change': report only changed slots.
+ */
+export interface EnttecConfig {
+  receiveMode: 'off' | 'always' | 'change';
+  pinnedPort: { serialNumber: string | null; path: string } | null; // null = auto-detect
+}
+
+/**
+ * A serial port that could be the DMX adapter.
+ */
+export interface SerialPortCandidate {
+  path: string;
+  manufacturer: string | null;
+  vendorId: string | null;
+  productId: string | null;
+  serialNumber: string | null;
+  isEnttec: boolean;
+  inUse: boolean;
+  pinned: boolean;
+}
+
+/**
+ * Parameters reported by the Enttec USB Pro. Times are in microseconds;
+ * outputRate is packets per second (0 = maximum). Null until read.
+ */
+export interface EnttecWidgetInfo {
+  firmware: string | null;
+  serialNumber: string | null;
+  breakTime: number | null;
+  mabTime: number | null;
+  outputRate: number | null;
+}
+
+/**
+ * Last DMX frame received by the Enttec USB Pro in receive mode.
+ */
+export interface EnttecInputFrame {
+  channels: number[];        // 512 slots
+  receivedAt: number | null; // null until a frame has arrived
+}
+
+/**
+ * Art-Net output configuration.
+ * Port-Address is net (0–127) : subnet (0–15) : universe (0–15).
+ */
+export interface ArtNetConfig {
+  enabled: boolean;
+  host: string;      // Node IP (unicast) or a broadcast address
+  net: number;
+  subnet: number;
+  universe: number;
+}
+
+/**
+ * An Art-Net node discovered via ArtPoll/ArtPollReply.
+ */
+export interface ArtNetNode {
+  ip: string;
+  shortName: string;
+  longName: string;
+  mac: string;
+  net: number;
+  subnet: number;
+  universes: number[]; // Output port universes (0–15)
+  lastSeen: number;
+}
+
+/**
+ * sACN (E1.31) output configuration.
+ */
+export interface SACNConfig {
+  enabled: boolean;
+  sourceName: string;
+  cid: string;         // Component Identifier (UUID), generated once per install
+  universe: number;    // 1–63999
+  priority: number;    // 0–200 (100 = default)
+  universePriorities: Record<number, number>; // Local universe → priority; others use `priority`
+  mode: 'multicast' | 'unicast';
+  unicastHosts: string[];
+}
+
+/**
+ * How a network input merges with the local programmer.
+ * 'htp': highest value wins; 'ltp': latest change wins;
+ * 'priority': takes over when its priority is above 100.
+ */
+export type MergePolicy = 'htp' | 'ltp' | 'priority';
+
+/**
+ * A network DMX input source (sACN or Art-Net) and its live status.
+ */
+export interface InputSource {
+  id: string;
+  name: string;
+  protocol: 'sacn' | 'artnet';
+  sourceUniverse: number;   // sACN universe or Art-Net Port-Address
+  universe: number;         // Local universe it merges into
+  policy: MergePolicy;
+  priority: number;         // Art-Net only; sACN sends its own
+  enabled: boolean;
+  active: boolean;
+  sender: string | null;
+  lastSeen: number | null;
+  effectivePriority: number;
 }
 
 /**
  * DMX universe state payload.
  */
 export interface DMXState {
-  channels: number[];
+  channels: number[]; // Every universe, back to back (512 per universe), inputs merged
   master: number;
+  owners?: Record<number, string>; // Channel → input source ID, for channels not held locally
+}
+
+/**
+ * Output-stage blackout. The programmer keeps its values, so restoring
+ * brings back the exact look.
+ */
+export interface BlackoutState {
+  active: boolean;  // Blacked out, or fading to it
+  level: number;    // Output intensity scale, 0–1
+  fading: boolean;
 }
 
 /**
- * Fade progress payload.
+ * 'manual': position set by the playback crossfader instead of the clock.
+ */
+export type FadeState = 'running' | 'reversing' | 'paused' | 'manual';
+
+/**
+ * A running fade, as listed by the fade engine. Concurrent fades each own a
+ * subset of channels; the newest fade wins a channel they share.
+ */
+export interface FadeInfo {
+  id: string;
+  label: string;        // Preset name, ...
+  presetId: string | null;
+  state: FadeState;
+  channelCount: number; // Channels the fade still owns
+  durationMs: number;
+  startedAt: number;    // Epoch ms (main process clock)
+  progress: number;     // 0–1 when the list was sent
+  remainingMs: number;
+}
+
+/**
+ * Fade progress payload. `fade:progress` carries one entry per running fade
+ * (an empty list once all fades end).
  */
 export interface FadeProgress {
+  id: string;
   percent: number;
+  presetId: string | null;
+  remainingMs: number;
+}
+
+/**
+ * Playback sequence state. GO/BACK run timed fades; the crossfader runs a
+ * manual fade to the staged preset, and its home end flips after each one.
+ */
+export interface PlaybackState {
+  sequence: string[];         // Preset IDs
+  currentIndex: number;       // Live preset; -1 before the first GO
+  nextIndex: number;          // Staged preset; -1 at the end
+  crossfader: number;         // 0–1
+  crossfaderInverted: boolean;
+  fadeId: string | null;
+  fadeState: FadeState | null;
+}
+
+/**
+ * A playback fader holding a preset at a level. Intensity merges HTP at the
+ * fader level; other channels the preset sets merge LTP.
+ */
+export interface SubmasterInfo {
+  number: number;             // 1-indexed
+  presetId: string | null;
+  presetName: string | null;  // null when unassigned or the preset was deleted
+  level: number;              // 0–100 (%)
+}
+
+/**
+ * A channel held at a parked value (absolute, bypasses the grand master and
+ * blackout) or locked at its programmer value (value null).
+ */
+export interface ParkEntry {
+  channel: number;            // Absolute channel
+  value: number | null;       // Parked output, or null when locked
+  address: string;            // universe.address
+  fixtureName: string | null;
+  channelName: string | null;
+}
+
+/**
+ * Waveform of a software effect.
+ */
+export type Waveform = 'sine' | 'square' | 'saw' | 'random' | 'flicker';
+
+/**
+ * A software LFO on one attribute of several fixtures and/or raw channels.
+ * The output swings between `offset` and `offset + size`; the phase is
+ * spread across the fixtures (then channels) in order.
+ */
+export interface Effect {
+  id: string;
+  name: string;
+  waveform: Waveform;
+  fixtureIds: string[];
+  attribute: string;    // "intensity" or a channel role such as "red"
+  channels: number[];   // Absolute channels
+  rate: number;         // Cycles per second
+  size: number;         // 0–255
+  offset: number;       // 0–255
+  phaseSpread: number;  // Degrees, 0–360
+  running: boolean;
+}
+
+/**
+ * Order a chase steps through its presets in.
+ */
+export type ChaseOrder = 'forward' | 'bounce' | 'random';
+
+export interface ChaseStep {
   presetId: string;
+  fade: number; // Fade into the step, ms
+  hold: number; // Hold after the fade, ms
+}
+
+/**
+ * A step chase over presets. With a BPM every step lasts one beat (fading
+ * for `crossfade` percent of it); otherwise each step uses its own times.
+ */
+export interface Chase {
+  id: string;
+  name: string;
+  steps: ChaseStep[];
+  order: ChaseOrder;
+  loop: boolean;
+  bpm: number | null;
+  crossfade: number;   // 0–100
+  running: boolean;
+  currentStep: number; // Index into steps; -1 when stopped
+}
+
+/**
+ * A cue in the cue list. Cues track: each stores only the channels it
+ * changes from the cue before.
+ */
+export interface CueInfo {
+  id: string;
+  number: number;          // e.g. 3, or point cue 3.5
+  label: string;
+  fadeTime: number;        // Fade up, ms
+  fadeOutTime: number | null; // Fade down, ms; null = fadeTime
+  delay: number;           // Wait after GO before the fade, ms
+  follow: number | null;   // Auto-GO the next cue this long after the fade; null = manual
+  channelCount: number;    // Channels the cue changes
+}
+
+/**
+ * Cue list state: the cues in number order, the live and standby cue, and
+ * the cue fade.
+ */
+export interface CueListState {
+  cues: CueInfo[];
+  currentId: string | null;  // null before the first GO
+  standbyId: string | null;  // null at the end of the list
+  fadeId: string | null;
+  fadeState: FadeState | null;
+  followAt: number | null;   // When a pending auto-follow GOes (epoch ms)
+}
+
+/**
+ * A cue to record: timing, and a preset as the look (default: the stage).
+ */
+export interface CueRecordOptions {
+  number?: number;
+  label?: string;
+  fadeTime?: number;
+  fadeOutTime?: number | null;
+  delay?: number;
+  follow?: number | null;
+  presetId?: string;
+}
+
+/**
+ * A timeline keyframe. The track eases into it from the keyframe before
+ * with its curve.
+ */
+export interface TimelineKeyframe {
+  id: string;
+  time: number;     // ms from the start
+  value: number;    // 0–255
+  easing: FadeCurve;
+}
+
+/**
+ * A timeline track: one attribute of a fixture, or a raw channel.
+ */
+export interface TimelineTrack {
+  id: string;
+  name: string;
+  fixtureId: string | null;
+  attribute: string;        // With a fixture: "intensity" or a channel role
+  channel: number | null;   // Raw absolute channel, without a fixture
+  keyframes: TimelineKeyframe[]; // Sorted by time
+}
+
+export interface TimelineTransport {
+  playing: boolean;
+  position: number; // ms
+  duration: number; // ms
+  loop: boolean;
+}
+
+export interface TimelineState extends TimelineTransport {
+  tracks: TimelineTrack[];
+}
+
+export type ScheduleTrigger = 'time' | 'interval' | 'once';
+export type ScheduleAction = 'preset' | 'blackout' | 'master' | 'cue';
+
+/**
+ * A schedule: runs an action at a time of day (on chosen weekdays), every
+ * N minutes, or once at a date and time.
+ */
+export interface Schedule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  trigger: ScheduleTrigger;
+  time: string;             // 'time': local time of day, "HH:MM"
+  days: number[];           // 'time': weekdays, 0 = Sunday; empty = every day
+  intervalMinutes: number;  // 'interval'
+  at: number | null;        // 'once': epoch ms
+  action: ScheduleAction;
+  presetId: string | null;  // 'preset'
+  fadeTime: number | null;  // 'preset': null = the preset's own timing; 'blackout': ms
+  state: 'on' | 'off';      // 'blackout'
+  level: number;            // 'master': 0–100 %
+  cue: number | null;       // 'cue': cue number to go to; null = GO
+  updatedAt: number;
+  lastFiredAt: number | null;
+  nextFireAt: number | null; // null when disabled or nothing is left to run
+}
+
+/**
+ * Idle auto-standby: fade to a preset after a stretch without activity.
+ */
+export interface IdleStandby {
+  enabled: boolean;
+  minutes: number;
+  presetId: string | null;
+  fadeTime: number | null; // null = the preset's own timing
+  active: boolean;         // In standby until the next activity
+}
+
+export interface ScheduleState {
+  schedules: Schedule[];
+  idle: IdleStandby;
+}
+
+/**
+ * OSC receive configuration (drives the playback from control surfaces).
+ */
+export interface OSCConfig {
+  enabled: boolean;
+  port: number;
 }
 
 /**
@@ -0,0 +1,33 @@
+/**
+ * Channels in the DMX buffer are addressed absolutely: universe 1 holds
+ * channels 1–512, universe 2 holds 513–1024, and so on. These helpers
+ * convert between that form and the universe.address shown to the user.
+ */
+
+export const UNIVERSE_SIZE = 512;
+export const MAX_UNIVERSES = 16;
+
+/**
+ * Convert a universe.address pair (both 1-indexed) to an absolute channel.
+ */
+export function toAbsoluteChannel(universe: number, address: number): number {
+  return (universe - 1) * UNIVERSE_SIZE + address;
+}
+
+/**
+ * Split an absolute channel into its universe and address.
+ */
+export function splitAddress(channel: number): { universe: number; address: number } {
+  return {
+    universe: Math.floor((channel - 1) / UNIVERSE_SIZE) + 1,
+    address: ((channel - 1) % UNIVERSE_SIZE) + 1,
+  };
+}
+
+/**
+ * Format an absolute channel as universe.address, e.g. 513 → "2.1".
+ */
+export function formatAddress(channel: number): string {
+  const { universe, address } = splitAddress(channel);
+  return `${universe}.${address}`;
+}
@@ -0,0 +1,45 @@
+import type { Fixture } from '../types';
+
+/**
+ * 16-bit channels: a profile channel may name a fine (LSB) partner, and the
+ * two are then controlled and faded as one 0–65535 value. Mirrors
+ * FixtureManager.getFinePairs in the main process.
+ */
+
+export const MAX_16BIT = 0xffff;
+
+/**
+ * Map each coarse channel of a 16-bit pair to its fine channel (absolute
+ * channels). When fixtures overlap, the first one wins.
+ */
+export function getFinePairs(fixtures: Fixture[]): Map<number, number> {
+  const pairs = new Map<number, number>();
+  for (const fixture of fixtures) {
+    if (!fixture.profile || !fixture.startAddress) continue;
+    const channelKeys = Object.keys(fixture.profile.channels).sort();
+    channelKeys.forEach((key, index) => {
+      const fineKey = fixture.profile!.channels[key].fine;
+      const fineIndex = fineKey ? channelKeys.indexOf(fineKey) : -1;
+      const coarse = fixture.startAddress! + index;
+      if (fineIndex !== -1 && fineIndex !== index && !pairs.has(coarse)) {
+        pairs.set(coarse, fixture.startAddress! + fineIndex);
+      }
+    });
+  }
+  return pairs;
+}
+
+/**
+ * Combined 16-bit value of a coarse/fine pair from the channel array.
+ */
+export function read16(channels: number[], coarse: number, fine: number): number {
+  return ((channels[coarse - 1] || 0) << 8) | (channels[fine - 1] || 0);
+}
+
+/**
+ * Split a 16-bit value into its coarse and fine bytes.
+ */
+export function split16(value: number): { coarse: number; fine: number } {
+  const clamped = Math.max(0, Math.min(MAX_16BIT, Math.round(value)));
+  return { coarse: clamped >> 8, fine: clamped & 0xff };
+}
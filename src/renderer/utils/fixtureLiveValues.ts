@@ -1,5 +1,6 @@
 import type { Fixture, FixtureProfile, ProfileMode } from '../types';
 import { inferChannelRole } from '../types';
+import { MAX_16BIT, read16 } from './fineChannels';
 
 /**
  * Live display values computed from a fixture's channels and the DMX state.
@@ -99,13 +100,19 @@ function computeProfileLiveValues(
     keyToDmx[key] = startAddress + index;
   });
 
+  // Level (0–1) of a channel, combined with its fine partner if it has one
+  const readLevel = (key: string): number => {
+    const dmxAddr = keyToDmx[key];
+    const fineKey = profile.channels[key]?.fine;
+    const fineAddr = fineKey ? keyToDmx[fineKey] : undefined;
+    return fineAddr ? read16(channels, dmxAddr, fineAddr) / MAX_16BIT : (channels[dmxAddr - 1] || 0) / 255;
+  };
+
   // Find dimmer channel
   for (const [key, def] of Object.entries(profile.channels)) {
     if (def.role === 'dimmer') {
-      const dmxAddr = keyToDmx[key];
-      if (dmxAddr) {
-        const raw = channels[dmxAddr - 1] || 0;
-        result.brightness = Math.round((raw / 255) * (master / 255) * 100);
+      if (keyToDmx[key]) {
+        result.brightness = Math.round(readLevel(key) * (master / 255) * 100);
       }
       break;
     }
@@ -137,10 +144,8 @@ function computeProfileLiveValues(
   // Check for temperature channel in profile
   for (const [key, def] of Object.entries(profile.channels)) {
     if (def.role === 'temperature' || def.role === 'temp') {
-      const dmxAddr = keyToDmx[key];
-      if (dmxAddr) {
-        const raw = channels[dmxAddr - 1] || 0;
-        const kelvin = Math.round(2700 + (raw / 255) * (6500 - 2700));
+      if (keyToDmx[key]) {
+        const kelvin = Math.round(2700 + readLevel(key) * (6500 - 2700));
         result.colorTemp = `${kelvin}K`;
         // Tint glow to color temp if no HSB color is active
         if (!result.hsb) {